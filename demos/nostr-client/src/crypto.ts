@@ -1,5 +1,5 @@
-import { normalizePassphrase, deriveMasterKey, forNostr } from '@seedid/core';
-import { utils, schnorr } from '@noble/secp256k1';
+import { normalizePassphrase, deriveMasterKey, nostrSigner, verifySchnorrDigest, zeroize } from '@seedid/core';
+import type { Signer } from '@seedid/core';
 import { sha256 } from '@noble/hashes/sha256';
 
 export type NostrEvent = {
@@ -26,26 +26,18 @@ export function hexToBytes(hex: string): Uint8Array {
   return bytes;
 }
 
-export async function deriveNostrRootFromPassphrase(passphrase: string): Promise<Uint8Array> {
+/**
+ * Derive the master from a passphrase and return an opaque Nostr signer. The master is wiped
+ * before returning; the private key stays inside the signer (call signer.dispose() when done).
+ */
+export async function nostrSignerFromPassphrase(passphrase: string): Promise<Signer> {
   const normalized = normalizePassphrase(passphrase);
   const master = await deriveMasterKey(normalized, { algorithm: 'argon2id' });
-  const root = await forNostr(master);
-  return root;
-}
-
-export async function deriveNostrKeysFromRoot(root: Uint8Array): Promise<{ priv: Uint8Array; pubXOnlyHex: string }>{
-  // Deterministically map HKDF root to a valid secp256k1 private key.
-  // Try root, else rehash until valid.
-  let candidate = new Uint8Array(root);
-  for (let i = 0; i < 8; i++) {
-    if (utils.isValidPrivateKey(candidate)) break;
-    candidate = new Uint8Array(sha256(candidate));
-  }
-  if (!utils.isValidPrivateKey(candidate)) {
-    throw new Error('Unable to derive valid secp256k1 private key from root');
+  try {
+    return await nostrSigner(master);
+  } finally {
+    zeroize(master);
   }
-  const pubX = await schnorr.getPublicKey(candidate); // 32-byte x-only
-  return { priv: candidate, pubXOnlyHex: bytesToHex(pubX) };
 }
 
 export function serializeEventForId(evt: NostrEvent, pubkeyHexXOnly: string): string {
@@ -54,10 +46,16 @@ export function serializeEventForId(evt: NostrEvent, pubkeyHexXOnly: string): st
   return JSON.stringify(payload);
 }
 
-export async function signEventWithPriv(priv: Uint8Array, evt: NostrEvent, pubkeyHexXOnly?: string): Promise<NostrEvent> {
-  const pub = pubkeyHexXOnly ?? bytesToHex(await schnorr.getPublicKey(priv));
+export async function signEvent(signer: Signer, evt: NostrEvent): Promise<NostrEvent> {
+  const pub = bytesToHex(signer.getPublicKey());
   const ser = serializeEventForId(evt, pub);
-  const id = bytesToHex(sha256(new TextEncoder().encode(ser)));
-  const sig = await schnorr.sign(id, priv);
-  return { ...evt, pubkey: pub, id, sig: typeof sig === 'string' ? sig : bytesToHex(sig) };
+  const id = sha256(new TextEncoder().encode(ser));
+  const sig = await signer.signDigest(id);
+  return { ...evt, pubkey: pub, id: bytesToHex(id), sig: bytesToHex(sig) };
+}
+
+export function verifyEvent(evt: NostrEvent): boolean {
+  if (!evt.pubkey || !evt.id || !evt.sig) return false;
+  const id = sha256(new TextEncoder().encode(serializeEventForId(evt, evt.pubkey)));
+  return bytesToHex(id) === evt.id && verifySchnorrDigest(hexToBytes(evt.sig), id, hexToBytes(evt.pubkey));
 }
@@ -1,4 +1,4 @@
-import { deriveNostrRootFromPassphrase, deriveNostrKeysFromRoot, signEventWithPriv } from './crypto.js';
+import { nostrSignerFromPassphrase, signEvent } from './crypto.js';
 
 async function main() {
   const args = process.argv.slice(2);
@@ -13,13 +13,13 @@ async function main() {
     process.exit(1);
   }
 
-  // Derive Nostr root and keypair
-  const root = await deriveNostrRootFromPassphrase(passphrase);
-  const { priv, pubXOnlyHex } = await deriveNostrKeysFromRoot(root);
+  // Derive the Nostr signer; the private key never leaves it
+  const signer = await nostrSignerFromPassphrase(passphrase);
 
   // Build and sign a minimal Nostr event (kind 1)
   const evt = { kind: 1, content, created_at: createdAt };
-  const signed = await signEventWithPriv(priv, evt, pubXOnlyHex);
+  const signed = await signEvent(signer, evt);
+  signer.dispose();
 
   console.log(JSON.stringify({ pubkey: signed.pubkey, id: signed.id, sig: signed.sig, content: signed.content, created_at: signed.created_at }, null, 2));
 }
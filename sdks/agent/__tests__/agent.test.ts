@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import net from 'node:net';
+import { spawn } from 'node:child_process';
+import { mkdtempSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { SeedIdSession, verifySchnorrDigest, verifyEd25519Message, nostrSigner } from '@seedid/core';
+import { verifyEthMessage, verifyBtcMessage, verifySolMessage, ethSigner } from '@seedid/wallets';
+import bs58 from 'bs58';
+import { AgentServer, AgentClient, AgentWalletProvider, AgentError, decide, parsePolicy, DEFAULT_POLICY } from '../src/index.js';
+import type { AgentPolicy, ConfirmRequest } from '../src/index.js';
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => i * 3 + 1);
+
+let dir: string;
+let socketPath: string;
+let session: SeedIdSession;
+let server: AgentServer;
+
+async function start(policy?: AgentPolicy, confirm?: (r: ConfirmRequest) => boolean) {
+  server = new AgentServer({ session, socketPath, policy, confirm });
+  await server.listen();
+}
+
+// Send raw lines and collect the parsed responses.
+function raw(lines: string[], count: number): Promise<any[]> {
+  return rawChunks([Buffer.from(lines.map((l) => `${l}\n`).join(''))], count);
+}
+
+// Write each chunk as its own read on the server side.
+function rawChunks(chunks: Buffer[], count: number): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    const out: any[] = [];
+    let buf = '';
+    const socket = net.connect(socketPath, async () => {
+      for (const chunk of chunks) {
+        socket.write(chunk);
+        await new Promise((r) => setTimeout(r, 20));
+      }
+    });
+    socket.on('data', (chunk) => {
+      buf += chunk.toString();
+      const parts = buf.split('\n');
+      buf = parts.pop()!;
+      out.push(...parts.map((p) => JSON.parse(p)));
+      if (out.length >= count) {
+        socket.destroy();
+        resolve(out);
+      }
+    });
+    socket.on('error', reject);
+  });
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'seedid-agent-test-'));
+  socketPath = join(dir, 'run', 'agent.sock');
+  session = SeedIdSession.fromMasterKey(MASTER.slice(), { idleTimeoutMs: Infinity });
+});
+
+afterEach(async () => {
+  await server?.close();
+  session.lock();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('seedid-agent', () => {
+  it('serves identities and verifiable signatures for every chain', async () => {
+    await start({ default: { allow: ['*'] } });
+    expect(statSync(socketPath).mode & 0o777).toBe(0o600);
+    expect(statSync(join(dir, 'run')).mode & 0o777).toBe(0o700);
+
+    const agent = await AgentClient.connect({ client: 'test', socketPath });
+    try {
+      const ids = await agent.identities(1);
+      const eth = await ethSigner(session, 1);
+      expect(ids.eth.address).toBe(eth.address);
+      eth.dispose();
+      expect(ids.index).toBe(1);
+      expect(ids.did.id).toMatch(/^did:key:z6Mk/);
+
+      const message = 'Sign in to example.com';
+      const [e, b, s] = await Promise.all([
+        agent.signMessage('eth', message, 1),
+        agent.signMessage('btc', message, 1),
+        agent.signMessage('sol', message, 1),
+      ]);
+      expect(verifyEthMessage(e.signature, message, ids.eth.address)).toBe(true);
+      expect(verifyBtcMessage(b.signature, message, ids.btc.address)).toBe(true);
+      expect(verifySolMessage(s.signature, message, ids.sol.address)).toBe(true);
+      expect(s.address).toBe(ids.sol.address);
+
+      const event = await agent.signNostrEvent({ kind: 1, created_at: 1700000000, tags: [['t', 'seedid']], content: 'gm' });
+      const id = sha256(new TextEncoder().encode(JSON.stringify([0, event.pubkey, 1700000000, 1, [['t', 'seedid']], 'gm'])));
+      expect(event.id).toBe(bytesToHex(id));
+      expect(event.pubkey).toBe(ids.nostr.pubkey);
+      const nostr = await nostrSigner(MASTER);
+      expect(event.pubkey).toBe(bytesToHex(nostr.getPublicKey()));
+      expect(verifySchnorrDigest(hexToBytes(event.sig), id, hexToBytes(event.pubkey))).toBe(true);
+
+      const { jws, kid } = await agent.signJws('{"sub":"alice"}', { typ: 'JWT' });
+      const [header, payload, sig] = jws.split('.');
+      expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ typ: 'JWT', alg: 'EdDSA', kid });
+      expect(Buffer.from(payload, 'base64url').toString()).toBe('{"sub":"alice"}');
+      expect(kid).toBe(`${ids.did.id}#${ids.did.id.slice(8)}`);
+      const publicKey = bs58.decode(ids.did.id.slice(9)).subarray(2);
+      expect(verifyEd25519Message(Buffer.from(sig, 'base64url'), `${header}.${payload}`, publicKey)).toBe(true);
+    } finally {
+      agent.close();
+    }
+  });
+
+  it('leaves no derived secrets tracked by the session between requests', async () => {
+    await start({ default: { allow: ['*'] } });
+    const agent = await AgentClient.connect({ client: 'test', socketPath });
+    try {
+      for (let i = 0; i < 25; i++) {
+        await agent.identities(i);
+        await agent.signNostrEvent({ kind: 1, created_at: 1700000000 + i, tags: [], content: `gm ${i}` });
+        await agent.signMessage('eth', 'gm', i);
+        await agent.signJws('{}');
+      }
+      expect(session.issuedCount).toBe(0);
+    } finally {
+      agent.close();
+    }
+  });
+
+  it('reassembles multi-byte characters split across reads', async () => {
+    await start({ default: { allow: ['*'] } });
+    const content = 'gm 日本 🌅';
+    const event = { kind: 1, created_at: 1700000000, tags: [], content };
+    const bytes = Buffer.from(
+      [
+        JSON.stringify({ v: 1, id: 'h', method: 'hello', params: { client: 'raw' } }),
+        JSON.stringify({ v: 1, id: 's', method: 'nostr.signEvent', params: { event } }),
+      ]
+        .map((l) => `${l}\n`)
+        .join('')
+    );
+    const cut = bytes.indexOf(Buffer.from('日')) + 1;
+    const [, signed] = await rawChunks([bytes.subarray(0, cut), bytes.subarray(cut)], 2);
+    expect(signed.result.event.content).toBe(content);
+    const id = sha256(new TextEncoder().encode(JSON.stringify([0, signed.result.event.pubkey, 1700000000, 1, [], content])));
+    expect(signed.result.event.id).toBe(bytesToHex(id));
+  });
+
+  it('applies per-client allow lists and confirmations', async () => {
+    const prompts: ConfirmRequest[] = [];
+    const policy = parsePolicy({
+      clients: { git: { allow: ['identities', 'did.signJws'] }, wallet: { allow: ['identities'], confirm: ['eth.signMessage'] } },
+    });
+    await start(policy, (r) => (prompts.push(r), r.summary.includes('"yes"')));
+
+    const git = await AgentClient.connect({ client: 'git', socketPath });
+    const wallet = await AgentClient.connect({ client: 'wallet', socketPath });
+    const stranger = await AgentClient.connect({ client: 'stranger', socketPath });
+    try {
+      await expect(git.signJws('x')).resolves.toMatchObject({ kid: expect.stringMatching(/^did:key:/) });
+      await expect(git.signMessage('eth', 'x')).rejects.toMatchObject({ code: 'denied' });
+
+      await expect(wallet.signMessage('eth', 'yes')).resolves.toMatchObject({ address: expect.stringMatching(/^0x/) });
+      await expect(wallet.signMessage('eth', 'no')).rejects.toThrow(AgentError);
+      await expect(wallet.signMessage('btc', 'yes')).rejects.toMatchObject({ code: 'denied' });
+      expect(prompts.map((p) => [p.client, p.method])).toEqual([
+        ['wallet', 'eth.signMessage'],
+        ['wallet', 'eth.signMessage'],
+      ]);
+      expect(prompts[0].summary).toBe('sign ETH message "yes" with account 0');
+
+      // No `default` rule: unknown clients are denied everything but hello.
+      await expect(stranger.identities()).rejects.toMatchObject({ code: 'denied' });
+    } finally {
+      git.close();
+      wallet.close();
+      stranger.close();
+    }
+
+    expect(decide(DEFAULT_POLICY, 'anyone', 'identities')).toBe('allow');
+    expect(decide(DEFAULT_POLICY, 'anyone', 'nostr.signEvent')).toBe('confirm');
+    expect(decide({ default: { allow: ['*'], confirm: ['lock'] } }, 'x', 'lock')).toBe('confirm');
+    expect(() => parsePolicy({ default: { allow: ['eth.sign'] } })).toThrow(/unknown method/);
+  });
+
+  it('rejects malformed requests', async () => {
+    await start({ default: { allow: ['*'] } });
+    const responses = await raw(
+      [
+        '{not json',
+        JSON.stringify({ v: 1, id: 'a', method: 'identities' }),
+        JSON.stringify({ v: 1, id: 'b', method: 'hello', params: { client: 'raw' } }),
+        JSON.stringify({ v: 1, id: 'c', method: 'eth.sign' }),
+        JSON.stringify({ v: 2, id: 'd', method: 'identities' }),
+        JSON.stringify({ v: 1, id: 'e', method: 'eth.signMessage', params: { message: 'xyz' } }),
+        JSON.stringify({ v: 1, id: 'f', method: 'nostr.signEvent', params: { event: { kind: -1 } } }),
+        JSON.stringify({ v: 1, id: 'g', method: 'identities', params: { index: 1.5 } }),
+      ],
+      8
+    );
+    const byId = Object.fromEntries(responses.map((r) => [r.id, r]));
+    expect(byId[''].error.code).toBe('bad_request');
+    expect(byId.a.error).toEqual({ code: 'bad_request', message: 'First request must be hello' });
+    expect(byId.b.result).toMatchObject({ agent: 'seedid-agent', protocol: 1 });
+    expect(byId.c.error.code).toBe('unknown_method');
+    expect(byId.d.error.code).toBe('bad_request');
+    expect(byId.e.error).toEqual({ code: 'bad_request', message: 'Invalid message' });
+    expect(byId.f.error.code).toBe('bad_request');
+    expect(byId.g.error.code).toBe('bad_request');
+  });
+
+  it('locks on request, and refuses to replace a live agent', async () => {
+    await start({ default: { allow: ['*'] } });
+    await expect(new AgentServer({ session, socketPath }).listen()).rejects.toThrow(/already listening/);
+
+    const agent = await AgentClient.connect({ client: 'test', socketPath });
+    try {
+      await agent.lock();
+      expect(session.locked).toBe(true);
+      await expect(agent.signMessage('sol', 'gm')).rejects.toMatchObject({ code: 'locked' });
+    } finally {
+      agent.close();
+    }
+
+    // A socket left behind by a killed agent is replaced; other files are not touched.
+    await server.close();
+    const child = spawn(process.execPath, [
+      '-e',
+      `require('node:net').createServer().listen(${JSON.stringify(socketPath)}, () => console.log('up'))`,
+    ]);
+    await new Promise((resolve) => child.stdout.once('data', resolve));
+    const exited = new Promise((resolve) => child.once('exit', resolve));
+    child.kill('SIGKILL');
+    await exited;
+    expect(statSync(socketPath).isSocket()).toBe(true);
+    session = SeedIdSession.fromMasterKey(MASTER.slice(), { idleTimeoutMs: Infinity });
+    await start();
+    expect(server.listening).toBe(true);
+    await server.close();
+
+    writeFileSync(socketPath, 'not a socket');
+    await expect(new AgentServer({ session, socketPath }).listen()).rejects.toThrow(/not a socket/);
+  });
+
+  it('implements WalletProvider over the agent', async () => {
+    await start({ clients: { 'wallet-provider': { allow: ['*'] } } });
+    const provider = new AgentWalletProvider({ chain: 'sol', socketPath, index: 2 });
+    expect(provider.type).toBe('seedid-agent');
+    await expect(provider.getAddress()).rejects.toThrow(/Not connected/);
+    await provider.connect();
+    try {
+      const address = await provider.getAddress();
+      expect(bs58.encode(await provider.getPublicKey())).toBe(address);
+      const message = new TextEncoder().encode('gm');
+      expect(verifySolMessage(await provider.signMessage(message), message, address)).toBe(true);
+      await expect(provider.signMessage(new Uint8Array(0))).rejects.toThrow(/non-empty/);
+
+      const disconnected = new Promise<void>((resolve) => provider.once('disconnect', () => resolve()));
+      await server.close();
+      await disconnected;
+      expect(provider.isConnected()).toBe(false);
+    } finally {
+      await provider.disconnect();
+    }
+  });
+});
@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+/**
+ * seedid-agent: unlock a master key once and serve signatures over a Unix socket.
+ *
+ *   eval "$(seedid-agent --params 'seedid1$...')"            # passphrase from the TTY or $SEEDID_PASSPHRASE
+ *   eval "$(seedid-agent --keystore ~/.seedid/master.json)"  # PIN from the TTY or $SEEDID_KEYSTORE_PIN
+ *
+ * The agent stays in the foreground (run it in its own terminal or under a process manager) so
+ * it can ask for confirmations there; it exits when its session locks.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { Writable } from 'node:stream';
+import { parseArgs } from 'node:util';
+import { SeedIdSession, deriveMasterKey, kdfParamsFromString, parseDerivationParams } from '@seedid/core';
+import { AgentServer } from './server.js';
+import type { ConfirmRequest } from './server.js';
+import { DEFAULT_POLICY, parsePolicy } from './policy.js';
+import { SOCKET_ENV, defaultSocketPath } from './paths.js';
+
+const USAGE = `Usage: seedid-agent (--params <seedid1$...> | --keystore <file>) [options]
+
+  --params <string>       derivation parameter string; passphrase from $SEEDID_PASSPHRASE or the TTY
+  --pepper-file <file>    pepper for --params derivations that used one (raw file bytes)
+  --keystore <file>       master-key keystore; PIN from $SEEDID_KEYSTORE_PIN or the TTY
+  --socket <path>         socket path (default: $${SOCKET_ENV} or a per-user runtime directory)
+  --policy <file>         JSON policy of per-client allow/confirm lists
+  --idle-timeout <secs>   lock after this much inactivity (default 300, 0 = never)
+`;
+
+async function prompt(question: string, hidden: boolean): Promise<string> {
+  if (!process.stdin.isTTY) throw new Error(`${question.trim()} needs a TTY`);
+  process.stderr.write(question);
+  const output = hidden ? new Writable({ write: (_chunk, _enc, cb) => cb() }) : process.stderr;
+  const rl = createInterface({ input: process.stdin, output, terminal: true });
+  try {
+    return await new Promise<string>((resolve) => rl.question('', resolve));
+  } finally {
+    rl.close();
+    if (hidden) process.stderr.write('\n');
+  }
+}
+
+// One prompt at a time; requests that arrive meanwhile wait their turn.
+function ttyConfirm(): ((request: ConfirmRequest) => Promise<boolean>) | undefined {
+  if (!process.stdin.isTTY) return undefined;
+  let queue = Promise.resolve(false);
+  return (request) =>
+    (queue = queue.then(
+      async () => /^y(es)?$/i.test((await prompt(`[seedid-agent] ${request.client}: ${request.summary}. Allow? [y/N] `, false)).trim()),
+      () => false
+    ));
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      params: { type: 'string' },
+      'pepper-file': { type: 'string' },
+      keystore: { type: 'string' },
+      socket: { type: 'string' },
+      policy: { type: 'string' },
+      'idle-timeout': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help || !!values.params === !!values.keystore) {
+    process.stderr.write(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  if (values.keystore && values['pepper-file']) throw new Error('--pepper-file only applies to --params');
+
+  const idleSecs = Number(values['idle-timeout'] ?? 300);
+  if (!Number.isFinite(idleSecs) || idleSecs < 0) throw new Error('--idle-timeout must be a number of seconds');
+  const policy = values.policy ? parsePolicy(JSON.parse(await readFile(values.policy, 'utf8'))) : DEFAULT_POLICY;
+
+  let server: AgentServer | undefined;
+  const sessionOptions = {
+    idleTimeoutMs: idleSecs === 0 ? Infinity : idleSecs * 1000,
+    onLock: (reason: string) => {
+      process.stderr.write(`[seedid-agent] locked (${reason}), exiting\n`);
+      void (server?.close() ?? Promise.resolve()).then(() => process.exit(0));
+    },
+  };
+
+  let session: SeedIdSession;
+  if (values.keystore) {
+    const json = await readFile(values.keystore, 'utf8');
+    const pin = process.env.SEEDID_KEYSTORE_PIN ?? (await prompt('Keystore PIN: ', true));
+    session = await SeedIdSession.fromKeystore(json, pin, sessionOptions);
+  } else {
+    if (!values.params) throw new Error('--params is required without --keystore');
+    const pepperFile = values['pepper-file'];
+    if (parseDerivationParams(values.params).pepper.mode === 'appended' && !pepperFile) {
+      throw new Error('--params records a pepper: supply it with --pepper-file');
+    }
+    const params = kdfParamsFromString(values.params, pepperFile ? { pepper: () => readFile(pepperFile) } : undefined);
+    const passphrase = process.env.SEEDID_PASSPHRASE ?? (await prompt('Passphrase: ', true));
+    session = SeedIdSession.fromMasterKey(await deriveMasterKey(passphrase, params), sessionOptions);
+  }
+
+  server = new AgentServer({
+    session,
+    socketPath: values.socket ?? defaultSocketPath(),
+    policy,
+    confirm: ttyConfirm(),
+  });
+  const socketPath = await server.listen();
+  process.stdout.write(`${SOCKET_ENV}=${socketPath}; export ${SOCKET_ENV};\n`);
+  process.stderr.write(`[seedid-agent] listening on ${socketPath}\n`);
+
+  for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) process.once(signal, () => session.lock());
+}
+
+main().catch((e) => {
+  console.error(`seedid-agent: ${e instanceof Error ? e.message : String(e)}`);
+  process.exit(1);
+});
@@ -0,0 +1,140 @@
+/**
+ * AgentClient: talks to a running seedid-agent over its Unix socket.
+ *
+ * @example
+ * const agent = await AgentClient.connect({ client: 'my-cli' });
+ * const { address, signature } = await agent.signMessage('eth', 'Sign in to example.com');
+ * agent.close();
+ */
+
+import net from 'node:net';
+import EventEmitter from 'eventemitter3';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { AgentError } from './errors.js';
+import { defaultSocketPath } from './paths.js';
+import { AGENT_PROTOCOL_VERSION, encodeMessage, lineReader } from './protocol.js';
+import type {
+  AgentChain,
+  AgentIdentities,
+  AgentMethod,
+  AgentParams,
+  AgentResponse,
+  AgentResult,
+  SignedNostrEvent,
+  UnsignedNostrEvent,
+} from './protocol.js';
+
+export type AgentClientOptions = {
+  /** Name sent in `hello`; the agent's policy is keyed by it. */
+  client: string;
+  socketPath?: string;
+};
+
+type Pending = { resolve: (value: unknown) => void; reject: (err: Error) => void };
+
+function messageBytes(message: Uint8Array | string): Uint8Array {
+  return typeof message === 'string' ? new TextEncoder().encode(message) : message;
+}
+
+export class AgentClient extends EventEmitter<{ close: [] }> {
+  readonly socketPath: string;
+  #socket: net.Socket;
+  #pending = new Map<string, Pending>();
+  #nextId = 1;
+  #closed = false;
+
+  private constructor(socket: net.Socket, socketPath: string) {
+    super();
+    this.#socket = socket;
+    this.socketPath = socketPath;
+    socket.on('data', lineReader((line) => this.#receive(line), () => socket.destroy()));
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      this.#closed = true;
+      for (const { reject } of this.#pending.values()) reject(new AgentError('internal', 'Agent connection closed'));
+      this.#pending.clear();
+      this.emit('close');
+    });
+  }
+
+  /** Connect and introduce ourselves with `hello`. */
+  static async connect(opts: AgentClientOptions): Promise<AgentClient> {
+    const socketPath = opts.socketPath ?? defaultSocketPath();
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const s = net.connect(socketPath);
+      s.once('connect', () => {
+        s.off('error', reject);
+        resolve(s);
+      });
+      s.once('error', reject);
+    });
+    const client = new AgentClient(socket, socketPath);
+    try {
+      await client.request('hello', { client: opts.client });
+    } catch (err) {
+      client.close();
+      throw err;
+    }
+    return client;
+  }
+
+  get closed(): boolean {
+    return this.#closed;
+  }
+
+  request<M extends AgentMethod>(method: M, params: AgentParams<M>): Promise<AgentResult<M>> {
+    if (this.#closed) return Promise.reject(new AgentError('internal', 'Agent connection closed'));
+    const id = String(this.#nextId++);
+    return new Promise((resolve, reject) => {
+      this.#pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      this.#socket.write(encodeMessage({ v: AGENT_PROTOCOL_VERSION, id, method, params }));
+    });
+  }
+
+  identities(index: number = 0): Promise<AgentIdentities> {
+    return this.request('identities', { index });
+  }
+
+  async signNostrEvent(event: UnsignedNostrEvent): Promise<SignedNostrEvent> {
+    return (await this.request('nostr.signEvent', { event })).event;
+  }
+
+  /** ETH: EIP-191 r || s || v; BTC: BIP-137; SOL: Ed25519 over the raw message. */
+  async signMessage(
+    chain: AgentChain,
+    message: Uint8Array | string,
+    index: number = 0
+  ): Promise<{ address: string; signature: Uint8Array }> {
+    const result = await this.request(`${chain}.signMessage`, { message: bytesToHex(messageBytes(message)), index });
+    return { address: result.address, signature: hexToBytes(result.signature) };
+  }
+
+  /** Compact JWS (EdDSA) over `payload`, signed by the agent's did:key. */
+  signJws(payload: Uint8Array | string, header?: Record<string, unknown>): Promise<{ jws: string; kid: string }> {
+    const encoded = Buffer.from(messageBytes(payload)).toString('base64url');
+    return this.request('did.signJws', header ? { payload: encoded, header } : { payload: encoded });
+  }
+
+  /** Ask the agent to lock its session. Later requests fail with `locked`. */
+  async lock(): Promise<void> {
+    await this.request('lock', {});
+  }
+
+  close(): void {
+    this.#socket.end();
+  }
+
+  #receive(line: string): void {
+    let response: AgentResponse;
+    try {
+      response = JSON.parse(line);
+    } catch {
+      return;
+    }
+    const pending = this.#pending.get(response?.id);
+    if (!pending) return;
+    this.#pending.delete(response.id);
+    if ('error' in response) pending.reject(new AgentError(response.error.code, response.error.message));
+    else pending.resolve(response.result);
+  }
+}
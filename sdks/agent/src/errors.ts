@@ -0,0 +1,11 @@
+import type { AgentErrorCode } from './protocol.js';
+
+/** An error response from seedid-agent (or a protocol failure), with its wire code. */
+export class AgentError extends Error {
+  readonly code: AgentErrorCode;
+  constructor(code: AgentErrorCode, message: string) {
+    super(message);
+    this.name = 'AgentError';
+    this.code = code;
+  }
+}
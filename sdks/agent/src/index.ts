@@ -0,0 +1,31 @@
+// Server
+export { AgentServer } from './server.js';
+export type { AgentServerOptions, ConfirmRequest } from './server.js';
+
+// Client
+export { AgentClient } from './client.js';
+export type { AgentClientOptions } from './client.js';
+export { AgentWalletProvider } from './provider.js';
+export type { AgentWalletProviderOptions } from './provider.js';
+
+// Policies
+export { DEFAULT_POLICY, decide, parsePolicy } from './policy.js';
+export type { AgentPolicy, ClientRule, MethodPattern, PolicyDecision } from './policy.js';
+
+// Protocol
+export { AGENT_PROTOCOL_VERSION, AGENT_METHODS, MAX_MESSAGE_BYTES, isAgentMethod } from './protocol.js';
+export type {
+  AgentChain,
+  AgentErrorCode,
+  AgentIdentities,
+  AgentMethod,
+  AgentMethods,
+  AgentParams,
+  AgentResult,
+  AgentRequest,
+  AgentResponse,
+  UnsignedNostrEvent,
+  SignedNostrEvent,
+} from './protocol.js';
+export { AgentError } from './errors.js';
+export { defaultSocketPath, SOCKET_ENV } from './paths.js';
@@ -0,0 +1,15 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+export const SOCKET_ENV = 'SEEDID_AGENT_SOCK';
+
+/**
+ * $SEEDID_AGENT_SOCK, else $XDG_RUNTIME_DIR/seedid-agent/agent.sock, else
+ * <tmpdir>/seedid-agent-<uid>/agent.sock.
+ */
+export function defaultSocketPath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env[SOCKET_ENV]) return env[SOCKET_ENV] as string;
+  if (env.XDG_RUNTIME_DIR) return join(env.XDG_RUNTIME_DIR, 'seedid-agent', 'agent.sock');
+  const uid = typeof process.getuid === 'function' ? process.getuid() : 'user';
+  return join(tmpdir(), `seedid-agent-${uid}`, 'agent.sock');
+}
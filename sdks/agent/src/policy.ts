@@ -0,0 +1,74 @@
+/**
+ * Per-client policies
+ *
+ * A policy maps the client name sent in `hello` to the methods it may call outright (`allow`) and
+ * the methods that need an interactive confirmation first (`confirm`). Anything else is denied.
+ * `hello` is always allowed; `'*'` matches every other method. Clients without an entry fall back
+ * to `default`.
+ */
+
+import type { AgentMethod } from './protocol.js';
+import { isAgentMethod } from './protocol.js';
+
+export type MethodPattern = AgentMethod | '*';
+
+export type ClientRule = {
+  allow?: MethodPattern[];
+  confirm?: MethodPattern[];
+};
+
+export type AgentPolicy = {
+  clients?: Record<string, ClientRule>;
+  default?: ClientRule;
+};
+
+export type PolicyDecision = 'allow' | 'confirm' | 'deny';
+
+/** Unknown clients may list identities; every signature needs a confirmation. */
+export const DEFAULT_POLICY: AgentPolicy = {
+  default: { allow: ['identities'], confirm: ['*'] },
+};
+
+function matches(patterns: MethodPattern[] | undefined, method: AgentMethod): boolean {
+  return !!patterns && (patterns.includes('*') || patterns.includes(method));
+}
+
+export function decide(policy: AgentPolicy, client: string, method: AgentMethod): PolicyDecision {
+  if (method === 'hello') return 'allow';
+  const rule = policy.clients?.[client] ?? policy.default;
+  if (!rule) return 'deny';
+  // Explicit method names win over wildcards in the other list.
+  if (rule.allow?.includes(method)) return 'allow';
+  if (rule.confirm?.includes(method)) return 'confirm';
+  if (matches(rule.allow, method)) return 'allow';
+  if (matches(rule.confirm, method)) return 'confirm';
+  return 'deny';
+}
+
+/** Validate a policy loaded from JSON; throws on unknown methods or malformed rules. */
+export function parsePolicy(input: unknown): AgentPolicy {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) throw new Error('Policy must be a JSON object');
+  const { clients, default: fallback } = input as Record<string, unknown>;
+  const rule = (value: unknown, where: string): ClientRule => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`${where} must be an object`);
+    const out: ClientRule = {};
+    for (const key of ['allow', 'confirm'] as const) {
+      const list = (value as Record<string, unknown>)[key];
+      if (list === undefined) continue;
+      if (!Array.isArray(list)) throw new Error(`${where}.${key} must be an array`);
+      for (const m of list) {
+        if (m !== '*' && !isAgentMethod(m)) throw new Error(`${where}.${key}: unknown method ${JSON.stringify(m)}`);
+      }
+      out[key] = list as MethodPattern[];
+    }
+    return out;
+  };
+  const policy: AgentPolicy = {};
+  if (fallback !== undefined) policy.default = rule(fallback, 'default');
+  if (clients !== undefined) {
+    if (!clients || typeof clients !== 'object' || Array.isArray(clients)) throw new Error('clients must be an object');
+    policy.clients = {};
+    for (const [name, value] of Object.entries(clients)) policy.clients[name] = rule(value, `clients.${name}`);
+  }
+  return policy;
+}
@@ -0,0 +1,111 @@
+/**
+ * seedid-agent wire protocol (version 1)
+ *
+ * Transport: a Unix domain socket (mode 0600 inside a 0700 directory). Each message is one JSON
+ * object on one line (UTF-8, `\n`-terminated, at most MAX_MESSAGE_BYTES). Clients may pipeline
+ * requests; responses carry the request id and can arrive in any order.
+ *
+ *   request:  {"v":1,"id":"7","method":"eth.signMessage","params":{"message":"68656c6c6f"}}
+ *   result:   {"v":1,"id":"7","result":{"address":"0x…","signature":"…"}}
+ *   error:    {"v":1,"id":"7","error":{"code":"denied","message":"…"}}
+ *
+ * The first request on a connection must be `hello`; its `client` name is what policies match.
+ * Byte strings are lowercase hex without 0x. See README.md for every method.
+ */
+
+export const AGENT_PROTOCOL_VERSION = 1;
+export const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+export type AgentChain = 'eth' | 'btc' | 'sol';
+
+export type UnsignedNostrEvent = {
+  kind: number;
+  created_at: number;
+  tags?: string[][];
+  content: string;
+};
+
+export type SignedNostrEvent = Required<UnsignedNostrEvent> & { id: string; pubkey: string; sig: string };
+
+export type AgentIdentities = {
+  index: number;
+  nostr: { pubkey: string };
+  eth: { address: string; publicKey: string };
+  btc: { address: string; publicKey: string };
+  sol: { address: string; publicKey: string };
+  did: { id: string; kid: string };
+};
+
+/** Method name -> [params, result]. */
+export interface AgentMethods {
+  hello: [{ client: string }, { agent: 'seedid-agent'; protocol: number; methods: AgentMethod[] }];
+  identities: [{ index?: number }, AgentIdentities];
+  'nostr.signEvent': [{ event: UnsignedNostrEvent }, { event: SignedNostrEvent }];
+  'eth.signMessage': [{ message: string; index?: number }, { address: string; signature: string }];
+  'btc.signMessage': [{ message: string; index?: number }, { address: string; signature: string }];
+  'sol.signMessage': [{ message: string; index?: number }, { address: string; signature: string }];
+  'did.signJws': [{ payload: string; header?: Record<string, unknown> }, { jws: string; kid: string }];
+  lock: [Record<string, never>, Record<string, never>];
+}
+
+export type AgentMethod = keyof AgentMethods;
+export type AgentParams<M extends AgentMethod> = AgentMethods[M][0];
+export type AgentResult<M extends AgentMethod> = AgentMethods[M][1];
+
+export const AGENT_METHODS: readonly AgentMethod[] = [
+  'hello',
+  'identities',
+  'nostr.signEvent',
+  'eth.signMessage',
+  'btc.signMessage',
+  'sol.signMessage',
+  'did.signJws',
+  'lock',
+];
+
+export type AgentErrorCode =
+  | 'bad_request' // malformed message, missing hello, invalid params
+  | 'unknown_method'
+  | 'denied' // policy or the confirmation prompt refused
+  | 'locked' // the agent's session is locked
+  | 'internal';
+
+export type AgentRequest = { v: number; id: string; method: string; params?: unknown };
+export type AgentResponse =
+  | { v: number; id: string; result: unknown }
+  | { v: number; id: string; error: { code: AgentErrorCode; message: string } };
+
+export function isAgentMethod(method: unknown): method is AgentMethod {
+  return typeof method === 'string' && (AGENT_METHODS as readonly string[]).includes(method);
+}
+
+import { StringDecoder } from 'node:string_decoder';
+
+/**
+ * Split a byte stream into lines. UTF-8 is decoded across chunks, so a character split between
+ * two reads arrives intact. Returns a push function; `onLine` gets each complete line,
+ * `onOverflow` fires once if a line exceeds MAX_MESSAGE_BYTES.
+ */
+export function lineReader(onLine: (line: string) => void, onOverflow: () => void): (chunk: Buffer) => void {
+  const decoder = new StringDecoder('utf8');
+  let buffered = '';
+  let overflowed = false;
+  return (chunk) => {
+    if (overflowed) return;
+    buffered += decoder.write(chunk);
+    let nl: number;
+    while ((nl = buffered.indexOf('\n')) >= 0) {
+      const line = buffered.slice(0, nl);
+      buffered = buffered.slice(nl + 1);
+      if (line.trim()) onLine(line);
+    }
+    if (Buffer.byteLength(buffered) > MAX_MESSAGE_BYTES) {
+      overflowed = true;
+      onOverflow();
+    }
+  };
+}
+
+export function encodeMessage(message: AgentRequest | AgentResponse): string {
+  return `${JSON.stringify(message)}\n`;
+}
@@ -0,0 +1,89 @@
+/**
+ * AgentWalletProvider: a @seedid/wallet-connectors WalletProvider backed by seedid-agent, so code
+ * written against the connectors can sign with keys held by the agent.
+ */
+
+import EventEmitter from 'eventemitter3';
+import { hexToBytes } from '@noble/hashes/utils.js';
+import { ValidationError } from '@seedid/wallet-connectors';
+import type { WalletProvider } from '@seedid/wallet-connectors';
+import { AgentClient } from './client.js';
+import type { AgentChain } from './protocol.js';
+
+export type AgentWalletProviderOptions = {
+  chain: AgentChain;
+  /** Account index on the chain (default 0). */
+  index?: number;
+  /** Client name sent to the agent (default `wallet-provider`). */
+  client?: string;
+  socketPath?: string;
+};
+
+export class AgentWalletProvider extends EventEmitter implements WalletProvider {
+  readonly type = 'seedid-agent' as const;
+  readonly chain: AgentChain;
+  readonly index: number;
+  private agent: AgentClient | null = null;
+  private address: string | null = null;
+  private pubkey: Uint8Array | null = null;
+  private readonly clientName: string;
+  private readonly socketPath?: string;
+
+  constructor(opts: AgentWalletProviderOptions) {
+    super();
+    this.chain = opts.chain;
+    this.index = opts.index ?? 0;
+    this.clientName = opts.client ?? 'wallet-provider';
+    this.socketPath = opts.socketPath;
+  }
+
+  isConnected(): boolean {
+    return !!this.agent && !this.agent.closed;
+  }
+
+  async connect(): Promise<void> {
+    if (this.isConnected()) return;
+    const agent = await AgentClient.connect({ client: this.clientName, socketPath: this.socketPath });
+    try {
+      const account = (await agent.identities(this.index))[this.chain];
+      this.address = account.address;
+      this.pubkey = hexToBytes(account.publicKey);
+    } catch (err) {
+      agent.close();
+      throw err;
+    }
+    this.agent = agent;
+    agent.once('close', () => {
+      if (this.agent !== agent) return;
+      this.agent = null;
+      this.emit('disconnect');
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    const agent = this.agent;
+    this.agent = null;
+    this.address = null;
+    this.pubkey = null;
+    agent?.close();
+    this.removeAllListeners();
+  }
+
+  async getAddress(): Promise<string> {
+    if (!this.isConnected() || !this.address) throw new ValidationError('Not connected');
+    return this.address;
+  }
+
+  async getPublicKey(): Promise<Uint8Array> {
+    if (!this.isConnected() || !this.pubkey) throw new ValidationError('Not connected');
+    return this.pubkey.slice();
+  }
+
+  /** Signature format per chain as AgentClient.signMessage. */
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    if (!this.isConnected()) throw new ValidationError('Not connected');
+    if (!(message instanceof Uint8Array) || message.length === 0) throw new ValidationError('message must be a non-empty Uint8Array');
+    const { signature } = await this.agent!.signMessage(this.chain, message, this.index);
+    return signature;
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * AgentServer: serves signing requests for one unlocked SeedIdSession over a Unix socket.
+ *
+ * Keys never leave the process. Each request derives a Signer from the session, signs and
+ * disposes it; locking the session (the `lock` method, its idle timeout or the CLI) wipes
+ * everything and turns every later request into a `locked` error.
+ */
+
+import net from 'node:net';
+import { mkdir, chmod, unlink, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { SessionLockedError, didKeySigner, nostrSigner } from '@seedid/core';
+import type { SeedIdSession, Signer } from '@seedid/core';
+import { ethSigner, btcSigner, solSigner } from '@seedid/wallets';
+import type { WalletSigner } from '@seedid/wallets';
+import { AgentError } from './errors.js';
+import { DEFAULT_POLICY, decide } from './policy.js';
+import type { AgentPolicy } from './policy.js';
+import { defaultSocketPath } from './paths.js';
+import {
+  AGENT_METHODS,
+  AGENT_PROTOCOL_VERSION,
+  encodeMessage,
+  isAgentMethod,
+  lineReader,
+} from './protocol.js';
+import type {
+  AgentChain,
+  AgentIdentities,
+  AgentMethod,
+  AgentMethods,
+  AgentRequest,
+  AgentResponse,
+  UnsignedNostrEvent,
+  SignedNostrEvent,
+} from './protocol.js';
+
+export type ConfirmRequest = {
+  client: string;
+  method: AgentMethod;
+  /** One-line human-readable description of what will be signed. */
+  summary: string;
+};
+
+export type AgentServerOptions = {
+  session: SeedIdSession;
+  socketPath?: string;
+  policy?: AgentPolicy;
+  /** Asked for every request the policy marks `confirm`; no callback means deny. */
+  confirm?: (request: ConfirmRequest) => boolean | Promise<boolean>;
+};
+
+type Handlers = {
+  [M in AgentMethod]: (params: Record<string, unknown>, client: string) => Promise<AgentMethods[M][1]>;
+};
+
+const MAX_INDEX = 2 ** 31 - 1;
+const MAX_CLIENT_NAME = 64;
+const PROBE_TIMEOUT_MS = 1000;
+
+function param<T>(ok: boolean, name: string, value: T): T {
+  if (!ok) throw new AgentError('bad_request', `Invalid ${name}`);
+  return value;
+}
+
+function indexParam(params: Record<string, unknown>): number {
+  const index = params.index ?? 0;
+  return param(Number.isInteger(index) && (index as number) >= 0 && (index as number) <= MAX_INDEX, 'index', index as number);
+}
+
+function hexParam(params: Record<string, unknown>, name: string): Uint8Array {
+  const value = params[name];
+  param(typeof value === 'string' && /^([0-9a-f]{2})*$/i.test(value), name, value);
+  return hexToBytes((value as string).toLowerCase());
+}
+
+function payloadParam(params: Record<string, unknown>): string {
+  const payload = params.payload;
+  return param(typeof payload === 'string' && /^[A-Za-z0-9_-]*$/.test(payload), 'payload', payload as string);
+}
+
+function eventParam(params: Record<string, unknown>): Required<UnsignedNostrEvent> {
+  const e = params.event as Record<string, unknown> | undefined;
+  const tags = e?.tags ?? [];
+  const valid =
+    !!e &&
+    typeof e === 'object' &&
+    Number.isInteger(e.kind) &&
+    (e.kind as number) >= 0 &&
+    (e.kind as number) <= 65535 &&
+    Number.isInteger(e.created_at) &&
+    (e.created_at as number) >= 0 &&
+    typeof e.content === 'string' &&
+    Array.isArray(tags) &&
+    tags.every((t) => Array.isArray(t) && t.every((v) => typeof v === 'string'));
+  param(valid, 'event', e);
+  return { kind: e!.kind as number, created_at: e!.created_at as number, tags: tags as string[][], content: e!.content as string };
+}
+
+// The describe helpers run the same validators as the handlers, so a confirmation prompt is
+// only shown for a request that can actually run.
+
+/** Printable UTF-8 is shown as text, anything else as a byte count. */
+function describeBytes(bytes: Uint8Array): string {
+  const text = new TextDecoder('utf-8', { fatal: false }).decode(bytes);
+  const printable = !text.includes('�') && !/[\x00-\x08\x0b-\x1f\x7f]/.test(text);
+  if (!printable) return `${bytes.length} bytes of binary data`;
+  return JSON.stringify(text.length > 200 ? `${text.slice(0, 200)}…` : text);
+}
+
+function describe(method: AgentMethod, params: Record<string, unknown>): string {
+  switch (method) {
+    case 'eth.signMessage':
+    case 'btc.signMessage':
+    case 'sol.signMessage':
+      return `sign ${method.split('.')[0].toUpperCase()} message ${describeBytes(hexParam(params, 'message'))} with account ${indexParam(params)}`;
+    case 'nostr.signEvent': {
+      const e = eventParam(params);
+      return `sign Nostr kind ${e.kind} event ${describeBytes(new TextEncoder().encode(e.content))}`;
+    }
+    case 'did.signJws':
+      return `sign a JWS with did:key (${payloadParam(params).length} payload chars)`;
+    case 'identities':
+      return `list identities for account ${indexParam(params)}`;
+    case 'lock':
+      return 'lock the agent';
+    default:
+      return method;
+  }
+}
+
+function eventId(pubkey: string, e: Required<UnsignedNostrEvent>): Uint8Array {
+  return sha256(new TextEncoder().encode(JSON.stringify([0, pubkey, e.created_at, e.kind, e.tags, e.content])));
+}
+
+function b64url(bytes: Uint8Array | string): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+export class AgentServer {
+  readonly socketPath: string;
+  #session: SeedIdSession;
+  #policy: AgentPolicy;
+  #confirm?: AgentServerOptions['confirm'];
+  #server: net.Server | null = null;
+  #sockets = new Set<net.Socket>();
+  #handlers: Handlers;
+
+  constructor(opts: AgentServerOptions) {
+    this.#session = opts.session;
+    this.socketPath = opts.socketPath ?? defaultSocketPath();
+    this.#policy = opts.policy ?? DEFAULT_POLICY;
+    this.#confirm = opts.confirm;
+    this.#handlers = {
+      hello: async () => ({ agent: 'seedid-agent', protocol: AGENT_PROTOCOL_VERSION, methods: [...AGENT_METHODS] }),
+      identities: (params) => this.#identities(indexParam(params)),
+      'nostr.signEvent': (params) => this.#signNostrEvent(eventParam(params)),
+      'eth.signMessage': (params) => this.#signMessage('eth', params),
+      'btc.signMessage': (params) => this.#signMessage('btc', params),
+      'sol.signMessage': (params) => this.#signMessage('sol', params),
+      'did.signJws': (params) => this.#signJws(params),
+      lock: async () => {
+        this.#session.lock();
+        return {};
+      },
+    };
+  }
+
+  get listening(): boolean {
+    return this.#server?.listening ?? false;
+  }
+
+  /**
+   * Bind the socket: creates its directory (mode 0700) if missing, replaces a stale socket file,
+   * refuses to start if another agent answers on the path, and restricts the socket to mode 0600.
+   */
+  async listen(): Promise<string> {
+    if (this.#server) throw new Error('AgentServer is already listening');
+    await mkdir(dirname(this.socketPath), { recursive: true, mode: 0o700 });
+    const existing = await stat(this.socketPath).catch(() => null);
+    if (existing) {
+      if (!existing.isSocket()) throw new Error(`${this.socketPath} exists and is not a socket`);
+      if (await isAlive(this.socketPath)) throw new Error(`An agent is already listening on ${this.socketPath}`);
+      await unlink(this.socketPath);
+    }
+    const server = net.createServer((socket) => this.#accept(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    await chmod(this.socketPath, 0o600);
+    this.#server = server;
+    return this.socketPath;
+  }
+
+  /** Stop listening, drop every connection and remove the socket file. Does not lock the session. */
+  async close(): Promise<void> {
+    const server = this.#server;
+    if (!server) return;
+    this.#server = null;
+    for (const socket of this.#sockets) socket.destroy();
+    this.#sockets.clear();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await unlink(this.socketPath).catch(() => {});
+  }
+
+  #accept(socket: net.Socket): void {
+    this.#sockets.add(socket);
+    let client: string | null = null;
+    const send = (response: AgentResponse) => {
+      if (!socket.destroyed) socket.write(encodeMessage(response));
+    };
+    const fail = (id: string, code: AgentError['code'], message: string) =>
+      send({ v: AGENT_PROTOCOL_VERSION, id, error: { code, message } });
+
+    const onLine = (line: string) => {
+      let request: AgentRequest;
+      try {
+        request = JSON.parse(line);
+      } catch {
+        return fail('', 'bad_request', 'Malformed JSON');
+      }
+      if (!request || typeof request !== 'object' || typeof request.id !== 'string') {
+        return fail('', 'bad_request', 'Request must be an object with a string id');
+      }
+      const { id, method } = request;
+      if (request.v !== AGENT_PROTOCOL_VERSION) return fail(id, 'bad_request', `Unsupported protocol version ${String(request.v)}`);
+      if (!isAgentMethod(method)) return fail(id, 'unknown_method', `Unknown method ${JSON.stringify(method)}`);
+      const params = request.params ?? {};
+      if (typeof params !== 'object' || Array.isArray(params)) return fail(id, 'bad_request', 'params must be an object');
+
+      if (method === 'hello') {
+        const name = (params as Record<string, unknown>).client;
+        if (typeof name !== 'string' || !name || name.length > MAX_CLIENT_NAME) {
+          return fail(id, 'bad_request', 'hello requires a client name');
+        }
+        client = name;
+      } else if (client === null) {
+        return fail(id, 'bad_request', 'First request must be hello');
+      }
+      this.#dispatch(client, method, params as Record<string, unknown>).then(
+        (result) => send({ v: AGENT_PROTOCOL_VERSION, id, result }),
+        (err) => fail(id, ...toWireError(err))
+      );
+    };
+
+    socket.on('data', lineReader(onLine, () => {
+      fail('', 'bad_request', 'Message too large');
+      socket.end();
+    }));
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this.#sockets.delete(socket));
+  }
+
+  async #dispatch(client: string, method: AgentMethod, params: Record<string, unknown>): Promise<unknown> {
+    const decision = decide(this.#policy, client, method);
+    if (decision === 'deny') throw new AgentError('denied', `Client ${client} may not call ${method}`);
+    if (method !== 'hello' && method !== 'lock' && this.#session.locked) throw new SessionLockedError();
+    if (decision === 'confirm') {
+      const summary = describe(method, params);
+      const approved = this.#confirm ? await this.#confirm({ client, method, summary }) : false;
+      if (!approved) throw new AgentError('denied', `Request ${method} was not confirmed`);
+    }
+    return this.#handlers[method](params, client);
+  }
+
+  async #identities(index: number): Promise<AgentIdentities> {
+    const signers: Signer[] = [];
+    const track = <S extends Signer>(s: S): S => (signers.push(s), s);
+    try {
+      const nostr = track(await nostrSigner(this.#session));
+      const eth = track(await ethSigner(this.#session, index));
+      const btc = track(await btcSigner(this.#session, index));
+      const sol = track(await solSigner(this.#session, index));
+      const did = track(await didKeySigner(this.#session, 'ed25519'));
+      const hex = (s: WalletSigner) => ({ address: s.address, publicKey: bytesToHex(s.getPublicKey()) });
+      return {
+        index,
+        nostr: { pubkey: bytesToHex(nostr.getPublicKey()) },
+        eth: hex(eth),
+        btc: hex(btc),
+        sol: hex(sol),
+        did: { id: did.did, kid: did.keyId },
+      };
+    } finally {
+      for (const s of signers) s.dispose();
+    }
+  }
+
+  async #signNostrEvent(event: Required<UnsignedNostrEvent>): Promise<{ event: SignedNostrEvent }> {
+    const signer = await nostrSigner(this.#session);
+    try {
+      const pubkey = bytesToHex(signer.getPublicKey());
+      const id = eventId(pubkey, event);
+      const sig = await signer.signDigest(id);
+      return { event: { ...event, id: bytesToHex(id), pubkey, sig: bytesToHex(sig) } };
+    } finally {
+      signer.dispose();
+    }
+  }
+
+  async #signMessage(chain: AgentChain, params: Record<string, unknown>): Promise<{ address: string; signature: string }> {
+    const message = hexParam(params, 'message');
+    const index = indexParam(params);
+    const factory = { eth: ethSigner, btc: btcSigner, sol: solSigner }[chain];
+    const signer = await factory(this.#session, index);
+    try {
+      return { address: signer.address, signature: bytesToHex(await signer.signMessage(message)) };
+    } finally {
+      signer.dispose();
+    }
+  }
+
+  async #signJws(params: Record<string, unknown>): Promise<{ jws: string; kid: string }> {
+    const payload = payloadParam(params);
+    const header = params.header ?? {};
+    param(!!header && typeof header === 'object' && !Array.isArray(header), 'header', header);
+    const signer = await didKeySigner(this.#session, 'ed25519');
+    try {
+      const kid = signer.keyId;
+      const protectedHeader = b64url(JSON.stringify({ ...(header as object), alg: 'EdDSA', kid }));
+      const signingInput = `${protectedHeader}.${payload}`;
+      const sig = await signer.signMessage(signingInput);
+      return { jws: `${signingInput}.${b64url(sig)}`, kid };
+    } finally {
+      signer.dispose();
+    }
+  }
+}
+
+function toWireError(err: unknown): [AgentError['code'], string] {
+  if (err instanceof AgentError) return [err.code, err.message];
+  if (err instanceof SessionLockedError) return ['locked', 'Agent is locked'];
+  return ['internal', err instanceof Error ? err.message : String(err)];
+}
+
+// A socket file is live if something accepts a connection on it within PROBE_TIMEOUT_MS; a hung
+// listener counts as dead, so it cannot stall listen().
+function isAlive(path: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = net.connect(path);
+    const timer = setTimeout(() => {
+      probe.destroy();
+      resolve(false);
+    }, PROBE_TIMEOUT_MS);
+    probe.once('connect', () => {
+      clearTimeout(timer);
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once('error', () => {
+      clearTimeout(timer);
+      resolve(false);
+    });
+  });
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hkdf,
+  HKDF_SALT,
+  forNostr,
+  forWallet,
+  forApp,
+  forAppNostr,
+  forAppDidKey,
+  forAppWallet,
+  appLabel,
+  normalizeAppId,
+} from '../src/index';
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+function bytesToHex(buf: Uint8Array): string {
+  return Array.from(buf)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const master = hexToBytes('da3a8b971ae662e7685cf28c5352009c1bc694e84c871800e46fc87b1a9ffe82');
+
+describe('@seedid/core app-scoped derivation', () => {
+  it('builds labels per namespaces.md', () => {
+    expect(appLabel('wallet:eth', 'com.example.chat')).toBe('seedid/v1/wallet:eth/app:com.example.chat');
+    expect(appLabel('nostr:key', 'chat')).toBe('seedid/v1/nostr:key/app:chat');
+    expect(appLabel('did:key:ed25519', 'chat')).toBe('seedid/v1/did:key:ed25519/app:chat');
+    // @ts-expect-error: deliberate invalid purpose
+    expect(() => appLabel('wallet:doge', 'chat')).toThrow(/Unsupported app purpose/);
+  });
+
+  it('normalizes app ids (NFKC, lowercase, trim)', () => {
+    expect(normalizeAppId('  Com.Example.Chat ')).toBe('com.example.chat');
+    // Fullwidth letters fold to ASCII under NFKC
+    expect(normalizeAppId('Ａpp')).toBe('app');
+    expect(appLabel('wallet:btc', 'MyApp')).toBe(appLabel('wallet:btc', 'myapp'));
+  });
+
+  it('rejects app ids that could break the label grammar', () => {
+    for (const bad of ['', '   ', 'a/b', 'a:b', 'app/app:other', 'café', 'with space', '.leading', 'trailing-']) {
+      expect(() => normalizeAppId(bad)).toThrow();
+    }
+    expect(() => normalizeAppId('a'.repeat(129))).toThrow(/maximum length/);
+  });
+
+  it('matches the HKDF root for the app label (vector)', async () => {
+    const out = await forApp(master, 'wallet:eth', 'com.example.chat');
+    expect(bytesToHex(out)).toBe('9c8c70be539cddd493e9a454b2766ae649a4dfca48d9c392ae931115dff394c9');
+    const direct = await hkdf(master, 'seedid/v1/wallet:eth/app:com.example.chat', { salt: HKDF_SALT, length: 32 });
+    expect(bytesToHex(out)).toBe(bytesToHex(direct));
+  });
+
+  it('yields unlinkable roots per app and never the global root', async () => {
+    const [a, b, global] = await Promise.all([
+      forAppWallet(master, 'eth', 'app-a'),
+      forAppWallet(master, 'eth', 'app-b'),
+      forWallet(master, 'eth'),
+    ]);
+    expect(bytesToHex(a)).not.toBe(bytesToHex(b));
+    expect(bytesToHex(a)).not.toBe(bytesToHex(global));
+
+    const [nostrApp, nostrGlobal] = await Promise.all([forAppNostr(master, 'app-a'), forNostr(master)]);
+    expect(bytesToHex(nostrApp)).not.toBe(bytesToHex(nostrGlobal));
+  });
+
+  it('convenience helpers map to forApp', async () => {
+    expect(await forAppNostr(master, 'x')).toEqual(await forApp(master, 'nostr:key', 'x'));
+    expect(await forAppDidKey(master, 'secp256k1', 'x')).toEqual(await forApp(master, 'did:key:secp256k1', 'x'));
+    expect(await forAppWallet(master, 'sol', 'X')).toEqual(await forApp(master, 'wallet:sol', 'x'));
+  });
+
+  it('requires a 32-byte master key', async () => {
+    await expect(forApp(new Uint8Array(16), 'wallet:eth', 'x')).rejects.toThrow(/32 bytes/);
+    // @ts-expect-error: deliberate invalid chain
+    await expect(forAppWallet(master, 'doge', 'x')).rejects.toThrow(/Unsupported wallet chain/);
+  });
+});
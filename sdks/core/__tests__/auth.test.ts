@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import {
+  createAuthChallenge,
+  createAuthProof,
+  verifyAuthProof,
+  authProofBytes,
+  deriveServiceKey,
+  verifyEcdsaMessage,
+  MemoryNonceStore,
+  SeedIdSession,
+  AuthProofError,
+} from '../src/index';
+import type { AuthNonceStore, AuthProof } from '../src/index';
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => i + 10);
+const SRN = 'did:web:example.com';
+const T = 1_700_000_000;
+
+const code = (p: Promise<unknown>) => p.then(() => 'ok', (err: AuthProofError) => err.code);
+
+describe('authentication proofs', () => {
+  it('signs the challenge with the SRN-scoped key on either curve', async () => {
+    const challenge = createAuthChallenge();
+    expect(challenge).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(createAuthChallenge()).not.toBe(challenge);
+
+    const proof = await createAuthProof(MASTER, 'did:web:EXAMPLE.com', challenge, { now: T });
+    const service = await deriveServiceKey(MASTER, SRN, 'secp256k1');
+    expect(proof).toEqual({
+      srn: SRN,
+      curve: 'secp256k1',
+      challenge,
+      publicKey: bytesToHex(service.publicKey),
+      timestamp: T,
+      signature: expect.stringMatching(/^[0-9a-f]{128}$/),
+    });
+    expect(verifyEcdsaMessage(Buffer.from(proof.signature, 'hex'), authProofBytes(proof), service.publicKey)).toBe(true);
+    expect(new TextDecoder().decode(authProofBytes(proof))).toBe(
+      `{"challenge":"${challenge}","curve":"secp256k1","publicKey":"${proof.publicKey}","srn":"${SRN}","timestamp":${T},"type":"seedid-auth"}`
+    );
+    await expect(verifyAuthProof(proof, { srn: SRN, challenge, now: T + 10 })).resolves.toEqual({
+      srn: SRN,
+      curve: 'secp256k1',
+      publicKey: proof.publicKey,
+      timestamp: T,
+    });
+
+    const session = SeedIdSession.fromMasterKey(MASTER.slice());
+    const ed = await createAuthProof(session, SRN, challenge, { curve: 'ed25519', now: T });
+    session.lock();
+    expect(ed.publicKey).toBe(bytesToHex((await deriveServiceKey(MASTER, SRN, 'ed25519')).publicKey));
+    await expect(verifyAuthProof(ed, { srn: SRN, challenge, now: T })).resolves.toMatchObject({ curve: 'ed25519' });
+    expect(await code(verifyAuthProof(ed, { srn: SRN, challenge, now: T, curves: ['secp256k1'] }))).toBe('malformed');
+
+    // Each service sees an unlinkable key
+    const other = await createAuthProof(MASTER, 'did:web:other.example', challenge, { now: T });
+    expect(other.publicKey).not.toBe(proof.publicKey);
+    await expect(createAuthProof(MASTER, SRN, 'short')).rejects.toThrow(/challenge/);
+    await expect(createAuthProof(MASTER, 'not an srn', challenge)).rejects.toThrow();
+  });
+
+  it('rejects proofs for other services, challenges, keys and times', async () => {
+    const challenge = createAuthChallenge();
+    const proof = await createAuthProof(MASTER, SRN, challenge, { now: T });
+    const opts = { srn: SRN, challenge, now: T };
+    const tamper = (patch: Partial<AuthProof>) => verifyAuthProof({ ...proof, ...patch }, opts);
+
+    expect(await code(verifyAuthProof(proof, { ...opts, srn: 'did:web:other.example' }))).toBe('srn_mismatch');
+    expect(await code(verifyAuthProof(proof, { ...opts, challenge: createAuthChallenge() }))).toBe('challenge_mismatch');
+    expect(await code(verifyAuthProof(proof, { ...opts, publicKey: `02${'11'.repeat(32)}` }))).toBe('key_mismatch');
+    expect(await code(verifyAuthProof(proof, { ...opts, publicKey: proof.publicKey.toUpperCase() }))).toBe('ok');
+    expect(await code(verifyAuthProof(proof, { ...opts, now: T + 301 }))).toBe('expired');
+    expect(await code(verifyAuthProof(proof, { ...opts, now: T + 3600, maxAgeSec: 7200 }))).toBe('ok');
+    expect(await code(verifyAuthProof(proof, { ...opts, now: T - 61 }))).toBe('not_yet_valid');
+    expect(await code(tamper({ timestamp: T + 1 }))).toBe('bad_signature');
+    expect(await code(tamper({ curve: 'ed25519' }))).toBe('malformed');
+    expect(await code(tamper({ signature: 'zz' }))).toBe('malformed');
+    const foreign = await createAuthProof(Uint8Array.from({ length: 32 }, (_, i) => i), SRN, challenge, { now: T });
+    expect(await code(tamper({ publicKey: foreign.publicKey }))).toBe('bad_signature');
+    expect(await code(verifyAuthProof(null as unknown as AuthProof, opts))).toBe('malformed');
+    await expect(verifyAuthProof(proof, { srn: SRN })).rejects.toThrow(/challenge or a nonceStore/);
+  });
+
+  it('spends each challenge once through the nonce store', async () => {
+    let clock = T;
+    const store = new MemoryNonceStore({ maxEntries: 2, clock: () => clock });
+    const verify = (proof: AuthProof) => verifyAuthProof(proof, { srn: SRN, nonceStore: store, now: clock });
+
+    const first = await createAuthProof(MASTER, SRN, createAuthChallenge(), { now: T });
+    expect(await code(verify(first))).toBe('ok');
+    expect(await code(verify(first))).toBe('replayed');
+    // Forged proofs do not burn the challenge
+    const second = await createAuthProof(MASTER, SRN, createAuthChallenge(), { now: T });
+    expect(await code(verify({ ...second, signature: first.signature }))).toBe('bad_signature');
+    expect(await code(verify(second))).toBe('ok');
+    expect(store.size).toBe(2);
+
+    // Full of live nonces: fail closed; once they expire they are swept
+    const third = await createAuthProof(MASTER, SRN, createAuthChallenge(), { now: T });
+    await expect(verify(third)).rejects.toThrow(/full/);
+    clock = T + 1000;
+    const fourth = await createAuthProof(MASTER, SRN, createAuthChallenge(), { now: clock });
+    expect(await code(verify(fourth))).toBe('ok');
+    expect(store.size).toBe(1);
+
+    // Any async store plugs in
+    const seen = new Set<string>();
+    const asyncStore: AuthNonceStore = { consume: async (nonce) => (seen.has(nonce) ? false : (seen.add(nonce), true)) };
+    const proof = await createAuthProof(MASTER, SRN, createAuthChallenge(), { curve: 'ed25519', now: T });
+    const opts = { srn: SRN, challenge: proof.challenge, nonceStore: asyncStore, now: T };
+    expect(await code(verifyAuthProof(proof, opts))).toBe('ok');
+    expect(await code(verifyAuthProof(proof, opts))).toBe('replayed');
+    expect([...seen]).toEqual([`${SRN}\n${proof.challenge}`]);
+  });
+});
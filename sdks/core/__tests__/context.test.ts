@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deriveMasterKey,
+  deriveMasterKeyWithMetadata,
+  kdfParamsFromMetadata,
+  userSalt,
+} from '../src/index';
+
+function bytesToHex(b: Uint8Array): string {
+  return Array.from(b).map((x) => x.toString(16).padStart(2, '0')).join('');
+}
+
+const PASSPHRASE = 'Correct Horse Battery Staple Mountain Ocean Forest';
+const USER_ID = 'alice@example.com';
+const FAST = { algorithm: 'scrypt' as const, params: { n: 1024 }, testMode: true };
+
+describe('@seedid/core SeedIdContext', () => {
+  it('builds the per-user salt as SHA-256("seedid/v1:user:" + user_id)[:16]', () => {
+    expect(bytesToHex(userSalt(USER_ID))).toBe('6451e84caadd7d99fea011ff5e7122fb');
+  });
+
+  it('rejects ambiguous user ids', () => {
+    expect(() => userSalt('')).toThrow(/non-empty/);
+    expect(() => userSalt(' alice')).toThrow(/whitespace/);
+    expect(() => userSalt('jose\u0301')).toThrow(/NFC/);
+  });
+
+  it('derives with the user salt and records the mode', async () => {
+    const { master, metadata } = await deriveMasterKeyWithMetadata(PASSPHRASE, { ...FAST, context: { userId: USER_ID } });
+    expect(bytesToHex(master)).toBe('0e9de7a863f99c77ade0ce553b1da6ba8c921cf7a214689a832a51d2265eb0b5');
+    expect(metadata).toEqual({
+      version: 1,
+      kdf: { algorithm: 'scrypt', params: { costFactor: 1024, blockSize: 8, parallelism: 1, hashLength: 32 }, testMode: true },
+      salt: { mode: 'user', userId: USER_ID, saltHex: '6451e84caadd7d99fea011ff5e7122fb' },
+      pepper: { mode: 'none' },
+    });
+  });
+
+  it('appends the pepper to the normalized passphrase and keeps it out of metadata', async () => {
+    let calls = 0;
+    const pepper = async () => {
+      calls++;
+      return 'pepper-v1';
+    };
+    const { master, metadata } = await deriveMasterKeyWithMetadata(PASSPHRASE, {
+      ...FAST,
+      context: { userId: USER_ID, pepper, pepperId: 'v1' },
+    });
+    expect(calls).toBe(1);
+    expect(bytesToHex(master)).toBe('acb675061e242dc187d4c2b14b5dcba93f7a753912efe6be281914d4db28adba');
+    expect(metadata.pepper).toEqual({ mode: 'appended', pepperId: 'v1' });
+    expect(JSON.stringify(metadata)).not.toContain('pepper-v1');
+  });
+
+  it('records the zero-salt fallback explicitly', async () => {
+    const { metadata } = await deriveMasterKeyWithMetadata(PASSPHRASE, FAST);
+    expect(metadata.salt).toEqual({ mode: 'zero', saltHex: '00'.repeat(16) });
+    const custom = await deriveMasterKeyWithMetadata(PASSPHRASE, { ...FAST, salt: 'abc' });
+    expect(custom.metadata.salt).toEqual({ mode: 'custom', saltHex: '616263' });
+  });
+
+  it('fails closed on conflicting or empty inputs', async () => {
+    await expect(deriveMasterKey(PASSPHRASE, { ...FAST, salt: new Uint8Array(16), context: { userId: USER_ID } })).rejects.toThrow(/either salt or context.userId/);
+    await expect(deriveMasterKey(PASSPHRASE, { ...FAST, context: { pepper: '' } })).rejects.toThrow(/pepper must not be empty/);
+    await expect(deriveMasterKey(PASSPHRASE, { ...FAST, context: { pepperId: 'v1' } })).rejects.toThrow(/requires context.pepper/);
+  });
+
+  it('recovers the same master key from metadata', async () => {
+    for (const opts of [
+      { ...FAST, context: { userId: USER_ID, pepper: new Uint8Array([1, 2, 3]) } },
+      { ...FAST, salt: 'custom-salt' },
+      FAST,
+    ]) {
+      const { master, metadata } = await deriveMasterKeyWithMetadata(PASSPHRASE, opts);
+      const secrets = metadata.pepper.mode === 'appended' ? { pepper: new Uint8Array([1, 2, 3]) } : undefined;
+      const params = kdfParamsFromMetadata(JSON.parse(JSON.stringify(metadata)), secrets);
+      expect(await deriveMasterKey(PASSPHRASE, params)).toEqual(master);
+    }
+  });
+
+  it('refuses recovery when the pepper presence does not match the metadata', async () => {
+    const peppered = await deriveMasterKeyWithMetadata(PASSPHRASE, { ...FAST, context: { pepper: 'p' } });
+    expect(() => kdfParamsFromMetadata(peppered.metadata)).toThrow(/supply it/);
+    const plain = await deriveMasterKeyWithMetadata(PASSPHRASE, FAST);
+    expect(() => kdfParamsFromMetadata(plain.metadata, { pepper: 'p' })).toThrow(/did not use a pepper/);
+    const tampered = { ...plain.metadata, salt: { mode: 'user' as const, userId: 'bob', saltHex: '00'.repeat(16) } };
+    expect(() => kdfParamsFromMetadata(tampered)).toThrow(/does not match/);
+  });
+});
@@ -171,7 +171,8 @@ describe('@seedid/core hkdf + helpers (submodule)', () => {
     // Test minimum valid values
     const validLow = await deriveMasterKey('test', {
       algorithm: 'argon2id',
-      params: { memory_cost: 8, time_cost: 1, parallelism: 1, hash_len: 16 }
+      params: { memory_cost: 8, time_cost: 1, parallelism: 1, hash_len: 16 },
+      testMode: true
     });
     expect(validLow.length).toBe(16);
   }, 10000);
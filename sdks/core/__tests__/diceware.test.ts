@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  generatePassphrase,
+  generatedPassphraseEntropy,
+  createWordlist,
+  registerWordlist,
+  getWordlist,
+  normalizePassphrase,
+  estimatePassphraseEntropy,
+  deriveMasterKey,
+  WeakPassphraseError,
+  EFF_LARGE,
+  EFF_LARGE_WORDLIST,
+} from '../src/index';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('@seedid/core bundled wordlists', () => {
+  it('ships the complete EFF large list', () => {
+    expect(EFF_LARGE_WORDLIST.length).toBe(7776);
+    expect(new Set(EFF_LARGE_WORDLIST).size).toBe(7776);
+    expect(EFF_LARGE_WORDLIST[0]).toBe('abacus');
+    expect(EFF_LARGE_WORDLIST[7775]).toBe('zoom');
+    expect(EFF_LARGE.words).toEqual(EFF_LARGE_WORDLIST);
+    expect(getWordlist('eff-large')).toBe(EFF_LARGE);
+  });
+
+  it('normalizes custom wordlists so generated words never change under normalizePassphrase', () => {
+    const list = createWordlist('fr-test', ['Café', 'Élan', 'noël', 'ami'], { language: 'fr' });
+    expect(list.words[0]).toBe('café');
+    for (const w of list.words) expect(normalizePassphrase(w)).toBe(w);
+  });
+
+  it('rejects wordlists that would overstate entropy or emit whitespace', () => {
+    expect(() => createWordlist('dup', ['Cafe', 'cafe'])).toThrow(/duplicate/);
+    expect(() => createWordlist('dup', ['café', 'café'])).toThrow(/duplicate/);
+    expect(() => createWordlist('ws', ['two words', 'x'])).toThrow(/Invalid wordlist entry/);
+    expect(() => createWordlist('short', ['one'])).toThrow(/at least 2/);
+    expect(() => registerWordlist(EFF_LARGE)).toThrow(/already registered/);
+  });
+});
+
+describe('@seedid/core Diceware generator', () => {
+  it('defaults to 7 EFF words meeting the 90-bit policy', () => {
+    const gen = generatePassphrase();
+    expect(gen.words.length).toBe(7);
+    expect(gen.wordlist).toBe('eff-large');
+    expect(gen.wordlistSize).toBe(7776);
+    expect(gen.entropyBits).toBeCloseTo(90.47, 2);
+    expect(gen.passphrase).toBe(gen.words.join(' '));
+    for (const w of gen.words) expect(EFF_LARGE_WORDLIST).toContain(w);
+  });
+
+  it('sizes the phrase from an entropy target or an explicit word count', () => {
+    expect(generatePassphrase({ entropyBits: 128 }).words.length).toBe(10);
+    expect(generatePassphrase({ entropyBits: 12 }).words.length).toBe(1);
+    expect(generatePassphrase({ words: 12, entropyBits: 128 }).words.length).toBe(12);
+    expect(() => generatePassphrase({ words: 0 })).toThrow(/word count/);
+    expect(() => generatePassphrase({ entropyBits: -1 })).toThrow(/entropyBits/);
+  });
+
+  it('round-trips through normalizePassphrase unchanged', () => {
+    const list = createWordlist('accents', ['Ça', 'Déjà', 'Über', 'ﬁx', 'Ǆemal', 'ok']);
+    for (let i = 0; i < 50; i++) {
+      const eff = generatePassphrase({ words: 8 });
+      expect(normalizePassphrase(eff.passphrase)).toBe(eff.passphrase);
+      const custom = generatePassphrase({ wordlist: list, words: 8, separator: '.' });
+      expect(normalizePassphrase(custom.passphrase)).toBe(custom.passphrase);
+    }
+  });
+
+  it('validates separators', () => {
+    expect(() => generatePassphrase({ separator: '' })).toThrow(/separator/);
+    expect(() => generatePassphrase({ separator: '\t' })).toThrow(/separator/);
+    expect(() => generatePassphrase({ separator: 'A' })).toThrow(/separator/);
+    // EFF contains hyphenated words (yo-yo), so '-' would be ambiguous
+    expect(() => generatePassphrase({ separator: '-' })).toThrow(/occurs inside wordlist/);
+  });
+
+  it('draws indices with rejection sampling (no modulo bias)', () => {
+    const values = [0xffffffff, 5];
+    vi.spyOn(globalThis.crypto, 'getRandomValues').mockImplementation(((buf: Uint32Array) => {
+      buf[0] = values.shift()!;
+      return buf;
+    }) as any);
+    const gen = generatePassphrase({ words: 1 });
+    expect(gen.words).toEqual([EFF_LARGE_WORDLIST[5]]);
+  });
+});
+
+describe('@seedid/core generated passphrase entropy', () => {
+  it('verifies generated phrases against the registered wordlist', () => {
+    const gen = generatePassphrase();
+    const report = generatedPassphraseEntropy(gen);
+    expect(report.method).toBe('generated');
+    expect(report.bits).toBe(90.4);
+    expect(report.meetsMinimum).toBe(true);
+
+    expect(() => generatedPassphraseEntropy({ ...gen, words: ['notaword', ...gen.words.slice(1)] })).toThrow(/outside wordlist/);
+    expect(() => generatedPassphraseEntropy({ ...gen, passphrase: gen.passphrase + ' extra' })).toThrow(/does not match/);
+    expect(() => generatedPassphraseEntropy({ ...gen, wordlistSize: 1 << 20 })).toThrow(/size mismatch/);
+  });
+
+  it('credits only phrases it generated, and those cannot be edited', async () => {
+    const gen = generatePassphrase({ words: 7 });
+    expect(Object.isFrozen(gen) && Object.isFrozen(gen.words)).toBe(true);
+    expect(() => (gen.words as string[]).fill('abacus')).toThrow(TypeError);
+
+    // A hand-built object with the right shape is scored like any typed phrase
+    const forged = {
+      passphrase: Array(7).fill('abacus').join(' '),
+      words: Array(7).fill('abacus'),
+      separator: ' ',
+      wordlist: 'eff-large',
+      wordlistSize: 7776,
+      entropyBits: 90.4,
+    };
+    const report = generatedPassphraseEntropy(forged);
+    expect(report.method).toBe('wordlist');
+    expect(report.bits).toBe(12.9);
+    expect(report.warnings.map((w) => w.code)).toContain('repeated-word');
+    expect(generatedPassphraseEntropy({ ...gen }).method).toBe('wordlist');
+    await expect(deriveMasterKey(forged, { algorithm: 'argon2id', minEntropyBits: 90 })).rejects.toBeInstanceOf(WeakPassphraseError);
+  });
+
+  it('estimator recognizes EFF hyphenated words when given the list', () => {
+    const r = estimatePassphraseEntropy('yo-yo t-shirt felt-tip drop-down abacus zoom acid', { wordlist: EFF_LARGE.words });
+    expect(r.method).toBe('wordlist');
+    expect(r.wordCount).toBe(7);
+    expect(r.bits).toBe(90.4);
+  });
+
+  it('deriveMasterKey trusts verified generated phrases for the policy check', async () => {
+    const gen = generatePassphrase();
+    const out = await deriveMasterKey(gen, { algorithm: 'scrypt', params: { n: 1024 }, testMode: true, minEntropyBits: 90 });
+    const same = await deriveMasterKey(gen.passphrase, { algorithm: 'scrypt', params: { n: 1024 }, testMode: true });
+    expect(out).toEqual(same);
+
+    const short = generatePassphrase({ words: 5 });
+    await expect(deriveMasterKey(short, { algorithm: 'argon2id', minEntropyBits: 90 })).rejects.toBeInstanceOf(WeakPassphraseError);
+  });
+});
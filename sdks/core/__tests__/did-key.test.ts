@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { ed25519 } from '@noble/curves/ed25519.js';
+import {
+  encodeDidKey,
+  decodeDidKey,
+  isDidKey,
+  didKeyDocument,
+  resolveDidKey,
+  didKeySigner,
+  deriveDidKey,
+  forDidKey,
+  forAppDidKey,
+  secp256k1KeyFromSeed,
+  verifyEd25519Message,
+  verifyEcdsaMessage,
+  SeedIdSession,
+} from '../src/index';
+
+function hexToBytes(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => i + 10);
+// RFC 8032 test 1 public key
+const ED_PUB = hexToBytes('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a');
+
+describe('did:key', () => {
+  it('encodes and decodes Ed25519 and secp256k1 keys', () => {
+    const did = encodeDidKey(ED_PUB, 'ed25519');
+    expect(did).toMatch(/^did:key:z6Mk/);
+    const decoded = decodeDidKey(did);
+    expect(decoded).toMatchObject({ did, curve: 'ed25519', keyId: `${did}#${did.slice(8)}` });
+    expect(decoded.publicKey).toEqual(ED_PUB);
+    expect(decodeDidKey(decoded.keyId).did).toBe(did);
+
+    const secpPub = secp256k1.getPublicKey(hexToBytes('b7e151628aed2a6abf7158809cf4f3c762e7160f38b4da56a784d9045190cfef'), true);
+    const k1 = encodeDidKey(secpPub, 'secp256k1');
+    expect(k1).toMatch(/^did:key:zQ3s/);
+    expect(decodeDidKey(k1).publicKey).toEqual(secpPub);
+    // Uncompressed input is normalised to the compressed form
+    expect(encodeDidKey(secp256k1.Point.fromBytes(secpPub).toBytes(false), 'secp256k1')).toBe(k1);
+
+    expect(() => encodeDidKey(new Uint8Array(31), 'ed25519')).toThrow(/32 bytes/);
+    expect(() => encodeDidKey(new Uint8Array(33), 'secp256k1')).toThrow();
+    expect(() => decodeDidKey('did:web:example.com')).toThrow(/Not a did:key/);
+    expect(() => decodeDidKey('did:key:m' + did.slice(9))).toThrow(/base58btc multibase/);
+    expect(() => decodeDidKey(did.slice(0, -2))).toThrow();
+    expect(() => decodeDidKey(`${did}#other`)).toThrow(/fragment/);
+    expect(isDidKey(did)).toBe(true);
+    expect(isDidKey('did:key:z0OIl')).toBe(false);
+  });
+
+  it('builds DID Documents and resolves locally', () => {
+    const did = encodeDidKey(ED_PUB, 'ed25519');
+    const doc = didKeyDocument(did);
+    const keyId = `${did}#${did.slice(8)}`;
+    expect(doc).toEqual({
+      '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/multikey/v1'],
+      id: did,
+      verificationMethod: [{ id: keyId, type: 'Multikey', controller: did, publicKeyMultibase: did.slice(8) }],
+      authentication: [keyId],
+      assertionMethod: [keyId],
+      capabilityInvocation: [keyId],
+      capabilityDelegation: [keyId],
+    });
+    expect(resolveDidKey(keyId)).toEqual({
+      didDocument: doc,
+      didResolutionMetadata: { contentType: 'application/did+json' },
+      didDocumentMetadata: {},
+    });
+    expect(resolveDidKey('did:key:zBad').didResolutionMetadata.error).toBe('invalidDid');
+    expect(resolveDidKey('not a did').didResolutionMetadata.error).toBe('invalidDid');
+    expect(resolveDidKey('did:web:example.com')).toMatchObject({
+      didDocument: null,
+      didResolutionMetadata: { error: 'methodNotSupported' },
+    });
+  });
+
+  it('derives the did:key of a master key, app scope or session', async () => {
+    const ed = await deriveDidKey(MASTER, 'ed25519');
+    expect(ed.publicKey).toEqual(ed25519.getPublicKey(await forDidKey(MASTER, 'ed25519')));
+    expect(ed.document.id).toBe(ed.did);
+
+    const k1 = await deriveDidKey(MASTER, 'secp256k1');
+    expect(k1.publicKey).toEqual(secp256k1.getPublicKey(secp256k1KeyFromSeed(await forDidKey(MASTER, 'secp256k1')), true));
+
+    const app = await deriveDidKey(MASTER, 'ed25519', { appId: 'com.example' });
+    expect(app.publicKey).toEqual(ed25519.getPublicKey(await forAppDidKey(MASTER, 'ed25519', 'com.example')));
+    expect(app.did).not.toBe(ed.did);
+
+    const session = SeedIdSession.fromMasterKey(MASTER.slice());
+    const signer = await didKeySigner(session, 'ed25519');
+    expect(signer.did).toBe(ed.did);
+    expect(signer.keyId).toBe(ed.keyId);
+    expect(verifyEd25519Message(await signer.signMessage('hello'), 'hello', ed.publicKey)).toBe(true);
+    const ecdsa = await didKeySigner(session, 'secp256k1');
+    expect(verifyEcdsaMessage(await ecdsa.signMessage('hello'), 'hello', k1.publicKey)).toBe(true);
+    session.lock();
+    expect(signer.disposed).toBe(true);
+    await expect(didKeySigner(session, 'ed25519')).rejects.toThrow(/locked/);
+  });
+});
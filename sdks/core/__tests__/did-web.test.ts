@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ed25519, x25519 } from '@noble/curves/ed25519.js';
+import {
+  parseDidWeb,
+  encodeDidWeb,
+  isDidWeb,
+  buildDidWebDocument,
+  rotateDidWebDocument,
+  deriveDidWebKeys,
+  deriveDidKey,
+  forDidWebX25519,
+  SeedIdSession,
+  resolveDidWeb,
+  resolveDid,
+} from '../src/index';
+import type { DidDocument, DidWebFetch } from '../src/index';
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => i + 10);
+const NEXT = Uint8Array.from({ length: 32 }, (_, i) => 200 - i);
+
+describe('did:web identifiers', () => {
+  it('maps identifiers to document URLs', () => {
+    expect(parseDidWeb('did:web:alice.example')).toEqual({
+      did: 'did:web:alice.example',
+      host: 'alice.example',
+      path: [],
+      url: 'https://alice.example/.well-known/did.json',
+    });
+    expect(parseDidWeb('did:web:example.com:users:alice#key-1').url).toBe('https://example.com/users/alice/did.json');
+    expect(parseDidWeb('did:web:localhost%3A8443').url).toBe('https://localhost:8443/.well-known/did.json');
+    expect(encodeDidWeb('localhost:8443', ['u', 'bob'])).toBe('did:web:localhost%3A8443:u:bob');
+
+    expect(() => parseDidWeb('did:key:z6Mk')).toThrow(/Not a did:web/);
+    expect(() => parseDidWeb('did:web:exa_mple.com')).toThrow(/domain/);
+    expect(() => parseDidWeb('did:web:example.com::alice')).toThrow(/path segment/);
+    expect(() => parseDidWeb('did:web:example.com:%2e%2e')).toThrow(/path segment/);
+    expect(() => parseDidWeb('did:web:localhost%3A99999')).toThrow(/port/);
+    expect(isDidWeb('did:web:alice.example')).toBe(true);
+    expect(isDidWeb('did:web:')).toBe(false);
+  });
+});
+
+describe('did:web documents', () => {
+  it('publishes the derived keys and services', async () => {
+    const keys = await deriveDidWebKeys(MASTER);
+    const ed = await deriveDidKey(MASTER, 'ed25519');
+    const k1 = await deriveDidKey(MASTER, 'secp256k1');
+    expect(keys[0].publicKey).toEqual(ed.publicKey);
+    expect(keys[1].publicKey).toEqual(k1.publicKey);
+    // The X25519 key has its own root, not the Montgomery form of the Ed25519 signing key
+    expect(x25519.getPublicKey(await forDidWebX25519(MASTER))).toEqual(keys[2].publicKey);
+    expect(keys[2].publicKey).not.toEqual(ed25519.utils.toMontgomery(ed.publicKey));
+    expect(x25519.getPublicKey(await forDidWebX25519(MASTER, { appId: 'com.example' }))).not.toEqual(keys[2].publicKey);
+    const session = SeedIdSession.fromMasterKey(MASTER.slice());
+    expect(await deriveDidWebKeys(session)).toEqual(keys);
+    expect(session.issuedCount).toBe(0);
+    session.lock();
+
+    const did = 'did:web:alice.example';
+    const doc = buildDidWebDocument(did, { keys, knockUrl: 'https://relay.seedid.net/knock', alsoKnownAs: [ed.did] });
+    const [edId, k1Id, xId] = doc.verificationMethod.map((m) => m.id);
+    expect(edId).toBe(`${did}#${ed.multibase}`);
+    expect(k1Id).toBe(`${did}#${k1.multibase}`);
+    expect(xId).toMatch(/^did:web:alice\.example#z6LS/);
+    expect(doc).toEqual({
+      '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/multikey/v1'],
+      id: did,
+      alsoKnownAs: [ed.did],
+      verificationMethod: [
+        { id: edId, type: 'Multikey', controller: did, publicKeyMultibase: ed.multibase },
+        { id: k1Id, type: 'Multikey', controller: did, publicKeyMultibase: k1.multibase },
+        { id: xId, type: 'Multikey', controller: did, publicKeyMultibase: xId.split('#')[1] },
+      ],
+      authentication: [edId, k1Id],
+      assertionMethod: [edId, k1Id],
+      capabilityInvocation: [edId, k1Id],
+      capabilityDelegation: [edId, k1Id],
+      keyAgreement: [xId],
+      service: [{ id: `${did}#knock`, type: 'SeedIdKnock', serviceEndpoint: 'https://relay.seedid.net/knock' }],
+    });
+
+    expect(() => buildDidWebDocument(did, { keys: [keys[0], keys[0]] })).toThrow(/Duplicate/);
+    expect(() => buildDidWebDocument(did, { keys: [{ ...keys[2], purposes: ['authentication'] }] })).toThrow(/cannot be used/);
+    expect(() => buildDidWebDocument(did, { keys: [keys[2]] })).toThrow(/authentication/);
+    expect(() => buildDidWebDocument(`${did}#x`, { keys })).toThrow(/fragment/);
+  });
+
+  it('rotates keys by adding and retiring verification methods', async () => {
+    const did = 'did:web:alice.example';
+    const doc = buildDidWebDocument(did, { keys: await deriveDidWebKeys(MASTER) });
+    const [oldEd, oldK1, oldX] = doc.verificationMethod.map((m) => m.id);
+    const next = await deriveDidWebKeys(NEXT);
+
+    const rotated = rotateDidWebDocument(doc, { add: [next[0], next[2]], retire: [oldEd, `#${oldX.split('#')[1]}`] });
+    const [newEd, newX] = rotated.verificationMethod.slice(1).map((m) => m.id);
+    expect(rotated.verificationMethod.map((m) => m.id)).toEqual([oldK1, newEd, newX]);
+    expect(rotated.authentication).toEqual([oldK1, newEd]);
+    expect(rotated.capabilityDelegation).toEqual([oldK1, newEd]);
+    expect(rotated.keyAgreement).toEqual([newX]);
+    expect(doc.verificationMethod).toHaveLength(3); // input untouched
+
+    const edOnly = rotateDidWebDocument(rotated, { retire: [oldK1, newX] });
+    expect(edOnly.authentication).toEqual([newEd]);
+    expect(edOnly.keyAgreement).toBeUndefined();
+    expect(() => rotateDidWebDocument(edOnly, { retire: [newEd] })).toThrow(/authentication/);
+    expect(() => rotateDidWebDocument(edOnly, { retire: [oldEd] })).toThrow(/Unknown verification method/);
+    expect(() => rotateDidWebDocument(edOnly, { add: [next[0]] })).toThrow(/Duplicate/);
+  });
+});
+
+describe('did:web resolution', () => {
+  const documents = new Map<string, unknown>();
+  let server: Server;
+  let host: string;
+  // The stub speaks plain HTTP; the injected fetch downgrades the did:web HTTPS URL to reach it.
+  const stubFetch: DidWebFetch = (url, init) => fetch(url.replace(/^https:/, 'http:'), init);
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const body = documents.get(req.url ?? '');
+      if (req.url === '/broken/did.json') {
+        res.writeHead(500).end();
+      } else if (body === undefined) {
+        res.writeHead(404).end();
+      } else {
+        res.writeHead(200, { 'content-type': 'application/did+json' }).end(typeof body === 'string' ? body : JSON.stringify(body));
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    host = `localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('fetches /.well-known/did.json and path documents through an injected fetch', async () => {
+    const did = encodeDidWeb(host);
+    const doc = buildDidWebDocument(did, { keys: await deriveDidWebKeys(MASTER) });
+    documents.set('/.well-known/did.json', doc);
+    const userDid = encodeDidWeb(host, ['users', 'alice']);
+    const userDoc = buildDidWebDocument(userDid, { keys: await deriveDidWebKeys(MASTER, { appId: 'alice' }) });
+    documents.set('/users/alice/did.json', userDoc);
+    documents.set('/users/mallory/did.json', { ...userDoc });
+    documents.set('/users/garbage/did.json', 'not json');
+
+    const result = await resolveDidWeb(`${did}#${doc.verificationMethod[0].id.split('#')[1]}`, { fetch: stubFetch });
+    expect(result).toEqual({
+      didDocument: doc,
+      didResolutionMetadata: { contentType: 'application/did+json' },
+      didDocumentMetadata: {},
+    });
+    expect(((await resolveDid(userDid, { fetch: stubFetch })).didDocument as DidDocument).id).toBe(userDid);
+
+    const error = async (id: string) => (await resolveDidWeb(id, { fetch: stubFetch })).didResolutionMetadata.error;
+    expect(await error(encodeDidWeb(host, ['users', 'bob']))).toBe('notFound');
+    expect(await error(encodeDidWeb(host, ['broken']))).toBe('internalError');
+    expect(await error(encodeDidWeb(host, ['users', 'mallory']))).toBe('invalidDidDocument');
+    expect(await error(encodeDidWeb(host, ['users', 'garbage']))).toBe('invalidDidDocument');
+    expect(await error('did:web:bad_host')).toBe('invalidDid');
+    expect(await error('did:example:123')).toBe('methodNotSupported');
+
+    const unreachable: DidWebFetch = () => Promise.reject(new Error('connect ECONNREFUSED'));
+    expect((await resolveDidWeb(did, { fetch: unreachable })).didResolutionMetadata).toEqual({
+      error: 'internalError',
+      message: 'connect ECONNREFUSED',
+    });
+    // did:key never reaches the network
+    const key = await deriveDidKey(MASTER, 'ed25519');
+    expect((await resolveDid(key.did, { fetch: unreachable })).didDocument).toEqual(key.document);
+  });
+});
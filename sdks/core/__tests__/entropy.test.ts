@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimatePassphraseEntropy,
+  deriveMasterKey,
+  normalizePassphrase,
+  WeakPassphraseError,
+  MIN_PASSPHRASE_ENTROPY_BITS,
+  DICTIONARY_WORD_BITS,
+  EFF_LARGE,
+} from '../src/index';
+
+// Seven words from the EFF large list
+const SEVEN_WORDS = 'correct canyon battery staple mountain ocean lantern';
+
+function codes(p: string, opts?: Parameters<typeof estimatePassphraseEntropy>[1]): string[] {
+  return estimatePassphraseEntropy(p, opts).warnings.map((w) => w.code);
+}
+
+describe('@seedid/core passphrase entropy estimation', () => {
+  it('scores 7 Diceware words at the 90-bit policy (whitepaper §6)', () => {
+    const r = estimatePassphraseEntropy(SEVEN_WORDS, { wordlist: EFF_LARGE.words });
+    expect(r.method).toBe('wordlist');
+    expect(r.wordCount).toBe(7);
+    expect(r.bits).toBe(90.4);
+    expect(r.meetsMinimum).toBe(true);
+    expect(r.minimumBits).toBe(MIN_PASSPHRASE_ENTROPY_BITS);
+    expect(r.warnings).toEqual([]);
+  });
+
+  it('warns below the policy with too few words', () => {
+    const r = estimatePassphraseEntropy('correct horse battery staple');
+    expect(r.method).toBe('diceware-heuristic');
+    expect(r.bits).toBe(4 * DICTIONARY_WORD_BITS);
+    expect(r.meetsMinimum).toBe(false);
+    expect(codes('correct horse battery staple')).toEqual(['heuristic-estimate', 'too-few-words', 'below-minimum']);
+  });
+
+  it('does not score chosen words or famous phrases as random picks', () => {
+    const phrases = [
+      'mary had a little lamb its fleece was white',
+      'to be or not to be that is the question whether tis nobler',
+      'the quick brown fox jumps over the lazy dog',
+    ];
+    for (const p of phrases) {
+      for (const r of [estimatePassphraseEntropy(p), estimatePassphraseEntropy(p, { wordlist: EFF_LARGE.words })]) {
+        expect(r.method).toBe('diceware-heuristic');
+        expect(r.meetsMinimum).toBe(false);
+        expect(r.warnings.map((w) => w.code)).toContain('heuristic-estimate');
+      }
+    }
+    // Without the list, genuine Diceware cannot be told apart from chosen words either
+    expect(estimatePassphraseEntropy(SEVEN_WORDS).bits).toBe(7 * DICTIONARY_WORD_BITS);
+  });
+
+  it('uses the wordlist size when words come from a known list', () => {
+    const list = Array.from({ length: 1024 }, (_, i) => `w${String.fromCharCode(97 + (i % 26))}${String.fromCharCode(97 + Math.floor(i / 26))}`);
+    list[0] = 'alpha';
+    list[1] = 'bravo';
+    list[2] = 'charlie';
+    const r = estimatePassphraseEntropy('alpha bravo charlie', { wordlist: list });
+    expect(r.method).toBe('wordlist');
+    expect(r.bits).toBe(30);
+    const partial = estimatePassphraseEntropy('alpha bravo zebra', { wordlist: new Set(list) });
+    expect(partial.method).toBe('diceware-heuristic');
+    expect(partial.warnings.map((w) => w.code)).toContain('unknown-word');
+  });
+
+  it('does not credit repeated words', () => {
+    const r = estimatePassphraseEntropy('dog dog dog dog dog dog dog dog');
+    expect(r.bits).toBe(DICTIONARY_WORD_BITS);
+    expect(r.warnings.map((w) => w.code)).toContain('repeated-word');
+  });
+
+  it('scores character-class passwords by pool size and length', () => {
+    // 11 chars from [a-z0-9] + symbols after lowercasing: 11 * log2(69)
+    const r = estimatePassphraseEntropy('Tr0ub4dor&3');
+    expect(r.method).toBe('charset');
+    expect(r.bits).toBeCloseTo(11 * Math.log2(69), 0);
+    expect(r.warnings.map((w) => w.code)).toContain('uppercase-ignored');
+    expect(estimatePassphraseEntropy('x7#kq9!mz2@pl4$wr8^nb5&v').meetsMinimum).toBe(true);
+  });
+
+  it('penalizes common patterns', () => {
+    expect(codes('password2024')).toEqual(['common-password', 'date-pattern', 'below-minimum']);
+    expect(estimatePassphraseEntropy('password2024').bits).toBeLessThan(20);
+    expect(codes('aaaaaaaaaaaaaaaa')).toContain('repeated-chars');
+    expect(estimatePassphraseEntropy('aaaaaaaaaaaaaaaa').bits).toBeLessThan(5);
+    expect(codes('zyxw9876')).toContain('sequence');
+  });
+
+  it('reports empty input without throwing', () => {
+    const r = estimatePassphraseEntropy('   ');
+    expect(r.bits).toBe(0);
+    expect(r.length).toBe(0);
+    expect(codes('   ')).toEqual(['empty']);
+  });
+
+  it('supports a custom policy threshold', () => {
+    const r = estimatePassphraseEntropy('correct horse battery staple', { minimumBits: 20 });
+    expect(r.meetsMinimum).toBe(true);
+    expect(r.minimumBits).toBe(20);
+  });
+});
+
+describe('@seedid/core deriveMasterKey entropy policy', () => {
+  it('refuses weak passphrases with a typed error', async () => {
+    const err = await deriveMasterKey('correct horse battery staple', {
+      algorithm: 'argon2id',
+      minEntropyBits: 90,
+    }).catch((e) => e);
+    expect(err).toBeInstanceOf(WeakPassphraseError);
+    expect(err.name).toBe('WeakPassphraseError');
+    expect(err.minEntropyBits).toBe(90);
+    expect(err.report.wordCount).toBe(4);
+
+    const quote = 'to be or not to be that is the question whether tis nobler in the mind to suffer';
+    await expect(deriveMasterKey(quote, { algorithm: 'argon2id', minEntropyBits: 90 })).rejects.toBeInstanceOf(WeakPassphraseError);
+  });
+
+  it('accepts passphrases that meet the policy', async () => {
+    const out = await deriveMasterKey(SEVEN_WORDS, {
+      algorithm: 'scrypt',
+      params: { n: 1024 },
+      testMode: true,
+      minEntropyBits: 90,
+    });
+    expect(out.length).toBe(32);
+  });
+
+  it('rejects empty passphrases', async () => {
+    expect(() => normalizePassphrase('')).toThrow(/empty/);
+    await expect(deriveMasterKey(' \t ', { algorithm: 'argon2id' })).rejects.toThrow(/empty/);
+  });
+});
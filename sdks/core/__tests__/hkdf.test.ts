@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hkdf,
+  hkdfSync,
+  hkdfExtract,
+  hkdfExpand,
+  deriveNamespaces,
+  forNostr,
+  forDidKey,
+  forWallet,
+  forAppWallet,
+  appLabel,
+  HKDF_SALT,
+  LABEL_NOSTR_KEY,
+  LABEL_DID_KEY_ED25519,
+  LABEL_DID_KEY_SECP256K1,
+  LABEL_WALLET_ETH,
+  LABEL_WALLET_BTC,
+  LABEL_WALLET_SOL,
+} from '../src/index';
+import { hkdfSync as nodeHkdf } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+function hexToBytes(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+function bytesToHex(buf: Uint8Array): string {
+  return Array.from(buf)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function readFixture(name: string): Promise<any> {
+  const p = path.resolve(__dirname, '../fixtures', name);
+  return JSON.parse(await fs.readFile(p, 'utf8'));
+}
+
+const FIXTURES = ['nostr.json', 'didkey_ed25519.json', 'didkey_secp256k1.json', 'wallet_eth.json', 'wallet_btc.json', 'wallet_sol.json'];
+
+describe('@seedid/core sync HKDF', () => {
+  it('matches RFC 5869 test case 1', () => {
+    const ikm = new Uint8Array(22).fill(0x0b);
+    const salt = hexToBytes('000102030405060708090a0b0c');
+    const info = hexToBytes('f0f1f2f3f4f5f6f7f8f9');
+    const prk = hkdfExtract(ikm, salt);
+    expect(bytesToHex(prk)).toBe('077709362c2e32df0ddc3f0dc47bba6390b6c73bb50f9c3122ec844ad7c2b3e5');
+    expect(bytesToHex(hkdfExpand(prk, info, 42))).toBe(
+      '3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865'
+    );
+  });
+
+  it('is vector-compatible with the async hkdf and the fixtures', async () => {
+    for (const name of FIXTURES) {
+      const fx = await readFixture(name);
+      const master = hexToBytes(fx.kdf.master_hex);
+      const sync = hkdfSync(master, fx.hkdf_info, { salt: HKDF_SALT, length: 32 });
+      expect(bytesToHex(sync)).toBe(fx.hkdf_root_hex);
+      expect(await hkdf(master, fx.hkdf_info, { salt: HKDF_SALT, length: 32 })).toEqual(sync);
+    }
+  });
+
+  it('agrees with node:crypto for multi-block outputs', () => {
+    const ikm = Uint8Array.from({ length: 32 }, (_, i) => i);
+    for (const length of [1, 31, 33, 64, 100, 8160]) {
+      const expected = new Uint8Array(nodeHkdf('sha256', ikm, HKDF_SALT, 'seedid/v1/test', length));
+      expect(hkdfSync(ikm, 'seedid/v1/test', { length })).toEqual(expected);
+    }
+    expect(() => hkdfSync(ikm, 'x', { length: 0 })).toThrow(/Invalid HKDF output length/);
+    expect(() => hkdfSync(ikm, 'x', { length: 8161 })).toThrow(/Invalid HKDF output length/);
+  });
+});
+
+describe('@seedid/core deriveNamespaces', () => {
+  it('extracts once and expands each label to the same roots as the helpers', async () => {
+    const fx = await readFixture('nostr.json');
+    const master = hexToBytes(fx.kdf.master_hex);
+    const app = appLabel('wallet:eth', 'com.example.chat');
+    const roots = deriveNamespaces(master, [
+      LABEL_NOSTR_KEY,
+      LABEL_DID_KEY_ED25519,
+      LABEL_DID_KEY_SECP256K1,
+      LABEL_WALLET_ETH,
+      LABEL_WALLET_BTC,
+      LABEL_WALLET_SOL,
+      app,
+    ]);
+    expect(Object.keys(roots)).toHaveLength(7);
+    expect(bytesToHex(roots[LABEL_NOSTR_KEY])).toBe(fx.hkdf_root_hex);
+    expect(roots[LABEL_NOSTR_KEY]).toEqual(await forNostr(master));
+    expect(roots[LABEL_DID_KEY_ED25519]).toEqual(await forDidKey(master, 'ed25519'));
+    expect(roots[LABEL_DID_KEY_SECP256K1]).toEqual(await forDidKey(master, 'secp256k1'));
+    expect(roots[LABEL_WALLET_ETH]).toEqual(await forWallet(master, 'eth'));
+    expect(roots[LABEL_WALLET_BTC]).toEqual(await forWallet(master, 'btc'));
+    expect(roots[LABEL_WALLET_SOL]).toEqual(await forWallet(master, 'sol'));
+    expect(roots[app]).toEqual(await forAppWallet(master, 'eth', 'com.example.chat'));
+  });
+
+  it('validates the master key and labels', () => {
+    expect(() => deriveNamespaces(new Uint8Array(16), [LABEL_NOSTR_KEY])).toThrow(/32 bytes/);
+    expect(() => deriveNamespaces(new Uint8Array(32), [''])).toThrow(/non-empty/);
+    expect(deriveNamespaces(new Uint8Array(32), [])).toEqual({});
+  });
+});
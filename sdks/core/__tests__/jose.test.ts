@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import {
+  createEcdsaSigner,
+  createEd25519Signer,
+  createSchnorrSigner,
+  didKeySigner,
+  deriveDidKey,
+  deriveJwks,
+  publicKeyJwk,
+  jwkPublicKey,
+  jwkThumbprint,
+  signerJwk,
+  signJws,
+  signJwt,
+  decodeJws,
+  verifyJws,
+  verifyJwt,
+  buildDidWebDocument,
+  deriveDidWebKeys,
+  encodeDidWeb,
+  JoseError,
+} from '../src/index';
+import type { DidWebFetch, PublicJwk } from '../src/index';
+
+function hexToBytes(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+const b64u = (s: string) => Uint8Array.from(Buffer.from(s, 'base64url'));
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => i + 10);
+const T = 1_700_000_000;
+
+describe('JWK / JWKS', () => {
+  it('round-trips keys, thumbprints and derived key sets', async () => {
+    // RFC 8037 A.2 / A.3
+    const rfc: PublicJwk = { kty: 'OKP', crv: 'Ed25519', x: '11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo' };
+    expect(jwkThumbprint(rfc)).toBe('kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k');
+    const { curve, publicKey } = jwkPublicKey(rfc);
+    expect(curve).toBe('ed25519');
+    expect(publicKeyJwk(publicKey, 'ed25519')).toMatchObject({ ...rfc, alg: 'EdDSA', use: 'sig', kid: expect.stringMatching(/^did:key:z6Mk.*#z6Mk/) });
+
+    const k1Pub = secp256k1.getPublicKey(hexToBytes('b7e151628aed2a6abf7158809cf4f3c762e7160f38b4da56a784d9045190cfef'), true);
+    const k1 = publicKeyJwk(k1Pub, 'secp256k1', { kid: 'k1' });
+    expect(k1).toMatchObject({ kty: 'EC', crv: 'secp256k1', kid: 'k1', alg: 'ES256K' });
+    expect(jwkPublicKey(k1).publicKey).toEqual(k1Pub);
+    expect(() => jwkPublicKey({ ...k1, y: k1.x })).toThrow(/secp256k1 point/);
+    expect(() => jwkPublicKey({ ...rfc, crv: 'secp256k1' })).toThrow(/Unsupported JWK/);
+
+    const jwks = await deriveJwks(MASTER);
+    const ed = await deriveDidKey(MASTER, 'ed25519');
+    const secp = await deriveDidKey(MASTER, 'secp256k1');
+    expect(jwks.keys.map((k) => k.kid)).toEqual([ed.keyId, secp.keyId]);
+    expect(jwkPublicKey(jwks.keys[1]).publicKey).toEqual(secp.publicKey);
+    expect(await deriveJwks(MASTER)).toEqual(jwks); // stable kids and keys
+    expect((await deriveJwks(MASTER, { appId: 'com.example', curves: ['ed25519'] })).keys).toHaveLength(1);
+  });
+});
+
+describe('JWS / JWT', () => {
+  it('signs and verifies EdDSA and ES256K, interoperating with RFC 8037', async () => {
+    // RFC 8037 A.4
+    const rfcJws =
+      'eyJhbGciOiJFZERTQSJ9.RXhhbXBsZSBvZiBFZDI1NTE5IHNpZ25pbmc.hgyY0il_MGCjP0JzlnLWG1PPOt7-09PGcvMg3AIbQR6dWbhijcNR4ki4iylGjg5BhVsPt9g7sVvpAr_MuM0KAg';
+    const rfcKey: PublicJwk = { kty: 'OKP', crv: 'Ed25519', x: '11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo' };
+    const verified = await verifyJws(rfcJws, { key: rfcKey });
+    expect(new TextDecoder().decode(verified.payload)).toBe('Example of Ed25519 signing');
+    const rfcSigner = createEd25519Signer(b64u('nWGxne_9WmC6hEr0kuwsxERJxWl7MmkZcDusAxyuf2A'));
+    const jws = await signJws(rfcSigner, 'Example of Ed25519 signing', { header: { alg: 'none', typ: 'x' } });
+    expect(decodeJws(jws).header).toEqual({ typ: 'x', alg: 'EdDSA', kid: signerJwk(rfcSigner).kid });
+    await expect(verifyJws(jws, { key: rfcKey })).resolves.toMatchObject({ key: rfcKey });
+
+    // ES256K signs SHA-256 of the signing input even for a signer with a custom message hash
+    const priv = hexToBytes('b7e151628aed2a6abf7158809cf4f3c762e7160f38b4da56a784d9045190cfef');
+    const pub = secp256k1.getPublicKey(priv, true);
+    const k1Signer = createEcdsaSigner(priv.slice(), { hashMessage: () => new Uint8Array(32) });
+    const es = await signJws(k1Signer, new Uint8Array([1, 2, 3]), { kid: 'k1' });
+    const [h, p, s] = es.split('.');
+    expect(secp256k1.verify(b64u(s), sha256(new TextEncoder().encode(`${h}.${p}`)), pub, { prehash: false })).toBe(true);
+    const k1 = publicKeyJwk(pub, 'secp256k1', { kid: 'k1' });
+    expect((await verifyJws(es, { key: { keys: [signerJwk(rfcSigner), k1] } })).payload).toEqual(new Uint8Array([1, 2, 3]));
+
+    // Algorithm confusion, tampering, wrong keys
+    const reject = (token: string, key: PublicJwk, code: string) =>
+      expect(verifyJws(token, { key })).rejects.toMatchObject({ name: 'JoseError', code });
+    await reject(es, rfcKey, 'unsupported_alg');
+    await reject(es.replace(/\.[^.]+\./, `.${Buffer.from('x').toString('base64url')}.`), k1, 'bad_signature');
+    await reject(`${h}.${p}.${s}!`, k1, 'malformed');
+    await reject('a.b', k1, 'malformed');
+    await expect(verifyJws(es, { key: k1, algorithms: ['EdDSA'] })).rejects.toThrow(JoseError);
+    await expect(verifyJws(es)).rejects.toMatchObject({ code: 'key_not_found' });
+    await expect(signJws(createSchnorrSigner(priv.slice()), 'x')).rejects.toThrow(/No JWS algorithm/);
+  });
+
+  it('issues JWTs from did:key signers verifiable by kid alone', async () => {
+    const signer = await didKeySigner(MASTER, 'ed25519');
+    const k1Signer = await didKeySigner(MASTER, 'secp256k1');
+    try {
+      const jwt = await signJwt(signer, { sub: 'alice', aud: ['api'], scope: 'read' }, { expiresIn: 600, now: T });
+      const { header, payload } = await verifyJwt(jwt, { issuer: signer.did, audience: 'api', now: T + 10, requireExpiry: true });
+      expect(header).toEqual({ typ: 'JWT', alg: 'EdDSA', kid: signer.keyId });
+      expect(payload).toEqual({ iss: signer.did, sub: 'alice', aud: ['api'], scope: 'read', iat: T, exp: T + 600 });
+
+      const claims = (opts: Parameters<typeof verifyJwt>[1]) => verifyJwt(jwt, { now: T, ...opts });
+      await expect(claims({ now: T + 700 })).rejects.toMatchObject({ code: 'expired' });
+      await expect(claims({ now: T - 3600 })).rejects.toMatchObject({ code: 'not_yet_valid' });
+      await expect(claims({ audience: 'other' })).rejects.toMatchObject({ code: 'claim_mismatch' });
+      await expect(claims({ issuer: k1Signer.did })).rejects.toMatchObject({ code: 'claim_mismatch' });
+      await expect(claims({ typ: 'vc+jwt' })).rejects.toMatchObject({ code: 'claim_mismatch' });
+
+      // A key of one DID cannot issue tokens as another
+      const forged = await signJwt(k1Signer, { iss: signer.did }, { now: T });
+      await expect(verifyJwt(forged, { now: T })).rejects.toMatchObject({ code: 'claim_mismatch' });
+      const es = await signJwt(k1Signer, {}, { now: T });
+      expect((await verifyJwt(es, { now: T })).header.alg).toBe('ES256K');
+      await expect(verifyJwt(es, { now: T, purpose: 'keyAgreement' })).rejects.toMatchObject({ code: 'key_not_found' });
+    } finally {
+      signer.dispose();
+      k1Signer.dispose();
+    }
+  });
+
+  it('resolves did:web kids through the DID Document', async () => {
+    let served: unknown;
+    const server = createServer((_req, res) => res.writeHead(200).end(JSON.stringify(served)));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const did = encodeDidWeb(`localhost:${(server.address() as AddressInfo).port}`);
+    const doc = buildDidWebDocument(did, { keys: await deriveDidWebKeys(MASTER) });
+    served = doc;
+    const fetch: DidWebFetch = (url, init) => globalThis.fetch(url.replace(/^https:/, 'http:'), init);
+    const signer = await didKeySigner(MASTER, 'secp256k1');
+    try {
+      const kid = `${did}#${signer.keyId.split('#')[1]}`;
+      const jwt = await signJwt(signer, { iss: did }, { kid, now: T });
+      expect((await verifyJwt(jwt, { issuer: did, now: T, resolve: { fetch } })).key.kid).toBe(kid);
+      const unknown = await signJwt(signer, { iss: did }, { kid: `${did}#other`, now: T });
+      await expect(verifyJwt(unknown, { now: T, resolve: { fetch } })).rejects.toMatchObject({ code: 'key_not_found' });
+
+      // Junk entries in a fetched document are skipped, not dereferenced
+      for (const hostile of [
+        { ...doc, verificationMethod: [null, { id: 5 }], assertionMethod: [null, 7, { id: 5 }, kid] },
+        { ...doc, verificationMethod: { id: kid }, assertionMethod: [kid] },
+      ]) {
+        served = hostile;
+        await expect(verifyJwt(jwt, { now: T, resolve: { fetch } })).rejects.toMatchObject({ code: 'key_not_found' });
+      }
+    } finally {
+      signer.dispose();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { deriveMasterKey, deriveMasterKeyWithMetadata, registerKdfAdapter, scryptAdapter } from '../src/index';
+import type { KdfProgress } from '../src/index';
+
+const PASSPHRASE = 'correct horse battery staple mountain ocean forest';
+const ARGON_FAST = { algorithm: 'argon2id' as const, params: { memory_cost: 1024, time_cost: 1, parallelism: 1 }, testMode: true };
+const SCRYPT_FAST = { algorithm: 'scrypt' as const, params: { n: 1024 }, testMode: true };
+
+describe('@seedid/core KDF worker execution', () => {
+  it('produces byte-identical keys to the inline path', async () => {
+    for (const opts of [
+      ARGON_FAST,
+      SCRYPT_FAST,
+      { ...SCRYPT_FAST, context: { userId: 'alice', pepper: 'pepper' } },
+    ]) {
+      const inline = await deriveMasterKeyWithMetadata(PASSPHRASE, opts);
+      const worker = await deriveMasterKeyWithMetadata(PASSPHRASE, { ...opts, execution: { mode: 'worker' } });
+      expect(worker.master).toEqual(inline.master);
+      expect(worker.metadata).toEqual(inline.metadata);
+      expect(inline.timing.mode).toBe('inline');
+      expect(worker.timing.mode).toBe('worker');
+    }
+  }, 30000);
+
+  it('reports progress and timing', async () => {
+    const events: KdfProgress[] = [];
+    const { timing } = await deriveMasterKeyWithMetadata(PASSPHRASE, {
+      ...ARGON_FAST,
+      execution: { mode: 'worker', onProgress: (p) => events.push(p), progressIntervalMs: 5, expectedMs: 1e9 },
+    });
+    expect(events[0].phase).toBe('start');
+    expect(events.some((e) => e.phase === 'derive')).toBe(true);
+    expect(events[events.length - 1]).toMatchObject({ phase: 'done', fraction: 1 });
+    expect(events.filter((e) => e.phase !== 'done').every((e) => (e.fraction ?? 0) < 1)).toBe(true);
+    expect(timing.algorithm).toBe('argon2id');
+    expect(timing.kdfMs).toBeGreaterThan(0);
+    expect(timing.totalMs).toBeGreaterThanOrEqual(timing.kdfMs);
+    expect(timing.overheadMs).toBeGreaterThanOrEqual(0);
+  }, 30000);
+
+  it('cancels a running worker derivation via AbortSignal', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const p = deriveMasterKey(PASSPHRASE, {
+      algorithm: 'argon2id',
+      params: { memory_cost: 65536, time_cost: 50, parallelism: 1 },
+      execution: {
+        mode: 'worker',
+        signal: controller.signal,
+        onProgress: (e) => {
+          if (e.phase === 'derive') controller.abort();
+        },
+      },
+    });
+    const err = await p.catch((e) => e);
+    expect(err.name).toBe('AbortError');
+    expect(Date.now() - started).toBeLessThan(20000);
+  }, 30000);
+
+  it('rejects immediately when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    for (const mode of ['inline', 'worker'] as const) {
+      const err = await deriveMasterKey(PASSPHRASE, { ...SCRYPT_FAST, execution: { mode, signal: controller.signal } }).catch((e) => e);
+      expect(err.name).toBe('AbortError');
+    }
+  });
+
+  it('discards inline results aborted mid-run', async () => {
+    const controller = new AbortController();
+    const p = deriveMasterKey(PASSPHRASE, { ...SCRYPT_FAST, execution: { signal: controller.signal } });
+    controller.abort();
+    await expect(p).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('refuses worker mode for adapters that do not exist in the worker', async () => {
+    registerKdfAdapter({ ...scryptAdapter, algorithm: 'scrypt-custom' });
+    const opts = { algorithm: 'scrypt-custom' as any, params: { n: 1024 }, testMode: true };
+    expect((await deriveMasterKey(PASSPHRASE, opts)).length).toBe(32);
+    await expect(deriveMasterKey(PASSPHRASE, { ...opts, execution: { mode: 'worker' } })).rejects.toThrow(/not supported/);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deriveMasterKey,
+  registerKdfAdapter,
+  getKdfAdapter,
+  listKdfAlgorithms,
+  argon2idAdapter,
+  scryptAdapter,
+  ARGON2ID_DEFAULTS,
+  type KdfAdapter,
+} from '../src/index';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+function bytesToHex(buf: Uint8Array): string {
+  return Array.from(buf)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function readFixture(name: string): Promise<any> {
+  const p = path.resolve(__dirname, '../fixtures', name);
+  return JSON.parse(await fs.readFile(p, 'utf8'));
+}
+
+describe('@seedid/core KDF adapter registry', () => {
+  it('registers argon2id and scrypt by default', () => {
+    expect(listKdfAlgorithms()).toEqual(expect.arrayContaining(['argon2id', 'scrypt']));
+    expect(getKdfAdapter('argon2id')).toBe(argon2idAdapter);
+    expect(getKdfAdapter('scrypt')).toBe(scryptAdapter);
+    expect(() => getKdfAdapter('pbkdf2')).toThrow(/Unsupported KDF algorithm/);
+  });
+
+  it('scrypt adapter reproduces the published fixture master key (test mode)', async () => {
+    const fx = await readFixture('nostr.json');
+    const out = await deriveMasterKey(fx.passphrase, {
+      algorithm: 'scrypt',
+      params: fx.kdf.params,
+      testMode: true,
+    });
+    expect(bytesToHex(out)).toBe(fx.kdf.master_hex);
+  });
+
+  it('scrypt rejects fixture-strength params without test mode', async () => {
+    await expect(
+      deriveMasterKey('x', { algorithm: 'scrypt', params: { n: 16384, r: 8, p: 1 } })
+    ).rejects.toThrow(/Unsafe scrypt parameter costFactor/);
+  });
+
+  it('scrypt rejects a non power-of-two cost factor even in test mode', async () => {
+    await expect(
+      deriveMasterKey('x', { algorithm: 'scrypt', params: { n: 1000 }, testMode: true })
+    ).rejects.toThrow(/power of 2/);
+  });
+
+  it('argon2id applies spec defaults and accepts legacy param aliases', () => {
+    expect(argon2idAdapter.resolveParams(undefined)).toEqual(ARGON2ID_DEFAULTS);
+    expect(
+      argon2idAdapter.resolveParams({ memorySize: 65536, iterations: 3, parallelism: 1, hashLength: 32 })
+    ).toEqual({ memorySize: 65536, iterations: 3, parallelism: 1, hashLength: 32 });
+  });
+
+  it('argon2id rejects params below the safety floor unless testMode is set', () => {
+    expect(() => argon2idAdapter.resolveParams({ memory_cost: 1024 })).toThrow(/Unsafe argon2id parameter memorySize/);
+    expect(() => argon2idAdapter.resolveParams({ time_cost: 1 })).toThrow(/Unsafe argon2id parameter iterations/);
+    expect(() => argon2idAdapter.resolveParams({ hash_len: 16 })).toThrow(/Unsafe argon2id parameter hashLength/);
+    expect(argon2idAdapter.resolveParams({ memory_cost: 1024, time_cost: 1 }, { testMode: true }).memorySize).toBe(1024);
+  });
+
+  it('argon2id rejects malformed params regardless of testMode', () => {
+    expect(() => argon2idAdapter.resolveParams({ memory_cost: 1.5 }, { testMode: true })).toThrow(/positive integer/);
+    expect(() => argon2idAdapter.resolveParams({ parallelism: 'two' }, { testMode: true })).toThrow(/positive integer/);
+    expect(() => argon2idAdapter.resolveParams({ hash_len: 2 }, { testMode: true })).toThrow(/hash length/);
+  });
+
+  it('refuses misspelled or conflicting raw params instead of silently using defaults', async () => {
+    await expect(deriveMasterKey('x', { algorithm: 'argon2id', params: { memory: 65536 } })).rejects.toThrow(/Unknown argon2id parameter: memory/);
+    await expect(
+      deriveMasterKey('x', { algorithm: 'scrypt', params: { n: 1024, costFactor: 2048 }, testMode: true })
+    ).rejects.toThrow(/Conflicting scrypt parameters n and costFactor/);
+  });
+
+  it('plugs custom adapters in behind deriveMasterKey', async () => {
+    const seen: Array<{ password: string; salt: number; rounds: number }> = [];
+    const fake: KdfAdapter<{ rounds: number }> = {
+      algorithm: 'test-xor',
+      resolveParams(params) {
+        return { rounds: Number(params?.rounds ?? 1) };
+      },
+      async derive(password, salt, params) {
+        seen.push({ password: new TextDecoder().decode(password), salt: salt.length, rounds: params.rounds });
+        return new Uint8Array(32).fill(params.rounds);
+      },
+    };
+    registerKdfAdapter(fake);
+    // @ts-expect-error: plugin algorithms are added via module augmentation in real code
+    const out = await deriveMasterKey('  Plugin Pass ', { algorithm: 'test-xor', params: { rounds: 7 } });
+    expect(out).toEqual(new Uint8Array(32).fill(7));
+    expect(seen).toEqual([{ password: 'plugin pass', salt: 16, rounds: 7 }]);
+  });
+
+  it('refuses to replace a registered adapter without replace: true', () => {
+    expect(() => registerKdfAdapter({ ...scryptAdapter })).toThrow(/already registered/);
+    expect(() => registerKdfAdapter({ ...scryptAdapter }, { replace: true })).not.toThrow();
+    registerKdfAdapter(scryptAdapter, { replace: true });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exportMasterKeystore,
+  exportRootKeystore,
+  importKeystore,
+  serializeKeystore,
+  decryptKeystore,
+  withDecryptedKeystore,
+  deriveMasterKeyWithMetadata,
+  kdfParamsFromMetadata,
+  deriveMasterKey,
+  forWallet,
+  zeroize,
+  KeystoreIntegrityError,
+  LABEL_WALLET_ETH,
+} from '../src/index';
+import type { SeedIdKeystore } from '../src/index';
+
+const FAST = { kdf: { algorithm: 'scrypt' as const, params: { n: 1024 }, testMode: true } };
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => i + 1);
+
+function clone(ks: SeedIdKeystore): SeedIdKeystore {
+  return JSON.parse(JSON.stringify(ks));
+}
+
+describe('@seedid/core keystore', () => {
+  it('round-trips a master key with its derivation metadata', async () => {
+    const { master, metadata } = await deriveMasterKeyWithMetadata('correct horse battery staple', {
+      algorithm: 'scrypt',
+      params: { n: 1024 },
+      testMode: true,
+      context: { userId: 'alice@example.com' },
+    });
+    const ks = await exportMasterKeystore(master, '1234-pin', { ...FAST, derivation: metadata });
+    expect(ks).toMatchObject({ version: 1, type: 'seedid-keystore', kind: 'master' });
+    expect(ks.crypto).toMatchObject({ cipher: 'aes-256-gcm', kdf: { function: 'scrypt', testMode: true } });
+    expect(ks.crypto.ciphertext).toHaveLength((32 + 16) * 2);
+    expect(JSON.stringify(ks)).not.toContain(Buffer.from(master).toString('hex'));
+
+    const opened = await decryptKeystore(serializeKeystore(ks), '1234-pin');
+    expect(opened.key).toEqual(master);
+    expect(opened.derivation).toEqual(metadata);
+    // the recorded metadata re-derives the same master from the passphrase
+    expect(await deriveMasterKey('correct horse battery staple', kdfParamsFromMetadata(opened.derivation!))).toEqual(master);
+  });
+
+  it('wraps roots under a raw 32-byte unlock key', async () => {
+    const root = await forWallet(MASTER, 'eth');
+    const unlock = new Uint8Array(32).fill(7);
+    const ks = await exportRootKeystore(root, LABEL_WALLET_ETH, unlock);
+    expect(ks.crypto.kdf).toEqual({ function: 'hkdf-sha256', salt: expect.stringMatching(/^[0-9a-f]{32}$/) });
+    const opened = await decryptKeystore(ks, unlock);
+    expect(opened).toMatchObject({ kind: 'root', label: LABEL_WALLET_ETH });
+    expect(opened.key).toEqual(root);
+    await expect(decryptKeystore(ks, 'a password')).rejects.toThrow(/32-byte key/);
+    await expect(decryptKeystore(ks, new Uint8Array(32).fill(8))).rejects.toThrow(KeystoreIntegrityError);
+  });
+
+  it('detects a wrong secret and any tampering', async () => {
+    const ks = await exportMasterKeystore(MASTER, 'secret', FAST);
+    await expect(decryptKeystore(ks, 'Secret')).rejects.toThrow(KeystoreIntegrityError);
+
+    const tampered: ((k: SeedIdKeystore) => void)[] = [
+      (k) => Object.assign(k, { kind: 'root', label: 'seedid/v1/nostr:key' }),
+      (k) => (k.derivation = { algorithm: 'scrypt', params: { N: 1024 } } as any),
+      (k) => (k.createdAt = new Date(0).toISOString()),
+      (k) => (k.id = '00000000-0000-4000-8000-000000000000'),
+      (k) => (k.crypto.nonce = k.crypto.nonce.replace(/^./, (c) => (c === '0' ? '1' : '0'))),
+      (k) => (k.crypto.ciphertext = k.crypto.ciphertext.replace(/.$/, (c) => (c === '0' ? '1' : '0'))),
+    ];
+    for (const mutate of tampered) {
+      const copy = clone(ks);
+      mutate(copy);
+      await expect(decryptKeystore(copy, 'secret')).rejects.toThrow(KeystoreIntegrityError);
+    }
+    // property order does not matter after a round trip
+    const reordered = JSON.parse(JSON.stringify({ crypto: ks.crypto, ...ks }));
+    expect((await decryptKeystore(reordered, 'secret')).key).toEqual(MASTER);
+  });
+
+  it('zeroizes the decrypted key after use', async () => {
+    const ks = await exportMasterKeystore(MASTER, 'secret', FAST);
+    let seen: Uint8Array | undefined;
+    const root = await withDecryptedKeystore(ks, 'secret', async (key, info) => {
+      seen = key;
+      expect(info.kind).toBe('master');
+      return forWallet(key, 'btc');
+    });
+    expect(root).toEqual(await forWallet(MASTER, 'btc'));
+    expect(seen!.every((b) => b === 0)).toBe(true);
+
+    await expect(
+      withDecryptedKeystore(ks, 'secret', (key) => {
+        seen = key;
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(seen!.every((b) => b === 0)).toBe(true);
+
+    const a = new Uint8Array([1, 2]);
+    const b = new Uint8Array([3]);
+    zeroize(a, undefined, b);
+    expect([...a, ...b]).toEqual([0, 0, 0]);
+  });
+
+  it('validates envelopes and inputs', async () => {
+    const ks = await exportMasterKeystore(MASTER, 'secret', FAST);
+    expect(importKeystore(serializeKeystore(ks))).toEqual(ks);
+    expect(() => importKeystore('{')).toThrow(/not valid JSON/);
+    expect(() => importKeystore(JSON.stringify({ ...ks, version: 3 }))).toThrow(/Unsupported keystore/);
+    expect(() => importKeystore(JSON.stringify({ ...ks, crypto: { ...ks.crypto, cipher: 'aes-128-ctr' } }))).toThrow(/cipher/);
+    expect(() => importKeystore(JSON.stringify({ ...ks, crypto: { ...ks.crypto, kdf: { ...ks.crypto.kdf, function: 'pbkdf2' } } }))).toThrow(
+      /Unsupported KDF algorithm|No KDF adapter|pbkdf2/
+    );
+    await expect(exportMasterKeystore(new Uint8Array(16), 'secret', FAST)).rejects.toThrow(/32 bytes/);
+    await expect(exportRootKeystore(MASTER, '', 'secret', FAST)).rejects.toThrow(/label/);
+    await expect(exportMasterKeystore(MASTER, '', FAST)).rejects.toThrow(/must not be empty/);
+    await expect(exportMasterKeystore(MASTER, 'secret', { kdf: { algorithm: 'scrypt', params: { n: 1024 } } })).rejects.toThrow(/Unsafe/);
+  });
+});
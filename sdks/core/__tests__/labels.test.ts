@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  labelFor,
+  parseLabel,
+  registerLabel,
+  getLabelDefinition,
+  listLabelDefinitions,
+  deriveVersionedRoots,
+  appLabel,
+  forNostr,
+  forAppNostr,
+  hkdf,
+  HKDF_SALT,
+  LABEL_NOSTR_KEY,
+  LABEL_DID_KEY_ED25519,
+  LABEL_DID_KEY_SECP256K1,
+  LABEL_WALLET_ETH,
+  LABEL_WALLET_BTC,
+  LABEL_WALLET_SOL,
+} from '../src/index';
+
+declare module '../src/index' {
+  interface LabelPurposes {
+    'acme:signing': true;
+  }
+}
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => i + 1);
+
+describe('@seedid/core label registry', () => {
+  it('registers the canonical v1 labels', () => {
+    expect(labelFor('nostr:key')).toBe(LABEL_NOSTR_KEY);
+    expect(labelFor('did:key:ed25519')).toBe(LABEL_DID_KEY_ED25519);
+    expect(labelFor('did:key:secp256k1')).toBe(LABEL_DID_KEY_SECP256K1);
+    expect(labelFor('wallet:eth')).toBe(LABEL_WALLET_ETH);
+    expect(labelFor('wallet:btc')).toBe(LABEL_WALLET_BTC);
+    expect(labelFor('wallet:sol')).toBe(LABEL_WALLET_SOL);
+    expect(getLabelDefinition('wallet:sol')).toMatchObject({ version: 1, curve: 'ed25519', label: LABEL_WALLET_SOL });
+    expect(labelFor('wallet:eth', { appId: 'Com.Example.Chat' })).toBe(appLabel('wallet:eth', 'com.example.chat'));
+  });
+
+  it('parses canonical labels and rejects malformed or non-ASCII ones', () => {
+    expect(parseLabel('seedid/v1/nostr:key')).toEqual({ version: 1, purpose: 'nostr:key' });
+    expect(parseLabel('seedid/v12/wallet:eth/app:com.example')).toEqual({ version: 12, purpose: 'wallet:eth', appId: 'com.example' });
+    for (const bad of [
+      'seedid/v1/nostr:kéy',
+      'seedid/v1/Nostr:key',
+      'seedid/v0/nostr:key',
+      'seedid/v01/nostr:key',
+      'seedid/v1/nostr::key',
+      'seedid/v1/nostr:key/',
+      'seedid/v1/nostr:key/app:Com.Example',
+      'seedid/v1/nostr:key/extra',
+      'seedid/v1/nostr key',
+      'other/v1/nostr:key',
+    ]) {
+      expect(() => parseLabel(bad), bad).toThrow();
+    }
+  });
+
+  it('is idempotent for identical registrations and immutable otherwise', () => {
+    const def = getLabelDefinition('nostr:key');
+    expect(registerLabel({ purpose: 'nostr:key', semantics: def.semantics, curve: def.curve })).toBe(def);
+    expect(() => registerLabel({ purpose: 'nostr:key', semantics: 'Nostr key, but different', curve: 'secp256k1' })).toThrow(
+      /different semantics/
+    );
+    expect(() => registerLabel({ purpose: 'nostr:key', semantics: def.semantics, curve: 'ed25519' })).toThrow(/different semantics/);
+    expect(() => registerLabel({ purpose: 'Bad/Purpose', semantics: 'x' })).toThrow(/Invalid label purpose/);
+    expect(() => registerLabel({ purpose: 'acme:x', version: 0, semantics: 'x' })).toThrow(/Invalid label version/);
+    expect(() => registerLabel({ purpose: 'acme:x', semantics: ' ' })).toThrow(/semantics/);
+    expect(() => labelFor('nostr:key', { version: 7 })).toThrow(/Unregistered HKDF label/);
+  });
+
+  it('lets plugins register new purposes without touching core', () => {
+    const def = registerLabel({ purpose: 'acme:signing', semantics: 'ACME document signing key', curve: 'ed25519' });
+    expect(def.label).toBe('seedid/v1/acme:signing');
+    expect(labelFor('acme:signing')).toBe('seedid/v1/acme:signing');
+    expect(listLabelDefinitions('acme:signing')).toEqual([def]);
+  });
+});
+
+describe('@seedid/core v1/v2 migration', () => {
+  it('derives both versions side by side once v2 is registered', async () => {
+    registerLabel({ purpose: 'nostr:key', version: 2, semantics: 'Nostr key v2 (test semantics)', curve: 'secp256k1' });
+    expect(listLabelDefinitions('nostr:key').map((d) => d.version)).toEqual([1, 2]);
+
+    const [v1, v2] = deriveVersionedRoots(MASTER, 'nostr:key', [1, 2]);
+    expect(v1).toMatchObject({ version: 1, label: LABEL_NOSTR_KEY });
+    expect(v1.root).toEqual(await forNostr(MASTER));
+    expect(v2.label).toBe('seedid/v2/nostr:key');
+    expect(v2.root).toEqual(await hkdf(MASTER, 'seedid/v2/nostr:key', { salt: HKDF_SALT, length: 32 }));
+    expect(v2.root).not.toEqual(v1.root);
+
+    const [appV1, appV2] = deriveVersionedRoots(MASTER, 'nostr:key', [1, 2], { appId: 'com.example' });
+    expect(appV1.root).toEqual(await forAppNostr(MASTER, 'com.example'));
+    expect(appV2.label).toBe('seedid/v2/nostr:key/app:com.example');
+
+    expect(() => deriveVersionedRoots(MASTER, 'wallet:eth', [1, 2])).toThrow(/Unregistered HKDF label: seedid\/v2\/wallet:eth/);
+  });
+});
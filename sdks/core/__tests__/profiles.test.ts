@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  KDF_PROFILES,
+  kdfProfile,
+  matchKdfProfile,
+  calibrateKdf,
+  encodeDerivationParams,
+  parseDerivationParams,
+  kdfParamsFromString,
+  deriveMasterKey,
+  deriveMasterKeyWithMetadata,
+  ARGON2ID_DEFAULTS,
+  ARGON2ID_MINIMUMS,
+  argon2idAdapter,
+} from '../src/index';
+
+const PASSPHRASE = 'correct horse battery staple mountain ocean forest';
+const SCRYPT_FAST = { algorithm: 'scrypt' as const, params: { n: 1024 }, testMode: true };
+
+describe('@seedid/core KDF profiles', () => {
+  it('pins every parameter of the named profiles', () => {
+    expect(kdfProfile('spec-default')).toEqual({ algorithm: 'argon2id', params: ARGON2ID_DEFAULTS });
+    expect(kdfProfile('mobile').params).toEqual(ARGON2ID_MINIMUMS);
+    expect(kdfProfile('server-hardened').params).toEqual({ memorySize: 1048576, iterations: 4, parallelism: 4, hashLength: 32 });
+    for (const p of Object.values(KDF_PROFILES)) {
+      // every profile passes the production floor
+      expect(argon2idAdapter.resolveParams(kdfProfile(p.name).params)).toEqual(p.params);
+    }
+    expect(() => kdfProfile('fast' as any)).toThrow(/Unknown KDF profile/);
+  });
+
+  it('identifies resolved params that match a profile', () => {
+    expect(matchKdfProfile('argon2id', { ...ARGON2ID_DEFAULTS })).toBe('spec-default');
+    expect(matchKdfProfile('argon2id', { ...ARGON2ID_DEFAULTS, iterations: 6 })).toBeUndefined();
+    expect(matchKdfProfile('scrypt', { ...ARGON2ID_DEFAULTS })).toBeUndefined();
+  });
+});
+
+describe('@seedid/core KDF calibration', () => {
+  it('suggests params within the budget and never below the floor', async () => {
+    const generous = await calibrateKdf({ targetMs: 1e7, benchmarkMemoryKiB: 1024 });
+    expect(generous.params.memorySize).toBe(ARGON2ID_DEFAULTS.memorySize);
+    expect(generous.params.iterations).toBeGreaterThanOrEqual(ARGON2ID_MINIMUMS.iterations);
+    expect(generous.meetsTarget).toBe(true);
+    expect(generous.profile).toBe('spec-default'); // server-hardened exceeds maxMemoryKiB
+    expect(generous.benchmark).toMatchObject({ memorySize: 1024, iterations: 1 });
+
+    const tight = await calibrateKdf({ targetMs: 0.001, benchmarkMemoryKiB: 1024 });
+    expect(tight.params).toEqual({ ...ARGON2ID_MINIMUMS, parallelism: 2 });
+    expect(tight.meetsTarget).toBe(false);
+    expect(tight.profile).toBeUndefined();
+
+    const bigBox = await calibrateKdf({ targetMs: 1e9, maxMemoryKiB: 1048576, benchmarkMemoryKiB: 1024 });
+    expect(bigBox.profile).toBe('server-hardened');
+  }, 30000);
+
+  it('validates options', async () => {
+    await expect(calibrateKdf({ maxMemoryKiB: 1024 })).rejects.toThrow(/maxMemoryKiB/);
+    await expect(calibrateKdf({ targetMs: 0 })).rejects.toThrow(/targetMs/);
+  });
+});
+
+describe('@seedid/core seedid1 parameter string', () => {
+  it('encodes the spec defaults compactly', async () => {
+    const meta = {
+      version: 1 as const,
+      kdf: { algorithm: 'argon2id' as const, params: { ...ARGON2ID_DEFAULTS } },
+      salt: { mode: 'zero' as const, saltHex: '00'.repeat(16) },
+      pepper: { mode: 'none' as const },
+    };
+    expect(encodeDerivationParams(meta)).toBe('seedid1$argon2id$m=262144,t=5,p=2,l=32$salt=zero');
+    expect(parseDerivationParams('seedid1$argon2id$m=262144,t=5,p=2,l=32$salt=zero')).toEqual(meta);
+  });
+
+  it('round-trips salt modes, pepper ids and test mode', async () => {
+    for (const opts of [
+      { ...SCRYPT_FAST, context: { userId: 'alice@example.com', pepper: 'secret', pepperId: 'v1' } },
+      { ...SCRYPT_FAST, salt: new Uint8Array([0, 255, 16]) },
+      { ...SCRYPT_FAST, context: { userId: 'ユーザー$1', pepper: 'secret' } },
+    ]) {
+      const { metadata } = await deriveMasterKeyWithMetadata(PASSPHRASE, opts);
+      const s = encodeDerivationParams(metadata);
+      expect(s.startsWith('seedid1$scrypt$n=1024,r=8,p=1,l=32$salt=')).toBe(true);
+      expect(s.endsWith('$test')).toBe(true);
+      expect(s).not.toContain('secret');
+      expect(parseDerivationParams(s)).toEqual(metadata);
+    }
+    const custom = await deriveMasterKeyWithMetadata(PASSPHRASE, { ...SCRYPT_FAST, salt: new Uint8Array([0, 255, 16]) });
+    expect(encodeDerivationParams(custom.metadata)).toBe('seedid1$scrypt$n=1024,r=8,p=1,l=32$salt=custom:00ff10$test');
+  });
+
+  it('reproduces the master key from the string', async () => {
+    const { master, metadata } = await deriveMasterKeyWithMetadata(PASSPHRASE, {
+      ...SCRYPT_FAST,
+      context: { userId: 'alice@example.com', pepper: 'secret', pepperId: 'v1' },
+    });
+    const s = encodeDerivationParams(metadata);
+    expect(await deriveMasterKey(PASSPHRASE, kdfParamsFromString(s, { pepper: 'secret' }))).toEqual(master);
+    expect(() => kdfParamsFromString(s)).toThrow(/supply it/);
+  });
+
+  it('rejects malformed and non-canonical strings', () => {
+    const ok = 'seedid1$argon2id$m=262144,t=5,p=2,l=32$salt=zero';
+    expect(() => parseDerivationParams(ok.replace('seedid1', 'seedid2'))).toThrow(/version/);
+    expect(() => parseDerivationParams(ok.replace('m=262144,t=5', 't=5,m=262144'))).toThrow(/in that order/);
+    expect(() => parseDerivationParams(ok.replace('t=5', 't=05'))).toThrow(/Invalid parameter/);
+    expect(() => parseDerivationParams(ok.replace('salt=zero', 'salt=custom:00FF'))).toThrow(/salt segment/);
+    expect(() => parseDerivationParams(ok + '$test$pepper')).toThrow(/Unexpected/);
+    expect(() => parseDerivationParams(ok + '$pepper=')).toThrow();
+    expect(() => parseDerivationParams('seedid1$argon2id$m=1$salt=zero')).toThrow(/in that order/);
+  });
+});
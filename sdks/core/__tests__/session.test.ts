@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  SeedIdSession,
+  SessionLockedError,
+  forNostr,
+  forDidKey,
+  forWallet,
+  forAppWallet,
+  forBip85,
+  deriveServiceKey,
+  exportMasterKeystore,
+  exportRootKeystore,
+  LABEL_WALLET_ETH,
+} from '../src/index';
+import type { SessionLockReason } from '../src/index';
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => i + 1);
+
+function master(): Uint8Array {
+  return MASTER.slice();
+}
+
+function isZero(buf: Uint8Array): boolean {
+  return buf.every((b) => b === 0);
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('@seedid/core SeedIdSession', () => {
+  it('derives the same roots as the raw-bytes helpers', async () => {
+    const input = master();
+    const session = SeedIdSession.fromMasterKey(input);
+    expect(isZero(input)).toBe(true);
+
+    expect(session.nostr()).toEqual(await forNostr(MASTER));
+    expect(session.didKey('ed25519')).toEqual(await forDidKey(MASTER, 'ed25519'));
+    expect(session.wallet('sol', { appId: 'com.example' })).toEqual(await forAppWallet(MASTER, 'sol', 'com.example'));
+    expect(session.root(LABEL_WALLET_ETH)).toEqual(await forWallet(MASTER, 'eth'));
+    expect(await forBip85(session)).toEqual(await forBip85(MASTER));
+    expect(await forWallet(session, 'btc')).toEqual(await forWallet(MASTER, 'btc'));
+
+    const key = await deriveServiceKey(session, 'did:web:example.com', 'ed25519');
+    expect(key).toEqual(await deriveServiceKey(MASTER, 'did:web:example.com', 'ed25519'));
+    expect(() => session.root('seedid/v1/Wallet:eth')).toThrow(/Invalid label purpose/);
+    expect(() => session.root('seedid/v1/acme:unknown')).toThrow(/Unregistered HKDF label/);
+    expect(() => session.root('seedid/v9/nostr:key')).toThrow(/Unregistered HKDF label/);
+    session.lock();
+  });
+
+  it('zeroizes the master and everything handed out on lock', async () => {
+    const reasons: SessionLockReason[] = [];
+    const session = SeedIdSession.fromMasterKey(master(), { onLock: (r) => reasons.push(r) });
+    const root = session.wallet('eth');
+    const viaHelper = await forNostr(session);
+    const service = await deriveServiceKey(session, 'did:web:example.com', 'secp256k1');
+    const adopted = session.adopt(new Uint8Array([9, 9, 9]));
+    let leaked: Uint8Array | undefined;
+    session.withMasterKey((m) => {
+      leaked = m;
+    });
+    expect(isZero(leaked!)).toBe(true);
+
+    session.lock();
+    session.lock();
+    expect(session.locked).toBe(true);
+    expect(reasons).toEqual(['manual']);
+    for (const buf of [root, viaHelper, service.privateKey, adopted]) expect(isZero(buf)).toBe(true);
+    expect(() => session.nostr()).toThrow(SessionLockedError);
+    await expect(forWallet(session, 'eth')).rejects.toThrow(SessionLockedError);
+    const late = new Uint8Array([1]);
+    expect(() => session.adopt(late)).toThrow(SessionLockedError);
+    expect(isZero(late)).toBe(true);
+  });
+
+  it('disposes the session and scoped keys (the `using` desugaring)', async () => {
+    // Written out as what `using` compiles to: the test transform does not lower `using` yet.
+    const session = SeedIdSession.fromMasterKey(master());
+    let kept: Uint8Array;
+    try {
+      kept = session.didKey('secp256k1');
+      const root = session.wallet('eth');
+      expect(session.issuedCount).toBe(2);
+      try {
+        expect(isZero(root)).toBe(false);
+      } finally {
+        root[Symbol.dispose]();
+      }
+      expect(isZero(root)).toBe(true);
+      expect(session.issuedCount).toBe(1);
+      expect(isZero(kept)).toBe(false);
+      expect(session.locked).toBe(false);
+    } finally {
+      session[Symbol.dispose]();
+    }
+    expect(session.locked).toBe(true);
+    expect(isZero(kept)).toBe(true);
+
+    const again = await SeedIdSession.fromKeystore(
+      await exportMasterKeystore(master(), 'pin', { kdf: { algorithm: 'scrypt', params: { n: 1024 }, testMode: true } }),
+      'pin'
+    );
+    expect(again.nostr()).toEqual(await forNostr(MASTER));
+    again[Symbol.dispose]();
+    expect(again.locked).toBe(true);
+
+    const rootKs = await exportRootKeystore(await forWallet(MASTER, 'eth'), LABEL_WALLET_ETH, new Uint8Array(32).fill(1));
+    await expect(SeedIdSession.fromKeystore(rootKs, new Uint8Array(32).fill(1))).rejects.toThrow(/master key/);
+  });
+
+  it('auto-locks after the idle timeout; every use resets the timer', () => {
+    vi.useFakeTimers();
+    const onLock = vi.fn();
+    const session = SeedIdSession.fromMasterKey(master(), { idleTimeoutMs: 1000, onLock });
+    const root = session.nostr();
+    vi.advanceTimersByTime(900);
+    session.wallet('eth');
+    vi.advanceTimersByTime(900);
+    session.touch();
+    vi.advanceTimersByTime(900);
+    expect(session.locked).toBe(false);
+    vi.advanceTimersByTime(100);
+    expect(session.locked).toBe(true);
+    expect(onLock).toHaveBeenCalledWith('idle');
+    expect(isZero(root)).toBe(true);
+    expect(() => session.touch()).toThrow(SessionLockedError);
+
+    const forever = SeedIdSession.fromMasterKey(master(), { idleTimeoutMs: Infinity });
+    vi.advanceTimersByTime(24 * 3600_000);
+    expect(forever.locked).toBe(false);
+    forever.lock();
+
+    expect(() => SeedIdSession.fromMasterKey(master(), { idleTimeoutMs: 0 })).toThrow(/idleTimeoutMs/);
+    expect(() => SeedIdSession.fromMasterKey(master(), { idleTimeoutMs: 2 ** 31 })).toThrow(/idleTimeoutMs/);
+    expect(() => SeedIdSession.fromMasterKey(new Uint8Array(16))).toThrow(/32 bytes/);
+  });
+});
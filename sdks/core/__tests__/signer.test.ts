@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { secp256k1, schnorr } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import {
+  createEcdsaSigner,
+  createSchnorrSigner,
+  createEd25519Signer,
+  nostrSigner,
+  serviceSigner,
+  verifyEcdsaDigest,
+  verifyEcdsaMessage,
+  recoverEcdsaPublicKey,
+  verifySchnorrDigest,
+  verifySchnorrMessage,
+  verifyEd25519Message,
+  verifyEd25519Digest,
+  secp256k1KeyFromSeed,
+  deriveServiceKey,
+  forNostr,
+  forAppNostr,
+  SeedIdSession,
+} from '../src/index';
+
+function hexToBytes(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+function bytesToHex(buf: Uint8Array): string {
+  return Array.from(buf)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => i + 1);
+const KEY_HEX = 'b7e151628aed2a6abf7158809cf4f3c762e7160f38b4da56a784d9045190cfef';
+
+describe('@seedid/core signers', () => {
+  it('ECDSA: signs messages and digests without exposing the key', async () => {
+    const key = hexToBytes(KEY_HEX);
+    const signer = createEcdsaSigner(key);
+    expect(bytesToHex(key)).toBe('00'.repeat(32));
+    expect(signer).toMatchObject({ curve: 'secp256k1', scheme: 'ecdsa-secp256k1', disposed: false });
+    expect(JSON.stringify(signer)).not.toContain(KEY_HEX);
+    for (const value of Object.values(signer)) expect(value instanceof Uint8Array).toBe(false);
+
+    const publicKey = signer.getPublicKey();
+    expect(publicKey).toEqual(secp256k1.getPublicKey(hexToBytes(KEY_HEX), true));
+    const sig = await signer.signMessage('hello');
+    expect(sig).toHaveLength(64);
+    // RFC 6979: same signature as noble with the default SHA-256 prehash
+    expect(sig).toEqual(secp256k1.sign(new TextEncoder().encode('hello'), hexToBytes(KEY_HEX)));
+    expect(verifyEcdsaMessage(sig, 'hello', publicKey)).toBe(true);
+    expect(verifyEcdsaMessage(sig, 'hellO', publicKey)).toBe(false);
+
+    const digest = sha256(new TextEncoder().encode('digest'));
+    expect(verifyEcdsaDigest(await signer.signDigest(digest), digest, publicKey)).toBe(true);
+    await expect(signer.signDigest(new Uint8Array(31))).rejects.toThrow(/32 bytes/);
+
+    const recovering = createEcdsaSigner(hexToBytes(KEY_HEX), { format: 'recovered' });
+    const recovered = await recovering.signDigest(digest);
+    expect(recovered).toHaveLength(65);
+    expect(recoverEcdsaPublicKey(recovered, digest)).toEqual(publicKey);
+    expect(verifyEcdsaDigest(recovered, digest, publicKey)).toBe(true);
+
+    signer.dispose();
+    expect(signer.disposed).toBe(true);
+    await expect(signer.signMessage('hello')).rejects.toThrow(/disposed/);
+    expect(signer.getPublicKey()).toEqual(publicKey);
+  });
+
+  it('BIP-340 Schnorr: x-only keys and the published vector', async () => {
+    const signer = createSchnorrSigner(hexToBytes(KEY_HEX));
+    // BIP-340 test vector 1
+    const pub = 'dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659';
+    const msg = hexToBytes('243f6a8885a308d313198a2e03707344a4093822299f31d0082efa98ec4e6c89');
+    const vectorSig = hexToBytes(
+      '6896bd60eeae296db48a229ff71dfe071bde413e6d43f917dc8dcf8c78de33418906d11ac976abccb20b091292bff4ea897efcb639ea871cfa95f6de339e4b0a'
+    );
+    expect(bytesToHex(signer.getPublicKey())).toBe(pub);
+    expect(verifySchnorrDigest(vectorSig, msg, hexToBytes(pub))).toBe(true);
+    expect(verifySchnorrDigest(await signer.signDigest(msg), msg, hexToBytes(pub))).toBe(true);
+    const sig = await signer.signMessage('nostr');
+    expect(verifySchnorrMessage(sig, 'nostr', hexToBytes(pub))).toBe(true);
+    expect(verifySchnorrDigest(sig, sha256(new TextEncoder().encode('nostr')), hexToBytes(pub))).toBe(true);
+    expect(verifySchnorrMessage(sig, 'nostr!', hexToBytes(pub))).toBe(false);
+  });
+
+  it('Ed25519: RFC 8032 test 1', async () => {
+    const signer = createEd25519Signer(hexToBytes('9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60'));
+    const pub = hexToBytes('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a');
+    expect(signer.getPublicKey()).toEqual(pub);
+    const sig = await signer.signMessage(new Uint8Array(0));
+    expect(bytesToHex(sig)).toBe(
+      'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b'
+    );
+    expect(verifyEd25519Message(sig, new Uint8Array(0), pub)).toBe(true);
+    const digest = sha256(new Uint8Array([1]));
+    expect(verifyEd25519Digest(await signer.signDigest(digest), digest, pub)).toBe(true);
+    expect(verifyEd25519Message(sig, new Uint8Array([0]), pub)).toBe(false);
+    expect(verifyEd25519Message(new Uint8Array(3), new Uint8Array(0), pub)).toBe(false);
+  });
+
+  it('derives Nostr and service signers from a master key or a session', async () => {
+    const signer = await nostrSigner(MASTER);
+    const key = secp256k1KeyFromSeed(await forNostr(MASTER));
+    expect(signer.getPublicKey()).toEqual(schnorr.getPublicKey(key));
+    expect((await nostrSigner(MASTER, { appId: 'com.example' })).getPublicKey()).toEqual(
+      schnorr.getPublicKey(secp256k1KeyFromSeed(await forAppNostr(MASTER, 'com.example')))
+    );
+
+    const srn = 'did:web:example.com';
+    const ed = await serviceSigner(MASTER, srn, 'ed25519');
+    expect(ed.getPublicKey()).toEqual((await deriveServiceKey(MASTER, srn, 'ed25519')).publicKey);
+    const ecdsa = await serviceSigner(MASTER, srn, 'secp256k1');
+    expect(ecdsa.scheme).toBe('ecdsa-secp256k1');
+    expect(ecdsa.getPublicKey()).toEqual((await deriveServiceKey(MASTER, srn, 'secp256k1')).publicKey);
+
+    const session = SeedIdSession.fromMasterKey(MASTER.slice());
+    const fromSession = await nostrSigner(session);
+    expect(fromSession.getPublicKey()).toEqual(signer.getPublicKey());
+    // Only the signer's key stays tracked; the intermediate root is released, and so is the key on dispose
+    expect(session.issuedCount).toBe(1);
+    const transient = await nostrSigner(session, { appId: 'com.example' });
+    expect(session.issuedCount).toBe(2);
+    transient.dispose();
+    expect(session.issuedCount).toBe(1);
+    const service = await serviceSigner(session, srn, 'ed25519');
+    const sig = await service.signMessage('login');
+    expect(verifyEd25519Message(sig, 'login', ed.getPublicKey())).toBe(true);
+
+    session.lock();
+    expect(fromSession.disposed).toBe(true);
+    expect(service.disposed).toBe(true);
+    await expect(fromSession.signMessage('x')).rejects.toThrow(/disposed/);
+    await expect(nostrSigner(session)).rejects.toThrow(/locked/);
+  });
+
+  it('validates inputs', () => {
+    expect(() => createEcdsaSigner(new Uint8Array(16))).toThrow(/32 bytes/);
+    expect(() => createEcdsaSigner(new Uint8Array(32))).toThrow();
+    expect(() => recoverEcdsaPublicKey(new Uint8Array(64), new Uint8Array(32))).toThrow(/65 bytes/);
+    expect(verifyEcdsaDigest(new Uint8Array(64), new Uint8Array(32), new Uint8Array(33))).toBe(false);
+    expect(secp256k1KeyFromSeed(new Uint8Array(32))).toEqual(sha256(new Uint8Array(32)));
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  slip39Split,
+  slip39Combine,
+  decodeSlip39Share,
+  isValidSlip39Share,
+  splitMasterKey,
+  recoverMasterKey,
+  splitPassphrase,
+  recoverPassphrase,
+  deriveMasterKey,
+  normalizePassphrase,
+  forWallet,
+  forNostr,
+} from '../src/index';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+function hexToBytes(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+function bytesToHex(buf: Uint8Array): string {
+  return Array.from(buf)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function readFixture(name: string): Promise<any> {
+  const p = path.resolve(__dirname, '../fixtures', name);
+  return JSON.parse(await fs.readFile(p, 'utf8'));
+}
+
+const FAST = { iterationExponent: 0 };
+
+describe('@seedid/core SLIP-39 reference vectors', () => {
+  it('combines valid vectors and rejects invalid ones', async () => {
+    const fx = await readFixture('slip39_vectors.json');
+    expect(fx.vectors).toHaveLength(45);
+    for (const v of fx.vectors) {
+      if (v.master_secret_hex) {
+        expect(bytesToHex(slip39Combine(v.mnemonics, { passphrase: fx.passphrase })), v.description).toBe(v.master_secret_hex);
+      } else {
+        expect(() => slip39Combine(v.mnemonics, { passphrase: fx.passphrase }), v.description).toThrow();
+      }
+    }
+  });
+});
+
+describe('@seedid/core SLIP-39 shares', () => {
+  it('recovers the master key and reproduces forWallet/forNostr roots', async () => {
+    const master = await deriveMasterKey('correct horse battery staple', { algorithm: 'scrypt', params: { n: 1024 }, testMode: true });
+    const [shares] = splitMasterKey(master, FAST);
+    expect(shares).toHaveLength(5);
+    expect(shares.every((m) => m.split(' ').length === 33)).toBe(true);
+
+    const recovered = recoverMasterKey([shares[4], shares[0], shares[2]]);
+    expect(recovered).toEqual(master);
+    expect(await forWallet(recovered, 'eth')).toEqual(await forWallet(master, 'eth'));
+    expect(await forNostr(recovered)).toEqual(await forNostr(master));
+    expect(() => recoverMasterKey(shares.slice(0, 2))).toThrow(/Insufficient/);
+  });
+
+  it('recovers the normalized passphrase', () => {
+    const passphrase = '  Correct Horse  ';
+    const [shares] = splitPassphrase(passphrase, { groups: [{ threshold: 2, count: 3 }], ...FAST });
+    expect(recoverPassphrase(shares.slice(1))).toBe(normalizePassphrase(passphrase));
+    expect(() => recoverMasterKey(shares.slice(1))).toThrow(/32-byte master key/);
+  });
+
+  it('supports group thresholds and a share passphrase', () => {
+    const secret = Uint8Array.from({ length: 32 }, (_, i) => i * 7);
+    const groups = slip39Split(secret, {
+      groupThreshold: 2,
+      groups: [
+        { threshold: 1, count: 1 },
+        { threshold: 2, count: 3 },
+        { threshold: 3, count: 5 },
+      ],
+      passphrase: 'TREZOR',
+      ...FAST,
+    });
+    expect(groups.map((g) => g.length)).toEqual([1, 3, 5]);
+    expect(decodeSlip39Share(groups[2][0])).toMatchObject({ groupIndex: 2, groupThreshold: 2, groupCount: 3, memberThreshold: 3 });
+
+    expect(slip39Combine([groups[0][0], groups[2][1], groups[2][3], groups[2][4]], { passphrase: 'TREZOR' })).toEqual(secret);
+    expect(slip39Combine([...groups[1].slice(0, 2), ...groups[2].slice(0, 3)], { passphrase: 'TREZOR' })).toEqual(secret);
+    expect(slip39Combine([groups[0][0], ...groups[1].slice(1)])).not.toEqual(secret);
+    expect(() => slip39Combine([groups[0][0], groups[1][0]], { passphrase: 'TREZOR' })).toThrow(/Insufficient/);
+  });
+
+  it('detects corrupted shares and invalid parameters', () => {
+    const [shares] = slip39Split(new Uint8Array(16).fill(1), FAST);
+    const words = shares[0].split(' ');
+    words[5] = words[5] === 'academic' ? 'acid' : 'academic';
+    expect(isValidSlip39Share(shares[0])).toBe(true);
+    expect(isValidSlip39Share(words.join(' '))).toBe(false);
+    expect(() => decodeSlip39Share(words.join(' '))).toThrow(/checksum/);
+    expect(() => decodeSlip39Share('not a slip39 mnemonic')).toThrow(/Invalid SLIP-39 mnemonic word/);
+
+    expect(() => slip39Split(new Uint8Array(15))).toThrow(/at least 16 bytes/);
+    expect(() => slip39Split(new Uint8Array(16), { groups: [{ threshold: 1, count: 2 }] })).toThrow(/1-of-1/);
+    expect(() => slip39Split(new Uint8Array(16), { groups: [{ threshold: 4, count: 3 }] })).toThrow(/threshold/);
+    expect(() => slip39Split(new Uint8Array(16), { groupThreshold: 2 })).toThrow(/group threshold/);
+    expect(() => slip39Split(new Uint8Array(16), { passphrase: 'pässword' })).toThrow(/printable ASCII/);
+  });
+});
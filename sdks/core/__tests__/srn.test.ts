@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSrn,
+  canonicalizeSrn,
+  isValidSrn,
+  serviceSeedInfo,
+  deriveServiceSeed,
+  deriveServiceKey,
+} from '../src/index';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+function bytesToHex(buf: Uint8Array): string {
+  return Array.from(buf)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function readFixture(name: string): Promise<any> {
+  const p = path.resolve(__dirname, '../fixtures', name);
+  return JSON.parse(await fs.readFile(p, 'utf8'));
+}
+
+const CERT = 'FA:C6:17:45:DC:09:03:78:6F:B9:ED:E6:2A:96:2B:39:9F:73:48:F0:BB:6F:89:9B:83:32:66:75:91:03:3B:9C';
+
+describe('@seedid/core SRN parsing', () => {
+  it('parses the whitepaper SRN forms', () => {
+    expect(parseSrn('did:web:example.com')).toEqual({
+      type: 'did',
+      srn: 'did:web:example.com',
+      method: 'web',
+      identifier: 'example.com',
+    });
+    expect(parseSrn('did:ion:EiClkZMDxPK')).toMatchObject({ type: 'did', method: 'ion', identifier: 'EiClkZMDxPK' });
+    expect(parseSrn(`pkg:android:com.app|cert:SHA256:${CERT}`)).toEqual({
+      type: 'android',
+      srn: `pkg:android:com.app|cert:SHA256:${CERT}`,
+      packageName: 'com.app',
+      certSha256: CERT,
+    });
+  });
+
+  it('canonicalizes equivalent spellings to one SRN', () => {
+    expect(canonicalizeSrn('DID:WEB:Example.COM')).toBe('did:web:example.com');
+    expect(canonicalizeSrn('did:web:example.com%3a8443:Users:Alice')).toBe('did:web:example.com%3A8443:Users:Alice');
+    // method-specific ids other than did:web hosts are case-sensitive
+    expect(canonicalizeSrn('did:ion:EiAbC')).toBe('did:ion:EiAbC');
+    const bare = CERT.replace(/:/g, '').toLowerCase();
+    expect(canonicalizeSrn(`pkg:android:com.app|cert:sha256:${bare}`)).toBe(`pkg:android:com.app|cert:SHA256:${CERT}`);
+  });
+
+  it('rejects malformed SRNs', () => {
+    for (const bad of [
+      '',
+      'example.com',
+      'https://example.com',
+      'did:web',
+      'did:web:',
+      'did:we b:example.com',
+      'did:web:example.com/path',
+      'did:web:example.com#frag',
+      'did:web:exämple.com',
+      'pkg:android:com.app',
+      'pkg:android:app|cert:SHA256:' + CERT,
+      'pkg:android:com.app|cert:SHA1:AA:BB',
+      'pkg:ios:com.app|cert:SHA256:' + CERT,
+    ]) {
+      expect(isValidSrn(bad)).toBe(false);
+    }
+    expect(() => parseSrn('did:web:' + 'a'.repeat(600))).toThrow(/maximum length/);
+  });
+
+  it('builds the whitepaper info string from the canonical SRN', () => {
+    expect(serviceSeedInfo('DID:web:EXAMPLE.com', 'secp256k1')).toBe('rp:did:web:example.com|curve:secp256k1|v1');
+    // @ts-expect-error: deliberate invalid curve
+    expect(() => serviceSeedInfo('did:web:example.com', 'p256')).toThrow(/Unsupported SRN curve/);
+  });
+});
+
+describe('@seedid/core service seed derivation', () => {
+  it('matches published SRN vectors', async () => {
+    const fx = await readFixture('srn.json');
+    const master = hexToBytes(fx.kdf.master_hex);
+    for (const v of fx.vectors) {
+      expect(serviceSeedInfo(v.input.srn, v.input.curve)).toBe(v.expected.hkdf_info);
+      const seed = await deriveServiceSeed(master, v.input.srn, v.input.curve);
+      expect(bytesToHex(seed)).toBe(v.expected.seed_hex);
+      const key = await deriveServiceKey(master, v.input.srn, v.input.curve);
+      expect(bytesToHex(key.publicKey)).toBe(v.expected.public_key_hex);
+      expect(key.srn).toBe(canonicalizeSrn(v.input.srn));
+    }
+  });
+
+  it('derives the same key for equivalent SRN spellings and different keys per service', async () => {
+    const master = hexToBytes('da3a8b971ae662e7685cf28c5352009c1bc694e84c871800e46fc87b1a9ffe82');
+    const a = await deriveServiceKey(master, 'did:web:example.com', 'ed25519');
+    const b = await deriveServiceKey(master, 'did:web:EXAMPLE.com', 'ed25519');
+    const c = await deriveServiceKey(master, 'did:web:example.org', 'ed25519');
+    expect(bytesToHex(a.publicKey)).toBe(bytesToHex(b.publicKey));
+    expect(bytesToHex(a.publicKey)).not.toBe(bytesToHex(c.publicKey));
+    expect(a.publicKey.length).toBe(32);
+
+    const k1 = await deriveServiceKey(master, 'did:web:example.com', 'secp256k1');
+    expect(k1.publicKey.length).toBe(33);
+    expect(bytesToHex(k1.privateKey)).not.toBe(bytesToHex(a.privateKey));
+  });
+
+  it('requires a 32-byte master key and a valid SRN', async () => {
+    await expect(deriveServiceSeed(new Uint8Array(16), 'did:web:example.com', 'ed25519')).rejects.toThrow(/32 bytes/);
+    const master = new Uint8Array(32).fill(1);
+    await expect(deriveServiceKey(master, 'not-an-srn', 'ed25519')).rejects.toThrow(/Unsupported SRN scheme/);
+  });
+});
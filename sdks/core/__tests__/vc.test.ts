@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  didKeySigner,
+  signJws,
+  issueDataIntegrityCredential,
+  issueJwtCredential,
+  verifyCredential,
+  presentDataIntegrity,
+  presentJwt,
+  verifyPresentation,
+  createStatusList,
+  setStatus,
+  getStatus,
+  encodeStatusList,
+  decodeStatusList,
+  statusListEntry,
+  createStatusListCredential,
+  localStatusListSource,
+  CredentialError,
+} from '../src/index';
+import type { CredentialInput, DidKeySigner, SecuredCredential } from '../src/index';
+
+const ISSUER = Uint8Array.from({ length: 32 }, (_, i) => i + 10);
+const HOLDER = Uint8Array.from({ length: 32 }, (_, i) => 99 - i);
+const T = 1_700_000_000;
+const LIST_URL = 'https://issuer.example/status/1';
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+let issuer: DidKeySigner;
+let issuerK1: DidKeySigner;
+let holder: DidKeySigner;
+
+beforeAll(async () => {
+  issuer = await didKeySigner(ISSUER, 'ed25519');
+  issuerK1 = await didKeySigner(ISSUER, 'secp256k1');
+  holder = await didKeySigner(HOLDER, 'ed25519');
+});
+
+afterAll(() => {
+  for (const signer of [issuer, issuerK1, holder]) signer.dispose();
+});
+
+function contactCard(extra?: Partial<CredentialInput>): CredentialInput {
+  return {
+    type: ['ContactCardCredential'],
+    credentialSubject: { id: holder.did, knock_url: 'https://relay.seedid.net/knock', policy: { mode: 'referrals-only' } },
+    ...extra,
+  };
+}
+
+describe('verifiable credentials', () => {
+  it('issues and verifies eddsa-jcs-2022 credentials', async () => {
+    const vc = await issueDataIntegrityCredential(issuer, contactCard({ validUntil: '2030-01-01T00:00:00Z' }), { now: T });
+    expect(vc).toMatchObject({
+      '@context': ['https://www.w3.org/ns/credentials/v2'],
+      type: ['VerifiableCredential', 'ContactCardCredential'],
+      issuer: issuer.did,
+      validFrom: '2023-11-14T22:13:20Z',
+    });
+    // The proof carries exactly the config that was signed
+    expect(vc.proof).toEqual({
+      '@context': ['https://www.w3.org/ns/credentials/v2'],
+      type: 'DataIntegrityProof',
+      cryptosuite: 'eddsa-jcs-2022',
+      created: '2023-11-14T22:13:20Z',
+      verificationMethod: issuer.keyId,
+      proofPurpose: 'assertionMethod',
+      proofValue: expect.stringMatching(/^z/),
+    });
+    const verified = await verifyCredential(vc, { now: T + 60 });
+    expect(verified).toMatchObject({ format: 'eddsa-jcs-2022', issuer: issuer.did, verificationMethod: issuer.keyId });
+    expect(verified.credential).not.toHaveProperty('proof');
+    // JCS: member order does not matter
+    const reordered = { proof: vc.proof, ...Object.fromEntries(Object.entries(vc).reverse()) } as SecuredCredential;
+    await expect(verifyCredential(reordered, { now: T })).resolves.toBeTruthy();
+
+    const code = (p: Promise<unknown>) => p.then(() => 'ok', (err: CredentialError) => err.code);
+    const tampered = clone(vc);
+    (tampered.credentialSubject as Record<string, unknown>).knock_url = 'https://evil.example';
+    expect(await code(verifyCredential(tampered, { now: T }))).toBe('bad_proof');
+    const foreign = clone(vc);
+    foreign.issuer = holder.did;
+    expect(await code(verifyCredential(foreign, { now: T }))).toBe('bad_proof');
+    const wrongPurpose = clone(vc);
+    wrongPurpose.proof.proofPurpose = 'authentication';
+    expect(await code(verifyCredential(wrongPurpose, { now: T }))).toBe('bad_proof');
+    expect(await code(verifyCredential(vc, { now: Date.parse('2030-01-02T00:00:00Z') / 1000 }))).toBe('expired');
+    expect(await code(verifyCredential(vc, { now: T - 3600 }))).toBe('not_yet_valid');
+    expect(await code(verifyCredential(vc, { now: T, issuers: [holder.did] }))).toBe('issuer_mismatch');
+    expect(await code(verifyCredential({ ...vc, '@context': ['https://www.w3.org/2018/credentials/v1'] }, { now: T }))).toBe('malformed');
+
+    // The issuer is the signer; eddsa-jcs-2022 needs Ed25519
+    await expect(issueDataIntegrityCredential(issuer, contactCard({ issuer: holder.did }))).rejects.toThrow(/signer DID/);
+    await expect(issueDataIntegrityCredential(issuerK1, contactCard())).rejects.toThrow(/Ed25519/);
+  });
+
+  it('issues and verifies vc+jwt credentials with EdDSA and ES256K', async () => {
+    for (const signer of [issuer, issuerK1]) {
+      const jwt = await issueJwtCredential(signer, contactCard(), { now: T });
+      const header = JSON.parse(Buffer.from(jwt.split('.')[0], 'base64url').toString());
+      expect(header).toEqual({ typ: 'vc+jwt', cty: 'vc', alg: signer === issuer ? 'EdDSA' : 'ES256K', kid: signer.keyId });
+      const verified = await verifyCredential(jwt, { now: T });
+      expect(verified).toMatchObject({ format: 'vc+jwt', issuer: signer.did, verificationMethod: signer.keyId });
+      expect(verified.credential.credentialSubject).toEqual(contactCard().credentialSubject);
+    }
+
+    const code = (p: Promise<unknown>) => p.then(() => 'ok', (err: CredentialError) => err.code);
+    const payload = JSON.stringify({ '@context': ['https://www.w3.org/ns/credentials/v2'], type: ['VerifiableCredential'], issuer: issuer.did, credentialSubject: {} });
+    // Signed by someone other than the issuer it names
+    expect(await code(verifyCredential(await signJws(holder, payload, { header: { typ: 'vc+jwt' } }), { now: T }))).toBe('issuer_mismatch');
+    expect(await code(verifyCredential(await signJws(issuer, payload, { header: { typ: 'JWT' } }), { now: T }))).toBe('bad_proof');
+    const jwt = await issueJwtCredential(issuer, contactCard(), { now: T });
+    expect(await code(verifyCredential(`${jwt.slice(0, -4)}AAAA`, { now: T }))).toBe('bad_proof');
+  });
+});
+
+describe('verifiable presentations', () => {
+  it('binds presentations to the challenge and domain in both forms', async () => {
+    const di = await issueDataIntegrityCredential(issuer, contactCard(), { now: T });
+    const jwt = await issueJwtCredential(issuerK1, contactCard(), { now: T });
+    const opts = { challenge: 'n-0S6_WzA2Mj', domain: 'https://verifier.example', now: T };
+
+    const vp = await presentDataIntegrity(holder, [di, jwt], opts);
+    expect(vp.proof).toMatchObject({ proofPurpose: 'authentication', challenge: opts.challenge, domain: opts.domain, verificationMethod: holder.keyId });
+    expect(vp.verifiableCredential[1]).toEqual({
+      '@context': ['https://www.w3.org/ns/credentials/v2'],
+      id: `data:application/vc+jwt,${jwt}`,
+      type: 'EnvelopedVerifiableCredential',
+    });
+    const verified = await verifyPresentation(vp, opts);
+    expect(verified.holder).toBe(holder.did);
+    expect(verified.credentials.map((c) => [c.format, c.issuer])).toEqual([
+      ['eddsa-jcs-2022', issuer.did],
+      ['vc+jwt', issuerK1.did],
+    ]);
+
+    const vpJwt = await presentJwt(holder, [di, jwt], { ...opts, expiresIn: 300 });
+    const verifiedJwt = await verifyPresentation(vpJwt, opts);
+    expect(verifiedJwt).toMatchObject({ format: 'vp+jwt', holder: holder.did });
+    expect(verifiedJwt.credentials).toHaveLength(2);
+
+    for (const presentation of [vp, vpJwt]) {
+      await expect(verifyPresentation(presentation, { ...opts, challenge: 'other' })).rejects.toMatchObject({ code: 'challenge_mismatch' });
+      await expect(verifyPresentation(presentation, { ...opts, domain: 'https://evil.example' })).rejects.toMatchObject({ code: 'challenge_mismatch' });
+    }
+    await expect(verifyPresentation(vpJwt, { ...opts, now: T + 3600 })).rejects.toMatchObject({ code: 'expired' });
+    const replayed = clone(vp);
+    replayed.proof.challenge = 'other';
+    await expect(verifyPresentation(replayed, { ...opts, challenge: 'other' })).rejects.toMatchObject({ code: 'bad_proof' });
+    const stolen = clone(vp);
+    stolen.holder = issuer.did;
+    await expect(verifyPresentation(stolen, opts)).rejects.toThrow(CredentialError);
+    // A credential inside the presentation is verified too
+    const forged = clone(vp);
+    (forged.verifiableCredential[0] as SecuredCredential).validUntil = '2000-01-01T00:00:00Z';
+    await expect(verifyPresentation(forged, opts)).rejects.toThrow(CredentialError);
+    await expect(presentJwt(holder, [di], { challenge: '' })).rejects.toThrow(/challenge/);
+  });
+});
+
+describe('bitstring status lists', () => {
+  it('encodes lists with the spec bit order', async () => {
+    const list = createStatusList();
+    expect(list).toHaveLength(16384);
+    setStatus(list, 0, true);
+    setStatus(list, 9, true);
+    expect([list[0], list[1]]).toEqual([0x80, 0x40]);
+    const encoded = await encodeStatusList(list);
+    expect(encoded).toMatch(/^uH4sI/);
+    const decoded = await decodeStatusList(encoded);
+    expect([getStatus(decoded, 0), getStatus(decoded, 1), getStatus(decoded, 9)]).toEqual([true, false, true]);
+    setStatus(decoded, 9, false);
+    expect(getStatus(decoded, 9)).toBe(false);
+    expect(() => getStatus(list, 131072)).toThrow(/out of range/);
+    expect(() => createStatusList(1000)).toThrow(/at least/);
+    await expect(decodeStatusList('uAAAA')).rejects.toThrow(/Invalid encodedList/);
+  });
+
+  it('checks revocation and suspension against a local source, failing closed', async () => {
+    const revocations = createStatusList();
+    setStatus(revocations, 7, true);
+    const suspensions = createStatusList();
+    setStatus(suspensions, 8, true);
+    const SUSPENSION_URL = `${LIST_URL}-suspension`;
+    const source = localStatusListSource({
+      [LIST_URL]: await issueDataIntegrityCredential(issuer, await createStatusListCredential({ id: LIST_URL, list: revocations }), { now: T }),
+      [SUSPENSION_URL]: await issueJwtCredential(
+        issuer,
+        await createStatusListCredential({ id: SUSPENSION_URL, list: suspensions, statusPurpose: 'suspension' }),
+        { now: T }
+      ),
+    });
+    const withStatus = (index: number) =>
+      issueDataIntegrityCredential(
+        issuer,
+        contactCard({ credentialStatus: [statusListEntry(LIST_URL, index), statusListEntry(SUSPENSION_URL, index, 'suspension')] }),
+        { now: T }
+      );
+    const code = (p: Promise<unknown>) => p.then(() => 'ok', (err: CredentialError) => err.code);
+
+    expect(await code(verifyCredential(await withStatus(6), { now: T, statusSource: source }))).toBe('ok');
+    expect(await code(verifyCredential(await withStatus(7), { now: T, statusSource: source }))).toBe('revoked');
+    expect(await code(verifyCredential(await withStatus(8), { now: T, statusSource: source }))).toBe('suspended');
+    expect(await code(verifyCredential(await withStatus(7), { now: T }))).toBe('status_unavailable');
+    expect(await code(verifyCredential(await withStatus(7), { now: T, ignoreStatus: true }))).toBe('ok');
+    expect(await code(verifyCredential(await withStatus(7), { now: T, statusSource: localStatusListSource(new Map()) }))).toBe('status_unavailable');
+
+    // A list signed by anyone but the credential's issuer is not trusted
+    const impostor = localStatusListSource({
+      [LIST_URL]: await issueDataIntegrityCredential(holder, await createStatusListCredential({ id: LIST_URL, list: createStatusList() }), { now: T }),
+      [SUSPENSION_URL]: (await source(SUSPENSION_URL))!,
+    });
+    expect(await code(verifyCredential(await withStatus(7), { now: T, statusSource: impostor }))).toBe('status_unavailable');
+
+    // Status is checked for credentials inside presentations as well
+    const vp = await presentJwt(holder, [await withStatus(7)], { challenge: 'c', now: T });
+    await expect(verifyPresentation(vp, { challenge: 'c', now: T, statusSource: source })).rejects.toMatchObject({ code: 'revoked' });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Challenge-response authentication (whitepaper §7).
+ *
+ * The user proves control of the key derived for a service's SRN:
+ *
+ *   proof = { srn, curve, challenge, publicKey, timestamp, signature }
+ *
+ * `signature` covers authProofBytes(): canonical (sorted-key) JSON of every other member plus
+ * `type: 'seedid-auth'`, so a proof cannot be re-purposed as another SeedID statement, and naming
+ * the SRN binds it to one service. secp256k1 keys sign with ECDSA over SHA-256 (64-byte compact
+ * signatures), ed25519 keys with Ed25519; keys and signatures are hex. The derivation path never
+ * leaves the device, and each service only ever sees its own public key.
+ *
+ * verifyAuthProof() is the relying party's side: it checks the SRN, the expected challenge, the
+ * timestamp window and the signature, and only then spends the challenge in an AuthNonceStore,
+ * so a captured proof cannot be replayed and unauthenticated requests cannot burn nonces.
+ */
+
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { AuthProofError } from './errors.js';
+import type { AuthProofErrorCode } from './errors.js';
+import type { MasterKeySource } from './session.js';
+import { serviceSigner, verifyEcdsaMessage, verifyEd25519Message } from './signer.js';
+import { canonicalizeSrn } from './srn.js';
+import type { SrnCurve } from './srn.js';
+import { bytesToBase64Url, canonicalJson, textToBytes } from './utils.js';
+
+export const AUTH_PROOF_TYPE = 'seedid-auth' as const;
+/** How old (seconds) a proof may be by default. */
+export const AUTH_PROOF_MAX_AGE_SEC = 300;
+/** How far in the future (seconds) a proof's timestamp may be. */
+export const AUTH_CLOCK_SKEW_SEC = 60;
+
+const CHALLENGE_MIN_LENGTH = 16;
+const CHALLENGE_MAX_LENGTH = 512;
+const PUBLIC_KEY_LENGTH: Record<SrnCurve, number> = { secp256k1: 33, ed25519: 32 };
+
+export type AuthProof = {
+  /** Canonical SRN of the service. */
+  srn: string;
+  curve: SrnCurve;
+  challenge: string;
+  /** Hex: 33-byte compressed secp256k1 or 32-byte Ed25519 key. */
+  publicKey: string;
+  /** Unix seconds. */
+  timestamp: number;
+  /** Hex, 64 bytes. */
+  signature: string;
+};
+
+/**
+ * Single-use challenge bookkeeping for verifyAuthProof(). Back it with Redis, a database or
+ * memory (MemoryNonceStore); it must be shared by every verifier instance of a service.
+ */
+export interface AuthNonceStore {
+  /**
+   * Atomically record `nonce` as used until `expiresAt` (Unix seconds). Returns false if it was
+   * already recorded.
+   */
+  consume(nonce: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+export type AuthProofOptions = {
+  /** Default secp256k1, as in the whitepaper. */
+  curve?: SrnCurve;
+  /** Unix seconds (default: now). */
+  now?: number;
+};
+
+export type AuthVerifyOptions = {
+  /** The relying party's own SRN. */
+  srn: string;
+  /** The challenge this login was issued (required unless a nonceStore is given). */
+  challenge?: string;
+  /** Spends each challenge once (required unless `challenge` is given). */
+  nonceStore?: AuthNonceStore;
+  /** Pin the account's known public key (hex). */
+  publicKey?: string;
+  /** Accepted curves (default both). */
+  curves?: SrnCurve[];
+  /** Default AUTH_PROOF_MAX_AGE_SEC. */
+  maxAgeSec?: number;
+  /** Default AUTH_CLOCK_SKEW_SEC. */
+  clockSkewSec?: number;
+  /** Unix seconds (default: now). */
+  now?: number;
+};
+
+export type VerifiedAuthProof = { srn: string; curve: SrnCurve; publicKey: string; timestamp: number };
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function fail(code: AuthProofErrorCode, message: string): never {
+  throw new AuthProofError(code, message);
+}
+
+function validChallenge(challenge: unknown): challenge is string {
+  return (
+    typeof challenge === 'string' &&
+    challenge.length >= CHALLENGE_MIN_LENGTH &&
+    challenge.length <= CHALLENGE_MAX_LENGTH &&
+    /^[\x21-\x7e]+$/.test(challenge)
+  );
+}
+
+/** A fresh random challenge for a login attempt: 32 bytes, base64url. */
+export function createAuthChallenge(): string {
+  return bytesToBase64Url(globalThis.crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/** The exact bytes a proof's signature covers. */
+export function authProofBytes(proof: Omit<AuthProof, 'signature'>): Uint8Array {
+  const { srn, curve, challenge, publicKey, timestamp } = proof;
+  return textToBytes(canonicalJson({ type: AUTH_PROOF_TYPE, srn, curve, challenge, publicKey, timestamp }));
+}
+
+/**
+ * authenticate(master, srn, challenge) from the whitepaper: sign `challenge` with the key derived
+ * for `srn` (master key or session).
+ *
+ * @throws If the SRN or challenge is invalid.
+ */
+export async function createAuthProof(
+  source: MasterKeySource,
+  srn: string,
+  challenge: string,
+  opts?: AuthProofOptions
+): Promise<AuthProof> {
+  const canonical = canonicalizeSrn(srn);
+  if (!validChallenge(challenge)) {
+    throw new Error(`challenge must be ${CHALLENGE_MIN_LENGTH}-${CHALLENGE_MAX_LENGTH} printable ASCII characters`);
+  }
+  const curve = opts?.curve ?? 'secp256k1';
+  const timestamp = opts?.now ?? now();
+  if (!Number.isSafeInteger(timestamp) || timestamp < 0) throw new Error('timestamp must be unix seconds');
+  const signer = await serviceSigner(source, canonical, curve);
+  try {
+    const unsigned = { srn: canonical, curve, challenge, publicKey: bytesToHex(signer.getPublicKey()), timestamp };
+    return { ...unsigned, signature: bytesToHex(await signer.signMessage(authProofBytes(unsigned))) };
+  } finally {
+    signer.dispose();
+  }
+}
+
+/**
+ * Verify a proof for the relying party `opts.srn` and return the authenticated public key
+ * (the user's stable account id for this service).
+ *
+ * @throws {AuthProofError} With the reason in `code`.
+ */
+export async function verifyAuthProof(proof: AuthProof, opts: AuthVerifyOptions): Promise<VerifiedAuthProof> {
+  if (opts?.challenge === undefined && !opts?.nonceStore) throw new Error('verifyAuthProof needs a challenge or a nonceStore');
+  const srn = canonicalizeSrn(opts.srn);
+  if (typeof proof !== 'object' || proof === null) fail('malformed', 'Proof must be an object');
+  const { curve, challenge, publicKey, timestamp, signature } = proof;
+  if (curve !== 'secp256k1' && curve !== 'ed25519') fail('malformed', `Unsupported curve: ${String(curve)}`);
+  if (!(opts.curves ?? ['secp256k1', 'ed25519']).includes(curve)) fail('malformed', `Curve ${curve} is not accepted`);
+  if (!validChallenge(challenge)) fail('malformed', 'Invalid challenge');
+  if (typeof publicKey !== 'string' || !new RegExp(`^[0-9a-f]{${PUBLIC_KEY_LENGTH[curve] * 2}}$`).test(publicKey)) {
+    fail('malformed', 'Invalid publicKey');
+  }
+  if (typeof signature !== 'string' || !/^[0-9a-f]{128}$/.test(signature)) fail('malformed', 'Invalid signature encoding');
+  if (!Number.isSafeInteger(timestamp) || timestamp < 0) fail('malformed', 'timestamp must be unix seconds');
+
+  if (typeof proof.srn !== 'string' || proof.srn !== srn) fail('srn_mismatch', 'Proof is for another service');
+  if (opts.challenge !== undefined && challenge !== opts.challenge) fail('challenge_mismatch', 'Proof answers another challenge');
+  if (opts.publicKey !== undefined && publicKey !== opts.publicKey.toLowerCase()) fail('key_mismatch', 'Proof is from another key');
+
+  const t = opts.now ?? now();
+  const maxAge = opts.maxAgeSec ?? AUTH_PROOF_MAX_AGE_SEC;
+  const skew = opts.clockSkewSec ?? AUTH_CLOCK_SKEW_SEC;
+  if (timestamp > t + skew) fail('not_yet_valid', 'Proof timestamp is in the future');
+  if (timestamp < t - maxAge) fail('expired', 'Proof has expired');
+
+  const message = authProofBytes({ srn, curve, challenge, publicKey, timestamp });
+  const valid =
+    curve === 'ed25519'
+      ? verifyEd25519Message(hexToBytes(signature), message, hexToBytes(publicKey))
+      : verifyEcdsaMessage(hexToBytes(signature), message, hexToBytes(publicKey));
+  if (!valid) fail('bad_signature', 'Proof signature verification failed');
+
+  // Spend the challenge only for a genuine proof, for as long as it could still be accepted.
+  if (opts.nonceStore && !(await opts.nonceStore.consume(`${srn}\n${challenge}`, timestamp + maxAge + skew))) {
+    fail('replayed', 'Challenge has already been used');
+  }
+  return { srn, curve, publicKey, timestamp };
+}
+
+export type MemoryNonceStoreOptions = {
+  /** Default 100000. When full of unexpired nonces, consume() throws rather than forget one. */
+  maxEntries?: number;
+  /** Unix seconds (default: the system clock). */
+  clock?: () => number;
+};
+
+/** In-process AuthNonceStore for a single verifier instance (and tests). */
+export class MemoryNonceStore implements AuthNonceStore {
+  #used = new Map<string, number>();
+  #maxEntries: number;
+  #clock: () => number;
+
+  constructor(opts?: MemoryNonceStoreOptions) {
+    this.#maxEntries = opts?.maxEntries ?? 100_000;
+    if (!Number.isSafeInteger(this.#maxEntries) || this.#maxEntries < 1) throw new Error('maxEntries must be a positive integer');
+    this.#clock = opts?.clock ?? now;
+  }
+
+  get size(): number {
+    return this.#used.size;
+  }
+
+  consume(nonce: string, expiresAt: number): boolean {
+    const t = this.#clock();
+    const expiry = this.#used.get(nonce);
+    if (expiry !== undefined && expiry >= t) return false;
+    if (expiry === undefined && this.#used.size >= this.#maxEntries) {
+      for (const [key, until] of this.#used) if (until < t) this.#used.delete(key);
+      if (this.#used.size >= this.#maxEntries) throw new Error('Nonce store is full');
+    }
+    this.#used.set(nonce, expiresAt);
+    return true;
+  }
+}
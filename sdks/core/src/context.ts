@@ -0,0 +1,113 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { textToBytes } from './utils.js';
+
+/**
+ * Derivation context (core/seedid.md, KDF Parameters): per-user salt and optional pepper.
+ *
+ * - Salt: 16 zero bytes (pure determinism), SHA-256("seedid/v1:user:" + userId)[:16] (per-user),
+ *   or caller-supplied bytes.
+ * - Pepper: a secret stored separately from the passphrase, appended to the normalized
+ *   passphrase bytes before the KDF. It never appears in metadata or vectors.
+ */
+
+export const USER_SALT_PREFIX = 'seedid/v1:user:' as const;
+
+export type PepperValue = Uint8Array | string;
+
+/** A pepper, or a function fetching it from separate storage (keychain, HSM, server). */
+export type PepperSource = PepperValue | (() => PepperValue | Promise<PepperValue>);
+
+export type SeedIdContext = {
+  /** Stable user identifier. Must be NFC-normalized with no surrounding whitespace. */
+  userId?: string;
+  pepper?: PepperSource;
+  /** Non-secret label for the pepper (e.g. a rotation version), recorded in metadata. */
+  pepperId?: string;
+};
+
+export type SaltMode = 'zero' | 'user' | 'custom';
+export type PepperMode = 'none' | 'appended';
+
+export type SaltRecord = {
+  mode: SaltMode;
+  userId?: string; // mode 'user'
+  saltHex: string;
+};
+
+export type PepperRecord = {
+  mode: PepperMode;
+  pepperId?: string;
+};
+
+export type ResolvedSeedIdContext = {
+  salt: Uint8Array;
+  pepper: Uint8Array | null;
+  saltRecord: SaltRecord;
+  pepperRecord: PepperRecord;
+};
+
+const USER_ID_MAX_LENGTH = 256;
+
+/**
+ * Check a user id can be hashed into a salt unambiguously: two spellings of the same id
+ * (composed vs decomposed, stray whitespace) would silently derive different identities.
+ */
+export function assertUserId(userId: string): void {
+  if (typeof userId !== 'string' || userId.length === 0) throw new Error('userId must be a non-empty string');
+  if (userId.length > USER_ID_MAX_LENGTH) throw new Error(`userId exceeds maximum length of ${USER_ID_MAX_LENGTH}`);
+  if (userId !== userId.trim()) throw new Error('userId must not have leading or trailing whitespace');
+  if (userId !== userId.normalize('NFC')) throw new Error('userId must be NFC-normalized');
+}
+
+/** Per-user salt: SHA-256("seedid/v1:user:" + userId)[:16]. */
+export function userSalt(userId: string): Uint8Array {
+  assertUserId(userId);
+  return sha256(textToBytes(USER_SALT_PREFIX + userId)).slice(0, 16);
+}
+
+async function resolvePepper(source: PepperSource): Promise<Uint8Array> {
+  const value = typeof source === 'function' ? await source() : source;
+  const bytes = typeof value === 'string' ? textToBytes(value) : value;
+  if (!(bytes instanceof Uint8Array)) throw new Error('pepper must be a Uint8Array or string');
+  // An empty pepper would be recorded as 'appended' while changing nothing; fail closed
+  if (bytes.length === 0) throw new Error('pepper must not be empty');
+  return bytes;
+}
+
+/**
+ * Resolve the salt and pepper for a derivation and record which modes were used.
+ * @param salt Explicit salt from KdfParams, if any (mode 'custom'); conflicts with `ctx.userId`.
+ */
+export async function resolveSeedIdContext(
+  ctx: SeedIdContext | undefined,
+  salt?: Uint8Array | string
+): Promise<ResolvedSeedIdContext> {
+  if (salt !== undefined && ctx?.userId !== undefined) {
+    throw new Error('Provide either salt or context.userId, not both');
+  }
+  if (ctx?.pepperId !== undefined && ctx.pepper === undefined) {
+    throw new Error('context.pepperId requires context.pepper');
+  }
+
+  let saltBytes: Uint8Array;
+  let saltRecord: SaltRecord;
+  if (ctx?.userId !== undefined) {
+    saltBytes = userSalt(ctx.userId);
+    saltRecord = { mode: 'user', userId: ctx.userId, saltHex: bytesToHex(saltBytes) };
+  } else if (salt !== undefined) {
+    saltBytes = typeof salt === 'string' ? textToBytes(salt) : salt;
+    saltRecord = { mode: 'custom', saltHex: bytesToHex(saltBytes) };
+  } else {
+    saltBytes = new Uint8Array(16); // default: 16 zero bytes per spec
+    saltRecord = { mode: 'zero', saltHex: bytesToHex(saltBytes) };
+  }
+
+  if (ctx?.pepper === undefined) {
+    return { salt: saltBytes, pepper: null, saltRecord, pepperRecord: { mode: 'none' } };
+  }
+  const pepper = await resolvePepper(ctx.pepper);
+  const pepperRecord: PepperRecord =
+    ctx.pepperId !== undefined ? { mode: 'appended', pepperId: ctx.pepperId } : { mode: 'appended' };
+  return { salt: saltBytes, pepper, saltRecord, pepperRecord };
+}
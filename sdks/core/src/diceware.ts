@@ -0,0 +1,190 @@
+import { EFF_LARGE_WORDLIST } from './wordlists/eff-large.js';
+import { MIN_PASSPHRASE_ENTROPY_BITS, entropyWarning, estimatePassphraseEntropy } from './entropy.js';
+import type { EntropyReport } from './entropy.js';
+
+/**
+ * CSPRNG Diceware passphrase generation.
+ *
+ * Words are drawn uniformly (rejection sampling over Web Crypto randomness) from a validated
+ * wordlist. Wordlists and separators are checked to be stable under normalizePassphrase(),
+ * so a generated phrase is exactly what the KDF sees.
+ */
+
+export type Wordlist = {
+  name: string;
+  language?: string;
+  words: readonly string[];
+};
+
+export type GeneratePassphraseOptions = {
+  /** Registered wordlist name or a Wordlist object. Default 'eff-large'. */
+  wordlist?: string | Wordlist;
+  /** Exact number of words. Takes precedence over entropyBits. */
+  words?: number;
+  /** Minimum entropy target in bits. Default 90 (spec policy). */
+  entropyBits?: number;
+  /** Word separator. Default ' '. Must not occur inside any word. */
+  separator?: string;
+};
+
+export type GeneratedPassphrase = {
+  passphrase: string;
+  words: string[];
+  separator: string;
+  wordlist: string; // wordlist name
+  wordlistSize: number;
+  entropyBits: number; // words.length * log2(wordlistSize)
+};
+
+const MAX_WORDS = 64;
+
+// Results of generatePassphrase() (frozen); only these are credited as independent draws.
+const generated = new WeakSet<GeneratedPassphrase>();
+
+function isNormalizationStable(s: string): boolean {
+  return s.normalize('NFKD').toLowerCase() === s;
+}
+
+/**
+ * Build a wordlist from raw words: each word is normalized (NFKD -> lowercase -> trim) so the
+ * generator never emits characters normalizePassphrase() would change.
+ * @throws On empty/whitespace words, or duplicates after normalization (they would overstate entropy).
+ */
+export function createWordlist(name: string, words: readonly string[], opts?: { language?: string }): Wordlist {
+  if (typeof name !== 'string' || name.length === 0) throw new Error('wordlist name must be a non-empty string');
+  if (!Array.isArray(words) || words.length < 2) throw new Error('wordlist must contain at least 2 words');
+  const normalized = words.map((w) => {
+    if (typeof w !== 'string') throw new Error('wordlist entries must be strings');
+    const n = w.normalize('NFKD').toLowerCase().trim();
+    if (n.length === 0 || /\s/u.test(n)) throw new Error(`Invalid wordlist entry: ${JSON.stringify(w)}`);
+    return n;
+  });
+  if (new Set(normalized).size !== normalized.length) {
+    throw new Error(`wordlist ${name} contains duplicate words after normalization`);
+  }
+  return Object.freeze({ name, language: opts?.language, words: Object.freeze(normalized) });
+}
+
+export const EFF_LARGE: Wordlist = createWordlist('eff-large', EFF_LARGE_WORDLIST, { language: 'en' });
+
+const wordlists = new Map<string, Wordlist>([[EFF_LARGE.name, EFF_LARGE]]);
+
+/** Register a wordlist (e.g. another language) for generation and generated-phrase verification. */
+export function registerWordlist(list: Wordlist, opts?: { replace?: boolean }): void {
+  const checked = createWordlist(list.name, list.words, { language: list.language });
+  if (wordlists.has(checked.name) && !opts?.replace) {
+    throw new Error(`Wordlist already registered: ${checked.name}`);
+  }
+  wordlists.set(checked.name, checked);
+}
+
+export function getWordlist(name: string): Wordlist {
+  const list = wordlists.get(name);
+  if (!list) throw new Error(`Unknown wordlist: ${name}`);
+  return list;
+}
+
+function getRandomValues(buf: Uint32Array): Uint32Array {
+  const c: any = (globalThis as any)?.crypto;
+  if (!c || typeof c.getRandomValues !== 'function') {
+    throw new Error('Web Crypto API not available: cannot generate random passphrase');
+  }
+  return c.getRandomValues(buf);
+}
+
+// Uniform index in [0, n) via rejection sampling (no modulo bias)
+function randomIndex(n: number): number {
+  const limit = Math.floor(0x100000000 / n) * n;
+  const buf = new Uint32Array(1);
+  for (;;) {
+    const x = getRandomValues(buf)[0];
+    if (x < limit) return x % n;
+  }
+}
+
+/**
+ * Generate a Diceware passphrase from a CSPRNG.
+ *
+ * @example
+ * const gen = generatePassphrase(); // 7 EFF words, ≈90.4 bits
+ * const master = await deriveMasterKey(gen, { algorithm: 'argon2id', minEntropyBits: 90 });
+ */
+export function generatePassphrase(opts?: GeneratePassphraseOptions): GeneratedPassphrase {
+  const list =
+    typeof opts?.wordlist === 'object'
+      ? createWordlist(opts.wordlist.name, opts.wordlist.words, opts.wordlist)
+      : getWordlist(opts?.wordlist ?? EFF_LARGE.name);
+  const separator = opts?.separator ?? ' ';
+  if (separator.length === 0 || !isNormalizationStable(separator) || /[^\S ]/u.test(separator)) {
+    throw new Error('separator must be non-empty, normalization-stable and contain no whitespace other than space');
+  }
+  if (list.words.some((w) => w.includes(separator))) {
+    throw new Error(`separator ${JSON.stringify(separator)} occurs inside wordlist ${list.name}`);
+  }
+
+  const bitsPerWord = Math.log2(list.words.length);
+  let count: number;
+  if (opts?.words !== undefined) {
+    count = opts.words;
+  } else {
+    const target = opts?.entropyBits ?? MIN_PASSPHRASE_ENTROPY_BITS;
+    if (typeof target !== 'number' || !Number.isFinite(target) || target <= 0) {
+      throw new Error('entropyBits must be a positive number');
+    }
+    count = Math.ceil(target / bitsPerWord);
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_WORDS) {
+    throw new Error(`word count must be an integer 1..${MAX_WORDS}`);
+  }
+
+  const words = Array.from({ length: count }, () => list.words[randomIndex(list.words.length)]);
+  const result: GeneratedPassphrase = Object.freeze({
+    passphrase: words.join(separator),
+    words: Object.freeze(words) as string[],
+    separator,
+    wordlist: list.name,
+    wordlistSize: list.words.length,
+    entropyBits: count * bitsPerWord,
+  });
+  generated.add(result);
+  return result;
+}
+
+/** Shape check only; whether the phrase is credited as generated is up to generatedPassphraseEntropy(). */
+export function isGeneratedPassphrase(value: unknown): value is GeneratedPassphrase {
+  const v = value as GeneratedPassphrase;
+  return !!v && typeof v === 'object' && typeof v.passphrase === 'string' && Array.isArray(v.words);
+}
+
+/**
+ * Entropy report for a generated passphrase, re-checked against the registered wordlist
+ * rather than taken on faith: every word must be in the list, the words joined by the
+ * separator must equal the phrase, and the claimed size must match the list.
+ * Only objects returned by generatePassphrase() get full credit for repeated words (they were
+ * drawn independently); any other object is scored by estimatePassphraseEntropy() against the list.
+ *
+ * @throws If the object is inconsistent with its wordlist.
+ */
+export function generatedPassphraseEntropy(gen: GeneratedPassphrase, minimumBits = MIN_PASSPHRASE_ENTROPY_BITS): EntropyReport {
+  const list = getWordlist(gen.wordlist);
+  const set = new Set(list.words);
+  if (gen.wordlistSize !== list.words.length) throw new Error(`wordlist size mismatch for ${gen.wordlist}`);
+  if (gen.words.length === 0 || !gen.words.every((w) => set.has(w))) {
+    throw new Error(`generated passphrase contains words outside wordlist ${gen.wordlist}`);
+  }
+  if (gen.words.join(gen.separator) !== gen.passphrase) {
+    throw new Error('generated passphrase does not match its words');
+  }
+  if (!generated.has(gen)) return estimatePassphraseEntropy(gen.passphrase, { wordlist: list.words, minimumBits });
+  const bits = Math.floor(gen.words.length * Math.log2(list.words.length) * 10) / 10;
+  const meetsMinimum = bits >= minimumBits;
+  return {
+    bits,
+    method: 'generated',
+    wordCount: gen.words.length,
+    length: Array.from(gen.passphrase).length,
+    minimumBits,
+    meetsMinimum,
+    warnings: meetsMinimum ? [] : [entropyWarning('below-minimum')],
+  };
+}
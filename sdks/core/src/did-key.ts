@@ -0,0 +1,224 @@
+/**
+ * did:key (W3C CCG did:key method) for the `seedid/v1/did:key:<curve>` roots.
+ *
+ * Identifier: `did:key:` + multibase base58btc ('z') of the multicodec-prefixed public key
+ * - Ed25519: ed25519-pub 0xed (varint 0xed 0x01) + 32-byte key -> `did:key:z6Mk…`
+ * - secp256k1: secp256k1-pub 0xe7 (varint 0xe7 0x01) + 33-byte compressed key -> `did:key:zQ3s…`
+ *
+ * The DID Document has a single Multikey verification method, `<did>#<multibase>`, referenced
+ * from authentication, assertionMethod, capabilityInvocation and capabilityDelegation.
+ * Resolution is purely local: the document is a function of the identifier.
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import bs58 from 'bs58';
+import { forDidKey, forAppDidKey } from './index.js';
+import type { DidKeyCurve } from './index.js';
+import { isSeedIdSession } from './session.js';
+import type { MasterKeySource } from './session.js';
+import { createEcdsaSigner, createEd25519Signer, secp256k1KeyFromSeed } from './signer.js';
+import type { Signer } from './signer.js';
+import { zeroize } from './utils.js';
+
+export const DID_KEY_MULTICODEC: Record<DidKeyCurve, Uint8Array> = {
+  ed25519: Uint8Array.of(0xed, 0x01),
+  secp256k1: Uint8Array.of(0xe7, 0x01),
+};
+
+const PUBLIC_KEY_LENGTH: Record<DidKeyCurve, number> = { ed25519: 32, secp256k1: 33 };
+
+export type VerificationMethod = {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyMultibase?: string;
+  publicKeyJwk?: Record<string, unknown>;
+};
+
+export type DidDocument = {
+  '@context': string[];
+  id: string;
+  verificationMethod: VerificationMethod[];
+  authentication: string[];
+  assertionMethod: string[];
+  capabilityInvocation?: string[];
+  capabilityDelegation?: string[];
+  [property: string]: unknown;
+};
+
+/** DID Resolution result (W3C DID Resolution), with the spec's error codes. */
+export type DidResolutionResult = {
+  didDocument: DidDocument | null;
+  didResolutionMetadata: {
+    contentType?: 'application/did+json';
+    error?: 'invalidDid' | 'invalidDidDocument' | 'notFound' | 'methodNotSupported' | 'internalError';
+    message?: string;
+  };
+  didDocumentMetadata: Record<string, unknown>;
+};
+
+export type DecodedDidKey = {
+  did: string;
+  curve: DidKeyCurve;
+  publicKey: Uint8Array;
+  /** The `z…` multibase value, also the fragment of the verification method id. */
+  multibase: string;
+  /** `<did>#<multibase>` */
+  keyId: string;
+};
+
+function assertCurve(curve: DidKeyCurve): void {
+  if (curve !== 'ed25519' && curve !== 'secp256k1') throw new Error(`Unsupported did:key curve: ${String(curve)}`);
+}
+
+/** Multibase (base58btc) of the multicodec-prefixed key, as used in did:key and Multikey. */
+export function encodePublicKeyMultibase(publicKey: Uint8Array, curve: DidKeyCurve): string {
+  assertCurve(curve);
+  let key = publicKey;
+  // Accept uncompressed secp256k1 keys; did:key always uses the compressed form.
+  if (curve === 'secp256k1' && key.length === 65) key = secp256k1.Point.fromBytes(key).toBytes(true);
+  if (!(key instanceof Uint8Array) || key.length !== PUBLIC_KEY_LENGTH[curve]) {
+    throw new Error(`${curve} public key must be ${PUBLIC_KEY_LENGTH[curve]} bytes`);
+  }
+  if (curve === 'secp256k1') secp256k1.Point.fromBytes(key);
+  const prefixed = new Uint8Array(2 + key.length);
+  prefixed.set(DID_KEY_MULTICODEC[curve]);
+  prefixed.set(key, 2);
+  return `z${bs58.encode(prefixed)}`;
+}
+
+/** Inverse of encodePublicKeyMultibase(). @throws On an unknown codec, bad length or encoding. */
+export function decodePublicKeyMultibase(multibase: string): { curve: DidKeyCurve; publicKey: Uint8Array } {
+  if (typeof multibase !== 'string' || !multibase.startsWith('z')) throw new Error('Expected a base58btc multibase value');
+  let bytes: Uint8Array;
+  try {
+    bytes = bs58.decode(multibase.slice(1));
+  } catch {
+    throw new Error('Invalid base58btc encoding');
+  }
+  for (const curve of ['ed25519', 'secp256k1'] as const) {
+    const codec = DID_KEY_MULTICODEC[curve];
+    if (bytes[0] !== codec[0] || bytes[1] !== codec[1]) continue;
+    const publicKey = bytes.slice(2);
+    if (publicKey.length !== PUBLIC_KEY_LENGTH[curve]) throw new Error(`${curve} public key must be ${PUBLIC_KEY_LENGTH[curve]} bytes`);
+    if (curve === 'secp256k1') {
+      try {
+        secp256k1.Point.fromBytes(publicKey);
+      } catch {
+        throw new Error('Invalid secp256k1 public key');
+      }
+    }
+    return { curve, publicKey };
+  }
+  throw new Error('Unsupported multicodec: expected ed25519-pub or secp256k1-pub');
+}
+
+export function encodeDidKey(publicKey: Uint8Array, curve: DidKeyCurve): string {
+  return `did:key:${encodePublicKeyMultibase(publicKey, curve)}`;
+}
+
+/** Parse a did:key (a `#fragment` is allowed if it names the key itself). @throws If invalid. */
+export function decodeDidKey(did: string): DecodedDidKey {
+  if (typeof did !== 'string' || !did.startsWith('did:key:')) throw new Error('Not a did:key identifier');
+  const [base, fragment] = did.split('#', 2);
+  const multibase = base.slice('did:key:'.length);
+  const { curve, publicKey } = decodePublicKeyMultibase(multibase);
+  if (fragment !== undefined && fragment !== multibase) throw new Error('did:key fragment does not match the key');
+  return { did: base, curve, publicKey, multibase, keyId: `${base}#${multibase}` };
+}
+
+export function isDidKey(did: string): boolean {
+  try {
+    decodeDidKey(did);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The DID Document for a did:key (or a decoded one). @throws If the identifier is invalid. */
+export function didKeyDocument(did: string | DecodedDidKey): DidDocument {
+  const decoded = typeof did === 'string' ? decodeDidKey(did) : did;
+  const method: VerificationMethod = {
+    id: decoded.keyId,
+    type: 'Multikey',
+    controller: decoded.did,
+    publicKeyMultibase: decoded.multibase,
+  };
+  return {
+    '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/multikey/v1'],
+    id: decoded.did,
+    verificationMethod: [method],
+    authentication: [method.id],
+    assertionMethod: [method.id],
+    capabilityInvocation: [method.id],
+    capabilityDelegation: [method.id],
+  };
+}
+
+/** Local did:key resolver: never touches the network. Invalid identifiers resolve to `invalidDid`. */
+export function resolveDidKey(did: string): DidResolutionResult {
+  if (typeof did !== 'string' || !did.startsWith('did:')) {
+    return { didDocument: null, didResolutionMetadata: { error: 'invalidDid' }, didDocumentMetadata: {} };
+  }
+  if (!did.startsWith('did:key:')) {
+    return { didDocument: null, didResolutionMetadata: { error: 'methodNotSupported' }, didDocumentMetadata: {} };
+  }
+  try {
+    return {
+      didDocument: didKeyDocument(did.split('#')[0]),
+      didResolutionMetadata: { contentType: 'application/did+json' },
+      didDocumentMetadata: {},
+    };
+  } catch (err) {
+    return {
+      didDocument: null,
+      didResolutionMetadata: { error: 'invalidDid', message: err instanceof Error ? err.message : String(err) },
+      didDocumentMetadata: {},
+    };
+  }
+}
+
+export type DidKeySigner = Signer & { readonly did: string; readonly keyId: string };
+
+/**
+ * Signer for the did:key of `source` (`seedid/v1/did:key:<curve>`, or the app-scoped root with
+ * `appId`): Ed25519, or ECDSA secp256k1 over SHA-256 with 64-byte compact signatures.
+ */
+export async function didKeySigner(
+  source: MasterKeySource,
+  curve: DidKeyCurve,
+  opts?: { appId?: string }
+): Promise<DidKeySigner> {
+  assertCurve(curve);
+  const seed = opts?.appId !== undefined ? await forAppDidKey(source, curve, opts.appId) : await forDidKey(source, curve);
+  const session = isSeedIdSession(source) ? { session: source } : undefined;
+  let signer: Signer;
+  if (curve === 'ed25519') {
+    signer = createEd25519Signer(seed, session);
+  } else {
+    try {
+      signer = createEcdsaSigner(secp256k1KeyFromSeed(seed), session);
+    } finally {
+      if (Symbol.dispose in seed) (seed as Uint8Array & Disposable)[Symbol.dispose]();
+      else zeroize(seed);
+    }
+  }
+  const { did, keyId } = decodeDidKey(encodeDidKey(signer.getPublicKey(), curve));
+  return Object.assign(signer, { did, keyId });
+}
+
+/** The did:key identifier, key id, public key and DID Document for `source`. */
+export async function deriveDidKey(
+  source: MasterKeySource,
+  curve: DidKeyCurve,
+  opts?: { appId?: string }
+): Promise<DecodedDidKey & { document: DidDocument }> {
+  const signer = await didKeySigner(source, curve, opts);
+  try {
+    const decoded = decodeDidKey(signer.did);
+    return { ...decoded, document: didKeyDocument(decoded) };
+  } finally {
+    signer.dispose();
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * did:web (W3C CCG did:web method) documents anchored to SeedID keys.
+ *
+ * Identifier: `did:web:<host>[:<path>…]`, the host's port percent-encoded (`localhost%3A8443`).
+ * - `did:web:alice.example` -> `https://alice.example/.well-known/did.json`
+ * - `did:web:example.com:users:alice` -> `https://example.com/users/alice/did.json`
+ *
+ * Unlike did:key the document is published, not computed, so it can list several keys and
+ * services and change over time. buildDidWebDocument() generates it from public keys (usually
+ * deriveDidWebKeys(): the Ed25519 and secp256k1 did:key roots, plus an X25519 key from its own
+ * root for keyAgreement), rotateDidWebDocument() adds and retires verification methods,
+ * and resolveDidWeb() fetches and checks a published document through an injectable fetch.
+ *
+ * Verification methods are Multikey, with the multibase value as fragment (`<did>#z6Mk…`), so a
+ * rotated-in key never collides with the id of a retired one.
+ */
+
+import { x25519 } from '@noble/curves/ed25519.js';
+import bs58 from 'bs58';
+import { deriveDidKey, encodePublicKeyMultibase, resolveDidKey } from './did-key.js';
+import type { DidDocument, DidResolutionResult, VerificationMethod } from './did-key.js';
+import { hkdfSync, HKDF_SALT } from './hkdf.js';
+import { labelFor } from './labels.js';
+import { isSeedIdSession } from './session.js';
+import type { MasterKeySource } from './session.js';
+import { assertMasterKey, zeroize } from './utils.js';
+
+/** x25519-pub (varint 0xec 0x01): Multikey values start with `z6LS`. */
+export const X25519_MULTICODEC = Uint8Array.of(0xec, 0x01);
+
+export type DidWebKeyType = 'ed25519' | 'secp256k1' | 'x25519';
+
+export type VerificationRelationship =
+  | 'authentication'
+  | 'assertionMethod'
+  | 'keyAgreement'
+  | 'capabilityInvocation'
+  | 'capabilityDelegation';
+
+/** A public key to publish. `purposes` defaults to every signing relationship, or keyAgreement for X25519. */
+export type DidWebKey = {
+  type: DidWebKeyType;
+  publicKey: Uint8Array;
+  purposes?: VerificationRelationship[];
+};
+
+/** A service entry; an `id` starting with `#` is made relative to the DID. */
+export type DidService = {
+  id: string;
+  type: string | string[];
+  serviceEndpoint: string | string[] | Record<string, unknown>;
+};
+
+export type DidWebDocumentOptions = {
+  keys: DidWebKey[];
+  services?: DidService[];
+  /** Shorthand for a `#knock` service of type `SeedIdKnock` (the contact card's knock_url). */
+  knockUrl?: string;
+  /** Other identifiers of the same subject, e.g. its did:key. */
+  alsoKnownAs?: string[];
+};
+
+export type DidWebRotation = {
+  add?: DidWebKey[];
+  /** Verification method ids (absolute or `#fragment`) to remove from the document. */
+  retire?: string[];
+};
+
+export type ParsedDidWeb = {
+  did: string;
+  /** Host, with the port if any (decoded). */
+  host: string;
+  path: string[];
+  /** HTTPS URL of the did.json. */
+  url: string;
+};
+
+/** Any fetch-compatible function (globalThis.fetch by default). */
+export type DidWebFetch = (
+  url: string,
+  init?: { headers?: Record<string, string>; signal?: AbortSignal }
+) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
+
+export type DidWebResolveOptions = {
+  fetch?: DidWebFetch;
+  /** Default 10 s. */
+  timeoutMs?: number;
+};
+
+const DID_WEB_CONTEXT = ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/multikey/v1'];
+
+const SIGNING_RELATIONSHIPS: readonly VerificationRelationship[] = [
+  'authentication',
+  'assertionMethod',
+  'capabilityInvocation',
+  'capabilityDelegation',
+];
+const RELATIONSHIPS: readonly VerificationRelationship[] = [...SIGNING_RELATIONSHIPS, 'keyAgreement'];
+
+const LABEL = '[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?';
+const HOST_PATTERN = new RegExp(`^${LABEL}(?:\\.${LABEL})*(?::\\d{1,5})?$`, 'i');
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+function decodeSegment(segment: string, what: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new Error(`Invalid percent-encoding in did:web ${what}`);
+  }
+}
+
+/** Parse a did:web (a `#fragment` is ignored) and compute its document URL. @throws If invalid. */
+export function parseDidWeb(did: string): ParsedDidWeb {
+  if (typeof did !== 'string' || !did.startsWith('did:web:')) throw new Error('Not a did:web identifier');
+  const base = did.split('#')[0];
+  const [hostPart, ...segments] = base.slice('did:web:'.length).split(':');
+  const host = decodeSegment(hostPart, 'domain');
+  if (host.length > 253 || !HOST_PATTERN.test(host)) throw new Error(`Invalid did:web domain: ${JSON.stringify(host)}`);
+  const port = host.includes(':') ? Number(host.slice(host.indexOf(':') + 1)) : undefined;
+  if (port !== undefined && (port < 1 || port > 65535)) throw new Error(`Invalid did:web port: ${port}`);
+  const path = segments.map((segment) => {
+    const decoded = decodeSegment(segment, 'path');
+    if (decoded === '' || decoded === '.' || decoded === '..' || decoded.includes('/')) {
+      throw new Error(`Invalid did:web path segment: ${JSON.stringify(decoded)}`);
+    }
+    return decoded;
+  });
+  const url =
+    path.length === 0
+      ? `https://${host}/.well-known/did.json`
+      : `https://${host}/${path.map(encodeURIComponent).join('/')}/did.json`;
+  return { did: base, host, path, url };
+}
+
+/** `did:web` for a host (optionally `host:port`) and path segments. @throws If invalid. */
+export function encodeDidWeb(host: string, path: string[] = []): string {
+  if (typeof host !== 'string') throw new Error('host must be a string');
+  const id = [host.replace(':', '%3A'), ...path.map((segment) => encodeURIComponent(segment))].join(':');
+  return parseDidWeb(`did:web:${id}`).did;
+}
+
+export function isDidWeb(did: string): boolean {
+  try {
+    parseDidWeb(did);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Multibase (base58btc) of an X25519 public key with the x25519-pub multicodec. */
+export function encodeX25519Multibase(publicKey: Uint8Array): string {
+  if (!(publicKey instanceof Uint8Array) || publicKey.length !== 32) throw new Error('x25519 public key must be 32 bytes');
+  const prefixed = new Uint8Array(34);
+  prefixed.set(X25519_MULTICODEC);
+  prefixed.set(publicKey, 2);
+  return `z${bs58.encode(prefixed)}`;
+}
+
+function keyMultibase(key: DidWebKey): string {
+  if (key.type === 'x25519') return encodeX25519Multibase(key.publicKey);
+  if (key.type === 'ed25519' || key.type === 'secp256k1') return encodePublicKeyMultibase(key.publicKey, key.type);
+  throw new Error(`Unsupported did:web key type: ${String((key as DidWebKey).type)}`);
+}
+
+function keyPurposes(key: DidWebKey): readonly VerificationRelationship[] {
+  const purposes = key.purposes ?? (key.type === 'x25519' ? ['keyAgreement'] : SIGNING_RELATIONSHIPS);
+  if (purposes.length === 0) throw new Error('A verification method needs at least one purpose');
+  for (const purpose of purposes) {
+    if (!RELATIONSHIPS.includes(purpose)) throw new Error(`Unknown verification relationship: ${String(purpose)}`);
+    // X25519 cannot sign, and key agreement must not reuse a signing key.
+    if ((purpose === 'keyAgreement') !== (key.type === 'x25519')) {
+      throw new Error(`A ${key.type} key cannot be used for ${purpose}`);
+    }
+  }
+  return purposes;
+}
+
+function absoluteId(did: string, id: string): string {
+  return id.startsWith('#') ? `${did}${id}` : id;
+}
+
+function addKeys(doc: DidDocument, keys: DidWebKey[]): void {
+  const existing = new Set(doc.verificationMethod.map((m) => m.id));
+  for (const key of keys) {
+    const multibase = keyMultibase(key);
+    const method: VerificationMethod = { id: `${doc.id}#${multibase}`, type: 'Multikey', controller: doc.id, publicKeyMultibase: multibase };
+    if (existing.has(method.id)) throw new Error(`Duplicate verification method: ${method.id}`);
+    existing.add(method.id);
+    doc.verificationMethod.push(method);
+    for (const purpose of keyPurposes(key)) {
+      const refs = (doc[purpose] as string[] | undefined) ?? [];
+      doc[purpose] = [...refs, method.id];
+    }
+  }
+}
+
+// Omit the optional relationships when they are empty, as the spec examples do.
+function finish(doc: DidDocument): DidDocument {
+  if (doc.authentication.length === 0) throw new Error('A did:web document needs at least one authentication key');
+  for (const purpose of ['keyAgreement', 'capabilityInvocation', 'capabilityDelegation'] as const) {
+    if (Array.isArray(doc[purpose]) && (doc[purpose] as string[]).length === 0) delete doc[purpose];
+  }
+  return doc;
+}
+
+/**
+ * Generate the did.json for `did` from public keys and services.
+ *
+ * @throws If the DID or a key is invalid, a key is listed twice, or no key can authenticate.
+ */
+export function buildDidWebDocument(did: string, opts: DidWebDocumentOptions): DidDocument {
+  if (typeof did === 'string' && did.includes('#')) throw new Error('Expected a DID without fragment');
+  const id = parseDidWeb(did).did;
+  const doc: DidDocument = {
+    '@context': [...DID_WEB_CONTEXT],
+    id,
+    ...(opts.alsoKnownAs?.length ? { alsoKnownAs: [...opts.alsoKnownAs] } : {}),
+    verificationMethod: [],
+    authentication: [],
+    assertionMethod: [],
+  };
+  addKeys(doc, opts.keys ?? []);
+  const services = [
+    ...(opts.services ?? []),
+    ...(opts.knockUrl !== undefined ? [{ id: '#knock', type: 'SeedIdKnock', serviceEndpoint: opts.knockUrl }] : []),
+  ].map((s) => ({ ...s, id: absoluteId(id, s.id) }));
+  if (new Set(services.map((s) => s.id)).size !== services.length) throw new Error('Duplicate service id');
+  if (services.length > 0) doc.service = services;
+  return finish(doc);
+}
+
+/**
+ * A copy of `doc` with the `add` keys published and the `retire` verification methods removed from
+ * the document and every relationship, so signatures by retired keys stop verifying.
+ *
+ * @throws If a retired id is not in the document, an added key already is, or no key could authenticate.
+ */
+export function rotateDidWebDocument(doc: DidDocument, rotation: DidWebRotation): DidDocument {
+  const next: DidDocument = JSON.parse(JSON.stringify(doc));
+  const retire = new Set((rotation.retire ?? []).map((id) => absoluteId(next.id, id)));
+  for (const id of retire) {
+    if (!next.verificationMethod.some((m) => m.id === id)) throw new Error(`Unknown verification method: ${id}`);
+  }
+  next.verificationMethod = next.verificationMethod.filter((m) => !retire.has(m.id));
+  for (const purpose of RELATIONSHIPS) {
+    const refs = next[purpose];
+    if (!Array.isArray(refs)) continue;
+    next[purpose] = refs.filter((ref: string | VerificationMethod) => !retire.has(typeof ref === 'string' ? ref : ref.id));
+  }
+  next.authentication ??= [];
+  next.assertionMethod ??= [];
+  addKeys(next, rotation.add ?? []);
+  return finish(next);
+}
+
+/**
+ * X25519 secret for keyAgreement (`seedid/v1/did:web:x25519`, or its app-scoped variant). It has
+ * its own root, so encryption never shares a secret with a signing key. With a session it is wiped
+ * on lock.
+ */
+export async function forDidWebX25519(source: MasterKeySource, opts?: { appId?: string }): Promise<Uint8Array> {
+  const label = labelFor('did:web:x25519', opts);
+  if (isSeedIdSession(source)) return source.root(label);
+  assertMasterKey(source);
+  return hkdfSync(source, label, { salt: HKDF_SALT, length: 32 });
+}
+
+/**
+ * Public keys for a did:web document from `source`: the Ed25519 and secp256k1 did:key roots (or
+ * their app-scoped variants) and the X25519 key of forDidWebX25519() for keyAgreement.
+ * Rotate by deriving from a new app id or master key.
+ */
+export async function deriveDidWebKeys(source: MasterKeySource, opts?: { appId?: string }): Promise<DidWebKey[]> {
+  const ed = await deriveDidKey(source, 'ed25519', opts);
+  const k1 = await deriveDidKey(source, 'secp256k1', opts);
+  const secret = await forDidWebX25519(source, opts);
+  let agreement: Uint8Array;
+  try {
+    agreement = x25519.getPublicKey(secret);
+  } finally {
+    if (Symbol.dispose in secret) (secret as Uint8Array & Disposable)[Symbol.dispose]();
+    else zeroize(secret);
+  }
+  return [
+    { type: 'ed25519', publicKey: ed.publicKey },
+    { type: 'secp256k1', publicKey: k1.publicKey },
+    { type: 'x25519', publicKey: agreement },
+  ];
+}
+
+function failure(error: NonNullable<DidResolutionResult['didResolutionMetadata']['error']>, message?: string): DidResolutionResult {
+  return { didDocument: null, didResolutionMetadata: message ? { error, message } : { error }, didDocumentMetadata: {} };
+}
+
+/**
+ * Resolve a did:web by fetching its did.json over HTTPS. The document must be a JSON object whose
+ * `id` is the DID (else `invalidDidDocument`). HTTP 404/410 resolve to `notFound`, network and
+ * other HTTP failures to `internalError`.
+ */
+export async function resolveDidWeb(did: string, opts?: DidWebResolveOptions): Promise<DidResolutionResult> {
+  if (typeof did !== 'string' || !did.startsWith('did:')) return failure('invalidDid');
+  if (!did.startsWith('did:web:')) return failure('methodNotSupported');
+  let parsed: ParsedDidWeb;
+  try {
+    parsed = parseDidWeb(did);
+  } catch (err) {
+    return failure('invalidDid', err instanceof Error ? err.message : String(err));
+  }
+  const fetchFn = opts?.fetch ?? (globalThis.fetch as DidWebFetch | undefined);
+  if (!fetchFn) return failure('internalError', 'No fetch implementation available');
+
+  let body: unknown;
+  try {
+    const res = await fetchFn(parsed.url, {
+      headers: { accept: 'application/did+json, application/json' },
+      signal: AbortSignal.timeout(opts?.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+    if (res.status === 404 || res.status === 410) return failure('notFound', `HTTP ${res.status} from ${parsed.url}`);
+    if (!res.ok) return failure('internalError', `HTTP ${res.status} from ${parsed.url}`);
+    body = await res.json().catch(() => undefined);
+  } catch (err) {
+    return failure('internalError', err instanceof Error ? err.message : String(err));
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return failure('invalidDidDocument', 'did.json is not a JSON object');
+  }
+  const doc = body as DidDocument;
+  if (doc.id !== parsed.did) return failure('invalidDidDocument', `Document id ${JSON.stringify(doc.id)} does not match ${parsed.did}`);
+  if (doc.verificationMethod !== undefined && !Array.isArray(doc.verificationMethod)) {
+    return failure('invalidDidDocument', 'verificationMethod must be an array');
+  }
+  return { didDocument: doc, didResolutionMetadata: { contentType: 'application/did+json' }, didDocumentMetadata: {} };
+}
+
+/** Resolve a did:key locally or a did:web over HTTPS; other methods are `methodNotSupported`. */
+export async function resolveDid(did: string, opts?: DidWebResolveOptions): Promise<DidResolutionResult> {
+  if (typeof did === 'string' && did.startsWith('did:key:')) return resolveDidKey(did);
+  return resolveDidWeb(did, opts);
+}
@@ -0,0 +1,219 @@
+/**
+ * Passphrase entropy estimation (core/seedid.md: require >= 90 bits, warn below).
+ *
+ * Scores the *normalized* passphrase, since that is what the KDF sees: uppercase letters
+ * are folded away and contribute nothing. Estimates are deliberately conservative; they
+ * are a policy gate, not a guarantee.
+ */
+
+export const MIN_PASSPHRASE_ENTROPY_BITS = 90;
+
+// Bits per word for a Diceware list of 6^5 = 7776 words (whitepaper §6: ≈12.9 bits/word)
+export const DICEWARE_BITS_PER_WORD = Math.log2(7776);
+// Bits per word that is not in the supplied wordlist. People pick sentences, lyrics and quotes,
+// which carry a few bits per word (English text runs at roughly 1 bit per character), not 12.9.
+export const DICTIONARY_WORD_BITS = 6;
+
+export type EntropyMethod = 'wordlist' | 'diceware-heuristic' | 'charset' | 'generated';
+
+export type EntropyWarningCode =
+  | 'empty'
+  | 'below-minimum'
+  | 'too-few-words'
+  | 'repeated-word'
+  | 'unknown-word'
+  | 'heuristic-estimate'
+  | 'repeated-chars'
+  | 'sequence'
+  | 'common-password'
+  | 'date-pattern'
+  | 'uppercase-ignored';
+
+export type EntropyWarning = { code: EntropyWarningCode; message: string };
+
+export type EntropyReport = {
+  bits: number; // conservative estimate, rounded down to 0.1 bit
+  method: EntropyMethod;
+  wordCount: number;
+  length: number; // normalized length in code points
+  minimumBits: number;
+  meetsMinimum: boolean;
+  warnings: EntropyWarning[];
+};
+
+export type EntropyOptions = {
+  /**
+   * Wordlist the passphrase was drawn from (e.g. EFF large list). If every word is in it, each
+   * scores log2(list size); otherwise every word scores at most DICTIONARY_WORD_BITS.
+   */
+  wordlist?: readonly string[] | ReadonlySet<string>;
+  /** Policy threshold used for `meetsMinimum` and the below-minimum warning. Default 90. */
+  minimumBits?: number;
+};
+
+const WORD_SEPARATORS = /[\s_.,]+/u;
+const LETTERS_ONLY = /^\p{L}[\p{L}\p{M}]*$/u;
+const MIN_DICEWARE_WORDS = 7;
+
+// Most common leaked passwords and keyboard walks; each counts as one pick from a small dictionary.
+const COMMON_PASSWORDS = [
+  'password', 'passw0rd', 'qwerty', 'qwertyuiop', 'asdfgh', 'zxcvbn', 'letmein', 'iloveyou',
+  'welcome', 'admin', 'monkey', 'dragon', 'master', 'sunshine', 'princess', 'football',
+  'baseball', 'shadow', 'superman', 'trustno1', 'abc123', '123456', '1234567890', '111111',
+];
+const COMMON_PASSWORD_BITS = 10;
+const DATE_BITS = Math.log2(200); // a year 1900..2099
+
+function toSet(list: readonly string[] | ReadonlySet<string>): ReadonlySet<string> {
+  return list instanceof Set ? list : new Set(list as readonly string[]);
+}
+
+function floorTenth(n: number): number {
+  return Math.max(0, Math.floor(n * 10) / 10);
+}
+
+function charsetSize(s: string): number {
+  let size = 0;
+  if (/[a-z]/.test(s)) size += 26;
+  if (/[0-9]/.test(s)) size += 10;
+  if (/[\x20-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]/.test(s)) size += 33;
+  if (/[^\x00-\x7f]/.test(s)) size += 100;
+  return size;
+}
+
+const ALNUM = /^[a-z0-9]$/;
+
+/**
+ * Count the "effective" characters of a string: repeated runs and ascending/descending
+ * sequences of 3+ (aaaa, abcd, 4321) collapse to a single character.
+ */
+function effectiveLength(s: string, warnings: Set<EntropyWarningCode>): number {
+  const chars = Array.from(s);
+  const code = (k: number) => chars[k].codePointAt(0)!;
+  let count = 0;
+  let i = 0;
+  while (i < chars.length) {
+    const step = i + 1 < chars.length ? code(i + 1) - code(i) : NaN;
+    const isRun = step === 0;
+    const isSequence = (step === 1 || step === -1) && ALNUM.test(chars[i]);
+    let j = i + 1;
+    if (isRun || isSequence) {
+      while (j < chars.length && code(j) - code(j - 1) === step && (isRun || ALNUM.test(chars[j]))) j++;
+    }
+    if (j - i >= 3) warnings.add(isRun ? 'repeated-chars' : 'sequence');
+    else j = i + 1;
+    count++;
+    i = j;
+  }
+  return count;
+}
+
+function charsetBits(s: string, warnings: Set<EntropyWarningCode>): number {
+  let rest = s;
+  let bits = 0;
+  for (const pw of COMMON_PASSWORDS) {
+    if (rest.includes(pw)) {
+      warnings.add('common-password');
+      rest = rest.split(pw).join('\u0000');
+      bits += COMMON_PASSWORD_BITS;
+    }
+  }
+  rest = rest.replace(/(?:19|20)\d{2}/g, () => {
+    warnings.add('date-pattern');
+    bits += DATE_BITS;
+    return '\u0000';
+  });
+  const remaining = rest.split('\u0000').join('');
+  const pool = charsetSize(remaining);
+  if (pool > 0) bits += effectiveLength(remaining, warnings) * Math.log2(pool);
+  return bits;
+}
+
+const MESSAGES: Record<EntropyWarningCode, string> = {
+  empty: 'Passphrase is empty.',
+  'below-minimum': 'Passphrase is below the minimum entropy policy.',
+  'too-few-words': `Use at least ${MIN_DICEWARE_WORDS} randomly chosen Diceware words.`,
+  'repeated-word': 'Repeated words add no entropy.',
+  'unknown-word': 'Some words are not in the wordlist.',
+  'heuristic-estimate': `Words not in a known wordlist are scored as chosen words (at most ${DICTIONARY_WORD_BITS} bits each), not random picks. Generate the passphrase, or pass its wordlist.`,
+  'repeated-chars': 'Repeated characters (e.g. "aaaa") add little entropy.',
+  sequence: 'Sequences (e.g. "abcd", "1234") add little entropy.',
+  'common-password': 'Contains a common password or keyboard pattern.',
+  'date-pattern': 'Contains a year or date, which is easy to guess.',
+  'uppercase-ignored': 'Uppercase letters add no entropy: passphrases are lowercased before derivation.',
+};
+
+export function entropyWarning(code: EntropyWarningCode): EntropyWarning {
+  return { code, message: MESSAGES[code] };
+}
+
+/**
+ * Estimate the entropy of a passphrase.
+ *
+ * - Word passphrases (2+ letter-only words): each distinct word scores log2(list size) when a
+ *   wordlist is supplied and contains every word. Otherwise the phrase was not drawn from the list
+ *   and cannot be told apart from a famous quote, so each word scores min(DICTIONARY_WORD_BITS,
+ *   character bits).
+ * - Anything else is scored as a character-class password with penalties for repeats,
+ *   sequences, common passwords and years.
+ */
+export function estimatePassphraseEntropy(passphrase: string, opts?: EntropyOptions): EntropyReport {
+  const minimumBits = opts?.minimumBits ?? MIN_PASSPHRASE_ENTROPY_BITS;
+  const raw = typeof passphrase === 'string' ? passphrase : '';
+  const normalized = raw.normalize('NFKD').toLowerCase().trim();
+  const codes = new Set<EntropyWarningCode>();
+  if (raw.normalize('NFKD').trim() !== normalized) codes.add('uppercase-ignored');
+
+  let bits = 0;
+  let method: EntropyMethod = 'charset';
+  let wordCount = 0;
+
+  const list = opts?.wordlist ? toSet(opts.wordlist) : null;
+  // Hyphens separate words too, unless the hyphenated token is itself a list word (e.g. EFF "yo-yo")
+  const words = normalized
+    .split(WORD_SEPARATORS)
+    .flatMap((w) => (list?.has(w) ? [w] : w.split('-')))
+    .filter(Boolean);
+  if (normalized.length === 0) {
+    codes.add('empty');
+  } else if (words.length >= 2 && words.every((w) => list?.has(w) || LETTERS_ONLY.test(w))) {
+    wordCount = words.length;
+    const perListWord = list && list.size > 1 ? Math.log2(list.size) : 0;
+    method = list && words.every((w) => list.has(w)) ? 'wordlist' : 'diceware-heuristic';
+    if (method === 'diceware-heuristic') {
+      if (list) codes.add('unknown-word');
+      codes.add('heuristic-estimate');
+    }
+    const distinct = new Set(words);
+    if (distinct.size < words.length) codes.add('repeated-word');
+    for (const w of distinct) {
+      if (method === 'wordlist') {
+        bits += perListWord;
+        continue;
+      }
+      const wordCodes = new Set<EntropyWarningCode>();
+      const plain = charsetBits(w, wordCodes);
+      // Only penalties that make a word weaker than a dictionary word are relevant here
+      if (plain < DICTIONARY_WORD_BITS) wordCodes.forEach((c) => codes.add(c));
+      bits += Math.min(DICTIONARY_WORD_BITS, plain);
+    }
+    if (distinct.size < MIN_DICEWARE_WORDS) codes.add('too-few-words');
+  } else {
+    wordCount = words.length;
+    bits = charsetBits(normalized, codes);
+  }
+
+  bits = floorTenth(bits);
+  const meetsMinimum = bits >= minimumBits;
+  if (!meetsMinimum && !codes.has('empty')) codes.add('below-minimum');
+
+  return {
+    bits,
+    method,
+    wordCount,
+    length: Array.from(normalized).length,
+    minimumBits,
+    meetsMinimum,
+    warnings: Array.from(codes).map(entropyWarning),
+  };
+}
@@ -0,0 +1,88 @@
+import type { EntropyReport } from './entropy.js';
+
+export class WeakPassphraseError extends Error {
+  readonly report: EntropyReport;
+  readonly minEntropyBits: number;
+  constructor(report: EntropyReport, minEntropyBits: number, message?: string) {
+    super(message ?? `Passphrase entropy ${report.bits} bits is below the required ${minEntropyBits} bits`);
+    this.name = 'WeakPassphraseError';
+    this.report = report;
+    this.minEntropyBits = minEntropyBits;
+  }
+}
+
+/** An encrypted keystore failed authentication: wrong unlock secret, or the envelope was modified. */
+export class KeystoreIntegrityError extends Error {
+  constructor(message = 'Keystore authentication failed: wrong unlock secret or tampered envelope') {
+    super(message);
+    this.name = 'KeystoreIntegrityError';
+  }
+}
+
+/** A SeedIdSession was used after lock(), its idle timeout, or disposal. */
+export class SessionLockedError extends Error {
+  constructor(message = 'SeedID session is locked') {
+    super(message);
+    this.name = 'SessionLockedError';
+  }
+}
+
+export type JoseErrorCode =
+  | 'malformed'
+  | 'unsupported_alg'
+  | 'key_not_found'
+  | 'bad_signature'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'claim_mismatch';
+
+/** A JWS or JWT was rejected; `code` says why (bad signature, expiry, a claim check, ...). */
+export class JoseError extends Error {
+  readonly code: JoseErrorCode;
+  constructor(code: JoseErrorCode, message: string) {
+    super(message);
+    this.name = 'JoseError';
+    this.code = code;
+  }
+}
+
+export type CredentialErrorCode =
+  | 'malformed'
+  | 'bad_proof'
+  | 'issuer_mismatch'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'revoked'
+  | 'suspended'
+  | 'status_unavailable'
+  | 'challenge_mismatch';
+
+/** A verifiable credential or presentation was rejected; `code` says why. */
+export class CredentialError extends Error {
+  readonly code: CredentialErrorCode;
+  constructor(code: CredentialErrorCode, message: string) {
+    super(message);
+    this.name = 'CredentialError';
+    this.code = code;
+  }
+}
+
+export type AuthProofErrorCode =
+  | 'malformed'
+  | 'srn_mismatch'
+  | 'challenge_mismatch'
+  | 'key_mismatch'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'bad_signature'
+  | 'replayed';
+
+/** A challenge-response authentication proof was rejected; `code` says why. */
+export class AuthProofError extends Error {
+  readonly code: AuthProofErrorCode;
+  constructor(code: AuthProofErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthProofError';
+    this.code = code;
+  }
+}
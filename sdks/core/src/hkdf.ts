@@ -0,0 +1,68 @@
+import { extract, expand } from '@noble/hashes/hkdf.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { textToBytes, assertMasterKey } from './utils.js';
+
+// HKDF-Extract salt for all canonical SeedID labels
+export const HKDF_SALT = 'seedid/v1' as const;
+
+// RFC 5869: max output length is 255 * HashLen (SHA-256 => 255 * 32)
+const MAX_LEN = 255 * 32;
+
+export type HkdfOptions = { salt?: Uint8Array | string; length?: number };
+
+function toBytes(v: Uint8Array | string): Uint8Array {
+  return typeof v === 'string' ? textToBytes(v) : v;
+}
+
+function assertLength(length: number): void {
+  if (!Number.isInteger(length) || length <= 0 || length > MAX_LEN) {
+    throw new Error(`Invalid HKDF output length: ${length}. Must be 1..${MAX_LEN}`);
+  }
+}
+
+/** RFC 5869 HKDF-Extract (HMAC-SHA256). Salt defaults to `seedid/v1`. */
+export function hkdfExtract(ikm: Uint8Array, salt: Uint8Array | string = HKDF_SALT): Uint8Array {
+  return extract(sha256, ikm, toBytes(salt));
+}
+
+/** RFC 5869 HKDF-Expand (HMAC-SHA256) from a pseudorandom key returned by hkdfExtract(). */
+export function hkdfExpand(prk: Uint8Array, info: Uint8Array | string, length = 32): Uint8Array {
+  assertLength(length);
+  return expand(sha256, prk, toBytes(info), length);
+}
+
+/** Synchronous HKDF-SHA256 (extract + expand), byte-identical to hkdf(). */
+export function hkdfSync(ikm: Uint8Array, info: Uint8Array | string, opts?: HkdfOptions): Uint8Array {
+  const length = opts?.length ?? 32;
+  assertLength(length);
+  return hkdfExpand(hkdfExtract(ikm, opts?.salt ?? HKDF_SALT), info, length);
+}
+
+/** HKDF-SHA256. Kept async for API compatibility; see hkdfSync() and deriveNamespaces(). */
+export async function hkdf(ikm: Uint8Array, info: Uint8Array | string, opts?: HkdfOptions): Promise<Uint8Array> {
+  return hkdfSync(ikm, info, opts);
+}
+
+/**
+ * Derive 32-byte roots for many labels from one master key: HKDF-Extract runs once with the
+ * `seedid/v1` salt, then one Expand per label. Same output as hkdf(master, label) for each label.
+ *
+ * @example
+ * const roots = deriveNamespaces(master, [LABEL_NOSTR_KEY, LABEL_WALLET_ETH]);
+ * roots[LABEL_WALLET_ETH]; // Uint8Array(32)
+ */
+export function deriveNamespaces<L extends string>(master: Uint8Array, labels: readonly L[]): Record<L, Uint8Array> {
+  assertMasterKey(master);
+  if (!Array.isArray(labels)) throw new Error('labels must be an array of strings');
+  const prk = hkdfExtract(master);
+  try {
+    const out = Object.create(null) as Record<L, Uint8Array>;
+    for (const label of labels) {
+      if (typeof label !== 'string' || label.length === 0) throw new Error('HKDF label must be a non-empty string');
+      if (!Object.prototype.hasOwnProperty.call(out, label)) out[label as L] = hkdfExpand(prk, label, 32);
+    }
+    return out;
+  } finally {
+    prk.fill(0);
+  }
+}
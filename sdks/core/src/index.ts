@@ -1,133 +1,206 @@
-import { argon2id } from 'hash-wasm';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { getKdfAdapter } from './kdf.js';
+import type { KdfParamValues } from './kdf.js';
+import { hkdf, hkdfSync, HKDF_SALT } from './hkdf.js';
+import { textToBytes, assertMasterKey, normalizePassphrase } from './utils.js';
+import { estimatePassphraseEntropy } from './entropy.js';
+import { WeakPassphraseError } from './errors.js';
+import { EFF_LARGE, isGeneratedPassphrase, generatedPassphraseEntropy } from './diceware.js';
+import type { GeneratedPassphrase } from './diceware.js';
+import { resolveSeedIdContext, userSalt } from './context.js';
+import type { SeedIdContext, SaltRecord, PepperRecord } from './context.js';
+import { runKdf } from './kdf-runner.js';
+import { parseDerivationParams } from './param-string.js';
+import {
+  labelFor,
+  LABEL_NOSTR_KEY,
+  LABEL_DID_KEY_ED25519,
+  LABEL_DID_KEY_SECP256K1,
+  LABEL_WALLET_ETH,
+  LABEL_WALLET_BTC,
+  LABEL_WALLET_SOL,
+  LABEL_BIP85,
+} from './labels.js';
+import type { KdfExecutionOptions, KdfTiming } from './kdf-runner.js';
+import { isSeedIdSession } from './session.js';
+import type { MasterKeySource } from './session.js';
 
-export function normalizePassphrase(passphrase: string): string {
-  // Unicode NFKD -> lowercase -> trim
-  return passphrase.normalize('NFKD').toLowerCase().trim();
-}
+export { hkdf, HKDF_SALT, normalizePassphrase };
+export { hkdfSync, hkdfExtract, hkdfExpand, deriveNamespaces } from './hkdf.js';
+export type { HkdfOptions } from './hkdf.js';
 
-function textToBytes(s: string): Uint8Array {
-  return new TextEncoder().encode(s);
-}
 
-async function hmacSha256(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
-  // Use Web Crypto API (available in modern browsers and Node 18+)
-  let subtle: any = (globalThis as any)?.crypto?.subtle || (globalThis as any)?.webcrypto?.subtle;
-  if (!subtle) {
-    try {
-      // Node.js 18+: use built-in webcrypto
-      const nodeCrypto: any = await import('node:crypto');
-      subtle = nodeCrypto?.webcrypto?.subtle;
-    } catch {}
-  }
-  if (!subtle) {
-    throw new Error('Web Crypto API not available: cannot compute HMAC-SHA256');
-  }
-  const cryptoKey = await subtle.importKey(
-    'raw',
-    key,
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-  const sig = await subtle.sign({ name: 'HMAC' }, cryptoKey, data);
-  return new Uint8Array(sig);
+/**
+ * Registry of known KDF algorithm identifiers.
+ * Third-party adapters can extend it via module augmentation:
+ *
+ * declare module '@seedid/core' { interface KdfAlgorithms { balloon: true } }
+ */
+export interface KdfAlgorithms {
+  argon2id: true;
+  scrypt: true;
 }
 
-export async function hkdf(
-  ikm: Uint8Array,
-  info: Uint8Array | string,
-  opts?: { salt?: Uint8Array | string; length?: number }
-): Promise<Uint8Array> {
-  const salt = opts?.salt ?? 'seedid/v1';
-  const length = opts?.length ?? 32;
-  // RFC 5869: max output length is 255 * HashLen (SHA-256 => 255 * 32)
-  const MAX_LEN = 255 * 32;
-  if (length <= 0 || length > MAX_LEN) {
-    throw new Error(`Invalid HKDF output length: ${length}. Must be 1..${MAX_LEN}`);
-  }
-  const infoBytes = typeof info === 'string' ? textToBytes(info) : info;
-  const saltBytes = typeof salt === 'string' ? textToBytes(salt) : salt;
-
-  // RFC 5869 HKDF-Extract
-  const prk = await hmacSha256(saltBytes, ikm);
-
-  // HKDF-Expand
-  let t: Uint8Array = new Uint8Array(0);
-  const out = new Uint8Array(length);
-  let pos = 0;
-  let counter = 1;
-  while (pos < length) {
-    const input = new Uint8Array(t.length + infoBytes.length + 1);
-    input.set(t, 0);
-    input.set(infoBytes, t.length);
-    input[input.length - 1] = counter;
-    t = await hmacSha256(prk, input);
-    const take = Math.min(t.length, length - pos);
-    out.set(t.subarray(0, take), pos);
-    pos += take;
-    counter++;
-  }
-  return out;
-}
+export type KdfAlgorithm = keyof KdfAlgorithms;
 
 export type KdfParams = {
-  algorithm: 'argon2id' | 'scrypt';
-  // Algorithm-specific params set by caller. Argon2id handled by consumers.
-  params?: Record<string, number | string>;
+  algorithm: KdfAlgorithm;
+  // Algorithm-specific params, validated and defaulted by the registered KdfAdapter.
+  params?: KdfParamValues;
   salt?: Uint8Array | string;
+  // Per-user salt and optional pepper (mutually exclusive with `salt` when userId is set).
+  context?: SeedIdContext;
+  // Allow parameters below the adapter's safety floor (tests/fixtures only).
+  testMode?: boolean;
+  // Refuse passphrases whose estimated entropy (against the bundled EFF list) is below this many bits (spec: 90).
+  minEntropyBits?: number;
+  // Run the KDF inline (default) or in a worker, with cancellation and progress reporting.
+  execution?: KdfExecutionOptions;
+};
+
+/**
+ * Everything besides the passphrase (and pepper) needed to re-derive a master key.
+ * Non-secret: store it with the identity so recovery uses exactly the same inputs.
+ */
+export type DerivationMetadata = {
+  version: 1;
+  kdf: {
+    algorithm: KdfAlgorithm;
+    params: Record<string, number>; // resolved params, as passed to the adapter
+    testMode?: true;
+  };
+  salt: SaltRecord;
+  pepper: PepperRecord;
+};
+
+export type DerivationResult = {
+  master: Uint8Array;
+  metadata: DerivationMetadata;
+  timing: KdfTiming;
 };
 
 /**
  * Derive a 32-byte master key from a normalized passphrase using the configured KDF.
  *
- * @param _passphrase Passphrase to normalize (NFKD -> lowercase -> trim) before derivation.
- * @param _opts KDF parameters. Use Argon2id per SeedID spec.
+ * @param _passphrase Passphrase to normalize (NFKD -> lowercase -> trim) before derivation, or the
+ * result of generatePassphrase() (its wordlist entropy is verified and used for the policy check).
+ * @param _opts KDF parameters. Use Argon2id per SeedID spec; scrypt is available for local testing.
  * @returns Uint8Array(32) master key material.
  *
- * @security Salt defaults to 16 zero bytes for deterministic, reproducible outputs across contexts.
- * In production, provide a per-user salt (e.g., SHA-256("seedid/v1:user:" + user_id)[:16]) to
- * improve resistance to precomputation attacks.
+ * @throws If the algorithm has no registered adapter, or the adapter rejects the params
+ * (invalid, or below its safety floor without `testMode`).
+ * @throws {WeakPassphraseError} If `minEntropyBits` is set and the passphrase scores below it.
+ * @throws The abort reason if `execution.signal` is aborted.
+ *
+ * @security Without `salt` or `context.userId` the salt is 16 zero bytes, for deterministic,
+ * reproducible outputs across contexts. In production, set `context: { userId }` so the salt is
+ * SHA-256("seedid/v1:user:" + user_id)[:16]; use deriveMasterKeyWithMetadata() to record the mode.
  */
 export async function deriveMasterKey(
-  _passphrase: string,
+  _passphrase: string | GeneratedPassphrase,
   _opts: KdfParams
 ): Promise<Uint8Array> {
-  const passphrase = normalizePassphrase(_passphrase);
-  const algo = _opts.algorithm;
-  const saltBytes =
-    typeof _opts.salt === 'string'
-      ? textToBytes(_opts.salt)
-      : _opts.salt ?? new Uint8Array(16); // default: 16 zero bytes per spec
-
-  if (algo === 'argon2id') {
-    // Defaults per spec if not provided
-    const m = Number(_opts.params?.memory_cost ?? _opts.params?.memorySize ?? 262144); // KiB
-    const t = Number(_opts.params?.time_cost ?? _opts.params?.iterations ?? 5);
-    const p = Number(_opts.params?.parallelism ?? 2);
-    const L = Number(_opts.params?.hash_len ?? _opts.params?.hashLength ?? 32);
-
-    const out = await argon2id({
-      password: textToBytes(passphrase),
-      salt: saltBytes,
-      parallelism: p,
-      iterations: t,
-      memorySize: m,
-      hashLength: L,
-      outputType: 'binary',
-    });
-    if (!(out instanceof Uint8Array)) {
-      throw new Error('argon2id output must be Uint8Array');
-    }
-    return out;
+  return (await deriveMasterKeyWithMetadata(_passphrase, _opts)).master;
+}
+
+/**
+ * Same as deriveMasterKey(), also returning the derivation metadata (resolved KDF params, salt
+ * mode and whether a pepper was appended) and a timing report. Pass the metadata to
+ * kdfParamsFromMetadata() at recovery time.
+ */
+export async function deriveMasterKeyWithMetadata(
+  passphrase: string | GeneratedPassphrase,
+  opts: KdfParams
+): Promise<DerivationResult> {
+  const generated = isGeneratedPassphrase(passphrase) ? passphrase : null;
+  const normalized = normalizePassphrase(generated ? generated.passphrase : (passphrase as string));
+  if (opts.minEntropyBits !== undefined) {
+    const report = generated
+      ? generatedPassphraseEntropy(generated, opts.minEntropyBits)
+      : estimatePassphraseEntropy(normalized, { minimumBits: opts.minEntropyBits, wordlist: EFF_LARGE.words });
+    if (!report.meetsMinimum) throw new WeakPassphraseError(report, opts.minEntropyBits);
   }
+  const adapter = getKdfAdapter(opts.algorithm);
+  const testMode = opts.testMode === true;
+  const params = adapter.resolveParams(opts.params, { testMode });
+  const ctx = await resolveSeedIdContext(opts.context, opts.salt);
+
+  // Spec: the pepper is appended to the normalized passphrase
+  const passphraseBytes = textToBytes(normalized);
+  let password = passphraseBytes;
+  if (ctx.pepper) {
+    password = new Uint8Array(passphraseBytes.length + ctx.pepper.length);
+    password.set(passphraseBytes);
+    password.set(ctx.pepper, passphraseBytes.length);
+  }
+  try {
+    const { key: master, timing } = await runKdf(adapter, password, ctx.salt, params, opts.execution);
+    const metadata: DerivationMetadata = {
+      version: 1,
+      kdf: { algorithm: opts.algorithm, params: { ...params }, ...(testMode ? { testMode: true as const } : {}) },
+      salt: ctx.saltRecord,
+      pepper: ctx.pepperRecord,
+    };
+    return { master, metadata, timing };
+  } finally {
+    if (ctx.pepper) password.fill(0);
+  }
+}
 
-  if (algo === 'scrypt') {
-    // Intentionally not implemented in core; reserved for local testing.
-    // Implement in a separate adapter if needed to avoid accidental misuse.
-    throw new Error('scrypt fallback not implemented. Use Argon2id per SeedID spec.');
+/**
+ * Rebuild the KdfParams recorded in derivation metadata, for recovery.
+ * The pepper is not part of the metadata; supply it again when `metadata.pepper.mode` is 'appended'.
+ *
+ * @throws If the metadata is inconsistent, or the pepper presence does not match the recorded mode.
+ */
+export function kdfParamsFromMetadata(
+  metadata: DerivationMetadata,
+  secrets?: Pick<SeedIdContext, 'pepper'>
+): KdfParams {
+  if (!metadata || metadata.version !== 1) throw new Error('Unsupported derivation metadata version');
+  const { kdf, salt, pepper } = metadata;
+  const hasPepper = secrets?.pepper !== undefined;
+  if (pepper.mode === 'appended' && !hasPepper) {
+    throw new Error('Derivation used a pepper: supply it to recover this identity');
+  }
+  if (pepper.mode === 'none' && hasPepper) {
+    throw new Error('Derivation did not use a pepper');
   }
 
-  throw new Error(`Unsupported KDF algorithm: ${String(algo)}`);
+  const out: KdfParams = { algorithm: kdf.algorithm, params: { ...kdf.params } };
+  if (kdf.testMode) out.testMode = true;
+  const context: SeedIdContext = {};
+  switch (salt.mode) {
+    case 'zero':
+      if (!/^(?:00){16}$/.test(salt.saltHex)) throw new Error('zero salt mode requires 16 zero bytes');
+      break;
+    case 'user':
+      if (typeof salt.userId !== 'string' || bytesToHex(userSalt(salt.userId)) !== salt.saltHex.toLowerCase()) {
+        throw new Error('user salt mode: saltHex does not match SHA-256("seedid/v1:user:" + userId)[:16]');
+      }
+      context.userId = salt.userId;
+      break;
+    case 'custom':
+      if (!/^(?:[0-9a-fA-F]{2})+$/.test(salt.saltHex)) throw new Error('custom salt mode requires saltHex');
+      out.salt = hexToBytes(salt.saltHex.toLowerCase());
+      break;
+    default:
+      throw new Error(`Unknown salt mode: ${String((salt as SaltRecord).mode)}`);
+  }
+  if (hasPepper) {
+    context.pepper = secrets!.pepper;
+    if (pepper.pepperId !== undefined) context.pepperId = pepper.pepperId;
+  }
+  if (context.userId !== undefined || context.pepper !== undefined) out.context = context;
+  return out;
+}
+
+/**
+ * Rebuild KdfParams from a `seedid1$...` parameter string (see encodeDerivationParams()).
+ * @example deriveMasterKey(passphrase, kdfParamsFromString(stored, { pepper }))
+ */
+export function kdfParamsFromString(paramString: string, secrets?: Pick<SeedIdContext, 'pepper'>): KdfParams {
+  return kdfParamsFromMetadata(parseDerivationParams(paramString), secrets);
 }
 
 // Helper types for namespace selection
@@ -135,34 +208,408 @@ export type DidKeyCurve = 'ed25519' | 'secp256k1';
 export type WalletChain = 'eth' | 'btc' | 'sol';
 
 // Convenience helpers to derive HKDF-scoped root material for downstream protocols
-export async function forNostr(master: Uint8Array): Promise<Uint8Array> {
-  return hkdf(master, LABEL_NOSTR_KEY, { salt: HKDF_SALT, length: 32 });
+// Each accepts a raw master key or a SeedIdSession (the root is then wiped when the session locks).
+export async function forNostr(master: MasterKeySource): Promise<Uint8Array> {
+  if (isSeedIdSession(master)) return master.nostr();
+  assertMasterKey(master);
+  return hkdfSync(master, LABEL_NOSTR_KEY, { salt: HKDF_SALT, length: 32 });
 }
 
-export async function forDidKey(master: Uint8Array, curve: DidKeyCurve): Promise<Uint8Array> {
+export async function forDidKey(master: MasterKeySource, curve: DidKeyCurve): Promise<Uint8Array> {
+  if (isSeedIdSession(master)) return master.didKey(curve);
+  assertMasterKey(master);
   const label = curve === 'ed25519' ? LABEL_DID_KEY_ED25519 : LABEL_DID_KEY_SECP256K1;
-  return hkdf(master, label, { salt: HKDF_SALT, length: 32 });
+  return hkdfSync(master, label, { salt: HKDF_SALT, length: 32 });
 }
 
-export async function forWallet(master: Uint8Array, chain: WalletChain): Promise<Uint8Array> {
+export async function forWallet(master: MasterKeySource, chain: WalletChain): Promise<Uint8Array> {
+  if (isSeedIdSession(master)) return master.wallet(chain);
+  assertMasterKey(master);
   switch (chain) {
     case 'eth':
-      return hkdf(master, LABEL_WALLET_ETH, { salt: HKDF_SALT, length: 32 });
+      return hkdfSync(master, LABEL_WALLET_ETH, { salt: HKDF_SALT, length: 32 });
     case 'btc':
-      return hkdf(master, LABEL_WALLET_BTC, { salt: HKDF_SALT, length: 32 });
+      return hkdfSync(master, LABEL_WALLET_BTC, { salt: HKDF_SALT, length: 32 });
     case 'sol':
-      return hkdf(master, LABEL_WALLET_SOL, { salt: HKDF_SALT, length: 32 });
+      return hkdfSync(master, LABEL_WALLET_SOL, { salt: HKDF_SALT, length: 32 });
     default:
       // Exhaustive check for future safety
       throw new Error(`Unsupported wallet chain: ${String(chain)}`);
   }
 }
 
-// HKDF canonical labels (see seedid_community/core/namespaces.md)
-export const HKDF_SALT = 'seedid/v1' as const;
-export const LABEL_NOSTR_KEY = 'seedid/v1/nostr:key' as const;
-export const LABEL_DID_KEY_ED25519 = 'seedid/v1/did:key:ed25519' as const;
-export const LABEL_DID_KEY_SECP256K1 = 'seedid/v1/did:key:secp256k1' as const;
-export const LABEL_WALLET_ETH = 'seedid/v1/wallet:eth' as const;
-export const LABEL_WALLET_BTC = 'seedid/v1/wallet:btc' as const;
-export const LABEL_WALLET_SOL = 'seedid/v1/wallet:sol' as const;
+/** BIP-32 seed of the BIP-85 master node (`seedid/v1/bip85`); see @seedid/wallets bip85*. */
+export async function forBip85(master: MasterKeySource): Promise<Uint8Array> {
+  if (isSeedIdSession(master)) return master.bip85();
+  assertMasterKey(master);
+  return hkdfSync(master, LABEL_BIP85, { salt: HKDF_SALT, length: 32 });
+}
+
+// App-scoped derivations: `<canonical label>/app:<app-id>` (see namespaces.md, Domain Separation Rules)
+export type AppPurpose =
+  | 'nostr:key'
+  | 'did:key:ed25519'
+  | 'did:key:secp256k1'
+  | 'wallet:eth'
+  | 'wallet:btc'
+  | 'wallet:sol';
+
+const APP_PURPOSES: readonly AppPurpose[] = [
+  'nostr:key',
+  'did:key:ed25519',
+  'did:key:secp256k1',
+  'wallet:eth',
+  'wallet:btc',
+  'wallet:sol',
+];
+
+/** Build the app-scoped HKDF label, e.g. appLabel('wallet:eth', 'com.example') -> 'seedid/v1/wallet:eth/app:com.example'. */
+export function appLabel(purpose: AppPurpose, appId: string): string {
+  if (!APP_PURPOSES.includes(purpose)) throw new Error(`Unsupported app purpose: ${String(purpose)}`);
+  return labelFor(purpose, { appId });
+}
+
+/**
+ * Derive an app-scoped 32-byte root. Different app ids yield unlinkable roots, and none of
+ * them equal the global root for the same purpose.
+ */
+export async function forApp(master: MasterKeySource, purpose: AppPurpose, appId: string): Promise<Uint8Array> {
+  if (isSeedIdSession(master)) return master.root(appLabel(purpose, appId));
+  assertMasterKey(master);
+  return hkdfSync(master, appLabel(purpose, appId), { salt: HKDF_SALT, length: 32 });
+}
+
+export async function forAppNostr(master: MasterKeySource, appId: string): Promise<Uint8Array> {
+  return forApp(master, 'nostr:key', appId);
+}
+
+export async function forAppDidKey(master: MasterKeySource, curve: DidKeyCurve, appId: string): Promise<Uint8Array> {
+  if (curve !== 'ed25519' && curve !== 'secp256k1') throw new Error(`Unsupported did:key curve: ${String(curve)}`);
+  return forApp(master, `did:key:${curve}`, appId);
+}
+
+export async function forAppWallet(master: MasterKeySource, chain: WalletChain, appId: string): Promise<Uint8Array> {
+  if (chain !== 'eth' && chain !== 'btc' && chain !== 'sol') throw new Error(`Unsupported wallet chain: ${String(chain)}`);
+  return forApp(master, `wallet:${chain}`, appId);
+}
+
+// KDF adapter registry exports
+export {
+  registerKdfAdapter,
+  getKdfAdapter,
+  listKdfAlgorithms,
+  argon2idAdapter,
+  scryptAdapter,
+  ARGON2ID_DEFAULTS,
+  ARGON2ID_MINIMUMS,
+  SCRYPT_DEFAULTS,
+  SCRYPT_MINIMUMS,
+} from './kdf.js';
+export type {
+  KdfAdapter,
+  KdfParamValues,
+  KdfValidationOptions,
+  Argon2idParams,
+  ScryptParams,
+} from './kdf.js';
+
+// Service Resource Name (SRN) keyed service seeds (whitepaper §3, §5)
+export {
+  parseSrn,
+  canonicalizeSrn,
+  isValidSrn,
+  serviceSeedInfo,
+  deriveServiceSeed,
+  deriveServiceKey,
+} from './srn.js';
+export type { SrnCurve, ParsedSrn, ServiceKey } from './srn.js';
+
+// Passphrase entropy estimation and policy
+export {
+  estimatePassphraseEntropy,
+  MIN_PASSPHRASE_ENTROPY_BITS,
+  DICEWARE_BITS_PER_WORD,
+  DICTIONARY_WORD_BITS,
+} from './entropy.js';
+export type {
+  EntropyReport,
+  EntropyOptions,
+  EntropyMethod,
+  EntropyWarning,
+  EntropyWarningCode,
+} from './entropy.js';
+export { WeakPassphraseError } from './errors.js';
+
+// Diceware passphrase generation
+export {
+  generatePassphrase,
+  generatedPassphraseEntropy,
+  isGeneratedPassphrase,
+  createWordlist,
+  registerWordlist,
+  getWordlist,
+  EFF_LARGE,
+} from './diceware.js';
+export type { Wordlist, GeneratePassphraseOptions, GeneratedPassphrase } from './diceware.js';
+export { EFF_LARGE_WORDLIST } from './wordlists/eff-large.js';
+
+// Derivation context: per-user salt and pepper
+export { userSalt, assertUserId, USER_SALT_PREFIX } from './context.js';
+export type {
+  SeedIdContext,
+  PepperSource,
+  PepperValue,
+  SaltMode,
+  PepperMode,
+  SaltRecord,
+  PepperRecord,
+} from './context.js';
+
+// KDF execution: inline or worker, with cancellation, progress and timing
+export type { KdfExecutionMode, KdfExecutionOptions, KdfProgress, KdfTiming } from './kdf-runner.js';
+
+// KDF profiles, calibration and the `seedid1$...` parameter string
+export { KDF_PROFILES, kdfProfile, matchKdfProfile, calibrateKdf } from './profiles.js';
+export type { KdfProfileName, KdfProfile, CalibrationOptions, CalibrationResult } from './profiles.js';
+export { encodeDerivationParams, parseDerivationParams, PARAM_STRING_PREFIX } from './param-string.js';
+
+// Versioned HKDF label registry
+export {
+  LABEL_NOSTR_KEY,
+  LABEL_DID_KEY_ED25519,
+  LABEL_DID_KEY_SECP256K1,
+  LABEL_WALLET_ETH,
+  LABEL_WALLET_BTC,
+  LABEL_WALLET_SOL,
+  LABEL_BIP85,
+  LABEL_DID_WEB_X25519,
+  labelFor,
+  parseLabel,
+  normalizeAppId,
+  registerLabel,
+  getLabelDefinition,
+  listLabelDefinitions,
+  deriveVersionedRoots,
+} from './labels.js';
+export type {
+  LabelPurposes,
+  LabelPurpose,
+  SeedIdLabel,
+  LabelDefinition,
+  LabelRegistration,
+  LabelOptions,
+  ParsedLabel,
+  VersionedRoot,
+} from './labels.js';
+
+// SLIP-39 Shamir shares
+export {
+  slip39Split,
+  slip39Combine,
+  decodeSlip39Share,
+  isValidSlip39Share,
+  splitMasterKey,
+  recoverMasterKey,
+  splitPassphrase,
+  recoverPassphrase,
+} from './slip39.js';
+export type { Slip39Group, Slip39SplitOptions, Slip39Share } from './slip39.js';
+
+// Encrypted keystore envelope
+export {
+  KEYSTORE_VERSION,
+  KEYSTORE_TYPE,
+  encryptKeystore,
+  exportMasterKeystore,
+  exportRootKeystore,
+  importKeystore,
+  serializeKeystore,
+  decryptKeystore,
+  withDecryptedKeystore,
+} from './keystore.js';
+export type {
+  SeedIdKeystore,
+  KeystoreKind,
+  KeystoreKdf,
+  KeystoreOptions,
+  DecryptedKeystore,
+  UnlockSecret,
+} from './keystore.js';
+export { KeystoreIntegrityError } from './errors.js';
+export { zeroize, canonicalJson } from './utils.js';
+
+// Sessions
+export { SeedIdSession, isSeedIdSession, DEFAULT_SESSION_IDLE_TIMEOUT_MS } from './session.js';
+export type { SessionOptions, SessionLockReason, ScopedKey, MasterKeySource } from './session.js';
+export { SessionLockedError } from './errors.js';
+
+// Signers
+export {
+  createEcdsaSigner,
+  createSchnorrSigner,
+  createEd25519Signer,
+  nostrSigner,
+  serviceSigner,
+  verifyEcdsaDigest,
+  verifyEcdsaMessage,
+  recoverEcdsaPublicKey,
+  verifySchnorrDigest,
+  verifySchnorrMessage,
+  verifyEd25519Message,
+  verifyEd25519Digest,
+  secp256k1KeyFromSeed,
+} from './signer.js';
+export type {
+  Signer,
+  SignerCurve,
+  SignatureScheme,
+  SignerMessage,
+  SignerOptions,
+  EcdsaSignerOptions,
+} from './signer.js';
+
+// did:key
+export {
+  DID_KEY_MULTICODEC,
+  encodeDidKey,
+  decodeDidKey,
+  isDidKey,
+  encodePublicKeyMultibase,
+  decodePublicKeyMultibase,
+  didKeyDocument,
+  resolveDidKey,
+  didKeySigner,
+  deriveDidKey,
+} from './did-key.js';
+export type {
+  DidDocument,
+  VerificationMethod,
+  DidResolutionResult,
+  DecodedDidKey,
+  DidKeySigner,
+} from './did-key.js';
+
+// did:web
+export {
+  X25519_MULTICODEC,
+  parseDidWeb,
+  encodeDidWeb,
+  isDidWeb,
+  encodeX25519Multibase,
+  buildDidWebDocument,
+  rotateDidWebDocument,
+  deriveDidWebKeys,
+  forDidWebX25519,
+  resolveDidWeb,
+  resolveDid,
+} from './did-web.js';
+export type {
+  DidWebKey,
+  DidWebKeyType,
+  DidService,
+  DidWebDocumentOptions,
+  DidWebRotation,
+  DidWebFetch,
+  DidWebResolveOptions,
+  ParsedDidWeb,
+  VerificationRelationship,
+} from './did-web.js';
+
+// JOSE
+export {
+  JWT_CLOCK_SKEW_SEC,
+  jwsAlgorithm,
+  publicKeyJwk,
+  jwkPublicKey,
+  jwkThumbprint,
+  signerJwk,
+  deriveJwks,
+  signJws,
+  signJwt,
+  decodeJws,
+  verifyJws,
+  verifyJwt,
+  resolveVerificationMethod,
+} from './jose.js';
+export type {
+  JwsAlgorithm,
+  PublicJwk,
+  Jwks,
+  JwsHeader,
+  JwtClaims,
+  JwsSignOptions,
+  JwtSignOptions,
+  JwsVerifyOptions,
+  JwtVerifyOptions,
+  VerifiedJws,
+  VerifiedJwt,
+} from './jose.js';
+export { JoseError } from './errors.js';
+export type { JoseErrorCode } from './errors.js';
+
+// Verifiable Credentials
+export {
+  VC_CONTEXT_V2,
+  VC_CLOCK_SKEW_SEC,
+  issueDataIntegrityCredential,
+  issueJwtCredential,
+  verifyCredential,
+  presentDataIntegrity,
+  presentJwt,
+  verifyPresentation,
+} from './vc.js';
+export type {
+  Credential,
+  CredentialInput,
+  CredentialIssuer,
+  CredentialFormat,
+  CredentialSigner,
+  DataIntegrityProof,
+  SecuredCredential,
+  EnvelopedCredential,
+  Presentation,
+  SecuredPresentation,
+  IssueOptions,
+  PresentOptions,
+  CredentialVerifyOptions,
+  PresentationVerifyOptions,
+  VerifiedCredential,
+  VerifiedPresentation,
+} from './vc.js';
+export {
+  STATUS_LIST_MIN_ENTRIES,
+  STATUS_LIST_MAX_BYTES,
+  createStatusList,
+  setStatus,
+  getStatus,
+  encodeStatusList,
+  decodeStatusList,
+  statusListEntry,
+  createStatusListCredential,
+  localStatusListSource,
+} from './status-list.js';
+export type { StatusPurpose, BitstringStatusListEntry, StatusListSource } from './status-list.js';
+export { CredentialError } from './errors.js';
+export type { CredentialErrorCode } from './errors.js';
+
+// Authentication proofs
+export {
+  AUTH_PROOF_TYPE,
+  AUTH_PROOF_MAX_AGE_SEC,
+  AUTH_CLOCK_SKEW_SEC,
+  createAuthChallenge,
+  authProofBytes,
+  createAuthProof,
+  verifyAuthProof,
+  MemoryNonceStore,
+} from './auth.js';
+export type {
+  AuthProof,
+  AuthNonceStore,
+  AuthProofOptions,
+  AuthVerifyOptions,
+  VerifiedAuthProof,
+  MemoryNonceStoreOptions,
+} from './auth.js';
+export { AuthProofError } from './errors.js';
+export type { AuthProofErrorCode } from './errors.js';
@@ -0,0 +1,398 @@
+/**
+ * JOSE on derived keys: compact JWS (RFC 7515), JWT (RFC 7519) and JWK/JWKS (RFC 7517).
+ *
+ * Algorithms follow the signer's scheme; nothing else is accepted, so a token can never pick a
+ * weaker algorithm than its key:
+ * - EdDSA (RFC 8037): Ed25519 signers, OKP keys with crv Ed25519
+ * - ES256K (RFC 8812): ECDSA secp256k1 over SHA-256(signing input), 64-byte r || s, EC keys with
+ *   crv secp256k1. Signing always goes through signDigest(), so an ECDSA signer built with a
+ *   custom `hashMessage` (EIP-191, BIP-137) still produces standard ES256K signatures; high-S
+ *   signatures are rejected on verification, as everywhere in this SDK.
+ *
+ * The default `kid` is the did:key URL of the public key (`did:key:z…#z…`): stable across
+ * devices, and verifiable without a JWKS because verifyJws() resolves DID URL kids (did:key
+ * locally, did:web over HTTPS) and looks the key up in the DID Document.
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { decodeDidKey, decodePublicKeyMultibase, deriveDidKey, encodeDidKey } from './did-key.js';
+import type { VerificationMethod } from './did-key.js';
+import { resolveDid } from './did-web.js';
+import type { DidWebResolveOptions, VerificationRelationship } from './did-web.js';
+import { JoseError } from './errors.js';
+import type { DidKeyCurve } from './index.js';
+import type { MasterKeySource } from './session.js';
+import { verifyEcdsaDigest, verifyEd25519Message } from './signer.js';
+import type { Signer, SignerCurve, SignerMessage } from './signer.js';
+import { base64UrlToBytes, bytesToBase64Url, canonicalJson, textToBytes } from './utils.js';
+
+export type JwsAlgorithm = 'EdDSA' | 'ES256K';
+
+export type PublicJwk = {
+  kty: 'OKP' | 'EC';
+  crv: 'Ed25519' | 'secp256k1';
+  x: string;
+  /** secp256k1 only. */
+  y?: string;
+  kid?: string;
+  alg?: JwsAlgorithm;
+  use?: 'sig';
+};
+
+export type Jwks = { keys: PublicJwk[] };
+
+export type JwsHeader = { alg: JwsAlgorithm; kid?: string; typ?: string; [parameter: string]: unknown };
+
+/** Registered claims; any other member is carried as is. Times are Unix seconds. */
+export type JwtClaims = {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [claim: string]: unknown;
+};
+
+export type JwsSignOptions = {
+  /** Extra protected header parameters; `alg` and `kid` are always set by the signer. */
+  header?: Record<string, unknown>;
+  /** Default: the signer's keyId (didKeySigner), else the did:key URL of its public key. */
+  kid?: string;
+};
+
+export type JwtSignOptions = JwsSignOptions & {
+  /** Sets `exp` to iat + expiresIn seconds. */
+  expiresIn?: number;
+  /** Unix seconds used for `iat` (default: now). */
+  now?: number;
+};
+
+export type JwsVerifyOptions = {
+  /** The verification key, or a JWKS searched by `kid`. Without it, `kid` must be a DID URL. */
+  key?: PublicJwk | Jwks;
+  /** Accepted algorithms (default both). */
+  algorithms?: JwsAlgorithm[];
+  /** Relationship a DID URL kid must be listed under (default assertionMethod). */
+  purpose?: VerificationRelationship;
+  /** How did:web kids are fetched. */
+  resolve?: DidWebResolveOptions;
+};
+
+export type JwtVerifyOptions = JwsVerifyOptions & {
+  /** Accepted `iss` value(s). */
+  issuer?: string | string[];
+  /** Required member of `aud`. */
+  audience?: string;
+  subject?: string;
+  /** Required header `typ` (e.g. 'JWT'). */
+  typ?: string;
+  /** Reject tokens without `exp`. */
+  requireExpiry?: boolean;
+  /** Unix seconds (default: now). */
+  now?: number;
+  /** Default JWT_CLOCK_SKEW_SEC. */
+  clockSkewSec?: number;
+};
+
+export type VerifiedJws = { header: JwsHeader; payload: Uint8Array; key: PublicJwk };
+export type VerifiedJwt = { header: JwsHeader; payload: JwtClaims; key: PublicJwk };
+
+/** Leeway (seconds) for exp, nbf and iat checks. */
+export const JWT_CLOCK_SKEW_SEC = 60;
+
+const ALGORITHMS: readonly JwsAlgorithm[] = ['EdDSA', 'ES256K'];
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function algorithmOf(curve: SignerCurve): JwsAlgorithm {
+  return curve === 'ed25519' ? 'EdDSA' : 'ES256K';
+}
+
+/** The JWS `alg` of a signer. @throws For BIP-340 Schnorr signers, which have no JOSE algorithm. */
+export function jwsAlgorithm(signer: Pick<Signer, 'scheme'>): JwsAlgorithm {
+  if (signer.scheme === 'ed25519') return 'EdDSA';
+  if (signer.scheme === 'ecdsa-secp256k1') return 'ES256K';
+  throw new Error(`No JWS algorithm for ${signer.scheme} signatures`);
+}
+
+/** Public key as a JWK with `alg` and `use`. The `kid` defaults to the key's did:key URL. */
+export function publicKeyJwk(publicKey: Uint8Array, curve: DidKeyCurve, opts?: { kid?: string }): PublicJwk {
+  // encodeDidKey also validates the key (and accepts uncompressed secp256k1)
+  const kid = opts?.kid ?? decodeDidKey(encodeDidKey(publicKey, curve)).keyId;
+  if (curve === 'ed25519') {
+    return { kty: 'OKP', crv: 'Ed25519', x: bytesToBase64Url(publicKey), kid, alg: 'EdDSA', use: 'sig' };
+  }
+  const point = secp256k1.Point.fromBytes(publicKey).toBytes(false);
+  return {
+    kty: 'EC',
+    crv: 'secp256k1',
+    x: bytesToBase64Url(point.subarray(1, 33)),
+    y: bytesToBase64Url(point.subarray(33)),
+    kid,
+    alg: 'ES256K',
+    use: 'sig',
+  };
+}
+
+function coordinate(jwk: PublicJwk, name: 'x' | 'y'): Uint8Array {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64UrlToBytes(jwk[name] as string);
+  } catch {
+    throw new Error(`Invalid JWK ${name}`);
+  }
+  if (bytes.length !== 32) throw new Error(`JWK ${name} must be 32 bytes`);
+  return bytes;
+}
+
+/** Inverse of publicKeyJwk(): 32-byte Ed25519 or 33-byte compressed secp256k1 key. @throws If invalid. */
+export function jwkPublicKey(jwk: PublicJwk): { curve: DidKeyCurve; publicKey: Uint8Array } {
+  if (jwk?.kty === 'OKP' && jwk.crv === 'Ed25519') return { curve: 'ed25519', publicKey: coordinate(jwk, 'x') };
+  if (jwk?.kty === 'EC' && jwk.crv === 'secp256k1') {
+    const point = new Uint8Array(65);
+    point[0] = 0x04;
+    point.set(coordinate(jwk, 'x'), 1);
+    point.set(coordinate(jwk, 'y'), 33);
+    try {
+      return { curve: 'secp256k1', publicKey: secp256k1.Point.fromBytes(point).toBytes(true) };
+    } catch {
+      throw new Error('JWK is not a secp256k1 point');
+    }
+  }
+  throw new Error('Unsupported JWK: expected OKP/Ed25519 or EC/secp256k1');
+}
+
+/** RFC 7638 thumbprint (base64url SHA-256 of the required members), an alternative `kid`. */
+export function jwkThumbprint(jwk: PublicJwk): string {
+  const { curve } = jwkPublicKey(jwk);
+  const members = curve === 'ed25519' ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x } : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+  return bytesToBase64Url(sha256(textToBytes(canonicalJson(members))));
+}
+
+/** JWK of a signer's public key; `kid` defaults as in signJws(). */
+export function signerJwk(signer: Signer, opts?: { kid?: string }): PublicJwk {
+  jwsAlgorithm(signer);
+  return publicKeyJwk(signer.getPublicKey(), signer.curve, { kid: opts?.kid ?? defaultKid(signer) });
+}
+
+/** JWKS of the did:key roots of `source` (or of an app id), kids being the did:key URLs. */
+export async function deriveJwks(
+  source: MasterKeySource,
+  opts?: { appId?: string; curves?: DidKeyCurve[] }
+): Promise<Jwks> {
+  const keys: PublicJwk[] = [];
+  for (const curve of opts?.curves ?? (['ed25519', 'secp256k1'] as const)) {
+    const { publicKey, keyId } = await deriveDidKey(source, curve, { appId: opts?.appId });
+    keys.push(publicKeyJwk(publicKey, curve, { kid: keyId }));
+  }
+  return { keys };
+}
+
+function defaultKid(signer: Signer): string {
+  const keyId = (signer as Signer & { keyId?: unknown }).keyId;
+  return typeof keyId === 'string' ? keyId : decodeDidKey(encodeDidKey(signer.getPublicKey(), signer.curve)).keyId;
+}
+
+function encodeJson(value: unknown): string {
+  return bytesToBase64Url(textToBytes(JSON.stringify(value)));
+}
+
+/** Compact JWS over `payload` (strings are signed as UTF-8). */
+export async function signJws(signer: Signer, payload: SignerMessage, opts?: JwsSignOptions): Promise<string> {
+  const alg = jwsAlgorithm(signer);
+  const header = { ...opts?.header, alg, kid: opts?.kid ?? defaultKid(signer) };
+  const body = typeof payload === 'string' ? textToBytes(payload) : payload;
+  const signingInput = `${encodeJson(header)}.${bytesToBase64Url(body)}`;
+  const signature =
+    alg === 'EdDSA' ? await signer.signMessage(signingInput) : await signer.signDigest(sha256(textToBytes(signingInput)));
+  if (alg === 'ES256K' && signature.length !== 64) throw new Error('ES256K requires a compact (64-byte) ECDSA signer');
+  return `${signingInput}.${bytesToBase64Url(signature)}`;
+}
+
+/**
+ * A JWT: `claims` with `iat` (unless given), `exp` when `expiresIn` is set, and `iss` defaulting
+ * to the signer's DID (didKeySigner). Header `typ` is 'JWT' unless overridden.
+ */
+export async function signJwt(signer: Signer, claims: JwtClaims, opts?: JwtSignOptions): Promise<string> {
+  const iat = claims.iat ?? opts?.now ?? now();
+  if (!Number.isSafeInteger(iat) || iat < 0) throw new Error('iat must be unix seconds');
+  if (opts?.expiresIn !== undefined && (!Number.isSafeInteger(opts.expiresIn) || opts.expiresIn <= 0)) {
+    throw new Error('expiresIn must be a positive number of seconds');
+  }
+  const did = (signer as Signer & { did?: unknown }).did;
+  const payload: JwtClaims = {
+    ...(typeof did === 'string' ? { iss: did } : {}),
+    ...claims,
+    iat,
+    ...(opts?.expiresIn !== undefined ? { exp: iat + opts.expiresIn } : {}),
+  };
+  return signJws(signer, JSON.stringify(payload), { ...opts, header: { typ: 'JWT', ...opts?.header } });
+}
+
+/** Split a compact JWS without verifying it. @throws {JoseError} `malformed`. */
+export function decodeJws(jws: string): { header: JwsHeader; payload: Uint8Array; signature: Uint8Array; signingInput: string } {
+  const parts = typeof jws === 'string' ? jws.split('.') : [];
+  if (parts.length !== 3) throw new JoseError('malformed', 'Expected a compact JWS with three parts');
+  let header: JwsHeader;
+  let payload: Uint8Array;
+  let signature: Uint8Array;
+  try {
+    header = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(base64UrlToBytes(parts[0])));
+    payload = base64UrlToBytes(parts[1]);
+    signature = base64UrlToBytes(parts[2]);
+  } catch {
+    throw new JoseError('malformed', 'Invalid JWS encoding');
+  }
+  if (typeof header !== 'object' || header === null || Array.isArray(header)) {
+    throw new JoseError('malformed', 'JWS header must be a JSON object');
+  }
+  if (header.crit !== undefined || header.b64 !== undefined) {
+    throw new JoseError('malformed', 'JWS header extensions (crit, b64) are not supported');
+  }
+  return { header, payload, signature, signingInput: `${parts[0]}.${parts[1]}` };
+}
+
+function methodKey(method: VerificationMethod): { curve: DidKeyCurve; publicKey: Uint8Array } {
+  if (typeof method.publicKeyMultibase === 'string') return decodePublicKeyMultibase(method.publicKeyMultibase);
+  if (method.publicKeyJwk) return jwkPublicKey(method.publicKeyJwk as PublicJwk);
+  throw new Error(`Verification method ${method.id} has no supported public key`);
+}
+
+/**
+ * Resolve a DID URL (`<did>#<fragment>`) to its verification method, which must be listed under
+ * `purpose` in the DID Document, and decode its key (publicKeyMultibase or publicKeyJwk).
+ *
+ * @throws {JoseError} `key_not_found` if the DID does not resolve, the method is not listed under
+ * `purpose`, or its key type is unsupported.
+ */
+export async function resolveVerificationMethod(
+  didUrl: string,
+  purpose: VerificationRelationship,
+  opts?: DidWebResolveOptions
+): Promise<{ method: VerificationMethod; curve: DidKeyCurve; publicKey: Uint8Array }> {
+  if (typeof didUrl !== 'string' || !didUrl.startsWith('did:') || !didUrl.includes('#')) {
+    throw new JoseError('key_not_found', `Not a DID URL: ${String(didUrl)}`);
+  }
+  const did = didUrl.split('#')[0];
+  const { didDocument, didResolutionMetadata } = await resolveDid(did, opts);
+  if (!didDocument) {
+    throw new JoseError('key_not_found', `Cannot resolve ${did}: ${didResolutionMetadata.message ?? didResolutionMetadata.error}`);
+  }
+  // A fetched document is untrusted: entries that are not objects with a string id never match.
+  const matches = (id: unknown) => typeof id === 'string' && (id.startsWith('#') ? `${did}${id}` : id) === didUrl;
+  const isMethod = (m: unknown): m is VerificationMethod =>
+    typeof m === 'object' && m !== null && matches((m as VerificationMethod).id);
+  const refs: unknown[] = Array.isArray(didDocument[purpose]) ? didDocument[purpose] : [];
+  const methods: unknown[] = Array.isArray(didDocument.verificationMethod) ? didDocument.verificationMethod : [];
+  const embedded = refs.find(isMethod);
+  const method = embedded ?? (refs.some((r) => typeof r === 'string' && matches(r)) ? methods.find(isMethod) : undefined);
+  if (!method) throw new JoseError('key_not_found', `${didUrl} is not an ${purpose} key of ${did}`);
+  try {
+    return { method, ...methodKey(method) };
+  } catch (err) {
+    throw new JoseError('key_not_found', err instanceof Error ? err.message : String(err));
+  }
+}
+
+async function selectKey(header: JwsHeader, opts?: JwsVerifyOptions): Promise<PublicJwk> {
+  const key = opts?.key;
+  if (key && 'keys' in key) {
+    const candidates = key.keys.filter(
+      (k) => (header.kid === undefined || k.kid === header.kid) && (k.alg === undefined || k.alg === header.alg)
+    );
+    if (candidates.length !== 1) throw new JoseError('key_not_found', `No unique JWKS key for kid ${String(header.kid)}`);
+    return candidates[0];
+  }
+  if (key) return key;
+  if (typeof header.kid === 'string' && header.kid.startsWith('did:')) {
+    const { curve, publicKey } = await resolveVerificationMethod(header.kid, opts?.purpose ?? 'assertionMethod', opts?.resolve);
+    return publicKeyJwk(publicKey, curve, { kid: header.kid });
+  }
+  throw new JoseError('key_not_found', 'No verification key: pass `key` or sign with a DID URL kid');
+}
+
+/**
+ * Verify a compact JWS and return its header, payload and the key that verified it.
+ *
+ * @throws {JoseError} If the JWS is malformed, its algorithm does not match the key, the key
+ * cannot be found, or the signature is invalid.
+ */
+export async function verifyJws(jws: string, opts?: JwsVerifyOptions): Promise<VerifiedJws> {
+  const { header, payload, signature, signingInput } = decodeJws(jws);
+  const algorithms = opts?.algorithms ?? ALGORITHMS;
+  if (!ALGORITHMS.includes(header.alg) || !algorithms.includes(header.alg)) {
+    throw new JoseError('unsupported_alg', `Unsupported JWS algorithm: ${String(header.alg)}`);
+  }
+  const key = await selectKey(header, opts);
+  let curve: DidKeyCurve;
+  let publicKey: Uint8Array;
+  try {
+    ({ curve, publicKey } = jwkPublicKey(key));
+  } catch (err) {
+    throw new JoseError('key_not_found', err instanceof Error ? err.message : String(err));
+  }
+  if (algorithmOf(curve) !== header.alg || (key.alg !== undefined && key.alg !== header.alg)) {
+    throw new JoseError('unsupported_alg', `JWS algorithm ${header.alg} does not match the ${curve} key`);
+  }
+  const input = textToBytes(signingInput);
+  const valid =
+    header.alg === 'EdDSA'
+      ? verifyEd25519Message(signature, input, publicKey)
+      : signature.length === 64 && verifyEcdsaDigest(signature, sha256(input), publicKey);
+  if (!valid) throw new JoseError('bad_signature', 'JWS signature verification failed');
+  return { header, payload, key };
+}
+
+/**
+ * Verify a JWT's signature (as verifyJws) and its claims: exp, nbf and iat against the clock,
+ * and issuer, audience, subject and typ when asked. When both `iss` and `kid` are DIDs, the key
+ * must belong to the issuer.
+ *
+ * @throws {JoseError} With the reason in `code`.
+ */
+export async function verifyJwt(jwt: string, opts?: JwtVerifyOptions): Promise<VerifiedJwt> {
+  const { header, payload, key } = await verifyJws(jwt, opts);
+  let claims: JwtClaims;
+  try {
+    claims = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(payload));
+  } catch {
+    throw new JoseError('malformed', 'JWT payload is not JSON');
+  }
+  if (typeof claims !== 'object' || claims === null || Array.isArray(claims)) {
+    throw new JoseError('malformed', 'JWT payload must be a JSON object');
+  }
+  for (const name of ['exp', 'nbf', 'iat'] as const) {
+    if (claims[name] !== undefined && typeof claims[name] !== 'number') throw new JoseError('malformed', `JWT ${name} must be a number`);
+  }
+
+  const t = opts?.now ?? now();
+  const skew = opts?.clockSkewSec ?? JWT_CLOCK_SKEW_SEC;
+  if (claims.exp === undefined && opts?.requireExpiry) throw new JoseError('claim_mismatch', 'JWT has no exp');
+  if (claims.exp !== undefined && t - skew >= claims.exp) throw new JoseError('expired', 'JWT has expired');
+  if (claims.nbf !== undefined && t + skew < claims.nbf) throw new JoseError('not_yet_valid', 'JWT is not valid yet');
+  if (claims.iat !== undefined && t + skew < claims.iat) throw new JoseError('not_yet_valid', 'JWT was issued in the future');
+
+  if (opts?.typ !== undefined && header.typ !== opts.typ) throw new JoseError('claim_mismatch', `JWT typ is not ${opts.typ}`);
+  if (opts?.issuer !== undefined) {
+    const issuers = Array.isArray(opts.issuer) ? opts.issuer : [opts.issuer];
+    if (typeof claims.iss !== 'string' || !issuers.includes(claims.iss)) throw new JoseError('claim_mismatch', 'Unexpected JWT issuer');
+  }
+  if (opts?.audience !== undefined) {
+    const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!aud.includes(opts.audience)) throw new JoseError('claim_mismatch', 'JWT audience does not match');
+  }
+  if (opts?.subject !== undefined && claims.sub !== opts.subject) throw new JoseError('claim_mismatch', 'JWT subject does not match');
+  if (
+    typeof claims.iss === 'string' &&
+    claims.iss.startsWith('did:') &&
+    typeof header.kid === 'string' &&
+    header.kid.startsWith('did:') &&
+    header.kid.split('#')[0] !== claims.iss
+  ) {
+    throw new JoseError('claim_mismatch', 'JWT kid does not belong to the issuer DID');
+  }
+  return { header, payload: claims, key };
+}
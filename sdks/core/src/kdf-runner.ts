@@ -0,0 +1,226 @@
+import { argon2idAdapter, scryptAdapter } from './kdf.js';
+import type { KdfAdapter } from './kdf.js';
+import type { KdfJob, KdfWorkerMessage } from './kdf-worker.js';
+
+/**
+ * KDF execution: inline (default) or in a Web Worker / worker_threads worker so a
+ * 256 MiB Argon2id run does not block the UI thread or the Node event loop.
+ *
+ * Both modes run the same hash-wasm primitives with the same resolved params, so the
+ * output is byte-identical.
+ */
+
+export type KdfExecutionMode = 'inline' | 'worker';
+
+export type KdfProgress = {
+  phase: 'start' | 'derive' | 'done';
+  elapsedMs: number;
+  // Estimated completion in [0, 1]; only when `expectedMs` is given (always 1 when done)
+  fraction?: number;
+};
+
+export type KdfTiming = {
+  mode: KdfExecutionMode;
+  algorithm: string;
+  kdfMs: number; // time spent in the KDF itself
+  overheadMs: number; // worker startup and message passing (0 inline)
+  totalMs: number;
+};
+
+export type KdfExecutionOptions = {
+  mode?: KdfExecutionMode;
+  /**
+   * Cancels the derivation. Worker mode terminates the worker immediately; inline mode can only
+   * check before and after the KDF runs (WASM cannot be interrupted on its own thread).
+   */
+  signal?: AbortSignal;
+  onProgress?: (progress: KdfProgress) => void;
+  /** Interval between 'derive' progress events in worker mode. Default 100 ms. */
+  progressIntervalMs?: number;
+  /** Expected KDF duration (e.g. from calibration), used to estimate `fraction`. */
+  expectedMs?: number;
+  /** Browser only: URL of kdf-worker.js if the bundler does not resolve it next to this module. */
+  workerUrl?: string | URL;
+};
+
+export type KdfRunResult = {
+  key: Uint8Array;
+  timing: KdfTiming;
+};
+
+const DEFAULT_PROGRESS_INTERVAL_MS = 100;
+
+// worker_threads script for Node; mirrors kdf-worker.ts. Only dynamic import() is used so it
+// runs whether the host evaluates it as CommonJS or ESM (--input-type=module is inherited).
+const NODE_WORKER_SOURCE = `
+Promise.all([import('node:worker_threads'), import('node:perf_hooks')]).then(async ([wt, perf]) => {
+  const { parentPort, workerData } = wt;
+  const mod = await import(workerData.hashWasmUrl);
+  const hw = mod.default && mod.default.argon2id ? mod.default : mod;
+  parentPort.once('message', async (job) => {
+    try {
+      parentPort.postMessage({ type: 'started' });
+      const fn = job.algorithm === 'argon2id' ? hw.argon2id : hw.scrypt;
+      const t0 = perf.performance.now();
+      const key = await fn({ ...job.params, password: job.password, salt: job.salt, outputType: 'binary' });
+      parentPort.postMessage({ type: 'done', key, kdfMs: perf.performance.now() - t0 });
+    } catch (e) {
+      parentPort.postMessage({ type: 'error', message: e && e.message ? e.message : String(e) });
+    }
+  });
+});
+`;
+
+type WorkerHandle = {
+  onMessage(cb: (msg: KdfWorkerMessage) => void): void;
+  onError(cb: (err: Error) => void): void;
+  post(job: KdfJob): void;
+  terminate(): void;
+};
+
+function now(): number {
+  return globalThis.performance?.now() ?? Date.now();
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  if (signal.reason !== undefined) return signal.reason;
+  const err = new Error('The operation was aborted');
+  err.name = 'AbortError';
+  return err;
+}
+
+function isNode(): boolean {
+  return typeof process !== 'undefined' && !!process.versions?.node;
+}
+
+async function spawnWorker(opts: KdfExecutionOptions): Promise<WorkerHandle> {
+  if (isNode()) {
+    const [{ Worker }, { createRequire }, { pathToFileURL }] = await Promise.all([
+      import('node:worker_threads'),
+      import('node:module'),
+      import('node:url'),
+    ]);
+    const hashWasmUrl = pathToFileURL(createRequire(import.meta.url).resolve('hash-wasm')).href;
+    const w = new Worker(NODE_WORKER_SOURCE, { eval: true, workerData: { hashWasmUrl } });
+    return {
+      onMessage: (cb) => w.on('message', cb),
+      onError: (cb) => w.on('error', cb),
+      post: (job) => w.postMessage(job),
+      terminate: () => void w.terminate(),
+    };
+  }
+  const WorkerCtor = (globalThis as any).Worker;
+  if (typeof WorkerCtor !== 'function') throw new Error('Worker execution is not available in this environment');
+  const url = opts.workerUrl ?? new URL('./kdf-worker.js', import.meta.url);
+  const w = new WorkerCtor(url, { type: 'module' });
+  return {
+    onMessage: (cb) => (w.onmessage = (e: MessageEvent) => cb(e.data)),
+    onError: (cb) => (w.onerror = (e: ErrorEvent) => cb(new Error(e.message || 'KDF worker failed'))),
+    post: (job) => w.postMessage(job),
+    terminate: () => w.terminate(),
+  };
+}
+
+function workerAlgorithm(adapter: KdfAdapter<any>): KdfJob['algorithm'] {
+  // Only the built-in adapters exist inside the worker; a replaced adapter would silently diverge
+  if (adapter === argon2idAdapter) return 'argon2id';
+  if (adapter === scryptAdapter) return 'scrypt';
+  throw new Error(`Worker execution is not supported for KDF adapter: ${adapter.algorithm}`);
+}
+
+function progressAt(elapsedMs: number, phase: KdfProgress['phase'], expectedMs?: number): KdfProgress {
+  if (phase === 'done') return { phase, elapsedMs, fraction: 1 };
+  if (!expectedMs || expectedMs <= 0) return { phase, elapsedMs };
+  // Never report completion before the KDF actually finishes
+  return { phase, elapsedMs, fraction: Math.min(0.99, elapsedMs / expectedMs) };
+}
+
+async function runInline(
+  adapter: KdfAdapter<any>,
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Record<string, number>,
+  opts: KdfExecutionOptions
+): Promise<KdfRunResult> {
+  const t0 = now();
+  opts.onProgress?.(progressAt(0, 'start', opts.expectedMs));
+  const key = await adapter.derive(password, salt, params);
+  const kdfMs = now() - t0;
+  if (opts.signal?.aborted) {
+    key.fill(0);
+    throw abortReason(opts.signal);
+  }
+  opts.onProgress?.(progressAt(kdfMs, 'done'));
+  return { key, timing: { mode: 'inline', algorithm: adapter.algorithm, kdfMs, overheadMs: 0, totalMs: kdfMs } };
+}
+
+async function runInWorker(
+  adapter: KdfAdapter<any>,
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Record<string, number>,
+  opts: KdfExecutionOptions
+): Promise<KdfRunResult> {
+  const algorithm = workerAlgorithm(adapter);
+  const t0 = now();
+  opts.onProgress?.(progressAt(0, 'start', opts.expectedMs));
+  const worker = await spawnWorker(opts);
+
+  return new Promise<KdfRunResult>((resolve, reject) => {
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let startedAt: number | undefined;
+    const cleanup = () => {
+      if (timer !== undefined) clearInterval(timer);
+      opts.signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortReason(opts.signal!));
+    };
+    if (opts.signal?.aborted) return onAbort();
+    opts.signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onError((err) => {
+      cleanup();
+      reject(err);
+    });
+    worker.onMessage((msg) => {
+      if (msg.type === 'started') {
+        startedAt = now();
+        const interval = opts.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS;
+        const tick = () => opts.onProgress?.(progressAt(now() - startedAt!, 'derive', opts.expectedMs));
+        tick();
+        timer = setInterval(tick, interval);
+        return;
+      }
+      cleanup();
+      if (msg.type === 'error') return reject(new Error(msg.message));
+      const totalMs = now() - t0;
+      opts.onProgress?.(progressAt(msg.kdfMs, 'done'));
+      resolve({
+        key: new Uint8Array(msg.key),
+        timing: { mode: 'worker', algorithm: adapter.algorithm, kdfMs: msg.kdfMs, overheadMs: Math.max(0, totalMs - msg.kdfMs), totalMs },
+      });
+    });
+    worker.post({ algorithm, password, salt, params });
+  });
+}
+
+/**
+ * Run a KDF adapter with already-resolved params.
+ * @throws The signal's reason (an AbortError by default) if cancelled.
+ */
+export async function runKdf(
+  adapter: KdfAdapter<any>,
+  password: Uint8Array,
+  salt: Uint8Array,
+  params: Record<string, number>,
+  opts: KdfExecutionOptions = {}
+): Promise<KdfRunResult> {
+  if (opts.signal?.aborted) throw abortReason(opts.signal);
+  const mode = opts.mode ?? 'inline';
+  if (mode === 'inline') return runInline(adapter, password, salt, params, opts);
+  if (mode === 'worker') return runInWorker(adapter, password, salt, params, opts);
+  throw new Error(`Unsupported KDF execution mode: ${String(mode)}`);
+}
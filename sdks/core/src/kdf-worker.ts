@@ -0,0 +1,38 @@
+import { argon2idAdapter, scryptAdapter } from './kdf.js';
+
+/**
+ * Browser Web Worker entry for off-main-thread key derivation (see kdf-runner.ts).
+ *
+ * Bundlers pick this file up from `new Worker(new URL('./kdf-worker.js', import.meta.url))`.
+ * Node uses an equivalent worker_threads script instead, so it never loads this file.
+ */
+
+export type KdfJob = {
+  algorithm: 'argon2id' | 'scrypt';
+  password: Uint8Array;
+  salt: Uint8Array;
+  params: Record<string, number>;
+};
+
+export type KdfWorkerMessage =
+  | { type: 'started' }
+  | { type: 'done'; key: Uint8Array; kdfMs: number }
+  | { type: 'error'; message: string };
+
+declare const WorkerGlobalScope: any;
+
+if (typeof WorkerGlobalScope !== 'undefined' && self instanceof WorkerGlobalScope) {
+  self.onmessage = async (event: MessageEvent<KdfJob>) => {
+    const job = event.data;
+    const post = (msg: KdfWorkerMessage) => (self as any).postMessage(msg);
+    try {
+      post({ type: 'started' });
+      const adapter = job.algorithm === 'argon2id' ? argon2idAdapter : scryptAdapter;
+      const t0 = performance.now();
+      const key = await adapter.derive(job.password, job.salt, job.params as any);
+      post({ type: 'done', key, kdfMs: performance.now() - t0 });
+    } catch (e) {
+      post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+}
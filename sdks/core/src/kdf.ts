@@ -0,0 +1,240 @@
+import { argon2id, scrypt } from 'hash-wasm';
+
+/**
+ * Pluggable KDF adapters for master key derivation.
+ *
+ * Each adapter owns its parameter parsing, defaults and safety floor. deriveMasterKey()
+ * looks the adapter up by `algorithm` and never needs to know algorithm specifics.
+ */
+
+/** Raw, caller-supplied KDF parameters (loosely keyed, as accepted by deriveMasterKey). */
+export type KdfParamValues = Record<string, number | string>;
+
+export interface KdfValidationOptions {
+  /**
+   * Accept parameters below the adapter's production floor.
+   * Only for tests and local fixtures; identities derived this way are weak.
+   */
+  testMode?: boolean;
+}
+
+export interface KdfAdapter<P = Record<string, number>> {
+  readonly algorithm: string;
+  /** Validate caller params, apply defaults and return the exact set used for derivation. */
+  resolveParams(params: KdfParamValues | undefined, opts?: KdfValidationOptions): P;
+  /** Run the KDF with params previously returned by resolveParams(). */
+  derive(password: Uint8Array, salt: Uint8Array, params: P): Promise<Uint8Array>;
+}
+
+export type Argon2idParams = {
+  memorySize: number; // KiB
+  iterations: number;
+  parallelism: number;
+  hashLength: number; // bytes
+};
+
+export type ScryptParams = {
+  costFactor: number; // N
+  blockSize: number; // r
+  parallelism: number; // p
+  hashLength: number; // dkLen
+};
+
+// SeedID spec defaults (core/seedid.md)
+export const ARGON2ID_DEFAULTS: Readonly<Argon2idParams> = Object.freeze({
+  memorySize: 262144,
+  iterations: 5,
+  parallelism: 2,
+  hashLength: 32,
+});
+
+// Production floor: whitepaper parameters (64 MiB, t=3) and a 32-byte output
+export const ARGON2ID_MINIMUMS: Readonly<Argon2idParams> = Object.freeze({
+  memorySize: 65536,
+  iterations: 3,
+  parallelism: 1,
+  hashLength: 32,
+});
+
+export const SCRYPT_DEFAULTS: Readonly<ScryptParams> = Object.freeze({
+  costFactor: 131072,
+  blockSize: 8,
+  parallelism: 1,
+  hashLength: 32,
+});
+
+export const SCRYPT_MINIMUMS: Readonly<ScryptParams> = Object.freeze({
+  costFactor: 131072,
+  blockSize: 8,
+  parallelism: 1,
+  hashLength: 32,
+});
+
+const MAX_HASH_LENGTH = 1024;
+
+// Accepted spellings per parameter (spec names first, then hash-wasm names)
+const ARGON2ID_KEYS = [['memory_cost', 'memorySize'], ['time_cost', 'iterations'], ['parallelism'], ['hash_len', 'hashLength']];
+const SCRYPT_KEYS = [['n', 'N', 'costFactor'], ['r', 'blockSize'], ['p', 'parallelism'], ['dklen', 'hash_len', 'hashLength']];
+
+function readPositiveInt(
+  algorithm: string,
+  params: KdfParamValues | undefined,
+  keys: string[],
+  fallback: number
+): number {
+  let raw: number | string | undefined;
+  let name = keys[0];
+  for (const k of keys) {
+    if (params?.[k] === undefined) continue;
+    if (raw !== undefined && Number(params[k]) !== Number(raw)) {
+      throw new Error(`Conflicting ${algorithm} parameters ${name} and ${k}`);
+    }
+    if (raw === undefined) {
+      raw = params[k];
+      name = k;
+    }
+  }
+  if (raw === undefined) return fallback;
+  const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${algorithm} parameter ${name}: ${String(raw)}. Must be a positive integer`);
+  }
+  return value;
+}
+
+// A misspelled key would otherwise silently fall back to the default and derive a different identity
+function rejectUnknownKeys(algorithm: string, params: KdfParamValues | undefined, known: string[][]): void {
+  if (!params) return;
+  const allowed = new Set(known.flat());
+  for (const k of Object.keys(params)) {
+    if (!allowed.has(k)) throw new Error(`Unknown ${algorithm} parameter: ${k}`);
+  }
+}
+
+function enforceFloor<P extends Record<string, number>>(
+  algorithm: string,
+  resolved: P,
+  minimums: Readonly<P>,
+  opts?: KdfValidationOptions
+): void {
+  if (opts?.testMode) return;
+  for (const key of Object.keys(minimums) as (keyof P & string)[]) {
+    if (resolved[key] < minimums[key]) {
+      throw new Error(
+        `Unsafe ${algorithm} parameter ${key}=${resolved[key]} (minimum ${minimums[key]}). ` +
+          'Set testMode: true to allow weak parameters in tests.'
+      );
+    }
+  }
+}
+
+export const argon2idAdapter: KdfAdapter<Argon2idParams> = {
+  algorithm: 'argon2id',
+  resolveParams(params, opts) {
+    rejectUnknownKeys('argon2id', params, ARGON2ID_KEYS);
+    const resolved: Argon2idParams = {
+      memorySize: readPositiveInt('argon2id', params, ARGON2ID_KEYS[0], ARGON2ID_DEFAULTS.memorySize),
+      iterations: readPositiveInt('argon2id', params, ARGON2ID_KEYS[1], ARGON2ID_DEFAULTS.iterations),
+      parallelism: readPositiveInt('argon2id', params, ARGON2ID_KEYS[2], ARGON2ID_DEFAULTS.parallelism),
+      hashLength: readPositiveInt('argon2id', params, ARGON2ID_KEYS[3], ARGON2ID_DEFAULTS.hashLength),
+    };
+    // Hard limits from RFC 9106, independent of test mode
+    if (resolved.hashLength < 4 || resolved.hashLength > MAX_HASH_LENGTH) {
+      throw new Error(`Invalid argon2id hash length: ${resolved.hashLength}. Must be 4..${MAX_HASH_LENGTH}`);
+    }
+    if (resolved.parallelism > 255) {
+      throw new Error(`Invalid argon2id parallelism: ${resolved.parallelism}. Must be 1..255`);
+    }
+    if (resolved.memorySize < 8 * resolved.parallelism) {
+      throw new Error(`Invalid argon2id memory_cost: ${resolved.memorySize}. Must be >= 8 * parallelism KiB`);
+    }
+    enforceFloor('argon2id', resolved, ARGON2ID_MINIMUMS, opts);
+    return resolved;
+  },
+  async derive(password, salt, params) {
+    const out = await argon2id({
+      password,
+      salt,
+      parallelism: params.parallelism,
+      iterations: params.iterations,
+      memorySize: params.memorySize,
+      hashLength: params.hashLength,
+      outputType: 'binary',
+    });
+    if (!(out instanceof Uint8Array)) {
+      throw new Error('argon2id output must be Uint8Array');
+    }
+    return out;
+  },
+};
+
+export const scryptAdapter: KdfAdapter<ScryptParams> = {
+  algorithm: 'scrypt',
+  resolveParams(params, opts) {
+    rejectUnknownKeys('scrypt', params, SCRYPT_KEYS);
+    const resolved: ScryptParams = {
+      costFactor: readPositiveInt('scrypt', params, SCRYPT_KEYS[0], SCRYPT_DEFAULTS.costFactor),
+      blockSize: readPositiveInt('scrypt', params, SCRYPT_KEYS[1], SCRYPT_DEFAULTS.blockSize),
+      parallelism: readPositiveInt('scrypt', params, SCRYPT_KEYS[2], SCRYPT_DEFAULTS.parallelism),
+      hashLength: readPositiveInt('scrypt', params, SCRYPT_KEYS[3], SCRYPT_DEFAULTS.hashLength),
+    };
+    const n = resolved.costFactor;
+    if (n < 2 || (n & (n - 1)) !== 0) {
+      throw new Error(`Invalid scrypt parameter n: ${n}. Must be a power of 2 greater than 1`);
+    }
+    if (resolved.hashLength > MAX_HASH_LENGTH) {
+      throw new Error(`Invalid scrypt dklen: ${resolved.hashLength}. Must be 1..${MAX_HASH_LENGTH}`);
+    }
+    enforceFloor('scrypt', resolved, SCRYPT_MINIMUMS, opts);
+    return resolved;
+  },
+  async derive(password, salt, params) {
+    const out = await scrypt({
+      password,
+      salt,
+      costFactor: params.costFactor,
+      blockSize: params.blockSize,
+      parallelism: params.parallelism,
+      hashLength: params.hashLength,
+      outputType: 'binary',
+    });
+    if (!(out instanceof Uint8Array)) {
+      throw new Error('scrypt output must be Uint8Array');
+    }
+    return out;
+  },
+};
+
+const registry = new Map<string, KdfAdapter<any>>([
+  [argon2idAdapter.algorithm, argon2idAdapter],
+  [scryptAdapter.algorithm, scryptAdapter],
+]);
+
+/**
+ * Register a KDF adapter under its `algorithm` name.
+ * Refuses to silently replace an existing adapter unless `replace` is set.
+ */
+export function registerKdfAdapter(adapter: KdfAdapter<any>, opts?: { replace?: boolean }): void {
+  if (!adapter || typeof adapter.algorithm !== 'string' || adapter.algorithm.length === 0) {
+    throw new Error('KDF adapter must declare a non-empty algorithm name');
+  }
+  if (typeof adapter.resolveParams !== 'function' || typeof adapter.derive !== 'function') {
+    throw new Error(`KDF adapter ${adapter.algorithm} must implement resolveParams() and derive()`);
+  }
+  if (registry.has(adapter.algorithm) && !opts?.replace) {
+    throw new Error(`KDF adapter already registered: ${adapter.algorithm}`);
+  }
+  registry.set(adapter.algorithm, adapter);
+}
+
+/** Look up the adapter for an algorithm; throws for unknown algorithms. */
+export function getKdfAdapter(algorithm: string): KdfAdapter<any> {
+  const adapter = registry.get(algorithm);
+  if (!adapter) throw new Error(`Unsupported KDF algorithm: ${String(algorithm)}`);
+  return adapter;
+}
+
+/** Names of all registered KDF algorithms. */
+export function listKdfAlgorithms(): string[] {
+  return Array.from(registry.keys());
+}
@@ -0,0 +1,302 @@
+import { hkdfSync } from './hkdf.js';
+import { getKdfAdapter, ARGON2ID_MINIMUMS } from './kdf.js';
+import type { KdfParamValues } from './kdf.js';
+import { KeystoreIntegrityError } from './errors.js';
+import { zeroize, textToBytes, canonicalJson } from './utils.js';
+import type { DerivationMetadata, KdfAlgorithm } from './index.js';
+
+/**
+ * Encrypted keystore envelope (versioned JSON, in the spirit of Ethereum keystore v3).
+ *
+ * Wraps the master key or an HKDF root under a local unlock secret so apps can persist derived
+ * material instead of re-running the identity KDF at every launch. The unlock secret is either
+ * a password/PIN (stretched with a registered KDF adapter) or a 32-byte key from a platform
+ * keychain (HKDF). Encryption is AES-256-GCM; every header field is bound as associated data,
+ * so any modification fails authentication with KeystoreIntegrityError.
+ */
+
+export const KEYSTORE_VERSION = 1 as const;
+export const KEYSTORE_TYPE = 'seedid-keystore' as const;
+
+// HKDF info for a raw unlock key; not an identity label, so it is not in the label registry
+const UNLOCK_KEY_INFO = 'seedid-keystore/v1/unlock-key';
+const SALT_BYTES = 16;
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+const MAX_KEY_BYTES = 64;
+
+/** Password/PIN (case-sensitive, NFKC) or a 32-byte unlock key. */
+export type UnlockSecret = string | Uint8Array;
+
+export type KeystoreKind = 'master' | 'root';
+
+export type KeystoreKdf =
+  | { function: KdfAlgorithm; params: Record<string, number>; salt: string; testMode?: true }
+  | { function: 'hkdf-sha256'; salt: string };
+
+export type SeedIdKeystore = {
+  version: typeof KEYSTORE_VERSION;
+  type: typeof KEYSTORE_TYPE;
+  id: string;
+  kind: KeystoreKind;
+  /** HKDF label of a wrapped root, e.g. `seedid/v1/wallet:eth`. */
+  label?: string;
+  /** How the wrapped master key was derived (non-secret; see deriveMasterKeyWithMetadata). */
+  derivation?: DerivationMetadata;
+  createdAt: string;
+  crypto: {
+    kdf: KeystoreKdf;
+    cipher: 'aes-256-gcm';
+    nonce: string;
+    /** Hex ciphertext followed by the 16-byte GCM tag. */
+    ciphertext: string;
+  };
+};
+
+export type KeystoreOptions = {
+  /** KDF for a string unlock secret. Default: Argon2id at the production floor (64 MiB, t=3, p=1). */
+  kdf?: { algorithm: KdfAlgorithm; params?: KdfParamValues; testMode?: boolean };
+  createdAt?: Date;
+};
+
+export type DecryptedKeystore = {
+  key: Uint8Array;
+  kind: KeystoreKind;
+  label?: string;
+  derivation?: DerivationMetadata;
+};
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string, field: string): Uint8Array {
+  if (typeof hex !== 'string' || hex.length % 2 !== 0 || !/^[0-9a-f]*$/.test(hex)) {
+    throw new Error(`Invalid keystore ${field}: expected lowercase hex`);
+  }
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+function randomBytes(n: number): Uint8Array {
+  return globalThis.crypto.getRandomValues(new Uint8Array(n));
+}
+
+function uuid(): string {
+  const b = randomBytes(16);
+  b[6] = (b[6] & 0x0f) | 0x40;
+  b[8] = (b[8] & 0x3f) | 0x80;
+  const h = toHex(b);
+  return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}`;
+}
+
+// Sorted-key JSON so the associated data does not depend on property order after a round trip
+function associatedData(ks: SeedIdKeystore): Uint8Array {
+  const { ciphertext: _ciphertext, ...crypto } = ks.crypto;
+  return textToBytes(canonicalJson({ ...ks, crypto }));
+}
+
+async function unlockKey(unlock: UnlockSecret, kdf: KeystoreKdf): Promise<Uint8Array> {
+  const salt = fromHex(kdf.salt, 'salt');
+  if (kdf.function === 'hkdf-sha256') {
+    if (!(unlock instanceof Uint8Array) || unlock.length !== KEY_BYTES) {
+      throw new Error('This keystore is unlocked with a 32-byte key');
+    }
+    return hkdfSync(unlock, UNLOCK_KEY_INFO, { salt, length: KEY_BYTES });
+  }
+  if (typeof unlock !== 'string') throw new Error('This keystore is unlocked with a password');
+  const adapter = getKdfAdapter(kdf.function);
+  const params = adapter.resolveParams(kdf.params, { testMode: kdf.testMode === true });
+  if (params.hashLength !== undefined && params.hashLength !== KEY_BYTES) {
+    throw new Error(`Keystore KDF must produce ${KEY_BYTES} bytes`);
+  }
+  const password = textToBytes(unlock.normalize('NFKC'));
+  try {
+    return await adapter.derive(password, salt, params);
+  } finally {
+    zeroize(password);
+  }
+}
+
+async function aesGcm(
+  mode: 'encrypt' | 'decrypt',
+  key: Uint8Array,
+  nonce: Uint8Array,
+  aad: Uint8Array,
+  data: Uint8Array
+): Promise<Uint8Array> {
+  // WebCrypto wants ArrayBuffer-backed views; copy and wipe the key copy afterwards
+  const raw = new Uint8Array(key);
+  try {
+    const k = await globalThis.crypto.subtle.importKey('raw', raw, 'AES-GCM', false, [mode]);
+    const params = { name: 'AES-GCM', iv: new Uint8Array(nonce), additionalData: new Uint8Array(aad), tagLength: TAG_BYTES * 8 };
+    const input = new Uint8Array(data);
+    const out =
+      mode === 'encrypt'
+        ? await globalThis.crypto.subtle.encrypt(params, k, input)
+        : await globalThis.crypto.subtle.decrypt(params, k, input);
+    zeroize(input);
+    return new Uint8Array(out);
+  } finally {
+    zeroize(raw);
+  }
+}
+
+/**
+ * Encrypt a master key or root into a keystore envelope.
+ *
+ * @param key 32..64 secret bytes (master key or HKDF root)
+ * @param unlock Password/PIN, or a 32-byte key (e.g. from a platform keychain)
+ */
+export async function encryptKeystore(
+  key: Uint8Array,
+  unlock: UnlockSecret,
+  content: { kind: KeystoreKind; label?: string; derivation?: DerivationMetadata },
+  opts?: KeystoreOptions
+): Promise<SeedIdKeystore> {
+  if (!(key instanceof Uint8Array) || key.length < 16 || key.length > MAX_KEY_BYTES) {
+    throw new Error(`keystore secret must be 16..${MAX_KEY_BYTES} bytes`);
+  }
+  if (content.kind !== 'master' && content.kind !== 'root') throw new Error(`Unknown keystore kind: ${String(content.kind)}`);
+  if (content.kind === 'root' && (typeof content.label !== 'string' || content.label.length === 0)) {
+    throw new Error('A root keystore requires the HKDF label of the root');
+  }
+  if (typeof unlock === 'string' && unlock.length === 0) throw new Error('unlock password must not be empty');
+
+  const salt = toHex(randomBytes(SALT_BYTES));
+  let kdf: KeystoreKdf;
+  if (unlock instanceof Uint8Array) {
+    kdf = { function: 'hkdf-sha256', salt };
+  } else if (typeof unlock === 'string') {
+    const algorithm = opts?.kdf?.algorithm ?? 'argon2id';
+    const testMode = opts?.kdf?.testMode === true;
+    const params = getKdfAdapter(algorithm).resolveParams(
+      opts?.kdf?.params ?? (algorithm === 'argon2id' ? { ...ARGON2ID_MINIMUMS } : undefined),
+      { testMode }
+    );
+    kdf = { function: algorithm, params: { ...params }, salt, ...(testMode ? { testMode: true as const } : {}) };
+  } else {
+    throw new Error('unlock secret must be a string or a 32-byte Uint8Array');
+  }
+
+  const ks: SeedIdKeystore = {
+    version: KEYSTORE_VERSION,
+    type: KEYSTORE_TYPE,
+    id: uuid(),
+    kind: content.kind,
+    ...(content.label !== undefined ? { label: content.label } : {}),
+    ...(content.derivation !== undefined ? { derivation: content.derivation } : {}),
+    createdAt: (opts?.createdAt ?? new Date()).toISOString(),
+    crypto: { kdf, cipher: 'aes-256-gcm', nonce: toHex(randomBytes(NONCE_BYTES)), ciphertext: '' },
+  };
+  const kek = await unlockKey(unlock, kdf);
+  try {
+    const sealed = await aesGcm('encrypt', kek, fromHex(ks.crypto.nonce, 'nonce'), associatedData(ks), key);
+    ks.crypto.ciphertext = toHex(sealed);
+    return ks;
+  } finally {
+    zeroize(kek);
+  }
+}
+
+/** Wrap a 32-byte master key, recording how it was derived. */
+export async function exportMasterKeystore(
+  master: Uint8Array,
+  unlock: UnlockSecret,
+  opts?: KeystoreOptions & { derivation?: DerivationMetadata }
+): Promise<SeedIdKeystore> {
+  if (!(master instanceof Uint8Array) || master.length !== 32) throw new Error('master key must be 32 bytes');
+  return encryptKeystore(master, unlock, { kind: 'master', derivation: opts?.derivation }, opts);
+}
+
+/** Wrap an HKDF root (e.g. forWallet(master, 'eth')) under its label. */
+export async function exportRootKeystore(
+  root: Uint8Array,
+  label: string,
+  unlock: UnlockSecret,
+  opts?: KeystoreOptions
+): Promise<SeedIdKeystore> {
+  return encryptKeystore(root, unlock, { kind: 'root', label }, opts);
+}
+
+function assertKeystore(ks: any): asserts ks is SeedIdKeystore {
+  if (!ks || typeof ks !== 'object') throw new Error('Keystore must be an object');
+  if (ks.version !== KEYSTORE_VERSION || ks.type !== KEYSTORE_TYPE) throw new Error('Unsupported keystore version or type');
+  if (typeof ks.id !== 'string' || typeof ks.createdAt !== 'string') throw new Error('Keystore id and createdAt are required');
+  if (ks.kind !== 'master' && ks.kind !== 'root') throw new Error(`Unknown keystore kind: ${String(ks.kind)}`);
+  if (ks.kind === 'root' && typeof ks.label !== 'string') throw new Error('Root keystore is missing its label');
+  const c = ks.crypto;
+  if (!c || c.cipher !== 'aes-256-gcm') throw new Error('Unsupported keystore cipher');
+  if (fromHex(c.nonce, 'nonce').length !== NONCE_BYTES) throw new Error('Invalid keystore nonce length');
+  const sealed = fromHex(c.ciphertext, 'ciphertext');
+  if (sealed.length < 16 + TAG_BYTES || sealed.length > MAX_KEY_BYTES + TAG_BYTES) throw new Error('Invalid keystore ciphertext length');
+  if (!c.kdf || fromHex(c.kdf.salt, 'salt').length !== SALT_BYTES) throw new Error('Invalid keystore KDF salt');
+  if (c.kdf.function !== 'hkdf-sha256') {
+    getKdfAdapter(c.kdf.function);
+    if (!c.kdf.params || typeof c.kdf.params !== 'object') throw new Error('Keystore KDF params are required');
+  }
+}
+
+/** Parse and validate a keystore JSON string (structure only; nothing is decrypted). */
+export function importKeystore(json: string): SeedIdKeystore {
+  let ks: unknown;
+  try {
+    ks = JSON.parse(json);
+  } catch {
+    throw new Error('Keystore is not valid JSON');
+  }
+  assertKeystore(ks);
+  return ks;
+}
+
+export function serializeKeystore(ks: SeedIdKeystore): string {
+  assertKeystore(ks);
+  return JSON.stringify(ks);
+}
+
+/**
+ * Decrypt a keystore. The caller owns the returned key: zeroize() it when done, or use
+ * withDecryptedKeystore().
+ *
+ * @throws {KeystoreIntegrityError} Wrong unlock secret or modified envelope
+ */
+export async function decryptKeystore(keystore: SeedIdKeystore | string, unlock: UnlockSecret): Promise<DecryptedKeystore> {
+  const ks = typeof keystore === 'string' ? importKeystore(keystore) : keystore;
+  assertKeystore(ks);
+  const kek = await unlockKey(unlock, ks.crypto.kdf);
+  let key: Uint8Array;
+  try {
+    key = await aesGcm('decrypt', kek, fromHex(ks.crypto.nonce, 'nonce'), associatedData(ks), fromHex(ks.crypto.ciphertext, 'ciphertext'));
+  } catch {
+    throw new KeystoreIntegrityError();
+  } finally {
+    zeroize(kek);
+  }
+  return {
+    key,
+    kind: ks.kind,
+    ...(ks.label !== undefined ? { label: ks.label } : {}),
+    ...(ks.derivation !== undefined ? { derivation: ks.derivation } : {}),
+  };
+}
+
+/**
+ * Decrypt, run `fn` with the key, then zeroize the key whether `fn` resolves or throws.
+ *
+ * @example
+ * const addr = await withDecryptedKeystore(json, pin, async (master) => deriveEthAddress(await forEthRoot(master)));
+ */
+export async function withDecryptedKeystore<T>(
+  keystore: SeedIdKeystore | string,
+  unlock: UnlockSecret,
+  fn: (key: Uint8Array, keystore: Omit<DecryptedKeystore, 'key'>) => T | Promise<T>
+): Promise<T> {
+  const { key, ...info } = await decryptKeystore(keystore, unlock);
+  try {
+    return await fn(key, info);
+  } finally {
+    zeroize(key);
+  }
+}
@@ -0,0 +1,202 @@
+import { deriveNamespaces } from './hkdf.js';
+
+/**
+ * Versioned HKDF label registry (core/namespaces.md).
+ *
+ * Labels are `seedid/v<N>/<purpose>[/app:<app-id>]`: ASCII, case-sensitive and immutable once
+ * published. The registry records what each (purpose, version) pair means, so a purpose can
+ * never be re-registered with different semantics; a semantic change needs a new version, and
+ * both versions stay derivable side by side for deliberate migrations.
+ */
+
+// HKDF canonical labels (see seedid_community/core/namespaces.md)
+export const LABEL_NOSTR_KEY = 'seedid/v1/nostr:key' as const;
+export const LABEL_DID_KEY_ED25519 = 'seedid/v1/did:key:ed25519' as const;
+export const LABEL_DID_KEY_SECP256K1 = 'seedid/v1/did:key:secp256k1' as const;
+export const LABEL_WALLET_ETH = 'seedid/v1/wallet:eth' as const;
+export const LABEL_WALLET_BTC = 'seedid/v1/wallet:btc' as const;
+export const LABEL_WALLET_SOL = 'seedid/v1/wallet:sol' as const;
+export const LABEL_BIP85 = 'seedid/v1/bip85' as const;
+export const LABEL_DID_WEB_X25519 = 'seedid/v1/did:web:x25519' as const;
+
+/**
+ * Known label purposes. Plugins add their own via module augmentation, then registerLabel():
+ *
+ * declare module '@seedid/core' { interface LabelPurposes { 'acme:signing': true } }
+ */
+export interface LabelPurposes {
+  'nostr:key': true;
+  'did:key:ed25519': true;
+  'did:key:secp256k1': true;
+  'wallet:eth': true;
+  'wallet:btc': true;
+  'wallet:sol': true;
+  bip85: true;
+  'did:web:x25519': true;
+}
+
+export type LabelPurpose = keyof LabelPurposes & string;
+
+export type SeedIdLabel<P extends string = string> = `seedid/v${number}/${P}` | `seedid/v${number}/${P}/app:${string}`;
+
+export type LabelDefinition = {
+  purpose: string;
+  version: number;
+  /** What the derived 32 bytes are used for; part of the immutability check. */
+  semantics: string;
+  curve?: 'secp256k1' | 'ed25519';
+  /** Canonical label without app scope, e.g. `seedid/v1/nostr:key`. */
+  label: string;
+};
+
+export type LabelRegistration = Omit<LabelDefinition, 'label' | 'version'> & { version?: number };
+
+export type ParsedLabel = { version: number; purpose: string; appId?: string };
+
+export type LabelOptions = { version?: number; appId?: string };
+
+const PURPOSE_PATTERN = /^[a-z0-9][a-z0-9._-]*(?::[a-z0-9][a-z0-9._-]*)*$/;
+const PURPOSE_MAX_LENGTH = 64;
+const MAX_VERSION = 999;
+const APP_ID_MAX_LENGTH = 128;
+const APP_ID_PATTERN = /^[a-z0-9](?:[a-z0-9._-]*[a-z0-9])?$/;
+const LABEL_PATTERN = /^seedid\/v([1-9][0-9]*)\/([^/]+)(?:\/app:([^/]+))?$/;
+
+/**
+ * Normalize an app id for use in an app-scoped label.
+ * NFKC -> lowercase -> trim, then require ASCII `[a-z0-9._-]` (e.g. reverse-DNS `com.example.chat`).
+ * Separators used by the label grammar (`/`, `:`) and whitespace are rejected so an app id can
+ * never impersonate another purpose or app.
+ */
+export function normalizeAppId(appId: string): string {
+  if (typeof appId !== 'string') throw new Error('appId must be a string');
+  const normalized = appId.normalize('NFKC').toLowerCase().trim();
+  if (normalized.length === 0) throw new Error('appId must not be empty');
+  if (normalized.length > APP_ID_MAX_LENGTH) {
+    throw new Error(`appId exceeds maximum length of ${APP_ID_MAX_LENGTH}`);
+  }
+  if (!APP_ID_PATTERN.test(normalized)) {
+    throw new Error(`Invalid appId: ${JSON.stringify(appId)}. Use ASCII letters, digits, '.', '_' or '-'`);
+  }
+  return normalized;
+}
+
+function assertPurpose(purpose: string): void {
+  if (typeof purpose !== 'string' || purpose.length > PURPOSE_MAX_LENGTH || !PURPOSE_PATTERN.test(purpose)) {
+    throw new Error(
+      `Invalid label purpose: ${JSON.stringify(purpose)}. Use lowercase ASCII segments [a-z0-9._-] separated by ':'`
+    );
+  }
+}
+
+function assertVersion(version: number): void {
+  if (!Number.isInteger(version) || version < 1 || version > MAX_VERSION) {
+    throw new Error(`Invalid label version: ${String(version)}. Must be an integer 1..${MAX_VERSION}`);
+  }
+}
+
+/**
+ * Parse and validate a label string. Labels are never normalized: anything that is not already
+ * canonical (non-ASCII, uppercase purpose, `v01`, un-normalized app id) is rejected.
+ */
+export function parseLabel(label: string): ParsedLabel {
+  if (typeof label !== 'string' || !/^[\x21-\x7e]+$/.test(label)) {
+    throw new Error(`Invalid HKDF label: ${JSON.stringify(label)}. Labels are printable ASCII`);
+  }
+  const m = LABEL_PATTERN.exec(label);
+  if (!m) throw new Error(`Invalid HKDF label: ${label}. Expected seedid/v<N>/<purpose>[/app:<app-id>]`);
+  const version = Number(m[1]);
+  assertVersion(version);
+  assertPurpose(m[2]);
+  if (m[3] !== undefined && normalizeAppId(m[3]) !== m[3]) throw new Error(`Invalid app id in label: ${m[3]}`);
+  return m[3] !== undefined ? { version, purpose: m[2], appId: m[3] } : { version, purpose: m[2] };
+}
+
+const registry = new Map<string, LabelDefinition>();
+
+function key(purpose: string, version: number): string {
+  return `v${version}/${purpose}`;
+}
+
+/**
+ * Register a (purpose, version) label. Registering the same definition again is a no-op;
+ * registering different semantics for an existing pair throws: bump the version instead.
+ */
+export function registerLabel(registration: LabelRegistration): LabelDefinition {
+  const version = registration.version ?? 1;
+  assertPurpose(registration.purpose);
+  assertVersion(version);
+  if (typeof registration.semantics !== 'string' || registration.semantics.trim().length === 0) {
+    throw new Error('Label registration requires a semantics description');
+  }
+  if (registration.curve !== undefined && registration.curve !== 'secp256k1' && registration.curve !== 'ed25519') {
+    throw new Error(`Unsupported label curve: ${String(registration.curve)}`);
+  }
+  const def: LabelDefinition = Object.freeze({
+    purpose: registration.purpose,
+    version,
+    semantics: registration.semantics,
+    ...(registration.curve ? { curve: registration.curve } : {}),
+    label: `seedid/v${version}/${registration.purpose}`,
+  });
+  const existing = registry.get(key(def.purpose, version));
+  if (existing) {
+    if (existing.semantics === def.semantics && existing.curve === def.curve) return existing;
+    throw new Error(`Label ${def.label} is already registered with different semantics; register a new version instead`);
+  }
+  registry.set(key(def.purpose, version), def);
+  return def;
+}
+
+export function getLabelDefinition(purpose: string, version = 1): LabelDefinition {
+  const def = registry.get(key(purpose, version));
+  if (!def) throw new Error(`Unregistered HKDF label: seedid/v${version}/${purpose}`);
+  return def;
+}
+
+/** All registered definitions, optionally for one purpose, ordered by purpose then version. */
+export function listLabelDefinitions(purpose?: string): LabelDefinition[] {
+  return Array.from(registry.values())
+    .filter((d) => purpose === undefined || d.purpose === purpose)
+    .sort((a, b) => (a.purpose === b.purpose ? a.version - b.version : a.purpose < b.purpose ? -1 : 1));
+}
+
+/**
+ * Build the HKDF label for a registered purpose.
+ * @example labelFor('wallet:eth') // 'seedid/v1/wallet:eth'
+ * @example labelFor('nostr:key', { version: 2, appId: 'com.example' }) // 'seedid/v2/nostr:key/app:com.example'
+ */
+export function labelFor<P extends LabelPurpose>(purpose: P, opts?: LabelOptions): SeedIdLabel<P> {
+  const def = getLabelDefinition(purpose, opts?.version ?? 1);
+  return (opts?.appId !== undefined ? `${def.label}/app:${normalizeAppId(opts.appId)}` : def.label) as SeedIdLabel<P>;
+}
+
+export type VersionedRoot = { version: number; label: string; root: Uint8Array };
+
+/**
+ * Derive the roots of several versions of one purpose side by side (extract once), e.g. the v1
+ * identity and its v2 successor while an app migrates.
+ */
+export function deriveVersionedRoots<P extends LabelPurpose>(
+  master: Uint8Array,
+  purpose: P,
+  versions: readonly number[],
+  opts?: { appId?: string }
+): VersionedRoot[] {
+  if (!Array.isArray(versions) || versions.length === 0) throw new Error('versions must be a non-empty array');
+  const labels = versions.map((version) => labelFor(purpose, { version, appId: opts?.appId }));
+  const roots = deriveNamespaces(master, labels);
+  return versions.map((version, i) => ({ version, label: labels[i], root: roots[labels[i]] }));
+}
+
+const BUILTIN_LABELS: LabelRegistration[] = [
+  { purpose: 'nostr:key', semantics: 'Nostr secp256k1 private key (BIP-340)', curve: 'secp256k1' },
+  { purpose: 'did:key:ed25519', semantics: 'Ed25519 key for did:key documents', curve: 'ed25519' },
+  { purpose: 'did:key:secp256k1', semantics: 'secp256k1 key for did:key documents', curve: 'secp256k1' },
+  { purpose: 'wallet:eth', semantics: "Ethereum BIP-32 root; path m/44'/60'/0'/0/i", curve: 'secp256k1' },
+  { purpose: 'wallet:btc', semantics: "Bitcoin BIP-32/84 root; path m/84'/0'/0'/0/i", curve: 'secp256k1' },
+  { purpose: 'wallet:sol', semantics: "Solana SLIP-0010 root; path m/44'/501'/0'/0'/i", curve: 'ed25519' },
+  { purpose: 'bip85', semantics: "BIP-85 master node seed; child entropy at m/83696968'/app'/...", curve: 'secp256k1' },
+  { purpose: 'did:web:x25519', semantics: 'X25519 key agreement secret for did:web documents' },
+];
+BUILTIN_LABELS.forEach((r) => registerLabel(r));
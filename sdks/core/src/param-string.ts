@@ -0,0 +1,155 @@
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { userSalt } from './context.js';
+import { bytesToBase64Url, base64UrlToBytes, textToBytes } from './utils.js';
+import type { DerivationMetadata, KdfAlgorithm } from './index.js';
+
+/**
+ * Self-describing derivation parameter string (everything but the passphrase and pepper):
+ *
+ *   seedid1$argon2id$m=262144,t=5,p=2,l=32$salt=zero
+ *   seedid1$argon2id$m=65536,t=3,p=1,l=32$salt=user:YWxpY2U$pepper=djE
+ *   seedid1$scrypt$n=16384,r=8,p=1,l=32$salt=custom:00ff$test
+ *
+ * Segments: version, algorithm, params, salt mode, then the optional `pepper[=<id>]` and `test`
+ * flags. User ids and pepper ids are base64url (UTF-8), custom salts lowercase hex. Parsing is
+ * strict: each set of inputs has exactly one encoding.
+ */
+
+export const PARAM_STRING_PREFIX = 'seedid1' as const;
+
+// Short names for the built-in adapters' resolved params, in encoding order
+const SHORT_KEYS: Record<string, [short: string, key: string][]> = {
+  argon2id: [['m', 'memorySize'], ['t', 'iterations'], ['p', 'parallelism'], ['l', 'hashLength']],
+  scrypt: [['n', 'costFactor'], ['r', 'blockSize'], ['p', 'parallelism'], ['l', 'hashLength']],
+};
+
+const ALGORITHM = /^[a-z0-9][a-z0-9-]*$/;
+const PARAM_KEY = /^[A-Za-z][A-Za-z0-9]*$/;
+const POSITIVE_INT = /^[1-9][0-9]*$/;
+
+function encodeId(id: string): string {
+  return bytesToBase64Url(textToBytes(id));
+}
+
+function decodeId(encoded: string, what: string): string {
+  const bytes = base64UrlToBytes(encoded);
+  const id = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  if (id.length === 0 || encodeId(id) !== encoded) throw new Error(`Non-canonical ${what} in parameter string`);
+  return id;
+}
+
+function paramPairs(algorithm: string, params: Record<string, number>): [string, string][] {
+  const short = SHORT_KEYS[algorithm];
+  if (short) {
+    if (Object.keys(params).length !== short.length) throw new Error(`Unexpected ${algorithm} params`);
+    return short.map(([s, k]) => [s, k]);
+  }
+  // Third-party adapters: their own resolved keys, sorted
+  return Object.keys(params)
+    .sort()
+    .map((k) => [k, k]);
+}
+
+/** Encode derivation metadata as a `seedid1$...` parameter string. */
+export function encodeDerivationParams(metadata: DerivationMetadata): string {
+  if (!metadata || metadata.version !== 1) throw new Error('Unsupported derivation metadata version');
+  const { kdf, salt, pepper } = metadata;
+  if (!ALGORITHM.test(kdf.algorithm)) throw new Error(`Cannot encode KDF algorithm: ${kdf.algorithm}`);
+  const params = paramPairs(kdf.algorithm, kdf.params).map(([short, key]) => {
+    const v = kdf.params[key];
+    if (!PARAM_KEY.test(short) || !Number.isSafeInteger(v) || v <= 0) {
+      throw new Error(`Cannot encode ${kdf.algorithm} parameter ${key}`);
+    }
+    return `${short}=${v}`;
+  });
+
+  let saltSegment: string;
+  switch (salt.mode) {
+    case 'zero':
+      saltSegment = 'salt=zero';
+      break;
+    case 'user':
+      saltSegment = `salt=user:${encodeId(salt.userId!)}`;
+      break;
+    case 'custom':
+      if (!/^(?:[0-9a-fA-F]{2})+$/.test(salt.saltHex)) throw new Error('custom salt mode requires saltHex');
+      saltSegment = `salt=custom:${salt.saltHex.toLowerCase()}`;
+      break;
+    default:
+      throw new Error(`Unknown salt mode: ${String((salt as { mode: unknown }).mode)}`);
+  }
+
+  const segments = [PARAM_STRING_PREFIX, kdf.algorithm, params.join(','), saltSegment];
+  if (pepper.mode === 'appended') {
+    segments.push(pepper.pepperId !== undefined ? `pepper=${encodeId(pepper.pepperId)}` : 'pepper');
+  }
+  if (kdf.testMode) segments.push('test');
+  return segments.join('$');
+}
+
+/**
+ * Parse a `seedid1$...` parameter string back into derivation metadata.
+ * Use with kdfParamsFromMetadata() (or kdfParamsFromString()) to recover a master key.
+ * @throws On unknown versions, malformed or non-canonical strings.
+ */
+export function parseDerivationParams(s: string): DerivationMetadata {
+  if (typeof s !== 'string') throw new Error('parameter string must be a string');
+  const segments = s.split('$');
+  if (segments[0] !== PARAM_STRING_PREFIX) throw new Error(`Unsupported parameter string version: ${segments[0]}`);
+  if (segments.length < 4) throw new Error('Malformed parameter string');
+  const [, algorithm, paramSegment, saltSegment, ...flags] = segments;
+  if (!ALGORITHM.test(algorithm)) throw new Error(`Invalid KDF algorithm in parameter string: ${algorithm}`);
+
+  const params: Record<string, number> = {};
+  const pairs = paramSegment.split(',').map((kv) => {
+    const m = /^([^=]+)=(.*)$/.exec(kv);
+    if (!m || !PARAM_KEY.test(m[1]) || !POSITIVE_INT.test(m[2])) throw new Error(`Invalid parameter: ${kv}`);
+    const v = Number(m[2]);
+    if (!Number.isSafeInteger(v)) throw new Error(`Invalid parameter: ${kv}`);
+    return [m[1], v] as const;
+  });
+  const short = SHORT_KEYS[algorithm];
+  if (short) {
+    if (pairs.length !== short.length || pairs.some(([k], i) => k !== short[i][0])) {
+      throw new Error(`${algorithm} parameters must be ${short.map(([k]) => k).join(',')} in that order`);
+    }
+    pairs.forEach(([, v], i) => (params[short[i][1]] = v));
+  } else {
+    const keys = pairs.map(([k]) => k);
+    if (keys.join() !== [...new Set(keys)].sort().join()) throw new Error('Parameters must be unique and sorted');
+    pairs.forEach(([k, v]) => (params[k] = v));
+  }
+
+  let salt: DerivationMetadata['salt'];
+  const sm = /^salt=(zero|user:([A-Za-z0-9_-]+)|custom:((?:[0-9a-f]{2})+))$/.exec(saltSegment);
+  if (!sm) throw new Error(`Invalid salt segment: ${saltSegment}`);
+  if (sm[1] === 'zero') {
+    salt = { mode: 'zero', saltHex: '00'.repeat(16) };
+  } else if (sm[2] !== undefined) {
+    const userId = decodeId(sm[2], 'user id');
+    salt = { mode: 'user', userId, saltHex: bytesToHex(userSalt(userId)) };
+  } else {
+    salt = { mode: 'custom', saltHex: sm[3] };
+  }
+
+  let pepper: DerivationMetadata['pepper'] = { mode: 'none' };
+  let testMode = false;
+  let i = 0;
+  if (flags[i] !== undefined && /^pepper(?:=|$)/.test(flags[i])) {
+    const id = flags[i].slice('pepper='.length);
+    pepper = flags[i] === 'pepper' ? { mode: 'appended' } : { mode: 'appended', pepperId: decodeId(id, 'pepper id') };
+    i++;
+  }
+  if (flags[i] === 'test') {
+    testMode = true;
+    i++;
+  }
+  if (i !== flags.length) throw new Error(`Unexpected parameter string segment: ${flags[i]}`);
+
+  return {
+    version: 1,
+    kdf: { algorithm: algorithm as KdfAlgorithm, params, ...(testMode ? { testMode: true as const } : {}) },
+    salt,
+    pepper,
+  };
+}
@@ -0,0 +1,147 @@
+import { argon2idAdapter, ARGON2ID_DEFAULTS, ARGON2ID_MINIMUMS } from './kdf.js';
+import type { Argon2idParams } from './kdf.js';
+import { runKdf } from './kdf-runner.js';
+import type { KdfExecutionOptions } from './kdf-runner.js';
+
+/**
+ * Named Argon2id profiles and device calibration.
+ *
+ * A profile pins every parameter, so callers choose a name instead of assembling loosely keyed
+ * params. The chosen params still end up in the derivation metadata / `seedid1$...` string,
+ * which is what recovery relies on.
+ */
+
+export type KdfProfileName = 'spec-default' | 'mobile' | 'server-hardened';
+
+export type KdfProfile = {
+  name: KdfProfileName;
+  algorithm: 'argon2id';
+  params: Readonly<Argon2idParams>;
+  description: string;
+};
+
+export const KDF_PROFILES: Readonly<Record<KdfProfileName, KdfProfile>> = Object.freeze({
+  'spec-default': {
+    name: 'spec-default',
+    algorithm: 'argon2id',
+    params: ARGON2ID_DEFAULTS,
+    description: 'core/seedid.md parameters: 256 MiB, t=5, p=2',
+  },
+  mobile: {
+    name: 'mobile',
+    algorithm: 'argon2id',
+    params: ARGON2ID_MINIMUMS,
+    description: 'Whitepaper floor for constrained devices: 64 MiB, t=3, p=1',
+  },
+  'server-hardened': {
+    name: 'server-hardened',
+    algorithm: 'argon2id',
+    params: Object.freeze({ memorySize: 1048576, iterations: 4, parallelism: 4, hashLength: 32 }),
+    description: 'Dedicated hardware: 1 GiB, t=4, p=4',
+  },
+});
+
+// Strongest first
+const PROFILE_ORDER: KdfProfileName[] = ['server-hardened', 'spec-default', 'mobile'];
+
+/**
+ * KdfParams fields for a named profile.
+ * @example deriveMasterKey(passphrase, { ...kdfProfile('mobile'), context: { userId } })
+ */
+export function kdfProfile(name: KdfProfileName): { algorithm: 'argon2id'; params: Argon2idParams } {
+  const profile = KDF_PROFILES[name];
+  if (!profile) throw new Error(`Unknown KDF profile: ${String(name)}`);
+  return { algorithm: profile.algorithm, params: { ...profile.params } };
+}
+
+/** Name of the profile with exactly these resolved params, if any. */
+export function matchKdfProfile(algorithm: string, params: Record<string, number>): KdfProfileName | undefined {
+  return PROFILE_ORDER.find((name) => {
+    const p = KDF_PROFILES[name];
+    const keys = Object.keys(p.params) as (keyof Argon2idParams)[];
+    return (
+      p.algorithm === algorithm &&
+      Object.keys(params).length === keys.length &&
+      keys.every((k) => params[k] === p.params[k])
+    );
+  });
+}
+
+export type CalibrationOptions = {
+  /** Time budget for one derivation on this device. Default 1000 ms. */
+  targetMs?: number;
+  /** Upper bound on memory. Default 262144 KiB (spec). */
+  maxMemoryKiB?: number;
+  /** Default 2 (spec). */
+  parallelism?: number;
+  /** Memory used for the benchmark run. Default 32768 KiB. */
+  benchmarkMemoryKiB?: number;
+  execution?: Pick<KdfExecutionOptions, 'mode' | 'signal'>;
+};
+
+export type CalibrationResult = {
+  /** Strongest params estimated to fit the budget, never below the production floor. */
+  params: Argon2idParams;
+  estimatedMs: number;
+  /** False when even the floor (64 MiB, t=3) is estimated to exceed `targetMs`. */
+  meetsTarget: boolean;
+  /** Strongest built-in profile estimated to fit the budget. */
+  profile?: KdfProfileName;
+  benchmark: { memorySize: number; iterations: number; parallelism: number; ms: number };
+};
+
+const MiB = 1024;
+
+/**
+ * Benchmark Argon2id on the current device and suggest parameters for a time budget.
+ *
+ * Runs a single small derivation and extrapolates linearly in memory x iterations (Argon2 fills
+ * and passes over the memory `t` times). Prefers memory up to `maxMemoryKiB`, then iterations;
+ * drops memory (to whole MiB) only if t=3 at full memory would exceed the budget.
+ */
+export async function calibrateKdf(opts: CalibrationOptions = {}): Promise<CalibrationResult> {
+  const targetMs = opts.targetMs ?? 1000;
+  const maxMemory = opts.maxMemoryKiB ?? ARGON2ID_DEFAULTS.memorySize;
+  const parallelism = opts.parallelism ?? ARGON2ID_DEFAULTS.parallelism;
+  const benchMemory = opts.benchmarkMemoryKiB ?? 32 * MiB;
+  if (!(targetMs > 0)) throw new Error('targetMs must be positive');
+  if (!Number.isSafeInteger(maxMemory) || maxMemory < ARGON2ID_MINIMUMS.memorySize) {
+    throw new Error(`maxMemoryKiB must be an integer >= ${ARGON2ID_MINIMUMS.memorySize}`);
+  }
+
+  const benchParams = argon2idAdapter.resolveParams(
+    { memorySize: benchMemory, iterations: 1, parallelism, hashLength: 32 },
+    { testMode: true }
+  );
+  const salt = new Uint8Array(16);
+  const password = new Uint8Array(32);
+  globalThis.crypto.getRandomValues(password);
+  const { key, timing } = await runKdf(argon2idAdapter, password, salt, benchParams, opts.execution);
+  key.fill(0);
+  const msPerKiBPass = timing.kdfMs / benchMemory;
+  const estimate = (m: number, t: number) => msPerKiBPass * m * t;
+
+  const floor = ARGON2ID_MINIMUMS;
+  let memorySize = maxMemory;
+  let iterations = Math.floor(targetMs / estimate(memorySize, 1));
+  if (iterations < floor.iterations) {
+    iterations = floor.iterations;
+    const fit = Math.floor(targetMs / (msPerKiBPass * floor.iterations) / MiB) * MiB;
+    memorySize = Math.max(floor.memorySize, Math.min(maxMemory, fit));
+  }
+  const params: Argon2idParams = { memorySize, iterations, parallelism, hashLength: 32 };
+  const estimatedMs = estimate(memorySize, iterations);
+
+  const profile = PROFILE_ORDER.find((name) => {
+    const p = KDF_PROFILES[name].params;
+    return p.memorySize <= maxMemory && estimate(p.memorySize, p.iterations) <= targetMs;
+  });
+
+  return {
+    params,
+    estimatedMs,
+    meetsTarget: estimatedMs <= targetMs,
+    ...(profile ? { profile } : {}),
+    benchmark: { memorySize: benchParams.memorySize, iterations: 1, parallelism, ms: timing.kdfMs },
+  };
+}
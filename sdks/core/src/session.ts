@@ -0,0 +1,212 @@
+/**
+ * SeedIdSession: an in-memory unlock of one master key.
+ *
+ * The session keeps the master key private and derives roots on demand. Every secret it hands
+ * out is tracked and wiped when the session locks (explicit lock(), idle timeout or disposal),
+ * and each one can also be released early with `using` / [Symbol.dispose]().
+ *
+ * @example
+ * using session = SeedIdSession.fromMasterKey(await deriveMasterKey(passphrase, params));
+ * using ethRoot = session.wallet('eth');
+ * const account = await deriveEthAddress(ethRoot);
+ */
+
+import { hkdfSync, HKDF_SALT } from './hkdf.js';
+import { getLabelDefinition, labelFor, parseLabel } from './labels.js';
+import { decryptKeystore } from './keystore.js';
+import type { SeedIdKeystore, UnlockSecret } from './keystore.js';
+import { SessionLockedError } from './errors.js';
+import { assertMasterKey, zeroize } from './utils.js';
+import type { DidKeyCurve, WalletChain } from './index.js';
+
+/** Idle time after which a session locks itself unless configured otherwise (5 minutes). */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 5 * 60_000;
+
+// setTimeout fires immediately for delays that do not fit in an int32.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export type SessionLockReason = 'manual' | 'idle' | 'disposed';
+
+export type SessionOptions = {
+  /** Lock after this many ms without use. `Infinity` disables auto-lock. */
+  idleTimeoutMs?: number;
+  /** Called once, after everything has been zeroized. */
+  onLock?: (reason: SessionLockReason) => void;
+};
+
+/**
+ * A secret handed out by a session. It is a plain Uint8Array (so it can be passed to any helper)
+ * that is zeroized on dispose or when the session locks. Copies made with slice() are not tracked.
+ */
+export type ScopedKey = Uint8Array & Disposable;
+
+/** Anything a master-key helper accepts: raw bytes or an unlocked session. */
+export type MasterKeySource = Uint8Array | SeedIdSession;
+
+export class SeedIdSession implements Disposable {
+  #master: Uint8Array | null;
+  #issued = new Set<Uint8Array>();
+  #idleTimeoutMs: number;
+  #onLock?: (reason: SessionLockReason) => void;
+  #timer: ReturnType<typeof setTimeout> | undefined;
+
+  private constructor(master: Uint8Array, opts?: SessionOptions) {
+    const idle = opts?.idleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    if (!(idle > 0) || (idle !== Infinity && idle > MAX_TIMER_MS)) {
+      throw new Error(`idleTimeoutMs must be between 1 and ${MAX_TIMER_MS}, or Infinity`);
+    }
+    this.#master = master;
+    this.#idleTimeoutMs = idle;
+    this.#onLock = opts?.onLock;
+    this.#arm();
+  }
+
+  /**
+   * Start a session from a 32-byte master key. The session takes ownership: it keeps a private
+   * copy and zeroizes the buffer passed in.
+   */
+  static fromMasterKey(master: Uint8Array, opts?: SessionOptions): SeedIdSession {
+    assertMasterKey(master);
+    const copy = master.slice();
+    zeroize(master);
+    return new SeedIdSession(copy, opts);
+  }
+
+  /** Start a session from a master keystore (see exportMasterKeystore). */
+  static async fromKeystore(
+    keystore: SeedIdKeystore | string,
+    unlock: UnlockSecret,
+    opts?: SessionOptions
+  ): Promise<SeedIdSession> {
+    const { key, kind } = await decryptKeystore(keystore, unlock);
+    if (kind !== 'master') {
+      zeroize(key);
+      throw new Error('Keystore does not contain a master key');
+    }
+    return new SeedIdSession(key, opts);
+  }
+
+  get locked(): boolean {
+    return this.#master === null;
+  }
+
+  get idleTimeoutMs(): number {
+    return this.#idleTimeoutMs;
+  }
+
+  /** Derived secrets handed out and not yet disposed (all of them are wiped on lock). */
+  get issuedCount(): number {
+    return this.#issued.size;
+  }
+
+  /** Reset the idle timer. Every derivation does this implicitly. */
+  touch(): void {
+    this.#unlocked();
+    this.#arm();
+  }
+
+  /** HKDF root for any registered label, e.g. 'seedid/v1/nostr:key/app:com.example'. */
+  root(label: string): ScopedKey {
+    const { purpose, version } = parseLabel(label);
+    getLabelDefinition(purpose, version);
+    const master = this.#unlocked();
+    this.#arm();
+    return this.#track(hkdfSync(master, label, { salt: HKDF_SALT, length: 32 }));
+  }
+
+  nostr(opts?: { appId?: string }): ScopedKey {
+    return this.root(labelFor('nostr:key', opts));
+  }
+
+  didKey(curve: DidKeyCurve, opts?: { appId?: string }): ScopedKey {
+    if (curve !== 'ed25519' && curve !== 'secp256k1') throw new Error(`Unsupported did:key curve: ${String(curve)}`);
+    return this.root(labelFor(`did:key:${curve}`, opts));
+  }
+
+  wallet(chain: WalletChain, opts?: { appId?: string }): ScopedKey {
+    if (chain !== 'eth' && chain !== 'btc' && chain !== 'sol') throw new Error(`Unsupported wallet chain: ${String(chain)}`);
+    return this.root(labelFor(`wallet:${chain}`, opts));
+  }
+
+  bip85(): ScopedKey {
+    return this.root(labelFor('bip85'));
+  }
+
+  /**
+   * Run a helper that needs the raw master key (SRN service keys, SLIP-39 split, keystore export).
+   * `fn` gets a copy that is zeroized when it returns, or when its promise settles; do not keep
+   * references to it.
+   */
+  withMasterKey<T>(fn: (master: Uint8Array) => T): T {
+    const copy = this.#unlocked().slice();
+    this.#arm();
+    let result: T;
+    try {
+      result = fn(copy);
+    } catch (err) {
+      zeroize(copy);
+      throw err;
+    }
+    if (result instanceof Promise) return result.finally(() => zeroize(copy)) as T;
+    zeroize(copy);
+    return result;
+  }
+
+  /**
+   * Track a secret derived outside the session (e.g. a signing key) so it is wiped on lock.
+   * Adopting into a locked session zeroizes the buffer and throws.
+   */
+  adopt(secret: Uint8Array): ScopedKey {
+    if (this.locked) {
+      zeroize(secret);
+      throw new SessionLockedError();
+    }
+    return this.#track(secret);
+  }
+
+  /** Zeroize the master key and every secret handed out. Idempotent. */
+  lock(): void {
+    this.#lock('manual');
+  }
+
+  [Symbol.dispose](): void {
+    this.#lock('disposed');
+  }
+
+  #unlocked(): Uint8Array {
+    if (this.#master === null) throw new SessionLockedError();
+    return this.#master;
+  }
+
+  #track(secret: Uint8Array): ScopedKey {
+    this.#issued.add(secret);
+    const release = () => {
+      zeroize(secret);
+      this.#issued.delete(secret);
+    };
+    return Object.defineProperty(secret, Symbol.dispose, { value: release, configurable: true }) as ScopedKey;
+  }
+
+  #arm(): void {
+    if (this.#timer !== undefined) clearTimeout(this.#timer);
+    this.#timer = undefined;
+    if (this.#idleTimeoutMs === Infinity) return;
+    this.#timer = setTimeout(() => this.#lock('idle'), this.#idleTimeoutMs);
+    // Never keep a Node process alive just to lock a session.
+    (this.#timer as { unref?: () => void }).unref?.();
+  }
+
+  #lock(reason: SessionLockReason): void {
+    if (this.#master === null) return;
+    if (this.#timer !== undefined) clearTimeout(this.#timer);
+    this.#timer = undefined;
+    zeroize(this.#master, ...this.#issued);
+    this.#master = null;
+    this.#issued.clear();
+    this.#onLock?.(reason);
+  }
+}
+
+export function isSeedIdSession(value: unknown): value is SeedIdSession {
+  return value instanceof SeedIdSession;
+}
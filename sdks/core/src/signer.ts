@@ -0,0 +1,258 @@
+/**
+ * Opaque signers: sign with a derived key without handing the key to application code.
+ *
+ * A Signer keeps its private key in a closure. Applications only see the public key, the
+ * curve/scheme metadata and signatures. dispose() zeroizes the key; a signer created from a
+ * SeedIdSession is also wiped when the session locks. Each scheme has verify helpers next to
+ * its factory, so verification never needs a Signer.
+ *
+ * Message conventions (signDigest always signs the caller's 32-byte digest as is):
+ * - ecdsa-secp256k1: signMessage signs SHA-256(message) unless `hashMessage` is given; 64-byte
+ *   compact (r || s, low-S) or 65-byte `recovered` (recovery byte || r || s) signatures
+ * - bip340-schnorr: signMessage signs SHA-256(message); 64-byte signatures, 32-byte x-only keys
+ * - ed25519: signMessage signs the message itself (RFC 8032 hashes internally); signDigest signs
+ *   the digest bytes as the message
+ */
+
+import { secp256k1, schnorr } from '@noble/curves/secp256k1.js';
+import { ed25519 } from '@noble/curves/ed25519.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { hkdfSync, HKDF_SALT } from './hkdf.js';
+import { labelFor } from './labels.js';
+import { deriveServiceKey } from './srn.js';
+import type { SrnCurve } from './srn.js';
+import { isSeedIdSession } from './session.js';
+import type { SeedIdSession, MasterKeySource, ScopedKey } from './session.js';
+import { assertMasterKey, textToBytes, zeroize } from './utils.js';
+
+export type SignerCurve = 'secp256k1' | 'ed25519';
+export type SignatureScheme = 'ecdsa-secp256k1' | 'bip340-schnorr' | 'ed25519';
+
+/** Strings are signed as their UTF-8 bytes. */
+export type SignerMessage = Uint8Array | string;
+
+export interface Signer extends Disposable {
+  readonly curve: SignerCurve;
+  readonly scheme: SignatureScheme;
+  /** True once dispose() ran or the owning session locked. */
+  readonly disposed: boolean;
+  /** 33-byte compressed (ECDSA), 32-byte x-only (BIP-340) or 32-byte Ed25519 public key. */
+  getPublicKey(): Uint8Array;
+  signMessage(message: SignerMessage): Promise<Uint8Array>;
+  /** Sign a 32-byte digest computed by the caller (e.g. a Nostr event id or an EVM hash). */
+  signDigest(digest: Uint8Array): Promise<Uint8Array>;
+  /** Zeroize the private key. Idempotent; signing afterwards throws. */
+  dispose(): void;
+}
+
+export type SignerOptions = {
+  /** Hand the key to this session: lock() then wipes it too. */
+  session?: SeedIdSession;
+};
+
+export type EcdsaSignerOptions = SignerOptions & {
+  /** Message hash for signMessage (default SHA-256), e.g. an EIP-191 or BIP-137 message hash. */
+  hashMessage?: (message: Uint8Array) => Uint8Array;
+  /** 'compact' (default, 64 bytes) or 'recovered' (65 bytes, recovery byte first). */
+  format?: 'compact' | 'recovered';
+};
+
+function messageBytes(message: SignerMessage): Uint8Array {
+  if (typeof message === 'string') return textToBytes(message);
+  if (message instanceof Uint8Array) return message;
+  throw new Error('message must be a Uint8Array or a string');
+}
+
+function assertDigest(digest: Uint8Array): void {
+  if (!(digest instanceof Uint8Array) || digest.length !== 32) throw new Error('digest must be 32 bytes');
+}
+
+type SignFn = (key: Uint8Array, message: Uint8Array) => Uint8Array;
+
+// Zeroize a buffer; session-scoped keys are also dropped from their session's tracking.
+function release(buf: Uint8Array): void {
+  if (Symbol.dispose in buf) (buf as ScopedKey)[Symbol.dispose]();
+  else zeroize(buf);
+}
+
+/**
+ * Build a Signer around a private key. Takes ownership: the signer keeps a private copy and
+ * zeroizes the buffer passed in.
+ */
+function createSigner(
+  curve: SignerCurve,
+  scheme: SignatureScheme,
+  privateKey: Uint8Array,
+  publicKeyOf: (key: Uint8Array) => Uint8Array,
+  sign: { message: SignFn; digest: SignFn },
+  opts?: SignerOptions
+): Signer {
+  if (!(privateKey instanceof Uint8Array) || privateKey.length !== 32) throw new Error('private key must be 32 bytes');
+  const key = privateKey.slice();
+  release(privateKey);
+  let publicKey: Uint8Array;
+  try {
+    publicKey = publicKeyOf(key);
+  } catch (err) {
+    zeroize(key);
+    throw err;
+  }
+  if (opts?.session) opts.session.adopt(key);
+  // A valid private key is never all zeros, so this also catches a lock of the owning session.
+  const isDisposed = () => key.every((b) => b === 0);
+  const unlocked = (): Uint8Array => {
+    if (isDisposed()) throw new Error('Signer has been disposed');
+    return key;
+  };
+  const dispose = () => release(key);
+  return {
+    curve,
+    scheme,
+    get disposed() {
+      return isDisposed();
+    },
+    getPublicKey: () => publicKey.slice(),
+    signMessage: async (message) => sign.message(unlocked(), messageBytes(message)),
+    signDigest: async (digest) => {
+      assertDigest(digest);
+      return sign.digest(unlocked(), digest);
+    },
+    dispose,
+    [Symbol.dispose]: dispose,
+  };
+}
+
+/** secp256k1 ECDSA signer (RFC 6979 deterministic nonces, low-S). */
+export function createEcdsaSigner(privateKey: Uint8Array, opts?: EcdsaSignerOptions): Signer {
+  const hashMessage = opts?.hashMessage ?? sha256;
+  const format = opts?.format ?? 'compact';
+  const signDigest: SignFn = (key, digest) => secp256k1.sign(digest, key, { prehash: false, format });
+  return createSigner(
+    'secp256k1',
+    'ecdsa-secp256k1',
+    privateKey,
+    (key) => secp256k1.getPublicKey(key, true),
+    { message: (key, message) => signDigest(key, hashMessage(message)), digest: signDigest },
+    opts
+  );
+}
+
+/** BIP-340 Schnorr signer (x-only public key), as used by Nostr and Taproot. */
+export function createSchnorrSigner(privateKey: Uint8Array, opts?: SignerOptions): Signer {
+  return createSigner(
+    'secp256k1',
+    'bip340-schnorr',
+    privateKey,
+    (key) => schnorr.getPublicKey(key),
+    { message: (key, message) => schnorr.sign(sha256(message), key), digest: (key, digest) => schnorr.sign(digest, key) },
+    opts
+  );
+}
+
+/** Ed25519 signer (RFC 8032). */
+export function createEd25519Signer(privateKey: Uint8Array, opts?: SignerOptions): Signer {
+  const sign: SignFn = (key, message) => ed25519.sign(message, key);
+  return createSigner('ed25519', 'ed25519', privateKey, (key) => ed25519.getPublicKey(key), { message: sign, digest: sign }, opts);
+}
+
+function safely(verify: () => boolean): boolean {
+  try {
+    return verify();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify an ECDSA signature over a 32-byte digest. Accepts compact (64-byte) and recovered
+ * (65-byte, recovery byte first) signatures; high-S signatures are rejected.
+ */
+export function verifyEcdsaDigest(signature: Uint8Array, digest: Uint8Array, publicKey: Uint8Array): boolean {
+  assertDigest(digest);
+  const format = signature.length === 65 ? 'recovered' : 'compact';
+  return safely(() => secp256k1.verify(signature, digest, publicKey, { prehash: false, format }));
+}
+
+/** Verify a createEcdsaSigner().signMessage() signature (pass the same `hashMessage`, if any). */
+export function verifyEcdsaMessage(
+  signature: Uint8Array,
+  message: SignerMessage,
+  publicKey: Uint8Array,
+  opts?: Pick<EcdsaSignerOptions, 'hashMessage'>
+): boolean {
+  return verifyEcdsaDigest(signature, (opts?.hashMessage ?? sha256)(messageBytes(message)), publicKey);
+}
+
+/** Public key that produced a recovered (65-byte) ECDSA signature over `digest`, compressed. */
+export function recoverEcdsaPublicKey(signature: Uint8Array, digest: Uint8Array): Uint8Array {
+  assertDigest(digest);
+  if (!(signature instanceof Uint8Array) || signature.length !== 65) throw new Error('recovered signature must be 65 bytes');
+  return secp256k1.recoverPublicKey(signature, digest, { prehash: false });
+}
+
+export function verifySchnorrDigest(signature: Uint8Array, digest: Uint8Array, publicKey: Uint8Array): boolean {
+  assertDigest(digest);
+  return safely(() => schnorr.verify(signature, digest, publicKey));
+}
+
+export function verifySchnorrMessage(signature: Uint8Array, message: SignerMessage, publicKey: Uint8Array): boolean {
+  return verifySchnorrDigest(signature, sha256(messageBytes(message)), publicKey);
+}
+
+export function verifyEd25519Message(signature: Uint8Array, message: SignerMessage, publicKey: Uint8Array): boolean {
+  return safely(() => ed25519.verify(signature, messageBytes(message), publicKey));
+}
+
+export function verifyEd25519Digest(signature: Uint8Array, digest: Uint8Array, publicKey: Uint8Array): boolean {
+  assertDigest(digest);
+  return verifyEd25519Message(signature, digest, publicKey);
+}
+
+/**
+ * Map 32 bytes of HKDF output to a secp256k1 private key: the seed itself, or in the negligible
+ * case that it is not a valid scalar, SHA-256 re-hashes until it is (the Nostr demo rule).
+ * The result never aliases `seed`.
+ */
+export function secp256k1KeyFromSeed(seed: Uint8Array): Uint8Array {
+  let candidate = seed.slice();
+  for (let i = 0; i < 8 && !secp256k1.utils.isValidSecretKey(candidate); i++) {
+    const next = sha256(candidate);
+    zeroize(candidate);
+    candidate = next;
+  }
+  if (!secp256k1.utils.isValidSecretKey(candidate)) {
+    zeroize(candidate);
+    throw new Error('Unable to derive valid secp256k1 private key from seed');
+  }
+  return candidate;
+}
+
+/**
+ * BIP-340 signer for the Nostr key (`seedid/v1/nostr:key`, or the app-scoped root with `appId`).
+ * The public key is the 32-byte x-only Nostr pubkey; sign event ids with signDigest().
+ */
+export async function nostrSigner(source: MasterKeySource, opts?: { appId?: string }): Promise<Signer> {
+  const label = labelFor('nostr:key', opts);
+  let root: Uint8Array;
+  if (isSeedIdSession(source)) {
+    root = source.root(label);
+  } else {
+    assertMasterKey(source);
+    root = hkdfSync(source, label, { salt: HKDF_SALT, length: 32 });
+  }
+  try {
+    return createSchnorrSigner(secp256k1KeyFromSeed(root), isSeedIdSession(source) ? { session: source } : undefined);
+  } finally {
+    release(root);
+  }
+}
+
+/**
+ * Signer for an SRN-scoped service key (see deriveServiceKey): Ed25519, or secp256k1 ECDSA with
+ * a compressed public key.
+ */
+export async function serviceSigner(source: MasterKeySource, srn: string, curve: SrnCurve): Promise<Signer> {
+  const { privateKey } = await deriveServiceKey(source, srn, curve);
+  const opts = isSeedIdSession(source) ? { session: source } : undefined;
+  return curve === 'ed25519' ? createEd25519Signer(privateKey, opts) : createEcdsaSigner(privateKey, opts);
+}
@@ -0,0 +1,445 @@
+import { hmac } from '@noble/hashes/hmac.js';
+import { pbkdf2 } from '@noble/hashes/pbkdf2.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { randomBytes } from '@noble/hashes/utils.js';
+import { SLIP39_WORDLIST } from './wordlists/slip39.js';
+import { assertMasterKey, normalizePassphrase, textToBytes } from './utils.js';
+
+/**
+ * SLIP-39 Shamir mnemonic shares (whitepaper §8), implemented from the specification:
+ * https://github.com/satoshilabs/slips/blob/master/slip-0039.md
+ *
+ * Shares are interoperable with other SLIP-39 implementations (two-level group sharing, RS1024
+ * checksums, Feistel encryption with an optional share passphrase, extendable backups).
+ * On top of that, splitMasterKey()/splitPassphrase() define what a SeedID secret is.
+ */
+
+export type Slip39Group = {
+  /** Member shares needed to reconstruct this group. */
+  threshold: number;
+  /** Member shares created for this group (1..16). */
+  count: number;
+};
+
+export type Slip39SplitOptions = {
+  /** Groups needed to reconstruct the secret. Default 1. */
+  groupThreshold?: number;
+  /** Default: one 3-of-5 group (whitepaper §8). */
+  groups?: Slip39Group[];
+  /** SLIP-39 encryption passphrase (printable ASCII). Default ''. Not the SeedID passphrase. */
+  passphrase?: string;
+  /** PBKDF2 cost: 10000 * 2^e iterations in total. Default 1. */
+  iterationExponent?: number;
+  /** Extendable backup flag (new shares can later be added for the same secret). Default true. */
+  extendable?: boolean;
+};
+
+export type Slip39Share = {
+  identifier: number;
+  extendable: boolean;
+  iterationExponent: number;
+  groupIndex: number;
+  groupThreshold: number;
+  groupCount: number;
+  memberIndex: number;
+  memberThreshold: number;
+  value: Uint8Array;
+};
+
+const RADIX_BITS = 10;
+const RADIX = 1 << RADIX_BITS;
+const ID_BITS = 15;
+const ITERATION_EXP_BITS = 4;
+const ID_EXP_WORDS = 2; // identifier + extendable flag + iteration exponent = 20 bits
+const CHECKSUM_WORDS = 3;
+const METADATA_WORDS = ID_EXP_WORDS + 2 + CHECKSUM_WORDS;
+const MIN_STRENGTH_BITS = 128;
+const MIN_MNEMONIC_WORDS = METADATA_WORDS + Math.ceil(MIN_STRENGTH_BITS / RADIX_BITS);
+const MAX_SHARE_COUNT = 16;
+const DIGEST_LENGTH = 4;
+const BASE_ITERATION_COUNT = 10000;
+const ROUND_COUNT = 4;
+const DIGEST_INDEX = 254;
+const SECRET_INDEX = 255;
+const CUSTOMIZATION = 'shamir';
+const CUSTOMIZATION_EXTENDABLE = 'shamir_extendable';
+
+const WORD_INDEX = new Map(SLIP39_WORDLIST.map((w, i) => [w, i] as const));
+
+// GF(256) with the Rijndael polynomial x^8 + x^4 + x^3 + x + 1; generator 3
+const EXP = new Uint8Array(255);
+const LOG = new Uint8Array(256);
+for (let i = 0, poly = 1; i < 255; i++) {
+  EXP[i] = poly;
+  LOG[poly] = i;
+  poly = (poly << 1) ^ poly;
+  if (poly & 0x100) poly ^= 0x11b;
+}
+
+type RawShare = { x: number; value: Uint8Array };
+
+function interpolate(shares: RawShare[], x: number): Uint8Array {
+  const hit = shares.find((s) => s.x === x);
+  if (hit) return hit.value;
+  const len = shares[0].value.length;
+  if (shares.some((s) => s.value.length !== len)) throw new Error('SLIP-39 shares must have the same length');
+  let logProd = 0;
+  for (const s of shares) logProd += LOG[s.x ^ x];
+  const out = new Uint8Array(len);
+  for (const s of shares) {
+    let logBasis = logProd - LOG[s.x ^ x];
+    for (const o of shares) logBasis -= LOG[s.x ^ o.x];
+    logBasis = ((logBasis % 255) + 255) % 255;
+    for (let i = 0; i < len; i++) {
+      if (s.value[i] !== 0) out[i] ^= EXP[(LOG[s.value[i]] + logBasis) % 255];
+    }
+  }
+  return out;
+}
+
+function digest(randomPart: Uint8Array, secret: Uint8Array): Uint8Array {
+  return hmac(sha256, randomPart, secret).slice(0, DIGEST_LENGTH);
+}
+
+function splitSecret(threshold: number, count: number, secret: Uint8Array): RawShare[] {
+  if (threshold < 1 || threshold > count || count > MAX_SHARE_COUNT) {
+    throw new Error(`Invalid SLIP-39 threshold ${threshold} of ${count} (count must be <= ${MAX_SHARE_COUNT})`);
+  }
+  if (threshold === 1) return Array.from({ length: count }, (_, x) => ({ x, value: secret.slice() }));
+  const randomCount = threshold - 2;
+  const shares: RawShare[] = Array.from({ length: randomCount }, (_, x) => ({ x, value: randomBytes(secret.length) }));
+  const randomPart = randomBytes(secret.length - DIGEST_LENGTH);
+  const digestShare = new Uint8Array(secret.length);
+  digestShare.set(digest(randomPart, secret));
+  digestShare.set(randomPart, DIGEST_LENGTH);
+  const base = [...shares, { x: DIGEST_INDEX, value: digestShare }, { x: SECRET_INDEX, value: secret }];
+  for (let x = randomCount; x < count; x++) shares.push({ x, value: interpolate(base, x) });
+  return shares;
+}
+
+function recoverSecret(threshold: number, shares: RawShare[]): Uint8Array {
+  if (threshold === 1) return shares[0].value;
+  const secret = interpolate(shares, SECRET_INDEX);
+  const digestShare = interpolate(shares, DIGEST_INDEX);
+  const expected = digest(digestShare.subarray(DIGEST_LENGTH), secret);
+  if (!expected.every((b, i) => b === digestShare[i])) throw new Error('Invalid SLIP-39 digest of the shared secret');
+  return secret;
+}
+
+function salt(identifier: number, extendable: boolean): Uint8Array {
+  if (extendable) return new Uint8Array(0);
+  const out = new Uint8Array(CUSTOMIZATION.length + 2);
+  out.set(textToBytes(CUSTOMIZATION));
+  out[CUSTOMIZATION.length] = identifier >> 8;
+  out[CUSTOMIZATION.length + 1] = identifier & 0xff;
+  return out;
+}
+
+function feistel(
+  input: Uint8Array,
+  passphrase: string,
+  exponent: number,
+  identifier: number,
+  extendable: boolean,
+  rounds: number[]
+): Uint8Array {
+  const half = input.length / 2;
+  let l = input.slice(0, half);
+  let r = input.slice(half);
+  const pass = textToBytes(passphrase);
+  const s = salt(identifier, extendable);
+  const iterations = (BASE_ITERATION_COUNT << exponent) / ROUND_COUNT;
+  for (const i of rounds) {
+    const password = new Uint8Array(1 + pass.length);
+    password[0] = i;
+    password.set(pass, 1);
+    const roundSalt = new Uint8Array(s.length + r.length);
+    roundSalt.set(s);
+    roundSalt.set(r, s.length);
+    const f = pbkdf2(sha256, password, roundSalt, { c: iterations, dkLen: half });
+    const next = l.map((b, k) => b ^ f[k]);
+    l = r;
+    r = next;
+  }
+  const out = new Uint8Array(input.length);
+  out.set(r);
+  out.set(l, half);
+  return out;
+}
+
+function assertSharePassphrase(passphrase: string): void {
+  if (typeof passphrase !== 'string' || !/^[\x20-\x7e]*$/.test(passphrase)) {
+    throw new Error('SLIP-39 passphrase must contain only printable ASCII characters');
+  }
+}
+
+function rs1024Polymod(values: number[]): number {
+  const GEN = [
+    0xe0e040, 0x1c1c080, 0x3838100, 0x7070200, 0xe0e0009, 0x1c0c2412, 0x38086c24, 0x3090fc48, 0x21b1f890, 0x3f3f120,
+  ];
+  let chk = 1;
+  for (const v of values) {
+    const b = chk >>> 20;
+    chk = ((chk & 0xfffff) << 10) ^ v;
+    for (let i = 0; i < 10; i++) if ((b >>> i) & 1) chk ^= GEN[i];
+  }
+  return chk;
+}
+
+function customization(extendable: boolean): number[] {
+  return Array.from(extendable ? CUSTOMIZATION_EXTENDABLE : CUSTOMIZATION, (c) => c.charCodeAt(0));
+}
+
+function intToIndices(value: bigint, words: number): number[] {
+  return Array.from({ length: words }, (_, i) => Number((value >> BigInt(RADIX_BITS * (words - 1 - i))) & BigInt(RADIX - 1)));
+}
+
+function indicesToInt(indices: number[]): bigint {
+  return indices.reduce((acc, i) => (acc << BigInt(RADIX_BITS)) | BigInt(i), 0n);
+}
+
+function bytesToInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((acc, b) => (acc << 8n) | BigInt(b), 0n);
+}
+
+function intToBytes(value: bigint, length: number): Uint8Array | null {
+  if (value >> BigInt(8 * length) !== 0n) return null;
+  const out = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--, value >>= 8n) out[i] = Number(value & 0xffn);
+  return out;
+}
+
+function encodeShare(s: Slip39Share): string {
+  const idExp = (BigInt(s.identifier) << 5n) | (BigInt(s.extendable ? 1 : 0) << 4n) | BigInt(s.iterationExponent);
+  const shareParams =
+    (BigInt(s.groupIndex) << 16n) |
+    (BigInt(s.groupThreshold - 1) << 12n) |
+    (BigInt(s.groupCount - 1) << 8n) |
+    (BigInt(s.memberIndex) << 4n) |
+    BigInt(s.memberThreshold - 1);
+  const valueWords = Math.ceil((s.value.length * 8) / RADIX_BITS);
+  const data = [
+    ...intToIndices(idExp, ID_EXP_WORDS),
+    ...intToIndices(shareParams, 2),
+    ...intToIndices(bytesToInt(s.value), valueWords),
+  ];
+  const polymod = rs1024Polymod([...customization(s.extendable), ...data, 0, 0, 0]) ^ 1;
+  const checksum = [0, 1, 2].map((i) => (polymod >>> (RADIX_BITS * (2 - i))) & (RADIX - 1));
+  return [...data, ...checksum].map((i) => SLIP39_WORDLIST[i]).join(' ');
+}
+
+/**
+ * Decode and validate a single SLIP-39 mnemonic share (word list, length, padding, checksum).
+ * @throws On any invalid share.
+ */
+export function decodeSlip39Share(mnemonic: string): Slip39Share {
+  if (typeof mnemonic !== 'string') throw new Error('SLIP-39 mnemonic must be a string');
+  const words = mnemonic.trim().toLowerCase().split(/\s+/);
+  const data = words.map((w) => {
+    const i = WORD_INDEX.get(w);
+    if (i === undefined) throw new Error(`Invalid SLIP-39 mnemonic word: ${w}`);
+    return i;
+  });
+  if (data.length < MIN_MNEMONIC_WORDS) {
+    throw new Error(`Invalid SLIP-39 mnemonic length: must be at least ${MIN_MNEMONIC_WORDS} words`);
+  }
+  const paddingBits = (RADIX_BITS * (data.length - METADATA_WORDS)) % 16;
+  if (paddingBits > 8) throw new Error('Invalid SLIP-39 mnemonic length');
+
+  const idExp = Number(indicesToInt(data.slice(0, ID_EXP_WORDS)));
+  const extendable = ((idExp >> 4) & 1) === 1;
+  if (rs1024Polymod([...customization(extendable), ...data]) !== 1) {
+    throw new Error('Invalid SLIP-39 mnemonic checksum');
+  }
+  const params = Number(indicesToInt(data.slice(ID_EXP_WORDS, ID_EXP_WORDS + 2)));
+  const share: Omit<Slip39Share, 'value'> = {
+    identifier: idExp >> (ITERATION_EXP_BITS + 1),
+    extendable,
+    iterationExponent: idExp & ((1 << ITERATION_EXP_BITS) - 1),
+    groupIndex: (params >> 16) & 0xf,
+    groupThreshold: ((params >> 12) & 0xf) + 1,
+    groupCount: ((params >> 8) & 0xf) + 1,
+    memberIndex: (params >> 4) & 0xf,
+    memberThreshold: (params & 0xf) + 1,
+  };
+  if (share.groupCount < share.groupThreshold) {
+    throw new Error('Invalid SLIP-39 mnemonic: group threshold cannot be greater than group count');
+  }
+  const valueData = data.slice(ID_EXP_WORDS + 2, data.length - CHECKSUM_WORDS);
+  const value = intToBytes(indicesToInt(valueData), Math.ceil((RADIX_BITS * valueData.length - paddingBits) / 8));
+  if (!value) throw new Error('Invalid SLIP-39 mnemonic padding');
+  return { ...share, value };
+}
+
+export function isValidSlip39Share(mnemonic: string): boolean {
+  try {
+    decodeSlip39Share(mnemonic);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Split a secret (>= 16 bytes, even length) into SLIP-39 mnemonic shares.
+ * @returns One array of mnemonics per group.
+ */
+export function slip39Split(secret: Uint8Array, opts: Slip39SplitOptions = {}): string[][] {
+  const groupThreshold = opts.groupThreshold ?? 1;
+  const groups = opts.groups ?? [{ threshold: 3, count: 5 }];
+  const passphrase = opts.passphrase ?? '';
+  const iterationExponent = opts.iterationExponent ?? 1;
+  const extendable = opts.extendable ?? true;
+  if (!(secret instanceof Uint8Array) || secret.length * 8 < MIN_STRENGTH_BITS || secret.length % 2 !== 0) {
+    throw new Error(`SLIP-39 secret must be at least ${MIN_STRENGTH_BITS / 8} bytes and an even number of bytes`);
+  }
+  assertSharePassphrase(passphrase);
+  if (!Number.isInteger(iterationExponent) || iterationExponent < 0 || iterationExponent >= 1 << ITERATION_EXP_BITS) {
+    throw new Error(`SLIP-39 iteration exponent must be 0..${(1 << ITERATION_EXP_BITS) - 1}`);
+  }
+  if (!Array.isArray(groups) || groups.length === 0 || groups.length > MAX_SHARE_COUNT) {
+    throw new Error(`SLIP-39 requires 1..${MAX_SHARE_COUNT} groups`);
+  }
+  if (!Number.isInteger(groupThreshold) || groupThreshold < 1 || groupThreshold > groups.length) {
+    throw new Error('SLIP-39 group threshold must be between 1 and the number of groups');
+  }
+  for (const g of groups) {
+    if (!Number.isInteger(g.threshold) || !Number.isInteger(g.count)) throw new Error('SLIP-39 group threshold/count must be integers');
+    if (g.threshold === 1 && g.count > 1) {
+      throw new Error('SLIP-39 does not allow multiple member shares with member threshold 1; use 1-of-1');
+    }
+  }
+
+  const identifier = Number(bytesToInt(randomBytes(2)) & BigInt((1 << ID_BITS) - 1));
+  const encrypted = feistel(secret, passphrase, iterationExponent, identifier, extendable, [0, 1, 2, 3]);
+  const groupShares = splitSecret(groupThreshold, groups.length, encrypted);
+  return groupShares.map((gs, groupIndex) => {
+    const { threshold, count } = groups[groupIndex];
+    return splitSecret(threshold, count, gs.value).map((ms) =>
+      encodeShare({
+        identifier,
+        extendable,
+        iterationExponent,
+        groupIndex,
+        groupThreshold,
+        groupCount: groups.length,
+        memberIndex: ms.x,
+        memberThreshold: threshold,
+        value: ms.value,
+      })
+    );
+  });
+}
+
+/**
+ * Recombine SLIP-39 mnemonic shares into the secret.
+ * Extra shares beyond the thresholds are accepted; mixed backups, duplicate indices with
+ * different values and incomplete sets are rejected.
+ */
+export function slip39Combine(mnemonics: string[], opts: { passphrase?: string } = {}): Uint8Array {
+  const passphrase = opts.passphrase ?? '';
+  assertSharePassphrase(passphrase);
+  if (!Array.isArray(mnemonics) || mnemonics.length === 0) throw new Error('No SLIP-39 mnemonics provided');
+  const shares = mnemonics.map(decodeSlip39Share);
+  const first = shares[0];
+  for (const s of shares) {
+    if (
+      s.identifier !== first.identifier ||
+      s.extendable !== first.extendable ||
+      s.iterationExponent !== first.iterationExponent ||
+      s.groupThreshold !== first.groupThreshold ||
+      s.groupCount !== first.groupCount
+    ) {
+      throw new Error('SLIP-39 mnemonics do not belong to the same backup');
+    }
+    if (s.value.length !== first.value.length) throw new Error('SLIP-39 mnemonics have different lengths');
+  }
+
+  const groups = new Map<number, { memberThreshold: number; members: Map<number, Uint8Array> }>();
+  for (const s of shares) {
+    let g = groups.get(s.groupIndex);
+    if (!g) groups.set(s.groupIndex, (g = { memberThreshold: s.memberThreshold, members: new Map() }));
+    if (g.memberThreshold !== s.memberThreshold) {
+      throw new Error(`SLIP-39 mnemonics in group ${s.groupIndex + 1} have different member thresholds`);
+    }
+    const existing = g.members.get(s.memberIndex);
+    if (existing && !existing.every((b, i) => b === s.value[i])) {
+      throw new Error(`SLIP-39 mnemonics in group ${s.groupIndex + 1} reuse member index ${s.memberIndex + 1}`);
+    }
+    g.members.set(s.memberIndex, s.value);
+  }
+
+  const complete = Array.from(groups.entries()).filter(([, g]) => g.members.size >= g.memberThreshold);
+  if (complete.length < first.groupThreshold) {
+    throw new Error(
+      `Insufficient SLIP-39 shares: ${complete.length} of ${first.groupThreshold} required groups are complete`
+    );
+  }
+  const groupSecrets: RawShare[] = complete.slice(0, first.groupThreshold).map(([groupIndex, g]) => ({
+    x: groupIndex,
+    value: recoverSecret(
+      g.memberThreshold,
+      Array.from(g.members.entries())
+        .slice(0, g.memberThreshold)
+        .map(([x, value]) => ({ x, value }))
+    ),
+  }));
+  const encrypted = recoverSecret(first.groupThreshold, groupSecrets);
+  return feistel(encrypted, passphrase, first.iterationExponent, first.identifier, first.extendable, [3, 2, 1, 0]);
+}
+
+// SeedID secrets ----------------------------------------------------------------------------
+
+// Passphrase frame: 0x01 | u16be length | UTF-8 normalized passphrase | zero padding to an even
+// length of at least 16 bytes (SLIP-39 secrets must be >= 128 bits and an even number of bytes).
+const PASSPHRASE_FRAME_VERSION = 0x01;
+const MAX_PASSPHRASE_BYTES = 0xffff;
+
+/** Split a 32-byte master key (deriveMasterKey output) into SLIP-39 shares. */
+export function splitMasterKey(master: Uint8Array, opts?: Slip39SplitOptions): string[][] {
+  assertMasterKey(master);
+  return slip39Split(master, opts);
+}
+
+/** Recover the 32-byte master key; every HKDF root (forWallet, forNostr, ...) is reproduced exactly. */
+export function recoverMasterKey(mnemonics: string[], opts?: { passphrase?: string }): Uint8Array {
+  const master = slip39Combine(mnemonics, opts);
+  if (master.length !== 32) throw new Error('SLIP-39 shares do not contain a 32-byte master key');
+  return master;
+}
+
+/**
+ * Split a passphrase into SLIP-39 shares. The passphrase is normalized first (NFKD -> lowercase
+ * -> trim), so recovery returns exactly what deriveMasterKey() would have used.
+ */
+export function splitPassphrase(passphrase: string, opts?: Slip39SplitOptions): string[][] {
+  const bytes = textToBytes(normalizePassphrase(passphrase));
+  if (bytes.length > MAX_PASSPHRASE_BYTES) throw new Error('passphrase is too long to share');
+  let size = Math.max(16, 3 + bytes.length);
+  size += size % 2;
+  const framed = new Uint8Array(size);
+  framed[0] = PASSPHRASE_FRAME_VERSION;
+  framed[1] = bytes.length >> 8;
+  framed[2] = bytes.length & 0xff;
+  framed.set(bytes, 3);
+  try {
+    return slip39Split(framed, opts);
+  } finally {
+    framed.fill(0);
+  }
+}
+
+export function recoverPassphrase(mnemonics: string[], opts?: { passphrase?: string }): string {
+  const framed = slip39Combine(mnemonics, opts);
+  try {
+    const length = (framed[1] << 8) | framed[2];
+    if (framed[0] !== PASSPHRASE_FRAME_VERSION || 3 + length > framed.length || framed.subarray(3 + length).some((b) => b !== 0)) {
+      throw new Error('SLIP-39 shares do not contain a SeedID passphrase');
+    }
+    const passphrase = new TextDecoder('utf-8', { fatal: true }).decode(framed.subarray(3, 3 + length));
+    if (normalizePassphrase(passphrase) !== passphrase) throw new Error('Recovered passphrase is not normalized');
+    return passphrase;
+  } finally {
+    framed.fill(0);
+  }
+}
@@ -0,0 +1,155 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { ed25519 } from '@noble/curves/ed25519.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { hkdfExpand } from './hkdf.js';
+import { assertMasterKey } from './utils.js';
+import { isSeedIdSession } from './session.js';
+import type { MasterKeySource } from './session.js';
+
+/**
+ * Service Resource Names (whitepaper §5) and SRN-keyed service seeds (§3).
+ *
+ * Supported SRN forms:
+ * - `did:<method>:<method-specific-id>` e.g. `did:web:example.com`, `did:ion:EiClkZMDxPK...`
+ * - `pkg:android:<package>|cert:SHA256:<fingerprint>` e.g. `pkg:android:com.app|cert:SHA256:AB:CD:...`
+ *
+ * The canonical form is what goes into the HKDF info string, so two spellings of the same
+ * service always derive the same key.
+ */
+
+export type SrnCurve = 'secp256k1' | 'ed25519';
+
+export type ParsedSrn =
+  | { type: 'did'; srn: string; method: string; identifier: string }
+  | { type: 'android'; srn: string; packageName: string; certSha256: string };
+
+export type ServiceKey = {
+  srn: string; // canonical SRN
+  curve: SrnCurve;
+  privateKey: Uint8Array;
+  publicKey: Uint8Array; // secp256k1: 33-byte compressed; ed25519: 32 bytes
+};
+
+const MAX_SRN_LENGTH = 512;
+const DID_METHOD = /^[a-z0-9]+$/;
+// DID Core idchar (ALPHA / DIGIT / "." / "-" / "_" / pct-encoded), with ":" between segments
+const DID_ID = /^(?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2})+(?::(?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2})+)*$/;
+const ANDROID_PACKAGE = /^[A-Za-z][A-Za-z0-9_]*(?:\.[A-Za-z][A-Za-z0-9_]*)+$/;
+
+function canonicalPctEncoding(s: string): string {
+  return s.replace(/%[0-9a-f]{2}/gi, (m) => m.toUpperCase());
+}
+
+function parseDid(srn: string): ParsedSrn {
+  const parts = srn.split(':');
+  if (parts.length < 3) throw new Error(`Invalid DID SRN: ${srn}`);
+  const method = parts[1].toLowerCase();
+  if (!DID_METHOD.test(method)) throw new Error(`Invalid DID method in SRN: ${parts[1]}`);
+  let identifier = parts.slice(2).join(':');
+  if (!DID_ID.test(identifier)) {
+    throw new Error(`Invalid DID method-specific id in SRN: ${identifier}`);
+  }
+  identifier = canonicalPctEncoding(identifier);
+  if (method === 'web') {
+    // did:web host is case-insensitive; path segments are not
+    const [host, ...path] = identifier.split(':');
+    identifier = [canonicalPctEncoding(host.toLowerCase()), ...path].join(':');
+  }
+  return { type: 'did', srn: `did:${method}:${identifier}`, method, identifier };
+}
+
+function canonicalCertFingerprint(raw: string): string {
+  const m = /^sha-?256:(.+)$/i.exec(raw);
+  if (!m) throw new Error('Android SRN cert must be a SHA256 fingerprint (cert:SHA256:...)');
+  const hex = m[1].replace(/:/g, '');
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('Android SRN cert fingerprint must be 32 bytes of hex');
+  }
+  return hex.toUpperCase().match(/.{2}/g)!.join(':');
+}
+
+function parsePkg(srn: string): ParsedSrn {
+  const m = /^pkg:([a-z]+):([^|]+)\|cert:(.+)$/i.exec(srn);
+  if (!m) throw new Error(`Invalid package SRN: ${srn}`);
+  const platform = m[1].toLowerCase();
+  if (platform !== 'android') throw new Error(`Unsupported package platform in SRN: ${m[1]}`);
+  const packageName = m[2];
+  if (!ANDROID_PACKAGE.test(packageName)) throw new Error(`Invalid Android package name in SRN: ${packageName}`);
+  const certSha256 = canonicalCertFingerprint(m[3]);
+  return {
+    type: 'android',
+    srn: `pkg:android:${packageName}|cert:SHA256:${certSha256}`,
+    packageName,
+    certSha256,
+  };
+}
+
+/**
+ * Parse and validate an SRN, returning its components and canonical form.
+ * @throws On malformed, non-ASCII or unsupported SRNs.
+ */
+export function parseSrn(srn: string): ParsedSrn {
+  if (typeof srn !== 'string' || srn.length === 0) throw new Error('SRN must be a non-empty string');
+  if (srn.length > MAX_SRN_LENGTH) throw new Error(`SRN exceeds maximum length of ${MAX_SRN_LENGTH}`);
+  if (!/^[\x21-\x7e]+$/.test(srn)) throw new Error('SRN must be printable ASCII without whitespace');
+  const scheme = srn.slice(0, srn.indexOf(':')).toLowerCase();
+  if (scheme === 'did') return parseDid(srn);
+  if (scheme === 'pkg') return parsePkg(srn);
+  throw new Error(`Unsupported SRN scheme: ${srn}`);
+}
+
+/** Canonical form of an SRN (as used in the HKDF info string). */
+export function canonicalizeSrn(srn: string): string {
+  return parseSrn(srn).srn;
+}
+
+export function isValidSrn(srn: string): boolean {
+  try {
+    parseSrn(srn);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** HKDF info string per whitepaper §3: `rp:{srn}|curve:{curve}|v1`. */
+export function serviceSeedInfo(srn: string, curve: SrnCurve): string {
+  if (curve !== 'secp256k1' && curve !== 'ed25519') throw new Error(`Unsupported SRN curve: ${String(curve)}`);
+  return `rp:${canonicalizeSrn(srn)}|curve:${curve}|v1`;
+}
+
+/**
+ * Derive the 32-byte service seed for a relying party: `hkdf_expand(master, info, 32)` exactly as
+ * in whitepaper §3. There is no extract step; the master key is already a uniform 32-byte key.
+ */
+export async function deriveServiceSeed(master: MasterKeySource, srn: string, curve: SrnCurve): Promise<Uint8Array> {
+  if (isSeedIdSession(master)) return master.adopt(await master.withMasterKey((m) => deriveServiceSeed(m, srn, curve)));
+  assertMasterKey(master);
+  return hkdfExpand(master, serviceSeedInfo(srn, curve), 32);
+}
+
+/**
+ * Derive the service-scoped keypair for a relying party.
+ * - ed25519: the seed is the RFC 8032 private key.
+ * - secp256k1: the seed is the private key; in the negligible case it is not a valid scalar
+ *   it is re-hashed with SHA-256 until it is (same rule as the Nostr demo).
+ */
+export async function deriveServiceKey(master: MasterKeySource, srn: string, curve: SrnCurve): Promise<ServiceKey> {
+  if (isSeedIdSession(master)) {
+    const key = await master.withMasterKey((m) => deriveServiceKey(m, srn, curve));
+    return { ...key, privateKey: master.adopt(key.privateKey) };
+  }
+  const canonical = canonicalizeSrn(srn);
+  const seed = await deriveServiceSeed(master, canonical, curve);
+  if (curve === 'ed25519') {
+    return { srn: canonical, curve, privateKey: seed, publicKey: ed25519.getPublicKey(seed) };
+  }
+  let candidate = seed;
+  for (let i = 0; i < 8 && !secp256k1.utils.isValidSecretKey(candidate); i++) {
+    candidate = sha256(candidate);
+  }
+  if (!secp256k1.utils.isValidSecretKey(candidate)) {
+    throw new Error('Unable to derive valid secp256k1 private key from service seed');
+  }
+  return { srn: canonical, curve, privateKey: candidate, publicKey: secp256k1.getPublicKey(candidate, true) };
+}
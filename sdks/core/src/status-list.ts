@@ -0,0 +1,149 @@
+/**
+ * Bitstring Status List v1.0: revocation and suspension of verifiable credentials.
+ *
+ * An issuer publishes a status list credential whose subject carries `encodedList`: the GZIP-
+ * compressed bitstring, multibase base64url (`u…`). Bit 0 is the left-most bit of the first
+ * byte; a set bit means revoked (or suspended, per `statusPurpose`). Each credential points at
+ * its bit with a BitstringStatusListEntry. The spec's minimum list size (131072 entries) gives
+ * holders herd privacy and is the default here.
+ *
+ * Lists are looked up through a StatusListSource, so verifiers decide where they come from
+ * (localStatusListSource() for lists held in memory or synced ahead of time, or any fetcher).
+ * The status check itself lives in vc.ts, which verifies the list credential first.
+ */
+
+import type { CredentialInput, SecuredCredential } from './vc.js';
+import { base64UrlToBytes, bytesToBase64Url } from './utils.js';
+
+export const STATUS_LIST_MIN_ENTRIES = 131072;
+/** Decoded lists larger than this (bytes) are rejected, to bound decompression. */
+export const STATUS_LIST_MAX_BYTES = 16 * 1024 * 1024;
+
+export type StatusPurpose = 'revocation' | 'suspension';
+
+export type BitstringStatusListEntry = {
+  id?: string;
+  type: 'BitstringStatusListEntry';
+  statusPurpose: StatusPurpose;
+  /** Decimal string, as in the spec. */
+  statusListIndex: string;
+  /** URL of the status list credential. */
+  statusListCredential: string;
+};
+
+/** The secured status list credential (Data Integrity object or vc+jwt) for a URL, if known. */
+export type StatusListSource = (url: string) => Promise<SecuredCredential | string | undefined>;
+
+/** All-zero list of `entries` bits (a multiple of 8, at least STATUS_LIST_MIN_ENTRIES). */
+export function createStatusList(entries: number = STATUS_LIST_MIN_ENTRIES): Uint8Array {
+  if (!Number.isSafeInteger(entries) || entries < STATUS_LIST_MIN_ENTRIES || entries % 8 !== 0) {
+    throw new Error(`A status list needs a multiple of 8 entries, at least ${STATUS_LIST_MIN_ENTRIES}`);
+  }
+  return new Uint8Array(entries / 8);
+}
+
+function assertIndex(list: Uint8Array, index: number): void {
+  if (!Number.isSafeInteger(index) || index < 0 || index >= list.length * 8) throw new Error(`Status list index out of range: ${index}`);
+}
+
+export function setStatus(list: Uint8Array, index: number, value: boolean): void {
+  assertIndex(list, index);
+  if (value) list[index >> 3] |= 0x80 >> (index & 7);
+  else list[index >> 3] &= ~(0x80 >> (index & 7));
+}
+
+export function getStatus(list: Uint8Array, index: number): boolean {
+  assertIndex(list, index);
+  return (list[index >> 3] & (0x80 >> (index & 7))) !== 0;
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream, limit: number): Promise<Uint8Array> {
+  const source = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(bytes.slice());
+      controller.close();
+    },
+  });
+  const reader = source.pipeThrough(stream).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      throw new Error('Status list is too large');
+    }
+    chunks.push(value);
+  }
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/** `encodedList` value: `u` + base64url(GZIP(list)). */
+export async function encodeStatusList(list: Uint8Array): Promise<string> {
+  return `u${bytesToBase64Url(await transform(list, new CompressionStream('gzip'), Number.MAX_SAFE_INTEGER))}`;
+}
+
+/** Inverse of encodeStatusList(). @throws On a bad encoding, or a list over STATUS_LIST_MAX_BYTES. */
+export async function decodeStatusList(encodedList: string): Promise<Uint8Array> {
+  if (typeof encodedList !== 'string' || !encodedList.startsWith('u')) throw new Error('encodedList must be multibase base64url');
+  const compressed = base64UrlToBytes(encodedList.slice(1));
+  try {
+    return await transform(compressed, new DecompressionStream('gzip'), STATUS_LIST_MAX_BYTES);
+  } catch (err) {
+    throw new Error(`Invalid encodedList: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** The entry a credential carries in `credentialStatus` for bit `index` of the list at `listUrl`. */
+export function statusListEntry(listUrl: string, index: number, statusPurpose: StatusPurpose = 'revocation'): BitstringStatusListEntry {
+  if (!Number.isSafeInteger(index) || index < 0) throw new Error(`Invalid status list index: ${index}`);
+  return {
+    id: `${listUrl}#${index}`,
+    type: 'BitstringStatusListEntry',
+    statusPurpose,
+    statusListIndex: String(index),
+    statusListCredential: listUrl,
+  };
+}
+
+/**
+ * Unsigned status list credential for `list`, published at `id`; issue it with
+ * issueDataIntegrityCredential() or issueJwtCredential() and the same issuer as the credentials.
+ */
+export async function createStatusListCredential(opts: {
+  id: string;
+  list: Uint8Array;
+  statusPurpose?: StatusPurpose;
+  validFrom?: string;
+  validUntil?: string;
+}): Promise<CredentialInput> {
+  return {
+    id: opts.id,
+    type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+    ...(opts.validFrom !== undefined ? { validFrom: opts.validFrom } : {}),
+    ...(opts.validUntil !== undefined ? { validUntil: opts.validUntil } : {}),
+    credentialSubject: {
+      id: `${opts.id}#list`,
+      type: 'BitstringStatusList',
+      statusPurpose: opts.statusPurpose ?? 'revocation',
+      encodedList: await encodeStatusList(opts.list),
+    },
+  };
+}
+
+/** A StatusListSource over status list credentials held locally, keyed by URL. */
+export function localStatusListSource(
+  lists: Map<string, SecuredCredential | string> | Record<string, SecuredCredential | string>
+): StatusListSource {
+  const get = (url: string) =>
+    lists instanceof Map ? lists.get(url) : Object.prototype.hasOwnProperty.call(lists, url) ? lists[url] : undefined;
+  return async (url) => get(url);
+}
@@ -0,0 +1,58 @@
+export function textToBytes(s: string): Uint8Array {
+  return new TextEncoder().encode(s);
+}
+
+export function assertMasterKey(master: Uint8Array): void {
+  if (!(master instanceof Uint8Array) || master.length !== 32) {
+    throw new Error('master key must be 32 bytes');
+  }
+}
+
+/**
+ * Normalize a passphrase per spec: Unicode NFKD -> lowercase -> trim.
+ * @throws If nothing is left after normalization.
+ */
+export function normalizePassphrase(passphrase: string): string {
+  if (typeof passphrase !== 'string') throw new Error('passphrase must be a string');
+  // Unicode NFKD -> lowercase -> trim
+  const normalized = passphrase.normalize('NFKD').toLowerCase().trim();
+  if (normalized.length === 0) throw new Error('passphrase must not be empty');
+  return normalized;
+}
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let bin = '';
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Decode unpadded base64url; rejects any other alphabet or padding. */
+export function base64UrlToBytes(s: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(s) || s.length % 4 === 1) throw new Error('Invalid base64url');
+  const bin = atob(s.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (s.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+/**
+ * JSON with object keys sorted and `undefined` members dropped, so the same value always
+ * serializes to the same string (for signing, hashing and associated data).
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Zero out buffers in place to reduce the chance of key material lingering in memory.
+ * Best effort: JS runtimes may have copied the data elsewhere.
+ */
+export function zeroize(...bufs: (Uint8Array | null | undefined)[]): void {
+  for (const buf of bufs) buf?.fill(0);
+}
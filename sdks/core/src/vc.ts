@@ -0,0 +1,500 @@
+/**
+ * W3C Verifiable Credentials Data Model 2.0, issued and presented with SeedID DIDs.
+ *
+ * Two securing mechanisms, both keyed by a DID URL (`did:key:z…#z…` from didKeySigner(), or a
+ * did:web method) that verifiers resolve and check against the DID Document:
+ * - vc+jwt / vp+jwt (VC-JOSE-COSE): a compact JWS whose payload is the credential or
+ *   presentation itself, EdDSA or ES256K (see jose.ts)
+ * - Data Integrity `eddsa-jcs-2022` (VC-DI-EdDSA): a DataIntegrityProof whose proofValue is the
+ *   Ed25519 signature (base58btc multibase) over SHA-256(JCS(proof config)) || SHA-256(JCS(doc)).
+ *   canonicalJson() is the JCS (RFC 8785) serialization for JSON values.
+ *
+ * Credentials are asserted with the issuer's assertionMethod key. Presentations are signed with
+ * the holder's authentication key and bound to the verifier's `challenge` (and optional
+ * `domain`), so they cannot be replayed elsewhere. Status is checked against Bitstring Status
+ * Lists (status-list.ts), fail-closed: a credential that carries credentialStatus does not
+ * verify without a StatusListSource unless the caller opts out with `ignoreStatus`.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import bs58 from 'bs58';
+import { JoseError, CredentialError } from './errors.js';
+import type { CredentialErrorCode } from './errors.js';
+import type { DidWebResolveOptions } from './did-web.js';
+import { resolveVerificationMethod, signJws, verifyJwt } from './jose.js';
+import type { Signer } from './signer.js';
+import { verifyEd25519Message } from './signer.js';
+import { decodeStatusList, getStatus } from './status-list.js';
+import type { BitstringStatusListEntry, StatusListSource } from './status-list.js';
+import { canonicalJson, textToBytes } from './utils.js';
+
+export const VC_CONTEXT_V2 = 'https://www.w3.org/ns/credentials/v2';
+/** Leeway (seconds) for validFrom, validUntil and proof timestamps. */
+export const VC_CLOCK_SKEW_SEC = 60;
+
+export type CredentialFormat = 'vc+jwt' | 'eddsa-jcs-2022';
+
+export type CredentialIssuer = string | { id: string; [property: string]: unknown };
+
+export type Credential = {
+  '@context': string[];
+  id?: string;
+  type: string[];
+  issuer: CredentialIssuer;
+  /** XML Schema dateTimeStamp, e.g. `2026-01-01T00:00:00Z`. */
+  validFrom?: string;
+  validUntil?: string;
+  credentialSubject: Record<string, unknown> | Record<string, unknown>[];
+  credentialStatus?: BitstringStatusListEntry | BitstringStatusListEntry[];
+  [property: string]: unknown;
+};
+
+/** What issuers pass in: `@context`, `type`, `issuer` and `validFrom` get defaults. */
+export type CredentialInput = Omit<Credential, '@context' | 'type' | 'issuer'> & {
+  '@context'?: string[];
+  type?: string | string[];
+  issuer?: CredentialIssuer;
+};
+
+export type DataIntegrityProof = {
+  /** The document's @context, included in the signed proof config. */
+  '@context'?: string[];
+  type: 'DataIntegrityProof';
+  cryptosuite: 'eddsa-jcs-2022';
+  created?: string;
+  expires?: string;
+  verificationMethod: string;
+  proofPurpose: 'assertionMethod' | 'authentication';
+  challenge?: string;
+  domain?: string | string[];
+  proofValue: string;
+  [property: string]: unknown;
+};
+
+export type SecuredCredential = Credential & { proof: DataIntegrityProof };
+
+/** A vc+jwt inside a presentation (`id` is `data:application/vc+jwt,<jwt>`). */
+export type EnvelopedCredential = { '@context': string[]; id: string; type: 'EnvelopedVerifiableCredential' };
+
+export type Presentation = {
+  '@context': string[];
+  id?: string;
+  type: string[];
+  holder: string;
+  verifiableCredential: (SecuredCredential | EnvelopedCredential)[];
+  [property: string]: unknown;
+};
+
+export type SecuredPresentation = Presentation & { proof: DataIntegrityProof };
+
+/** A signer that knows its DID and verification method, e.g. didKeySigner(). */
+export type CredentialSigner = Signer & { readonly did: string; readonly keyId: string };
+
+export type IssueOptions = {
+  /** Unix seconds for the default validFrom and the proof's `created` (default: now). */
+  now?: number;
+};
+
+export type PresentOptions = IssueOptions & {
+  /** The verifier's nonce. */
+  challenge: string;
+  /** The verifier's origin or identifier. */
+  domain?: string;
+  /** vp+jwt only: sets `exp` (seconds). */
+  expiresIn?: number;
+};
+
+export type CredentialVerifyOptions = {
+  /** Unix seconds (default: now). */
+  now?: number;
+  /** Where status list credentials come from. */
+  statusSource?: StatusListSource;
+  /** Skip credentialStatus checks (they fail closed without a statusSource otherwise). */
+  ignoreStatus?: boolean;
+  /** Accepted issuer DIDs (default: any). */
+  issuers?: string[];
+  /** How did:web verification methods are fetched. */
+  resolve?: DidWebResolveOptions;
+};
+
+export type PresentationVerifyOptions = CredentialVerifyOptions & {
+  challenge: string;
+  domain?: string;
+};
+
+export type VerifiedCredential = {
+  credential: Credential;
+  format: CredentialFormat;
+  issuer: string;
+  /** The DID URL whose key verified the proof. */
+  verificationMethod: string;
+};
+
+export type VerifiedPresentation = {
+  presentation: Presentation;
+  format: 'vp+jwt' | 'eddsa-jcs-2022';
+  holder: string;
+  credentials: VerifiedCredential[];
+};
+
+const ENVELOPED_JWT_PREFIX = 'data:application/vc+jwt,';
+const DATE_TIME_STAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+const now = () => Math.floor(Date.now() / 1000);
+const isoSeconds = (t: number) => new Date(t * 1000).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+function fail(code: CredentialErrorCode, message: string): never {
+  throw new CredentialError(code, message);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function issuerId(issuer: CredentialIssuer): string | undefined {
+  const id = typeof issuer === 'string' ? issuer : issuer?.id;
+  return typeof id === 'string' ? id : undefined;
+}
+
+function parseDate(value: unknown, name: string): number {
+  if (typeof value !== 'string' || !DATE_TIME_STAMP.test(value) || Number.isNaN(Date.parse(value))) {
+    fail('malformed', `${name} must be a dateTimeStamp`);
+  }
+  return Date.parse(value) / 1000;
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function prepareCredential(signer: CredentialSigner, input: CredentialInput, t: number): Credential {
+  if (!isObject(input)) throw new Error('credential must be an object');
+  if ('proof' in input) throw new Error('credential is already secured');
+  const context = input['@context'] ?? [VC_CONTEXT_V2];
+  if (context[0] !== VC_CONTEXT_V2) throw new Error(`@context must start with ${VC_CONTEXT_V2}`);
+  const type = toArray(input.type);
+  const issuer = input.issuer ?? signer.did;
+  if (issuerId(issuer) !== signer.did) throw new Error('issuer must be the signer DID');
+  if (!isObject(input.credentialSubject) && !Array.isArray(input.credentialSubject)) throw new Error('credentialSubject is required');
+  return {
+    ...input,
+    '@context': context,
+    type: type.includes('VerifiableCredential') ? type : ['VerifiableCredential', ...type],
+    issuer,
+    validFrom: input.validFrom ?? isoSeconds(t),
+  } as Credential;
+}
+
+// Structural checks shared by both formats; returns the issuer DID.
+function assertCredential(value: unknown): string {
+  if (!isObject(value)) fail('malformed', 'Credential must be a JSON object');
+  const context = value['@context'];
+  if (!Array.isArray(context) || context[0] !== VC_CONTEXT_V2) fail('malformed', `@context must start with ${VC_CONTEXT_V2}`);
+  if (!Array.isArray(value.type) || !value.type.includes('VerifiableCredential')) fail('malformed', 'type must include VerifiableCredential');
+  const issuer = issuerId(value.issuer as CredentialIssuer);
+  if (issuer === undefined) fail('malformed', 'issuer is required');
+  const subject = value.credentialSubject;
+  if (!isObject(subject) && !(Array.isArray(subject) && subject.length > 0 && subject.every(isObject))) {
+    fail('malformed', 'credentialSubject must be an object');
+  }
+  if (value.validFrom !== undefined) parseDate(value.validFrom, 'validFrom');
+  if (value.validUntil !== undefined) parseDate(value.validUntil, 'validUntil');
+  return issuer;
+}
+
+function checkValidity(credential: Credential, t: number): void {
+  if (credential.validFrom !== undefined && parseDate(credential.validFrom, 'validFrom') > t + VC_CLOCK_SKEW_SEC) {
+    fail('not_yet_valid', 'Credential is not valid yet');
+  }
+  if (credential.validUntil !== undefined && parseDate(credential.validUntil, 'validUntil') < t - VC_CLOCK_SKEW_SEC) {
+    fail('expired', 'Credential has expired');
+  }
+}
+
+function fromJose(err: unknown, code: CredentialErrorCode = 'bad_proof'): never {
+  if (err instanceof CredentialError) throw err;
+  if (err instanceof JoseError && (err.code === 'expired' || err.code === 'not_yet_valid')) fail(err.code, err.message);
+  fail(code, err instanceof Error ? err.message : String(err));
+}
+
+function didOf(didUrl: string): string {
+  return didUrl.split('#')[0];
+}
+
+// eddsa-jcs-2022
+
+function hashData(document: Record<string, unknown>, proofConfig: Record<string, unknown>): Uint8Array {
+  const out = new Uint8Array(64);
+  out.set(sha256(textToBytes(canonicalJson(proofConfig))));
+  out.set(sha256(textToBytes(canonicalJson(document))), 32);
+  return out;
+}
+
+async function addProof<T extends Record<string, unknown>>(
+  signer: CredentialSigner,
+  document: T,
+  options: Omit<DataIntegrityProof, 'proofValue'>
+): Promise<T & { proof: DataIntegrityProof }> {
+  if (signer.scheme !== 'ed25519') throw new Error('eddsa-jcs-2022 requires an Ed25519 signer');
+  const proofConfig = { ...options, '@context': document['@context'] };
+  const signature = await signer.signMessage(hashData(document, proofConfig));
+  return { ...document, proof: { ...proofConfig, proofValue: `z${bs58.encode(signature)}` } } as T & { proof: DataIntegrityProof };
+}
+
+/** Verify a DataIntegrityProof and return its verification method. */
+async function verifyProof(
+  secured: Record<string, unknown>,
+  purpose: DataIntegrityProof['proofPurpose'],
+  t: number,
+  opts?: CredentialVerifyOptions
+): Promise<DataIntegrityProof> {
+  const { proof, ...unsecured } = secured;
+  if (!isObject(proof)) fail('malformed', 'Expected a single proof object');
+  if (proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'eddsa-jcs-2022') {
+    fail('bad_proof', 'Unsupported proof: expected DataIntegrityProof eddsa-jcs-2022');
+  }
+  if (proof.proofPurpose !== purpose) fail('bad_proof', `proofPurpose must be ${purpose}`);
+  if (typeof proof.verificationMethod !== 'string') fail('malformed', 'proof.verificationMethod is required');
+  if (proof.created !== undefined && parseDate(proof.created, 'proof.created') > t + VC_CLOCK_SKEW_SEC) {
+    fail('not_yet_valid', 'Proof was created in the future');
+  }
+  if (proof.expires !== undefined && parseDate(proof.expires, 'proof.expires') < t - VC_CLOCK_SKEW_SEC) {
+    fail('expired', 'Proof has expired');
+  }
+  const { proofValue, ...proofOptions } = proof;
+  let signature: Uint8Array;
+  try {
+    if (typeof proofValue !== 'string' || !proofValue.startsWith('z')) throw new Error();
+    signature = bs58.decode(proofValue.slice(1));
+  } catch {
+    fail('malformed', 'proofValue must be base58btc multibase');
+  }
+  // A proof @context must be a prefix of the document's; it then stands in for it.
+  if (proofOptions['@context'] !== undefined) {
+    const context = proofOptions['@context'];
+    const documentContext = unsecured['@context'];
+    if (!Array.isArray(context) || !Array.isArray(documentContext) || context.some((c, i) => documentContext[i] !== c)) {
+      fail('bad_proof', 'proof @context does not match the document');
+    }
+    unsecured['@context'] = context;
+  }
+
+  let key: Awaited<ReturnType<typeof resolveVerificationMethod>>;
+  try {
+    key = await resolveVerificationMethod(proof.verificationMethod, purpose, opts?.resolve);
+  } catch (err) {
+    fromJose(err);
+  }
+  if (key.curve !== 'ed25519') fail('bad_proof', 'eddsa-jcs-2022 requires an Ed25519 verification method');
+  const data = hashData(unsecured, { ...proofOptions, '@context': unsecured['@context'] });
+  if (!verifyEd25519Message(signature, data, key.publicKey)) fail('bad_proof', 'Proof signature verification failed');
+  return proof as DataIntegrityProof;
+}
+
+// Credentials
+
+/** Issue a credential secured with an eddsa-jcs-2022 proof (Ed25519 signers only). */
+export async function issueDataIntegrityCredential(
+  signer: CredentialSigner,
+  input: CredentialInput,
+  opts?: IssueOptions
+): Promise<SecuredCredential> {
+  const t = opts?.now ?? now();
+  const credential = prepareCredential(signer, input, t);
+  return addProof(signer, credential, {
+    type: 'DataIntegrityProof',
+    cryptosuite: 'eddsa-jcs-2022',
+    created: isoSeconds(t),
+    verificationMethod: signer.keyId,
+    proofPurpose: 'assertionMethod',
+  });
+}
+
+/** Issue a credential as a vc+jwt (EdDSA or ES256K, `kid` = the signer's keyId). */
+export async function issueJwtCredential(signer: CredentialSigner, input: CredentialInput, opts?: IssueOptions): Promise<string> {
+  const credential = prepareCredential(signer, input, opts?.now ?? now());
+  return signJws(signer, JSON.stringify(credential), { kid: signer.keyId, header: { typ: 'vc+jwt', cty: 'vc' } });
+}
+
+async function checkStatus(credential: Credential, issuer: string, t: number, opts?: CredentialVerifyOptions): Promise<void> {
+  const entries = toArray(credential.credentialStatus);
+  if (entries.length === 0 || opts?.ignoreStatus) return;
+  const source = opts?.statusSource;
+  if (!source) fail('status_unavailable', 'Credential has a credentialStatus but no statusSource was given');
+  for (const entry of entries) {
+    if (!isObject(entry) || entry.type !== 'BitstringStatusListEntry') fail('status_unavailable', 'Unsupported credentialStatus type');
+    const { statusPurpose, statusListIndex, statusListCredential } = entry;
+    if (statusPurpose !== 'revocation' && statusPurpose !== 'suspension') {
+      fail('status_unavailable', `Unsupported statusPurpose: ${String(statusPurpose)}`);
+    }
+    if (typeof statusListIndex !== 'string' || !/^(0|[1-9]\d*)$/.test(statusListIndex) || typeof statusListCredential !== 'string') {
+      fail('malformed', 'Invalid BitstringStatusListEntry');
+    }
+    const secured = await source(statusListCredential).catch(() => undefined);
+    if (secured === undefined) fail('status_unavailable', `Status list ${statusListCredential} is not available`);
+
+    let list: VerifiedCredential;
+    try {
+      list = await verifyCredential(secured, { ...opts, now: t, ignoreStatus: true, issuers: [issuer] });
+    } catch (err) {
+      fail('status_unavailable', `Status list ${statusListCredential} does not verify: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const subject = list.credential.credentialSubject;
+    if (
+      (list.credential.id !== undefined && list.credential.id !== statusListCredential) ||
+      !list.credential.type.includes('BitstringStatusListCredential') ||
+      !isObject(subject) ||
+      subject.type !== 'BitstringStatusList' ||
+      subject.statusPurpose !== statusPurpose
+    ) {
+      fail('status_unavailable', `${statusListCredential} is not a ${statusPurpose} status list`);
+    }
+    let set: boolean;
+    try {
+      set = getStatus(await decodeStatusList(subject.encodedList as string), Number(statusListIndex));
+    } catch (err) {
+      fail('status_unavailable', err instanceof Error ? err.message : String(err));
+    }
+    if (set) fail(statusPurpose === 'revocation' ? 'revoked' : 'suspended', `Credential is ${statusPurpose === 'revocation' ? 'revoked' : 'suspended'}`);
+  }
+}
+
+/**
+ * Verify a credential in either form: the proof against the issuer's assertionMethod key, the
+ * validity period, and its status lists.
+ *
+ * @throws {CredentialError} With the reason in `code`.
+ */
+export async function verifyCredential(credential: SecuredCredential | string, opts?: CredentialVerifyOptions): Promise<VerifiedCredential> {
+  const t = opts?.now ?? now();
+  let result: VerifiedCredential;
+  if (typeof credential === 'string') {
+    let verified: Awaited<ReturnType<typeof verifyJwt>>;
+    try {
+      verified = await verifyJwt(credential, { typ: 'vc+jwt', purpose: 'assertionMethod', now: t, resolve: opts?.resolve });
+    } catch (err) {
+      fromJose(err);
+    }
+    const issuer = assertCredential(verified.payload);
+    const kid = verified.header.kid as string;
+    if (didOf(kid) !== issuer) fail('issuer_mismatch', 'The signing key does not belong to the issuer');
+    result = { credential: verified.payload as Credential, format: 'vc+jwt', issuer, verificationMethod: kid };
+  } else {
+    const { proof, ...unsecured } = isObject(credential) ? credential : ({} as SecuredCredential);
+    const issuer = assertCredential(unsecured);
+    const verified = await verifyProof(credential, 'assertionMethod', t, opts);
+    if (didOf(verified.verificationMethod) !== issuer) fail('issuer_mismatch', 'The signing key does not belong to the issuer');
+    result = { credential: unsecured as Credential, format: 'eddsa-jcs-2022', issuer, verificationMethod: proof.verificationMethod };
+  }
+  if (opts?.issuers && !opts.issuers.includes(result.issuer)) fail('issuer_mismatch', `Untrusted issuer ${result.issuer}`);
+  checkValidity(result.credential, t);
+  await checkStatus(result.credential, result.issuer, t, opts);
+  return result;
+}
+
+// Presentations
+
+function presentation(signer: CredentialSigner, credentials: (SecuredCredential | string)[]): Presentation {
+  return {
+    '@context': [VC_CONTEXT_V2],
+    type: ['VerifiablePresentation'],
+    holder: signer.did,
+    verifiableCredential: credentials.map((c) =>
+      typeof c === 'string' ? { '@context': [VC_CONTEXT_V2], id: `${ENVELOPED_JWT_PREFIX}${c}`, type: 'EnvelopedVerifiableCredential' } : c
+    ),
+  };
+}
+
+/** Present credentials (either form) in a presentation with an eddsa-jcs-2022 authentication proof. */
+export async function presentDataIntegrity(
+  signer: CredentialSigner,
+  credentials: (SecuredCredential | string)[],
+  opts: PresentOptions
+): Promise<SecuredPresentation> {
+  if (typeof opts?.challenge !== 'string' || opts.challenge.length === 0) throw new Error('challenge is required');
+  return addProof(signer, presentation(signer, credentials), {
+    type: 'DataIntegrityProof',
+    cryptosuite: 'eddsa-jcs-2022',
+    created: isoSeconds(opts.now ?? now()),
+    verificationMethod: signer.keyId,
+    proofPurpose: 'authentication',
+    challenge: opts.challenge,
+    ...(opts.domain !== undefined ? { domain: opts.domain } : {}),
+  });
+}
+
+/** Present credentials (either form) as a vp+jwt carrying the challenge as `nonce` and the domain as `aud`. */
+export async function presentJwt(signer: CredentialSigner, credentials: (SecuredCredential | string)[], opts: PresentOptions): Promise<string> {
+  if (typeof opts?.challenge !== 'string' || opts.challenge.length === 0) throw new Error('challenge is required');
+  const iat = opts.now ?? now();
+  const payload = {
+    ...presentation(signer, credentials),
+    nonce: opts.challenge,
+    ...(opts.domain !== undefined ? { aud: opts.domain } : {}),
+    iat,
+    ...(opts.expiresIn !== undefined ? { exp: iat + opts.expiresIn } : {}),
+  };
+  return signJws(signer, JSON.stringify(payload), { kid: signer.keyId, header: { typ: 'vp+jwt', cty: 'vp' } });
+}
+
+function assertPresentation(value: unknown): string {
+  if (!isObject(value)) fail('malformed', 'Presentation must be a JSON object');
+  const context = value['@context'];
+  if (!Array.isArray(context) || context[0] !== VC_CONTEXT_V2) fail('malformed', `@context must start with ${VC_CONTEXT_V2}`);
+  if (!Array.isArray(value.type) || !value.type.includes('VerifiablePresentation')) fail('malformed', 'type must include VerifiablePresentation');
+  if (typeof value.holder !== 'string') fail('malformed', 'holder is required');
+  if (!Array.isArray(value.verifiableCredential)) fail('malformed', 'verifiableCredential must be an array');
+  return value.holder;
+}
+
+function unwrapCredential(entry: unknown): SecuredCredential | string {
+  if (isObject(entry) && entry.type === 'EnvelopedVerifiableCredential') {
+    if (typeof entry.id !== 'string' || !entry.id.startsWith(ENVELOPED_JWT_PREFIX)) fail('malformed', 'Unsupported enveloped credential');
+    return entry.id.slice(ENVELOPED_JWT_PREFIX.length);
+  }
+  return entry as SecuredCredential;
+}
+
+/**
+ * Verify a presentation: the holder's authentication proof, its binding to `challenge` (and
+ * `domain`, when given), then every credential as verifyCredential() does.
+ *
+ * @throws {CredentialError} With the reason in `code`.
+ */
+export async function verifyPresentation(
+  vp: SecuredPresentation | string,
+  opts: PresentationVerifyOptions
+): Promise<VerifiedPresentation> {
+  if (typeof opts?.challenge !== 'string' || opts.challenge.length === 0) throw new Error('challenge is required');
+  const t = opts.now ?? now();
+  let holder: string;
+  let body: Presentation;
+  let format: VerifiedPresentation['format'];
+  if (typeof vp === 'string') {
+    let verified: Awaited<ReturnType<typeof verifyJwt>>;
+    try {
+      verified = await verifyJwt(vp, { typ: 'vp+jwt', purpose: 'authentication', now: t, resolve: opts.resolve });
+    } catch (err) {
+      fromJose(err);
+    }
+    const { nonce, aud, iat: _iat, exp: _exp, ...rest } = verified.payload;
+    holder = assertPresentation(rest);
+    if (didOf(verified.header.kid as string) !== holder) fail('issuer_mismatch', 'The signing key does not belong to the holder');
+    if (nonce !== opts.challenge) fail('challenge_mismatch', 'Presentation challenge does not match');
+    if (opts.domain !== undefined && !toArray(aud).includes(opts.domain)) fail('challenge_mismatch', 'Presentation domain does not match');
+    body = rest as Presentation;
+    format = 'vp+jwt';
+  } else {
+    const { proof: _proof, ...unsecured } = isObject(vp) ? vp : ({} as SecuredPresentation);
+    holder = assertPresentation(unsecured);
+    const proof = await verifyProof(vp, 'authentication', t, opts);
+    if (didOf(proof.verificationMethod) !== holder) fail('issuer_mismatch', 'The signing key does not belong to the holder');
+    if (proof.challenge !== opts.challenge) fail('challenge_mismatch', 'Presentation challenge does not match');
+    if (opts.domain !== undefined && !toArray(proof.domain).includes(opts.domain)) fail('challenge_mismatch', 'Presentation domain does not match');
+    body = unsecured as Presentation;
+    format = 'eddsa-jcs-2022';
+  }
+  const credentials: VerifiedCredential[] = [];
+  for (const entry of body.verifiableCredential) credentials.push(await verifyCredential(unwrapCredential(entry), opts));
+  return { presentation: body, format, holder, credentials };
+}
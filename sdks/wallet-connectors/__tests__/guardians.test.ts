@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { forNostr, SeedIdSession } from '@seedid/core'
+import {
+  createGuardianSet,
+  rotateGuardians,
+  openGuardianInvitation,
+  createRecoveryKey,
+  releaseGuardianShare,
+  recoverFromGuardians,
+  GUARDIAN_INVITATION_KIND,
+} from '../src/guardians.js'
+import { generatePrivateKey, derivePublicKey } from '../src/nip44.js'
+import { ValidationError } from '../src/errors.js'
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => i + 1)
+const FAST = { iterationExponent: 0 }
+
+function guardian() {
+  const secret = generatePrivateKey()
+  return { secret, pubkey: derivePublicKey(secret) }
+}
+
+function release(set: ReturnType<typeof createGuardianSet>, g: { secret: string }, index: number, recoveryPubkey: string) {
+  return releaseGuardianShare(openGuardianInvitation(set.invitations[index], g.secret), g.secret, recoveryPubkey)
+}
+
+describe('guardian shares over NIP-44', () => {
+  const owner = guardian()
+  const guardians = [guardian(), guardian(), guardian()]
+
+  it('invites guardians and reconstructs the identity from a threshold of releases', async () => {
+    const set = createGuardianSet(MASTER, owner.secret, guardians.map((g, i) => ({ pubkey: g.pubkey, label: `g${i}` })), { threshold: 2, ...FAST })
+    expect(set.roster).toMatchObject({ version: 1, epoch: 1, ownerPubkey: owner.pubkey, threshold: 2 })
+    expect(set.invitations).toHaveLength(3)
+    expect(set.invitations[0].kind).toBe(GUARDIAN_INVITATION_KIND)
+    expect(set.invitations[0].pubkey).toBe(owner.pubkey)
+    expect(set.invitations[0].content).not.toContain(' ')
+
+    const payload = openGuardianInvitation(set.invitations[1], guardians[1].secret)
+    expect(payload).toMatchObject({ guardianPubkey: guardians[1].pubkey, memberIndex: 1, threshold: 2, count: 3 })
+    expect(() => openGuardianInvitation(set.invitations[1], guardians[0].secret)).toThrow(/different guardian/)
+
+    const recovery = createRecoveryKey()
+    const releases = [release(set, guardians[2], 2, recovery.pubkey), release(set, guardians[0], 0, recovery.pubkey)]
+    const recovered = recoverFromGuardians(releases, recovery.secret, { roster: set.roster })
+    expect(recovered.master).toEqual(MASTER)
+    expect(await forNostr(recovered.master)).toEqual(await forNostr(MASTER))
+    expect(recovered).toMatchObject({ ownerPubkey: owner.pubkey, setId: set.roster.setId, epoch: 1 })
+
+    expect(() => recoverFromGuardians(releases.slice(0, 1), recovery.secret)).toThrow(/insufficient/)
+  })
+
+  it('rejects forged or misaddressed events', () => {
+    const set = createGuardianSet(MASTER, owner.secret, guardians, { threshold: 2, ...FAST })
+    const tampered = { ...set.invitations[0], created_at: set.invitations[0].created_at + 1 }
+    expect(() => openGuardianInvitation(tampered, guardians[0].secret)).toThrow(/signature/)
+
+    const recovery = createRecoveryKey()
+    const other = createRecoveryKey()
+    const releases = [release(set, guardians[0], 0, recovery.pubkey), release(set, guardians[1], 1, recovery.pubkey)]
+    expect(() => recoverFromGuardians(releases, other.secret)).toThrow(/different recovery key/)
+
+    // a guardian cannot release someone else's share
+    const stolen = openGuardianInvitation(set.invitations[0], guardians[0].secret)
+    expect(() => releaseGuardianShare(stolen, guardians[1].secret, recovery.pubkey)).toThrow(ValidationError)
+  })
+
+  it('rotates guardians so old and new shares never combine', () => {
+    const set = createGuardianSet(MASTER, owner.secret, guardians, { threshold: 2, ...FAST })
+    const replacement = guardian()
+    // the owner's device holds the master in a session rather than as raw bytes
+    const session = SeedIdSession.fromMasterKey(MASTER.slice())
+    const rotated = rotateGuardians(session, owner.secret, set.roster, {
+      remove: [guardians[1].pubkey],
+      add: [{ pubkey: replacement.pubkey, label: 'new' }],
+      ...FAST,
+    })
+    session.lock()
+    expect(rotated.roster).toMatchObject({ setId: set.roster.setId, epoch: 2, threshold: 2 })
+    expect(rotated.roster.guardians.map((g) => g.pubkey)).toEqual([guardians[0].pubkey, guardians[2].pubkey, replacement.pubkey])
+
+    const recovery = createRecoveryKey()
+    const fresh = [release(rotated, replacement, 2, recovery.pubkey), release(rotated, guardians[0], 0, recovery.pubkey)]
+    expect(recoverFromGuardians(fresh, recovery.secret, { roster: rotated.roster }).master).toEqual(MASTER)
+
+    const stale = release(set, guardians[1], 1, recovery.pubkey)
+    expect(() => recoverFromGuardians([stale, fresh[0]], recovery.secret)).toThrow(/different guardian sets or epochs/)
+    expect(() => recoverFromGuardians(fresh, recovery.secret, { roster: set.roster })).toThrow(/do not match roster/)
+    expect(() => rotateGuardians(MASTER, guardians[0].secret, set.roster, {})).toThrow(/roster owner/)
+  })
+
+  it('validates the guardian set', () => {
+    expect(() => createGuardianSet(MASTER, owner.secret, guardians, { threshold: 1 })).toThrow(/threshold/)
+    expect(() => createGuardianSet(MASTER, owner.secret, [guardians[0], guardians[0]], { threshold: 2 })).toThrow(/duplicate/)
+    expect(() => createGuardianSet(MASTER, owner.secret, [guardians[0], owner], { threshold: 2 })).toThrow(/own guardian/)
+  })
+})
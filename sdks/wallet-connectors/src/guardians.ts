@@ -0,0 +1,379 @@
+import { randomBytes } from 'crypto'
+import { finalizeEvent, verifyEvent } from 'nostr-tools'
+import type { Event } from 'nostr-tools'
+import { splitMasterKey, recoverMasterKey, decodeSlip39Share, isSeedIdSession } from '@seedid/core'
+import type { MasterKeySource } from '@seedid/core'
+import { ValidationError } from './errors.js'
+import { encryptNip44, decryptNip44, derivePublicKey } from './nip44.js'
+
+/**
+ * Recovery guardian kit (social recovery)
+ *
+ * The master key is split into SLIP-39 shares (one per guardian, threshold-of-N) and each
+ * share is NIP-44 encrypted to the guardian's Nostr pubkey inside an invitation event signed
+ * by the owner. To recover, the owner's new device creates a throwaway recovery key; each
+ * guardian re-encrypts their share to it in a release event signed with the guardian's key.
+ *
+ * Invitation and release events use application-specific kinds (not a NIP) and can be
+ * delivered over any relay or out of band.
+ */
+
+export const GUARDIAN_INVITATION_KIND = 7440
+export const GUARDIAN_RELEASE_KIND = 7441
+export const GUARDIAN_SHARE_TYPE = 'seedid/guardian-share'
+const MAX_GUARDIANS = 16
+
+export interface GuardianInput {
+  pubkey: string  // guardian's Nostr x-only pubkey (hex)
+  label?: string
+}
+
+export interface GuardianRosterEntry extends GuardianInput {
+  memberIndex: number
+}
+
+/** Public description of a guardian set; contains no secrets and can be backed up anywhere. */
+export interface GuardianRoster {
+  version: 1
+  setId: string       // stable across rotations (16-byte hex)
+  epoch: number       // incremented on every rotation; shares of different epochs never combine
+  ownerPubkey: string
+  threshold: number
+  guardians: GuardianRosterEntry[]
+  createdAt: number   // unix seconds
+}
+
+/** Decrypted content of an invitation or release event. */
+export interface GuardianSharePayload {
+  type: typeof GUARDIAN_SHARE_TYPE
+  version: 1
+  setId: string
+  epoch: number
+  ownerPubkey: string
+  guardianPubkey: string
+  threshold: number
+  count: number
+  memberIndex: number
+  share: string  // SLIP-39 mnemonic
+}
+
+export interface GuardianSetOptions {
+  threshold: number
+  createdAt?: number
+  /** PBKDF2 cost of the SLIP-39 encryption layer (default 1) */
+  iterationExponent?: number
+}
+
+export interface GuardianSet {
+  roster: GuardianRoster
+  invitations: Event[]
+}
+
+export interface RotateGuardiansOptions {
+  remove?: string[]
+  add?: GuardianInput[]
+  threshold?: number
+  createdAt?: number
+  iterationExponent?: number
+}
+
+export interface GuardianRecovery {
+  master: Uint8Array
+  ownerPubkey: string
+  setId: string
+  epoch: number
+  guardians: string[]  // pubkeys whose shares were used
+}
+
+/**
+ * Split the master key for a set of guardians and create one signed invitation per guardian.
+ *
+ * @param master - 32-byte SeedID master key, or an unlocked SeedIdSession
+ * @param ownerSecret - Owner's Nostr private key (hex), signs the invitations
+ * @throws {ValidationError} On invalid guardians or threshold
+ */
+export function createGuardianSet(
+  master: MasterKeySource,
+  ownerSecret: string,
+  guardians: GuardianInput[],
+  opts: GuardianSetOptions
+): GuardianSet {
+  const ownerPubkey = derivePublicKey(ownerSecret)
+  return issueGuardianSet(master, ownerSecret, {
+    version: 1,
+    setId: randomBytes(16).toString('hex'),
+    epoch: 1,
+    ownerPubkey,
+    threshold: opts.threshold,
+    guardians: guardians.map((g, memberIndex) => ({ ...g, memberIndex })),
+    createdAt: opts.createdAt ?? now(),
+  }, opts.iterationExponent)
+}
+
+/**
+ * Replace guardians (or change the threshold) by re-splitting the master key.
+ *
+ * Every guardian, including the ones that stay, receives a fresh share for the next epoch:
+ * new shares use a new polynomial and SLIP-39 identifier, so they never combine with shares a
+ * removed guardian still holds. Old shares are not revoked cryptographically; a threshold of
+ * previous guardians colluding could still recover, so rotate before trust is lost.
+ */
+export function rotateGuardians(
+  master: MasterKeySource,
+  ownerSecret: string,
+  roster: GuardianRoster,
+  opts: RotateGuardiansOptions
+): GuardianSet {
+  assertRoster(roster)
+  if (derivePublicKey(ownerSecret) !== roster.ownerPubkey) {
+    throw new ValidationError('ownerSecret does not match the roster owner')
+  }
+  const remove = new Set((opts.remove ?? []).map((p) => p.toLowerCase()))
+  for (const pubkey of remove) {
+    if (!roster.guardians.some((g) => g.pubkey === pubkey)) {
+      throw new ValidationError(`guardian ${pubkey} is not in the roster`)
+    }
+  }
+  const kept: GuardianInput[] = roster.guardians
+    .filter((g) => !remove.has(g.pubkey))
+    .map(({ pubkey, label }) => (label !== undefined ? { pubkey, label } : { pubkey }))
+  const guardians = [...kept, ...(opts.add ?? [])]
+  return issueGuardianSet(master, ownerSecret, {
+    version: 1,
+    setId: roster.setId,
+    epoch: roster.epoch + 1,
+    ownerPubkey: roster.ownerPubkey,
+    threshold: opts.threshold ?? Math.min(roster.threshold, guardians.length),
+    guardians: guardians.map((g, memberIndex) => ({ ...g, memberIndex })),
+    createdAt: opts.createdAt ?? now(),
+  }, opts.iterationExponent)
+}
+
+/**
+ * Verify and decrypt an invitation as the guardian. Keep the returned payload (or the event)
+ * until the owner asks for recovery.
+ *
+ * @throws {ValidationError} If the signature, recipient or payload is invalid
+ */
+export function openGuardianInvitation(invitation: Event, guardianSecret: string): GuardianSharePayload {
+  const guardianPubkey = derivePublicKey(guardianSecret)
+  assertSignedEvent(invitation, GUARDIAN_INVITATION_KIND)
+  if (tagValue(invitation, 'p') !== guardianPubkey) {
+    throw new ValidationError('invitation is addressed to a different guardian')
+  }
+  const payload = parsePayload(decryptNip44(invitation.content, guardianSecret, invitation.pubkey))
+  if (payload.ownerPubkey !== invitation.pubkey || payload.guardianPubkey !== guardianPubkey) {
+    throw new ValidationError('invitation payload does not match its signer or recipient')
+  }
+  return payload
+}
+
+/** Throwaway keypair for one recovery attempt; publish `pubkey` to the guardians. */
+export function createRecoveryKey(): { secret: string; pubkey: string } {
+  const secret = randomBytes(32).toString('hex')
+  return { secret, pubkey: derivePublicKey(secret) }
+}
+
+/**
+ * Release a share to a recovery key, signed by the guardian. Guardians should confirm the
+ * owner's identity out of band before releasing.
+ */
+export function releaseGuardianShare(
+  payload: GuardianSharePayload,
+  guardianSecret: string,
+  recoveryPubkey: string,
+  createdAt: number = now()
+): Event {
+  const guardianPubkey = derivePublicKey(guardianSecret)
+  if (payload.guardianPubkey !== guardianPubkey) {
+    throw new ValidationError('share belongs to a different guardian')
+  }
+  return finalizeEvent({
+    kind: GUARDIAN_RELEASE_KIND,
+    created_at: createdAt,
+    tags: [['p', recoveryPubkey], ['d', payload.setId], ['epoch', String(payload.epoch)]],
+    content: encryptNip44(JSON.stringify(parsePayload(JSON.stringify(payload))), guardianSecret, recoveryPubkey),
+  }, hexToBytes(guardianSecret))
+}
+
+/**
+ * Decrypt released shares and reconstruct the master key.
+ *
+ * Every release must be signed by the guardian named in its payload; all shares must belong
+ * to the same set and epoch. With a roster, releases from guardians outside it are rejected.
+ *
+ * @throws {ValidationError} On invalid, mixed or insufficient shares
+ */
+export function recoverFromGuardians(
+  releases: Event[],
+  recoverySecret: string,
+  opts: { roster?: GuardianRoster } = {}
+): GuardianRecovery {
+  const recoveryPubkey = derivePublicKey(recoverySecret)
+  if (!Array.isArray(releases) || releases.length === 0) {
+    throw new ValidationError('no guardian releases provided')
+  }
+  if (opts.roster) assertRoster(opts.roster)
+  const payloads = releases.map((release) => {
+    assertSignedEvent(release, GUARDIAN_RELEASE_KIND)
+    if (tagValue(release, 'p') !== recoveryPubkey) {
+      throw new ValidationError('release is addressed to a different recovery key')
+    }
+    const payload = parsePayload(decryptNip44(release.content, recoverySecret, release.pubkey))
+    if (payload.guardianPubkey !== release.pubkey) {
+      throw new ValidationError('release was not signed by the guardian holding the share')
+    }
+    return payload
+  })
+  const [first] = payloads
+  for (const p of payloads) {
+    if (p.setId !== first.setId || p.epoch !== first.epoch || p.ownerPubkey !== first.ownerPubkey) {
+      throw new ValidationError('releases belong to different guardian sets or epochs')
+    }
+  }
+  const roster = opts.roster
+  if (roster) {
+    if (roster.setId !== first.setId || roster.epoch !== first.epoch || roster.ownerPubkey !== first.ownerPubkey) {
+      throw new ValidationError(`releases do not match roster ${roster.setId} epoch ${roster.epoch}`)
+    }
+    for (const p of payloads) {
+      if (!roster.guardians.some((g) => g.pubkey === p.guardianPubkey && g.memberIndex === p.memberIndex)) {
+        throw new ValidationError(`guardian ${p.guardianPubkey} is not in the roster`)
+      }
+    }
+  }
+  const guardians = Array.from(new Set(payloads.map((p) => p.guardianPubkey)))
+  if (guardians.length < first.threshold) {
+    throw new ValidationError(`insufficient guardian shares: ${guardians.length} of ${first.threshold}`)
+  }
+  let master: Uint8Array
+  try {
+    master = recoverMasterKey(payloads.map((p) => p.share))
+  } catch (err) {
+    throw new ValidationError(`guardian shares could not be combined: ${(err as Error).message}`)
+  }
+  return { master, ownerPubkey: first.ownerPubkey, setId: first.setId, epoch: first.epoch, guardians }
+}
+
+function issueGuardianSet(
+  master: MasterKeySource,
+  ownerSecret: string,
+  roster: GuardianRoster,
+  iterationExponent?: number
+): GuardianSet {
+  assertRoster(roster)
+  const count = roster.guardians.length
+  const splitOpts = {
+    groups: [{ threshold: roster.threshold, count }],
+    ...(iterationExponent !== undefined ? { iterationExponent } : {}),
+  }
+  const [shares] = isSeedIdSession(master)
+    ? master.withMasterKey((m) => splitMasterKey(m, splitOpts))
+    : splitMasterKey(master, splitOpts)
+  const secretKey = hexToBytes(ownerSecret)
+  const invitations = roster.guardians.map((g) => {
+    const payload: GuardianSharePayload = {
+      type: GUARDIAN_SHARE_TYPE,
+      version: 1,
+      setId: roster.setId,
+      epoch: roster.epoch,
+      ownerPubkey: roster.ownerPubkey,
+      guardianPubkey: g.pubkey,
+      threshold: roster.threshold,
+      count,
+      memberIndex: g.memberIndex,
+      share: shares[g.memberIndex],
+    }
+    return finalizeEvent({
+      kind: GUARDIAN_INVITATION_KIND,
+      created_at: roster.createdAt,
+      tags: [['p', g.pubkey], ['d', roster.setId], ['epoch', String(roster.epoch)]],
+      content: encryptNip44(JSON.stringify(payload), ownerSecret, g.pubkey),
+    }, secretKey)
+  })
+  secretKey.fill(0)
+  return { roster, invitations }
+}
+
+function assertRoster(roster: GuardianRoster): void {
+  if (!roster || roster.version !== 1) throw new ValidationError('unsupported guardian roster version')
+  if (!/^[0-9a-f]{32}$/.test(roster.setId)) throw new ValidationError('roster setId must be 16-byte hex')
+  if (!Number.isInteger(roster.epoch) || roster.epoch < 1) throw new ValidationError('roster epoch must be a positive integer')
+  if (!isPubkey(roster.ownerPubkey)) throw new ValidationError('roster ownerPubkey must be 64-char lowercase hex')
+  const { guardians, threshold } = roster
+  if (!Array.isArray(guardians) || guardians.length < 2 || guardians.length > MAX_GUARDIANS) {
+    throw new ValidationError(`a guardian set needs 2..${MAX_GUARDIANS} guardians`)
+  }
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > guardians.length) {
+    throw new ValidationError('threshold must be between 2 and the number of guardians')
+  }
+  const seen = new Set<string>()
+  guardians.forEach((g, i) => {
+    if (!isPubkey(g.pubkey)) throw new ValidationError('guardian pubkey must be 64-char lowercase hex')
+    if (g.pubkey === roster.ownerPubkey) throw new ValidationError('the owner cannot be their own guardian')
+    if (seen.has(g.pubkey)) throw new ValidationError(`duplicate guardian ${g.pubkey}`)
+    if (g.memberIndex !== i) throw new ValidationError('roster member indices must be 0..n-1 in order')
+    seen.add(g.pubkey)
+  })
+}
+
+function assertSignedEvent(event: Event, kind: number): void {
+  if (!event || event.kind !== kind) throw new ValidationError(`expected a kind ${kind} event`)
+  // Verify a plain copy: nostr-tools caches results on the event object, and spreading a
+  // verified event would carry that cache over to a modified copy
+  const { id, pubkey, created_at, tags, content, sig } = event
+  if (!verifyEvent({ id, pubkey, created_at, kind, tags, content, sig })) {
+    throw new ValidationError('invalid event signature')
+  }
+}
+
+function parsePayload(json: string): GuardianSharePayload {
+  let p: any
+  try {
+    p = JSON.parse(json)
+  } catch {
+    throw new ValidationError('guardian share payload is not valid JSON')
+  }
+  if (
+    !p || p.type !== GUARDIAN_SHARE_TYPE || p.version !== 1 ||
+    typeof p.setId !== 'string' || !Number.isInteger(p.epoch) ||
+    !isPubkey(p.ownerPubkey) || !isPubkey(p.guardianPubkey) ||
+    !Number.isInteger(p.threshold) || !Number.isInteger(p.count) || !Number.isInteger(p.memberIndex) ||
+    typeof p.share !== 'string'
+  ) {
+    throw new ValidationError('malformed guardian share payload')
+  }
+  try {
+    decodeSlip39Share(p.share)
+  } catch {
+    throw new ValidationError('guardian share is not a valid SLIP-39 mnemonic')
+  }
+  return {
+    type: GUARDIAN_SHARE_TYPE,
+    version: 1,
+    setId: p.setId,
+    epoch: p.epoch,
+    ownerPubkey: p.ownerPubkey,
+    guardianPubkey: p.guardianPubkey,
+    threshold: p.threshold,
+    count: p.count,
+    memberIndex: p.memberIndex,
+    share: p.share,
+  }
+}
+
+function tagValue(event: Event, name: string): string | undefined {
+  return event.tags.find((t) => t[0] === name)?.[1]
+}
+
+function isPubkey(s: string): boolean {
+  return typeof s === 'string' && /^[0-9a-f]{64}$/.test(s)
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return new Uint8Array(Buffer.from(hex, 'hex'))
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000)
+}
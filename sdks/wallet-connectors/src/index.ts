@@ -5,3 +5,4 @@ export * from './phantom.js'
 export * from './errors.js'
 export * from './nwc.js'
 export * from './nwc-types.js'
+export * from './guardians.js'
@@ -1,7 +1,7 @@
 import EventEmitter from 'eventemitter3'
 
-export type Chain = 'eth' | 'sol' | 'lightning'
-export type WalletType = 'metamask' | 'phantom' | 'nwc' | 'seedid-derived'
+export type Chain = 'eth' | 'btc' | 'sol' | 'lightning'
+export type WalletType = 'metamask' | 'phantom' | 'nwc' | 'seedid-derived' | 'seedid-agent'
 
 export interface WalletInfo {
   type: WalletType
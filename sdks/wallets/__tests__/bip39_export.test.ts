@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { HDKey } from '@scure/bip32';
+import { mnemonicToSeedSync } from '@scure/bip39';
+import * as ed from '@noble/ed25519';
+import bs58 from 'bs58';
+import {
+  rootToMnemonic,
+  mnemonicToRoot,
+  exportRootMnemonic,
+  deriveEthAddress,
+  deriveBtcAddress,
+  deriveSolAddressSlip10,
+  BIP39_EXPORT_PATHS,
+} from '../src/index.js';
+import { ethAddressFromPublicKey } from '../src/eth.js';
+import { btcAddressFromPublicKey } from '../src/btc.js';
+
+function hexToBytes(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+const ETH_ROOT = hexToBytes('7fa0a771b09daef832875c601173309c9abea48732f957c5664b261b0965e501');
+
+describe('BIP-39 root export', () => {
+  it('encodes a root as 24 words and back', () => {
+    // BIP-39 reference vector: 32 zero bytes of entropy
+    expect(rootToMnemonic(new Uint8Array(32))).toBe(`${'abandon '.repeat(23)}art`);
+    const mnemonic = rootToMnemonic(ETH_ROOT);
+    expect(mnemonic.split(' ')).toHaveLength(24);
+    expect(mnemonicToRoot(mnemonic)).toEqual(ETH_ROOT);
+    expect(() => mnemonicToRoot(`${'abandon '.repeat(11)}about`)).toThrow(/24 words/);
+    expect(() => mnemonicToRoot(`${'abandon '.repeat(23)}abandon`)).toThrow(/Invalid BIP-39 mnemonic/);
+    expect(() => rootToMnemonic(new Uint8Array(16))).toThrow(/32 bytes/);
+  });
+
+  it('reports the root-as-seed gap instead of claiming MetaMask compatibility', async () => {
+    const exp = await exportRootMnemonic(ETH_ROOT, 'eth', { accounts: 2 });
+    expect(exp.mapping).toBe(BIP39_EXPORT_PATHS.eth);
+    expect(exp.accounts.map((a) => a.path)).toEqual(["m/44'/60'/0'/0/0", "m/44'/60'/0'/0/1"]);
+    expect(exp.accounts[0].seedIdAddress).toBe((await deriveEthAddress(ETH_ROOT, 0)).address);
+    expect(exp.compatible).toBe(false);
+    expect(exp.accounts.every((a) => !a.matches)).toBe(true);
+    expect(exp.gap?.code).toBe('root-used-as-seed');
+    expect(exp.gap?.message).toMatch(/PBKDF2/);
+
+    // what MetaMask would show after importing the mnemonic (standard BIP-39 -> BIP-32)
+    const standard = HDKey.fromMasterSeed(mnemonicToSeedSync(exp.mnemonic)).derive("m/44'/60'/0'/0/0");
+    expect(exp.accounts[0].mnemonicAddress).toBe(ethAddressFromPublicKey(standard.publicKey!));
+
+    // the direct-import private keys reproduce the SeedID addresses
+    expect(exp.directImport?.format).toBe('hex-private-key');
+    const key = HDKey.fromMasterSeed(ETH_ROOT).derive("m/44'/60'/0'/0/1");
+    expect(exp.directImport?.values[1]).toBe(Buffer.from(key.privateKey!).toString('hex'));
+  });
+
+  it('offers a Sparrow xprv for BTC and Phantom keypairs for SOL', async () => {
+    const root = Uint8Array.from({ length: 32 }, (_, i) => 255 - i);
+    const btc = await exportRootMnemonic(root, 'btc');
+    expect(btc.compatible).toBe(false);
+    expect(btc.directImport?.format).toBe('bip32-xprv');
+    const xprv = HDKey.fromExtendedKey(btc.directImport!.values[0]);
+    expect(btcAddressFromPublicKey(xprv.derive("m/84'/0'/0'/0/0").publicKey!)).toBe((await deriveBtcAddress(root, 0)).address);
+
+    const sol = await exportRootMnemonic(root, 'sol');
+    expect(sol.compatible).toBe(false);
+    expect(sol.gap?.message).toMatch(/SLIP-10/);
+    const keypair = bs58.decode(sol.directImport!.values[0]);
+    expect(keypair).toHaveLength(64);
+    const expected = await deriveSolAddressSlip10(root, { preset: 'phantom', index: 0 });
+    expect(await ed.getPublicKeyAsync(keypair.slice(0, 32))).toEqual(expected.publicKey);
+    expect(bs58.encode(keypair.slice(32))).toBe(expected.address);
+  });
+
+  it('validates inputs', async () => {
+    await expect(exportRootMnemonic(new Uint8Array(31), 'eth')).rejects.toThrow(/32 bytes/);
+    await expect(exportRootMnemonic(ETH_ROOT, 'doge' as any)).rejects.toThrow(/Unsupported chain/);
+    await expect(exportRootMnemonic(ETH_ROOT, 'eth', { accounts: 0 })).rejects.toThrow(/accounts/);
+  });
+});
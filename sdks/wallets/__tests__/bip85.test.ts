@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { hkdfSync as nodeHkdf } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { forBip85, SeedIdSession } from '@seedid/core';
+import {
+  deriveBip85Entropy,
+  deriveBip85Mnemonic,
+  deriveBip85Wif,
+  deriveBip85Xprv,
+  deriveBip85Hex,
+  deriveBip85PasswordBase64,
+} from '../src/index.js';
+import type { Bip85Source } from '../src/index.js';
+
+function hexToBytes(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+function bytesToHex(buf: Uint8Array): string {
+  return Array.from(buf)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FX = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../fixtures/bip85.json'), 'utf8'));
+
+function pathIndices(p: string): number[] {
+  return p.split('/').slice(2).map((s: string) => Number(s.slice(0, -1)));
+}
+
+async function checkVectors(source: Bip85Source, v: any): Promise<void> {
+  for (const e of v.entropy) {
+    expect(bytesToHex(await deriveBip85Entropy(source, pathIndices(e.path)))).toBe(e.entropy_hex);
+  }
+  for (const m of v.bip39) {
+    expect(await deriveBip85Mnemonic(source, { words: m.words, index: m.index })).toBe(m.mnemonic);
+  }
+  expect(await deriveBip85Wif(source, { index: v.wif.index })).toBe(v.wif.wif);
+  expect(await deriveBip85Xprv(source, { index: v.xprv.index })).toBe(v.xprv.xprv);
+  expect(await deriveBip85Hex(source, { bytes: v.hex.bytes, index: v.hex.index })).toBe(v.hex.hex);
+  expect(await deriveBip85PasswordBase64(source, { length: v.pwd_base64.length, index: v.pwd_base64.index })).toBe(
+    v.pwd_base64.password
+  );
+}
+
+describe('BIP-85', () => {
+  it('matches the published BIP-85 test vectors', async () => {
+    await checkVectors(FX.published.master_xprv, FX.published);
+  });
+
+  it('matches the vectors adapted to the SeedID master (seedid/v1/bip85)', async () => {
+    const master = hexToBytes(FX.seedid.master_hex);
+    const expectedRoot = new Uint8Array(nodeHkdf('sha256', master, 'seedid/v1', FX.seedid.hkdf_info, 32));
+    expect(bytesToHex(expectedRoot)).toBe(FX.seedid.bip85_root_hex);
+    expect(await forBip85(master)).toEqual(expectedRoot);
+    await checkVectors(master, FX.seedid);
+  });
+
+  it('separates applications and indices', async () => {
+    const master = hexToBytes(FX.seedid.master_hex);
+    const a = await deriveBip85Hex(master, { bytes: 32, index: 0 });
+    expect(await deriveBip85Hex(master, { bytes: 32, index: 1 })).not.toBe(a);
+    expect((await deriveBip85Hex(master, { bytes: 33, index: 0 })).startsWith(a)).toBe(false);
+    expect((await deriveBip85Mnemonic(master, { words: 24 })).split(' ')).toHaveLength(24);
+    expect(await deriveBip85PasswordBase64(master, { length: 86 })).toHaveLength(86);
+  });
+
+  it('derives from a session without leaving the root tracked', async () => {
+    const master = hexToBytes(FX.seedid.master_hex);
+    const session = SeedIdSession.fromMasterKey(master.slice());
+    try {
+      expect(await deriveBip85Mnemonic(session, { words: 12 })).toBe(await deriveBip85Mnemonic(master, { words: 12 }));
+      expect(await deriveBip85Hex(session, { bytes: 32 })).toBe(await deriveBip85Hex(master, { bytes: 32 }));
+      expect(session.issuedCount).toBe(0);
+    } finally {
+      session.lock();
+    }
+  });
+
+  it('validates inputs', async () => {
+    const master = hexToBytes(FX.seedid.master_hex);
+    await expect(deriveBip85Hex(new Uint8Array(16))).rejects.toThrow(/32 bytes/);
+    await expect(deriveBip85Hex(master, { bytes: 15 })).rejects.toThrow(/bytes must be/);
+    await expect(deriveBip85PasswordBase64(master, { length: 87 })).rejects.toThrow(/length must be/);
+    await expect(deriveBip85Mnemonic(master, { words: 13 as any })).rejects.toThrow(/words must be/);
+    await expect(deriveBip85Wif(master, { index: -1 })).rejects.toThrow(/index must be/);
+    await expect(deriveBip85Entropy(master, [2 ** 31])).rejects.toThrow(/path index/);
+    await expect(deriveBip85Xprv(FX.published.xprv.xprv.replace(/.$/, 'Y'))).rejects.toThrow();
+  });
+});
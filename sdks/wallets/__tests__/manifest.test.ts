@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { SeedIdSession } from '@seedid/core';
+import {
+  buildIdentityManifest,
+  verifyIdentityManifest,
+  matchIdentityManifest,
+  identityManifestFingerprint,
+  migrationIdentifiers,
+  deriveWalletRoot,
+  deriveBtcAddress,
+} from '../src/index.js';
+import type { SignedIdentityManifest } from '../src/index.js';
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => 255 - i);
+const OTHER = Uint8Array.from({ length: 32 }, (_, i) => i);
+const T = 1_700_000_000;
+
+function clone(m: SignedIdentityManifest): SignedIdentityManifest {
+  return JSON.parse(JSON.stringify(m));
+}
+
+describe('identity manifest', () => {
+  it('lists every derived identifier, each signing the bundle', async () => {
+    const signed = await buildIdentityManifest(MASTER, { issuedAt: T });
+    const { entries } = signed.manifest;
+    expect(entries.map((e) => [e.kind, e.curve ?? e.index ?? null])).toEqual([
+      ['nostr', null],
+      ['did:key', 'ed25519'],
+      ['did:key', 'secp256k1'],
+      ['eth', 0],
+      ['btc', 0],
+      ['sol', 0],
+    ]);
+    expect(entries[1].id).toMatch(/^did:key:z6Mk/);
+    expect(entries[2].id).toMatch(/^did:key:zQ3s/);
+    const ids = await migrationIdentifiers(MASTER);
+    expect(entries.map((e) => e.id)).toEqual([ids.nostr, ids['did:key'], entries[2].id, ids.eth, ids.btc, ids.sol]);
+    expect(signed.proofs).toHaveLength(6);
+    expect(verifyIdentityManifest(signed, { now: T })).toBe(true);
+
+    const custom = await buildIdentityManifest(MASTER, {
+      nostr: false,
+      didKey: ['secp256k1'],
+      wallets: { btc: [0, 3] },
+      appIds: ['com.example'],
+      issuedAt: T,
+    });
+    const appEntries = custom.manifest.entries.filter((e) => e.appId === 'com.example');
+    expect(custom.manifest.entries).toHaveLength(6);
+    expect(appEntries.map((e) => e.kind)).toEqual(['did:key', 'btc', 'btc']);
+    const appRoot = await deriveWalletRoot(MASTER, 'btc', { appId: 'com.example' });
+    expect(appEntries[2].id).toBe((await deriveBtcAddress(appRoot, 3)).address);
+    expect(appEntries[0].id).not.toBe(custom.manifest.entries[0].id);
+    expect(verifyIdentityManifest(custom, { now: T })).toBe(true);
+  });
+
+  it('rejects tampering, missing or foreign cross-signatures', async () => {
+    const signed = await buildIdentityManifest(MASTER, { issuedAt: T });
+    const foreign = await buildIdentityManifest(OTHER, { issuedAt: T });
+
+    const swappedEntry = clone(signed);
+    swappedEntry.manifest.entries[3] = foreign.manifest.entries[3];
+    expect(verifyIdentityManifest(swappedEntry, { now: T })).toBe(false);
+
+    const withForeign = clone(signed);
+    withForeign.manifest.entries[3] = foreign.manifest.entries[3];
+    withForeign.proofs[3] = foreign.proofs[3];
+    expect(verifyIdentityManifest(withForeign, { now: T })).toBe(false);
+
+    const missing = clone(signed);
+    missing.proofs.pop();
+    expect(verifyIdentityManifest(missing, { now: T })).toBe(false);
+
+    const badSig = clone(signed);
+    badSig.proofs[2].signature = signed.proofs[1].signature;
+    expect(verifyIdentityManifest(badSig, { now: T })).toBe(false);
+
+    expect(verifyIdentityManifest(signed, { now: T - 3600 })).toBe(false);
+    expect(verifyIdentityManifest({} as SignedIdentityManifest)).toBe(false);
+    const nullEntry = clone(signed);
+    (nullEntry.manifest.entries as unknown[]).push(null);
+    expect(verifyIdentityManifest(nullEntry, { now: T })).toBe(false);
+    await expect(buildIdentityManifest(MASTER, { nostr: false, didKey: [], wallets: {} })).rejects.toThrow(/at least one/);
+    await expect(buildIdentityManifest(MASTER, { wallets: { eth: [-1] } })).rejects.toThrow(/index/);
+  });
+
+  it('doubles as a determinism check across devices and sessions', async () => {
+    const opts = { wallets: { eth: [0, 1], sol: [2] }, appIds: ['chat'] };
+    const a = await buildIdentityManifest(MASTER, { ...opts, issuedAt: T });
+    const session = SeedIdSession.fromMasterKey(MASTER.slice());
+    const b = await buildIdentityManifest(session, { ...opts, issuedAt: T + 100 });
+    expect(identityManifestFingerprint(b.manifest)).toBe(identityManifestFingerprint(a.manifest));
+    expect(await matchIdentityManifest(session, a.manifest)).toEqual([]);
+    session.lock();
+
+    const mismatched = await matchIdentityManifest(OTHER, a.manifest);
+    expect(mismatched).toHaveLength(a.manifest.entries.length);
+    const other = await buildIdentityManifest(OTHER, { ...opts, issuedAt: T });
+    expect(identityManifestFingerprint(other.manifest)).not.toBe(identityManifestFingerprint(a.manifest));
+  });
+});
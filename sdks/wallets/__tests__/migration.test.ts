@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { SeedIdSession } from '@seedid/core';
+import {
+  createMigrationDelegation,
+  migrationIdentifiers,
+  migrationId,
+  verifyMigrationDelegation,
+  verifyMigrationChain,
+  resolveMigratedIdentifier,
+  deriveEthAddress,
+  forEthRoot,
+} from '../src/index.js';
+import type { MigrationDelegation } from '../src/index.js';
+
+const OLD = Uint8Array.from({ length: 32 }, (_, i) => i + 1);
+const NEW = Uint8Array.from({ length: 32 }, (_, i) => 200 - i);
+const NEWER = Uint8Array.from({ length: 32 }, (_, i) => (i * 5) % 256);
+const T = 1_700_000_000;
+
+function clone(d: MigrationDelegation): MigrationDelegation {
+  return JSON.parse(JSON.stringify(d));
+}
+
+describe('identity migration', () => {
+  it('links every old identifier to its new counterpart with signatures from both sides', async () => {
+    const ids = await migrationIdentifiers(OLD);
+    expect(ids.nostr).toMatch(/^npub1/);
+    expect(ids['did:key']).toMatch(/^did:key:z6Mk/);
+    expect(ids.eth).toBe((await deriveEthAddress(await forEthRoot(OLD))).address);
+    expect(ids.btc).toMatch(/^bc1q/);
+
+    const newIds = await migrationIdentifiers(NEW);
+    const delegation = await createMigrationDelegation(OLD, NEW, { issuedAt: T });
+    expect(delegation.statement.links).toEqual(
+      (['nostr', 'did:key', 'eth', 'btc', 'sol'] as const).map((kind) => ({ kind, from: ids[kind], to: newIds[kind] }))
+    );
+    expect(delegation.proofs).toHaveLength(10);
+    expect(verifyMigrationDelegation(delegation, { now: T })).toBe(true);
+    // Stable identity for the statement; it does not depend on key order after a round trip.
+    const reordered = { proofs: delegation.proofs, statement: { ...delegation.statement, links: delegation.statement.links } };
+    expect(migrationId(clone(reordered))).toBe(migrationId(delegation));
+
+    // Sessions work as sources, and a subset of kinds can be migrated.
+    const session = SeedIdSession.fromMasterKey(OLD.slice());
+    const partial = await createMigrationDelegation(session, NEW, { kinds: ['nostr', 'eth'], index: 1, issuedAt: T });
+    expect(partial.statement.links.map((l) => l.kind)).toEqual(['nostr', 'eth']);
+    expect(partial.statement.links[1].from).toBe((await migrationIdentifiers(OLD, { index: 1 })).eth);
+    expect(verifyMigrationDelegation(partial, { now: T })).toBe(true);
+    session.lock();
+  });
+
+  it('rejects tampered, one-sided or future delegations', async () => {
+    const delegation = await createMigrationDelegation(OLD, NEW, { kinds: ['did:key', 'btc', 'sol'], issuedAt: T });
+    expect(verifyMigrationDelegation(delegation, { now: T })).toBe(true);
+
+    const redirected = clone(delegation);
+    redirected.statement.links[1].to = (await migrationIdentifiers(NEWER)).btc;
+    expect(verifyMigrationDelegation(redirected, { now: T })).toBe(false);
+
+    const oldOnly = clone(delegation);
+    oldOnly.proofs = oldOnly.proofs.filter((p) => p.role === 'old');
+    expect(verifyMigrationDelegation(oldOnly, { now: T })).toBe(false);
+
+    const swapped = clone(delegation);
+    swapped.proofs[0].signature = delegation.proofs[1].signature;
+    expect(verifyMigrationDelegation(swapped, { now: T })).toBe(false);
+
+    const backdated = clone(delegation);
+    backdated.statement.issuedAt -= 1;
+    expect(verifyMigrationDelegation(backdated, { now: T })).toBe(false);
+
+    expect(verifyMigrationDelegation(delegation, { now: T - 3600 })).toBe(false);
+    expect(verifyMigrationDelegation({} as MigrationDelegation)).toBe(false);
+    const nullLink = clone(delegation);
+    (nullLink.statement.links as unknown[]).push(null);
+    expect(verifyMigrationDelegation(nullLink, { now: T })).toBe(false);
+    expect(verifyMigrationChain([nullLink], { now: T })).toBe(false);
+    await expect(createMigrationDelegation(OLD, OLD)).rejects.toThrow(/same/);
+    await expect(createMigrationDelegation(OLD, NEW, { kinds: [] })).rejects.toThrow(/at least one/);
+  });
+
+  it('follows identifiers across a chain of rotations', async () => {
+    const first = await createMigrationDelegation(OLD, NEW, { issuedAt: T });
+    const second = await createMigrationDelegation(NEW, NEWER, { issuedAt: T + 60, previous: first });
+    expect(second.statement.previous).toBe(migrationId(first));
+
+    const ids = await migrationIdentifiers(OLD);
+    const latest = await migrationIdentifiers(NEWER);
+    expect(verifyMigrationChain([first, second], { now: T + 60 })).toBe(true);
+    for (const kind of ['nostr', 'did:key', 'eth', 'btc', 'sol'] as const) {
+      expect(resolveMigratedIdentifier([first, second], ids[kind], { now: T + 60 })).toBe(latest[kind]);
+    }
+    expect(resolveMigratedIdentifier([first, second], 'unrelated', { now: T + 60 })).toBe('unrelated');
+
+    expect(verifyMigrationChain([second, first], { now: T + 60 })).toBe(false);
+    expect(verifyMigrationChain([second], { now: T + 60 })).toBe(false);
+    // A validly signed rotation that does not start where the chain left off
+    const unrelated = await createMigrationDelegation(OLD, NEWER, { issuedAt: T + 60, previous: first });
+    expect(verifyMigrationDelegation(unrelated, { now: T + 60 })).toBe(true);
+    expect(verifyMigrationChain([first, unrelated], { now: T + 60 })).toBe(false);
+    expect(() => resolveMigratedIdentifier([first, unrelated], ids.eth, { now: T + 60 })).toThrow(/Invalid migration chain/);
+    await expect(createMigrationDelegation(NEW, NEWER, { issuedAt: T, previous: first })).rejects.toThrow(/later/);
+  });
+});
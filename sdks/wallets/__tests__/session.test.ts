@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { SeedIdSession, SessionLockedError, forWallet } from '@seedid/core';
+import {
+  deriveWalletRoot,
+  forSolRoot,
+  deriveEthAddress,
+  deriveEthSigningKey,
+  deriveBtcSigningKey,
+  deriveSolSigningKey,
+  deriveSolAddressSlip10,
+  deriveBip85Hex,
+} from '../src/index.js';
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => 255 - i);
+
+function isZero(buf: Uint8Array): boolean {
+  return buf.every((b) => b === 0);
+}
+
+describe('wallet helpers with a SeedIdSession', () => {
+  it('derive the same accounts as the raw-root helpers', async () => {
+    const session = SeedIdSession.fromMasterKey(MASTER.slice());
+    const ethRoot = await forWallet(MASTER, 'eth');
+    const solRoot = await forWallet(MASTER, 'sol');
+
+    expect(await deriveWalletRoot(session, 'btc')).toEqual(await forWallet(MASTER, 'btc'));
+    expect(await forSolRoot(session)).toEqual(solRoot);
+    expect(await deriveEthAddress(session, 3)).toEqual(await deriveEthAddress(ethRoot, 3));
+    expect(await deriveSolAddressSlip10(session, { index: 2 })).toEqual(await deriveSolAddressSlip10(solRoot, { index: 2 }));
+    expect(await deriveEthSigningKey(session, 1)).toEqual(await deriveEthSigningKey(ethRoot, 1));
+    expect(await deriveBip85Hex(session, { bytes: 16 })).toBe(await deriveBip85Hex(MASTER, { bytes: 16 }));
+    session.lock();
+  });
+
+  it('wipe signing keys when the session locks', async () => {
+    const session = SeedIdSession.fromMasterKey(MASTER.slice());
+    const eth = await deriveEthSigningKey(session);
+    const btc = await deriveBtcSigningKey(session);
+    // index 0 SOL keys are the chain root itself; the session must hand out a copy
+    const sol = await deriveSolSigningKey(session, 0);
+    expect(sol.privateKey).toEqual(await forWallet(MASTER, 'sol'));
+    expect([eth, btc, sol].some((k) => isZero(k.privateKey))).toBe(false);
+
+    session.lock();
+    for (const key of [eth, btc, sol]) expect(isZero(key.privateKey)).toBe(true);
+    await expect(deriveEthAddress(session)).rejects.toThrow(SessionLockedError);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { SeedIdSession, forWallet, verifyEcdsaDigest, verifyEd25519Message } from '@seedid/core';
+import {
+  ethSigner,
+  btcSigner,
+  solSigner,
+  solSignerSlip10,
+  verifyEthMessage,
+  verifyBtcMessage,
+  verifySolMessage,
+  hashEthMessage,
+  deriveEthAddress,
+  deriveBtcAddress,
+  deriveSolAddress,
+  deriveSolAddressSlip10,
+} from '../src/index.js';
+
+function hexToBytes(hex: string): Uint8Array {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+const MASTER = Uint8Array.from({ length: 32 }, (_, i) => i * 7);
+
+describe('wallet signers', () => {
+  it('ETH: EIP-191 personal_sign', async () => {
+    // web3.js accounts.sign('Some data', '0x4c0883a6...') reference signature
+    const reference = hexToBytes(
+      'b91467e570a6466aa9e9876cbcd013baba02900b8979d43fe208a4a4f339f5fd6007e74cd82e037b800186422fc2da167c747ef045e5d18a5f5d4300f8e1a0291c'
+    );
+    expect(verifyEthMessage(reference, 'Some data', '0x2c7536E3605D9C16a7a3D7b1898e529396a65c23')).toBe(true);
+    expect(verifyEthMessage(reference, 'Some data!', '0x2c7536E3605D9C16a7a3D7b1898e529396a65c23')).toBe(false);
+
+    const root = await forWallet(MASTER, 'eth');
+    const signer = await ethSigner(root, 2);
+    expect(signer).toMatchObject({ chain: 'eth', scheme: 'ecdsa-secp256k1', address: (await deriveEthAddress(root, 2)).address });
+    const sig = await signer.signMessage('Sign in to example.com');
+    expect(sig).toHaveLength(65);
+    expect([27, 28]).toContain(sig[64]);
+    expect(verifyEthMessage(sig, 'Sign in to example.com', signer.address)).toBe(true);
+    expect(verifyEthMessage(sig, 'Sign in to example.com', (await deriveEthAddress(root, 3)).address)).toBe(false);
+
+    const digest = hashEthMessage('raw');
+    const digestSig = await signer.signDigest(digest);
+    expect(verifyEcdsaDigest(digestSig.subarray(0, 64), digest, signer.getPublicKey())).toBe(true);
+    expect(verifyEthMessage(digestSig, 'raw', signer.address)).toBe(true);
+  });
+
+  it('BTC: BIP-137 message signatures for P2WPKH', async () => {
+    const root = await forWallet(MASTER, 'btc');
+    const signer = await btcSigner(root);
+    expect(signer.address).toBe((await deriveBtcAddress(root)).address);
+    const sig = await signer.signMessage('hello bitcoin');
+    expect(sig[0]).toBeGreaterThanOrEqual(39);
+    expect(sig[0]).toBeLessThanOrEqual(40);
+    expect(verifyBtcMessage(sig, 'hello bitcoin', signer.address)).toBe(true);
+    expect(verifyBtcMessage(Buffer.from(sig).toString('base64'), 'hello bitcoin', signer.address)).toBe(true);
+    expect(verifyBtcMessage(sig, 'hello bitcoin!', signer.address)).toBe(false);
+    expect(verifyBtcMessage('not base64!', 'hello bitcoin', signer.address)).toBe(false);
+
+    const digest = new Uint8Array(32).fill(5);
+    const compact = await signer.signDigest(digest);
+    expect(compact).toHaveLength(64);
+    expect(secp256k1.verify(compact, digest, signer.getPublicKey(), { prehash: false })).toBe(true);
+  });
+
+  it('SOL: raw-message Ed25519 signatures, without wiping the caller root', async () => {
+    const root = await forWallet(MASTER, 'sol');
+    const before = root.slice();
+    const signer = await solSigner(root, 0);
+    expect(root).toEqual(before);
+    expect(signer.address).toBe((await deriveSolAddress(root, 0)).address);
+    const sig = await signer.signMessage('gm');
+    expect(verifySolMessage(sig, 'gm', signer.address)).toBe(true);
+    expect(verifyEd25519Message(sig, 'gm', signer.getPublicKey())).toBe(true);
+    expect(verifySolMessage(sig, 'gm', 'not-base58-0OIl')).toBe(false);
+
+    const phantom = await solSignerSlip10(root, { preset: 'phantom', index: 1 });
+    expect(phantom.address).toBe((await deriveSolAddressSlip10(root, { preset: 'phantom', index: 1 })).address);
+    expect(verifySolMessage(await phantom.signMessage('gm'), 'gm', phantom.address)).toBe(true);
+  });
+
+  it('are disposable and wiped by the owning session', async () => {
+    const root = await forWallet(MASTER, 'eth');
+    const signer = await ethSigner(root);
+    signer[Symbol.dispose]();
+    expect(signer.disposed).toBe(true);
+    await expect(signer.signMessage('x')).rejects.toThrow(/disposed/);
+
+    const session = SeedIdSession.fromMasterKey(MASTER.slice());
+    const signers = [await ethSigner(session), await btcSigner(session), await solSigner(session), await solSignerSlip10(session)];
+    expect(signers[0].address).toBe((await deriveEthAddress(root)).address);
+    expect(await signers[2].signMessage('gm')).toHaveLength(64);
+    session.lock();
+    for (const s of signers) {
+      expect(s.disposed).toBe(true);
+      await expect(s.signMessage('gm')).rejects.toThrow(/disposed/);
+    }
+  });
+});
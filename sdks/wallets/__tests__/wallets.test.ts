@@ -65,6 +65,15 @@ describe('@seedid/wallets root derivation', () => {
     expect(bytesToHex(e)).toBe(bytesToHex(f));
   });
 
+  it('appId option derives the app-scoped root', async () => {
+    const fx = await readFixture('wallet_eth.json');
+    const master = hexToBytes(fx.kdf.master_hex);
+    const app = await deriveWalletRoot(master, 'eth', { appId: 'com.example.chat' });
+    expect(bytesToHex(app)).toBe('9c8c70be539cddd493e9a454b2766ae649a4dfca48d9c392ae931115dff394c9');
+    expect(bytesToHex(app)).not.toBe(fx.hkdf_root_hex);
+    await expect(deriveWalletRoot(master, 'eth', { appId: 'bad/app' })).rejects.toThrow();
+  });
+
   it('validation: rejects wrong master length and unsupported chain', async () => {
     const bad = new Uint8Array(16);
     await expect(deriveWalletRoot(bad as any, 'eth')).rejects.toThrow();
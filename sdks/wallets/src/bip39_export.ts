@@ -0,0 +1,210 @@
+/**
+ * BIP-39 mnemonic export of SeedID chain roots
+ *
+ * Encodes a 32-byte chain root as a 24-word BIP-39 mnemonic (the root is the entropy) and
+ * checks what a standard wallet would derive from that mnemonic against the SeedID address
+ * functions. SeedID uses the root itself as the BIP-32 / SLIP-10 seed, while BIP-39 wallets
+ * stretch the mnemonic into a 64-byte seed with PBKDF2, so the two never meet: the export
+ * reports that gap (and keys that do import exactly) instead of handing out a mnemonic that
+ * silently opens a different wallet.
+ */
+
+import { entropyToMnemonic, mnemonicToEntropy, mnemonicToSeedSync, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+import { HDKey } from '@scure/bip32';
+import * as ed from '@noble/ed25519';
+import bs58 from 'bs58';
+import { deriveEthAddress, deriveEthSigningKey, ethAddressFromPublicKey } from './eth.js';
+import { deriveBtcAddress, btcAddressFromPublicKey } from './btc.js';
+import { deriveSolAddressSlip10, deriveSolSigningKeySlip10 } from './sol_slip10.js';
+import { parseSlip10Path, deriveSlip10Ed25519 } from './slip10.js';
+import { Chain } from './derivation.js';
+import { zeroize } from './utils.js';
+
+export interface ExportPathMapping {
+  chain: Chain;
+  /** Wallets the path mapping targets */
+  wallets: string[];
+  standard: 'BIP-44' | 'BIP-84' | 'SLIP-10';
+  /** Account path; `{index}` is the account index */
+  path: string;
+  /** SeedID function the wallet addresses are checked against */
+  seedIdFunction: 'deriveEthAddress' | 'deriveBtcAddress' | 'deriveSolAddressSlip10';
+}
+
+/** Documented path mapping between SeedID chain roots and standard wallets. */
+export const BIP39_EXPORT_PATHS: Readonly<Record<Chain, ExportPathMapping>> = Object.freeze({
+  eth: { chain: 'eth', wallets: ['MetaMask'], standard: 'BIP-44', path: "m/44'/60'/0'/0/{index}", seedIdFunction: 'deriveEthAddress' },
+  btc: { chain: 'btc', wallets: ['Sparrow'], standard: 'BIP-84', path: "m/84'/0'/0'/0/{index}", seedIdFunction: 'deriveBtcAddress' },
+  sol: { chain: 'sol', wallets: ['Phantom'], standard: 'SLIP-10', path: "m/44'/501'/{index}'/0'", seedIdFunction: 'deriveSolAddressSlip10' },
+});
+
+export interface ExportedAccount {
+  index: number;
+  path: string;
+  /** Address from the SeedID derivation of the root */
+  seedIdAddress: string;
+  /** Address a standard wallet derives after importing the mnemonic */
+  mnemonicAddress: string;
+  matches: boolean;
+}
+
+export interface CompatibilityGap {
+  code: 'root-used-as-seed';
+  message: string;
+  remedy: string;
+}
+
+/** Keys that import into the target wallet and reproduce the SeedID addresses exactly. */
+export interface DirectImport {
+  wallet: string;
+  /** bip32-xprv: master extended private key; hex-private-key / base58-keypair: one value per account */
+  format: 'bip32-xprv' | 'hex-private-key' | 'base58-keypair';
+  values: string[];
+}
+
+export interface MnemonicExport {
+  chain: Chain;
+  /** 24 words; the root is the BIP-39 entropy (mnemonicToRoot() reverses it) */
+  mnemonic: string;
+  mapping: ExportPathMapping;
+  accounts: ExportedAccount[];
+  /** True only if every checked account matches */
+  compatible: boolean;
+  gap?: CompatibilityGap;
+  directImport?: DirectImport;
+}
+
+const MAX_EXPORT_ACCOUNTS = 20;
+
+function assertRoot(root: Uint8Array): void {
+  if (!(root instanceof Uint8Array) || root.length !== 32) throw new Error('root must be 32 bytes');
+}
+
+function accountPath(mapping: ExportPathMapping, index: number): string {
+  return mapping.path.replace('{index}', String(index));
+}
+
+/**
+ * Encode a 32-byte root as a 24-word English BIP-39 mnemonic (root = entropy).
+ */
+export function rootToMnemonic(root: Uint8Array): string {
+  assertRoot(root);
+  return entropyToMnemonic(root, wordlist);
+}
+
+/**
+ * Decode a 24-word mnemonic produced by rootToMnemonic() back into the 32-byte root.
+ */
+export function mnemonicToRoot(mnemonic: string): Uint8Array {
+  if (typeof mnemonic !== 'string' || !validateMnemonic(mnemonic, wordlist)) throw new Error('Invalid BIP-39 mnemonic');
+  const root = mnemonicToEntropy(mnemonic, wordlist);
+  if (root.length !== 32) throw new Error('mnemonic must have 24 words (32-byte root)');
+  return root;
+}
+
+async function seedIdAddress(root: Uint8Array, chain: Chain, index: number): Promise<string> {
+  if (chain === 'eth') return (await deriveEthAddress(root, index)).address;
+  if (chain === 'btc') return (await deriveBtcAddress(root, index)).address;
+  return (await deriveSolAddressSlip10(root, { preset: 'phantom', index })).address;
+}
+
+async function mnemonicAddress(seed: Uint8Array, chain: Chain, path: string): Promise<string> {
+  if (chain === 'sol') {
+    const { key } = deriveSlip10Ed25519(seed, parseSlip10Path(path));
+    const publicKey = await ed.getPublicKeyAsync(key);
+    zeroize(key);
+    return bs58.encode(publicKey);
+  }
+  const derived = HDKey.fromMasterSeed(seed).derive(path);
+  if (!derived.publicKey) throw new Error('Failed to derive public key');
+  return chain === 'eth' ? ethAddressFromPublicKey(derived.publicKey) : btcAddressFromPublicKey(derived.publicKey);
+}
+
+function rootAsSeedGap(chain: Chain, mapping: ExportPathMapping): CompatibilityGap {
+  const wallet = mapping.wallets.join('/');
+  const message =
+    `SeedID derives ${chain.toUpperCase()} accounts with the chain root as the ${mapping.standard === 'SLIP-10' ? 'SLIP-10' : 'BIP-32'} seed ` +
+    `(${mapping.seedIdFunction}), whereas ${wallet} turns an imported mnemonic into a seed with ` +
+    `PBKDF2-HMAC-SHA512(mnemonic, "mnemonic", 2048). Importing this mnemonic opens a different wallet.`;
+  const remedy =
+    chain === 'btc'
+      ? `Import the master extended private key (directImport, ${wallet}: "Master Private Key (BIP32)") and choose native SegWit, ${mapping.path.replace("/0/{index}", '')}.`
+      : `Import each account's private key (directImport). Keep the mnemonic only as a backup of the root (mnemonicToRoot).`;
+  return { code: 'root-used-as-seed', message, remedy };
+}
+
+async function directImport(root: Uint8Array, chain: Chain, mapping: ExportPathMapping, count: number): Promise<DirectImport> {
+  const wallet = mapping.wallets[0];
+  if (chain === 'btc') return { wallet, format: 'bip32-xprv', values: [HDKey.fromMasterSeed(root).privateExtendedKey] };
+  const values: string[] = [];
+  for (let index = 0; index < count; index++) {
+    if (chain === 'eth') {
+      const key = await deriveEthSigningKey(root, index);
+      values.push(Array.from(key.privateKey, (b) => b.toString(16).padStart(2, '0')).join(''));
+      zeroize(key.privateKey);
+    } else {
+      const key = await deriveSolSigningKeySlip10(root, { preset: 'phantom', index });
+      const keypair = new Uint8Array(64);
+      keypair.set(key.privateKey);
+      keypair.set(key.publicKey, 32);
+      values.push(bs58.encode(keypair));
+      zeroize(keypair);
+      zeroize(key.privateKey);
+    }
+  }
+  return { wallet, format: chain === 'eth' ? 'hex-private-key' : 'base58-keypair', values };
+}
+
+/**
+ * Export a chain root as a 24-word BIP-39 mnemonic and verify it against standard wallet
+ * derivation for the first `accounts` indices (default 1).
+ *
+ * When the standard derivation does not reproduce the SeedID addresses, the result carries
+ * `compatible: false`, a `gap` explanation and `directImport` keys that do match.
+ *
+ * ⚠️ The mnemonic and directImport values are secret key material.
+ *
+ * @example
+ * const exp = await exportRootMnemonic(await forEthRoot(master), 'eth');
+ * if (!exp.compatible) console.warn(exp.gap.message, exp.gap.remedy);
+ */
+export async function exportRootMnemonic(
+  root: Uint8Array,
+  chain: Chain,
+  opts?: { accounts?: number }
+): Promise<MnemonicExport> {
+  assertRoot(root);
+  const mapping = BIP39_EXPORT_PATHS[chain];
+  if (!mapping) throw new Error(`Unsupported chain: ${String(chain)}`);
+  const count = opts?.accounts ?? 1;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_EXPORT_ACCOUNTS) {
+    throw new Error(`accounts must be an integer 1..${MAX_EXPORT_ACCOUNTS}`);
+  }
+
+  const mnemonic = rootToMnemonic(root);
+  const seed = mnemonicToSeedSync(mnemonic);
+  const accounts: ExportedAccount[] = [];
+  try {
+    for (let index = 0; index < count; index++) {
+      const path = accountPath(mapping, index);
+      const ours = await seedIdAddress(root, chain, index);
+      const theirs = await mnemonicAddress(seed, chain, path);
+      accounts.push({ index, path, seedIdAddress: ours, mnemonicAddress: theirs, matches: ours === theirs });
+    }
+  } finally {
+    zeroize(seed);
+  }
+
+  const compatible = accounts.every((a) => a.matches);
+  if (compatible) return { chain, mnemonic, mapping, accounts, compatible };
+  return {
+    chain,
+    mnemonic,
+    mapping,
+    accounts,
+    compatible,
+    gap: rootAsSeedGap(chain, mapping),
+    directImport: await directImport(root, chain, mapping, count),
+  };
+}
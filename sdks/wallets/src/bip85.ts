@@ -0,0 +1,170 @@
+/**
+ * BIP-85 deterministic child entropy
+ *
+ * Seeds other tools (hardware wallets, password managers, other HD wallets) from one SeedID
+ * without exposing the master: the BIP-85 master node is HDKey.fromMasterSeed(forBip85(master))
+ * (HKDF label `seedid/v1/bip85`), and each application derives its own hardened child under
+ * m/83696968'. Child entropy cannot be used to recover the master or sibling children.
+ * Spec: https://github.com/bitcoin/bips/blob/master/bip-0085.mediawiki
+ */
+
+import { HDKey } from '@scure/bip32';
+import { entropyToMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+import { hmac } from '@noble/hashes/hmac.js';
+import { sha256, sha512 } from '@noble/hashes/sha2.js';
+import bs58 from 'bs58';
+import { forBip85, isSeedIdSession } from '@seedid/core';
+import type { SeedIdSession } from '@seedid/core';
+import { release, zeroize } from './utils.js';
+
+export const BIP85_PURPOSE = 83696968;
+
+/**
+ * Entropy source: a 32-byte SeedID master key (from deriveMasterKey), a SeedIdSession, or a
+ * BIP-32 master xprv (e.g. to check the published BIP-85 vectors).
+ */
+export type Bip85Source = Uint8Array | SeedIdSession | string;
+
+export type Bip85MnemonicWords = 12 | 15 | 18 | 21 | 24;
+
+const HARDENED_MAX = 0x7fffffff;
+const ENTROPY_KEY = new TextEncoder().encode('bip-entropy-from-k');
+const MNEMONIC_BYTES: Record<Bip85MnemonicWords, number> = { 12: 16, 15: 20, 18: 24, 21: 28, 24: 32 };
+const ENGLISH = 0;
+
+function assertIndex(name: string, value: number, min = 0, max = HARDENED_MAX): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${name} must be an integer ${min}..${max}`);
+  }
+}
+
+async function masterNode(source: Bip85Source): Promise<HDKey> {
+  if (typeof source === 'string') {
+    const node = HDKey.fromExtendedKey(source);
+    if (!node.privateKey || node.depth !== 0) throw new Error('BIP-85 source must be a master xprv');
+    return node;
+  }
+  if (!isSeedIdSession(source) && (!(source instanceof Uint8Array) || source.length !== 32)) {
+    throw new Error('master key must be 32 bytes');
+  }
+  const root = await forBip85(source);
+  try {
+    return HDKey.fromMasterSeed(root);
+  } finally {
+    release(root);
+  }
+}
+
+/**
+ * 64 bytes of BIP-85 entropy for a hardened path under m/83696968', e.g. [39, 0, 12, 0].
+ * HMAC-SHA512(key = "bip-entropy-from-k", data = private key of m/83696968'/path').
+ */
+export async function deriveBip85Entropy(source: Bip85Source, path: number[]): Promise<Uint8Array> {
+  if (!Array.isArray(path) || path.length === 0) throw new Error('BIP-85 path must be a non-empty array');
+  path.forEach((i) => assertIndex('BIP-85 path index', i));
+  const node = await masterNode(source);
+  const derived = node.derive(`m/${[BIP85_PURPOSE, ...path].map((i) => `${i}'`).join('/')}`);
+  if (!derived.privateKey) throw new Error('Failed to derive private key');
+  const entropy = hmac(sha512, ENTROPY_KEY, derived.privateKey);
+  derived.wipePrivateData();
+  node.wipePrivateData();
+  return entropy;
+}
+
+async function entropyFor(source: Bip85Source, path: number[], length: number): Promise<Uint8Array> {
+  const entropy = await deriveBip85Entropy(source, path);
+  const out = entropy.slice(0, length);
+  zeroize(entropy);
+  return out;
+}
+
+/**
+ * BIP39 application (39'): an English mnemonic at m/83696968'/39'/0'/{words}'/{index}'.
+ */
+export async function deriveBip85Mnemonic(
+  source: Bip85Source,
+  opts?: { words?: Bip85MnemonicWords; index?: number }
+): Promise<string> {
+  const words = opts?.words ?? 12;
+  const index = opts?.index ?? 0;
+  const length = MNEMONIC_BYTES[words];
+  if (!length) throw new Error('words must be 12, 15, 18, 21 or 24');
+  assertIndex('index', index);
+  const entropy = await entropyFor(source, [39, ENGLISH, words, index], length);
+  try {
+    return entropyToMnemonic(entropy, wordlist);
+  } finally {
+    zeroize(entropy);
+  }
+}
+
+/**
+ * HD-Seed WIF application (2'): a compressed mainnet WIF private key at m/83696968'/2'/{index}'.
+ */
+export async function deriveBip85Wif(source: Bip85Source, opts?: { index?: number }): Promise<string> {
+  const index = opts?.index ?? 0;
+  assertIndex('index', index);
+  const key = await entropyFor(source, [2, index], 32);
+  // 0x80 || key || 0x01 (compressed) || checksum
+  const payload = new Uint8Array(34);
+  payload[0] = 0x80;
+  payload.set(key, 1);
+  payload[33] = 0x01;
+  const checksum = sha256(sha256(payload)).slice(0, 4);
+  const full = new Uint8Array(38);
+  full.set(payload);
+  full.set(checksum, 34);
+  const wif = bs58.encode(full);
+  zeroize(key);
+  zeroize(payload);
+  zeroize(full);
+  return wif;
+}
+
+/**
+ * XPRV application (32'): a master extended private key at m/83696968'/32'/{index}'.
+ * The first 32 bytes of entropy are the chain code, the second 32 bytes the private key.
+ */
+export async function deriveBip85Xprv(source: Bip85Source, opts?: { index?: number }): Promise<string> {
+  const index = opts?.index ?? 0;
+  assertIndex('index', index);
+  const entropy = await deriveBip85Entropy(source, [32, index]);
+  try {
+    return new HDKey({ chainCode: entropy.slice(0, 32), privateKey: entropy.slice(32, 64) }).privateExtendedKey;
+  } finally {
+    zeroize(entropy);
+  }
+}
+
+/**
+ * HEX application (128169'): 16..64 bytes at m/83696968'/128169'/{bytes}'/{index}', lowercase hex.
+ */
+export async function deriveBip85Hex(source: Bip85Source, opts?: { bytes?: number; index?: number }): Promise<string> {
+  const bytes = opts?.bytes ?? 32;
+  const index = opts?.index ?? 0;
+  assertIndex('bytes', bytes, 16, 64);
+  assertIndex('index', index);
+  const entropy = await entropyFor(source, [128169, bytes, index], bytes);
+  const hex = Array.from(entropy, (b) => b.toString(16).padStart(2, '0')).join('');
+  zeroize(entropy);
+  return hex;
+}
+
+/**
+ * PWD BASE64 application (707764'): a 20..86 character password at
+ * m/83696968'/707764'/{length}'/{index}' (base64 of all 64 bytes, truncated).
+ */
+export async function deriveBip85PasswordBase64(
+  source: Bip85Source,
+  opts?: { length?: number; index?: number }
+): Promise<string> {
+  const length = opts?.length ?? 21;
+  const index = opts?.index ?? 0;
+  assertIndex('length', length, 20, 86);
+  assertIndex('index', index);
+  const entropy = await deriveBip85Entropy(source, [707764, length, index]);
+  const password = btoa(String.fromCharCode(...entropy)).slice(0, length);
+  zeroize(entropy);
+  return password;
+}
@@ -10,6 +10,8 @@ import { sha256 } from '@noble/hashes/sha2.js';
 import { ripemd160 } from '@noble/hashes/legacy.js';
 import { bech32 } from 'bech32';
 import { WalletAccount, SigningKey } from './derivation.js';
+import { withSessionRoot, withSessionSigningKey } from './utils.js';
+import type { RootSource } from './utils.js';
 
 /**
  * Compute HASH160 (SHA-256 then RIPEMD-160) of data.
@@ -40,6 +42,14 @@ function encodeBech32(
   return bech32.encode(hrp, data, encoding as any);
 }
 
+/**
+ * Native SegWit (P2WPKH) mainnet address of a compressed public key.
+ */
+export function btcAddressFromPublicKey(publicKey: Uint8Array): string {
+  // P2WPKH: witness version 0, hash160 of pubkey
+  return encodeBech32(0, hash160(publicKey), 'bc');
+}
+
 /**
  * Derive a Bitcoin SegWit (P2WPKH) address from a wallet root.
  *
@@ -56,9 +66,11 @@ function encodeBech32(
  * console.log(account.address); // bc1q...
  */
 export async function deriveBtcAddress(
-  root: Uint8Array,
+  root: RootSource,
   index: number = 0
 ): Promise<WalletAccount> {
+  const fromSession = await withSessionRoot(root, 'btc', (r) => deriveBtcAddress(r, index));
+  if (fromSession) return fromSession;
   if (!(root instanceof Uint8Array) || root.length !== 32) throw new Error('BTC root must be 32 bytes');
   if (!Number.isInteger(index) || index < 0) throw new Error('index must be a non-negative integer');
 
@@ -76,9 +88,7 @@ export async function deriveBtcAddress(
   // Get compressed public key (33 bytes)
   const pubkey = derived.publicKey;
 
-  // P2WPKH: witness version 0, hash160 of pubkey
-  const witnessProgram = hash160(pubkey);
-  const address = encodeBech32(0, witnessProgram, 'bc');
+  const address = btcAddressFromPublicKey(pubkey);
 
   return {
     address,
@@ -93,15 +103,18 @@ export async function deriveBtcAddress(
  * - Keep private keys in memory only
  * - Use zeroize() to clear after signing
  * - Never log or transmit private keys
+ * Prefer btcSigner() (./signers.ts), which signs without exposing the key.
  *
  * @param root 32-byte BTC root from forWallet(master, 'btc')
  * @param index Account index (default 0)
  * @returns SigningKey with private key included
  */
 export async function deriveBtcSigningKey(
-  root: Uint8Array,
+  root: RootSource,
   index: number = 0
 ): Promise<SigningKey> {
+  const fromSession = await withSessionSigningKey(root, 'btc', (r) => deriveBtcSigningKey(r, index));
+  if (fromSession) return fromSession;
   if (!(root instanceof Uint8Array) || root.length !== 32) throw new Error('BTC root must be 32 bytes');
   if (!Number.isInteger(index) || index < 0) throw new Error('index must be a non-negative integer');
 
@@ -119,9 +132,7 @@ export async function deriveBtcSigningKey(
   // Get compressed public key (33 bytes)
   const pubkey = derived.publicKey;
 
-  // P2WPKH: witness version 0, hash160 of pubkey
-  const witnessProgram = hash160(pubkey);
-  const address = encodeBech32(0, witnessProgram, 'bc');
+  const address = btcAddressFromPublicKey(pubkey);
 
   return {
     privateKey: derived.privateKey,
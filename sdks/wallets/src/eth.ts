@@ -9,6 +9,8 @@ import { HDKey } from '@scure/bip32';
 import { keccak_256 } from '@noble/hashes/sha3.js';
 import { Point } from '@noble/secp256k1';
 import { WalletAccount, SigningKey } from './derivation.js';
+import { withSessionRoot, withSessionSigningKey } from './utils.js';
+import type { RootSource } from './utils.js';
 
 /**
  * Apply EIP-55 checksum encoding to an Ethereum address.
@@ -31,6 +33,26 @@ function toChecksumAddress(address: string): string {
   return checksumAddr;
 }
 
+/**
+ * EIP-55 address of a compressed (33-byte) secp256k1 public key.
+ */
+export function ethAddressFromPublicKey(publicKey: Uint8Array): string {
+  // Decompress compressed pubkey (33 bytes) to uncompressed (65 bytes), then strip 0x04 prefix
+  const uncompressed = Point.fromHex(publicKey).toRawBytes(false);
+  const pubkey = uncompressed.slice(1); // 64 bytes (x||y)
+  
+  // Keccak-256 hash of public key, take last 20 bytes
+  const hash = keccak_256(pubkey);
+  const addressBytes = hash.slice(-20);
+  
+  // Convert to hex and apply EIP-55 checksum
+  let addressHex = '';
+  for (let i = 0; i < addressBytes.length; i++) {
+    addressHex += addressBytes[i].toString(16).padStart(2, '0');
+  }
+  return toChecksumAddress('0x' + addressHex);
+}
+
 /**
  * Derive an Ethereum address from a wallet root.
  * 
@@ -44,9 +66,11 @@ function toChecksumAddress(address: string): string {
  * console.log(account.address); // 0x742d35Cc...
  */
 export async function deriveEthAddress(
-  root: Uint8Array,
+  root: RootSource,
   index: number = 0
 ): Promise<WalletAccount> {
+  const fromSession = await withSessionRoot(root, 'eth', (r) => deriveEthAddress(r, index));
+  if (fromSession) return fromSession;
   if (!(root instanceof Uint8Array) || root.length !== 32) throw new Error('ETH root must be 32 bytes');
   if (!Number.isInteger(index) || index < 0) throw new Error('index must be a non-negative integer');
 
@@ -61,20 +85,7 @@ export async function deriveEthAddress(
     throw new Error('Failed to derive public key');
   }
   
-  // Decompress compressed pubkey (33 bytes) to uncompressed (65 bytes), then strip 0x04 prefix
-  const uncompressed = Point.fromHex(derived.publicKey).toRawBytes(false);
-  const pubkey = uncompressed.slice(1); // 64 bytes (x||y)
-  
-  // Keccak-256 hash of public key, take last 20 bytes
-  const hash = keccak_256(pubkey);
-  const addressBytes = hash.slice(-20);
-  
-  // Convert to hex and apply EIP-55 checksum
-  let addressHex = '';
-  for (let i = 0; i < addressBytes.length; i++) {
-    addressHex += addressBytes[i].toString(16).padStart(2, '0');
-  }
-  const address = toChecksumAddress('0x' + addressHex);
+  const address = ethAddressFromPublicKey(derived.publicKey);
   
   return {
     address,
@@ -89,15 +100,18 @@ export async function deriveEthAddress(
  * - Keep private keys in memory only
  * - Use zeroize() to clear after signing
  * - Never log or transmit private keys
+ * Prefer ethSigner() (./signers.ts), which signs without exposing the key.
  * 
  * @param root 32-byte ETH root from forWallet(master, 'eth')
  * @param index Account index (default 0)
  * @returns SigningKey with private key included
  */
 export async function deriveEthSigningKey(
-  root: Uint8Array,
+  root: RootSource,
   index: number = 0
 ): Promise<SigningKey> {
+  const fromSession = await withSessionSigningKey(root, 'eth', (r) => deriveEthSigningKey(r, index));
+  if (fromSession) return fromSession;
   if (!(root instanceof Uint8Array) || root.length !== 32) throw new Error('ETH root must be 32 bytes');
   if (!Number.isInteger(index) || index < 0) throw new Error('index must be a non-negative integer');
 
@@ -112,20 +126,7 @@ export async function deriveEthSigningKey(
     throw new Error('Failed to derive keys');
   }
   
-  // Decompress compressed pubkey to uncompressed and strip 0x04
-  const uncompressed = Point.fromHex(derived.publicKey).toRawBytes(false);
-  const pubkey = uncompressed.slice(1);
-  
-  // Keccak-256 hash of public key, take last 20 bytes
-  const hash = keccak_256(pubkey);
-  const addressBytes = hash.slice(-20);
-  
-  // Convert to hex and apply EIP-55 checksum
-  let addressHex = '';
-  for (let i = 0; i < addressBytes.length; i++) {
-    addressHex += addressBytes[i].toString(16).padStart(2, '0');
-  }
-  const address = toChecksumAddress('0x' + addressHex);
+  const address = ethAddressFromPublicKey(derived.publicKey);
   
   return {
     privateKey: derived.privateKey,
@@ -0,0 +1,118 @@
+/**
+ * Public identifiers of a SeedID and the signers behind them, shared by the migration and
+ * manifest modules. Each identifier signs with its own scheme:
+ *
+ * - nostr (npub): BIP-340 over SHA-256(message), as core's nostrSigner
+ * - did:key: Ed25519 over the message, or ECDSA secp256k1 over SHA-256(message) (64-byte compact)
+ * - eth: EIP-191 personal_sign; btc: BIP-137; sol: Ed25519 over the raw message
+ */
+
+import { bech32 } from 'bech32';
+import {
+  decodeDidKey,
+  didKeySigner,
+  forAppWallet,
+  forWallet,
+  nostrSigner,
+  verifyEcdsaMessage,
+  verifyEd25519Message,
+  verifySchnorrMessage,
+} from '@seedid/core';
+import type { DecodedDidKey, DidKeyCurve, MasterKeySource, Signer, SignerMessage } from '@seedid/core';
+import { ethSigner, btcSigner, solSigner, verifyEthMessage, verifyBtcMessage, verifySolMessage } from './signers.js';
+import type { Chain } from './derivation.js';
+import { release } from './utils.js';
+
+export type IdentifierKind = 'nostr' | 'did:key' | Chain;
+
+export type IdentifierSpec = {
+  kind: IdentifierKind;
+  /** did:key only (default ed25519). */
+  curve?: DidKeyCurve;
+  /** Account index, wallets only (default 0). */
+  index?: number;
+  /** App-scoped identifier (`.../app:<appId>` roots). */
+  appId?: string;
+};
+
+export type IdentifierSigner = Signer & { readonly id: string };
+
+export function npubOf(publicKey: Uint8Array): string {
+  return bech32.encode('npub', bech32.toWords(publicKey));
+}
+
+export function npubPublicKey(npub: string): Uint8Array | null {
+  try {
+    const { prefix, words } = bech32.decode(npub);
+    const bytes = Uint8Array.from(bech32.fromWords(words));
+    return prefix === 'npub' && bytes.length === 32 ? bytes : null;
+  } catch {
+    return null;
+  }
+}
+
+const walletFactories: Record<Chain, typeof ethSigner> = { eth: ethSigner, btc: btcSigner, sol: solSigner };
+
+function withId<S extends Signer>(signer: S, id: string): S & { readonly id: string } {
+  return Object.assign(signer, { id });
+}
+
+/** Signer for one identifier of `master`; the caller disposes it. */
+export async function identifierSigner(master: MasterKeySource, spec: IdentifierSpec): Promise<IdentifierSigner> {
+  switch (spec.kind) {
+    case 'nostr': {
+      const signer = await nostrSigner(master, spec.appId !== undefined ? { appId: spec.appId } : undefined);
+      return withId(signer, npubOf(signer.getPublicKey()));
+    }
+    case 'did:key': {
+      const signer = await didKeySigner(master, spec.curve ?? 'ed25519', spec.appId !== undefined ? { appId: spec.appId } : undefined);
+      return withId(signer, signer.did);
+    }
+    case 'eth':
+    case 'btc':
+    case 'sol': {
+      const root = spec.appId !== undefined ? await forAppWallet(master, spec.kind, spec.appId) : await forWallet(master, spec.kind);
+      try {
+        const signer = await walletFactories[spec.kind](root, spec.index ?? 0);
+        return withId(signer, signer.address);
+      } finally {
+        release(root);
+      }
+    }
+    default:
+      throw new Error(`Unsupported identifier kind: ${String((spec as IdentifierSpec).kind)}`);
+  }
+}
+
+/** Verify a signature made by identifierSigner() against the public identifier alone. */
+export function verifyIdentifierSignature(
+  kind: IdentifierKind,
+  id: string,
+  signature: Uint8Array,
+  message: SignerMessage
+): boolean {
+  switch (kind) {
+    case 'nostr': {
+      const publicKey = npubPublicKey(id);
+      return !!publicKey && verifySchnorrMessage(signature, message, publicKey);
+    }
+    case 'did:key': {
+      let key: DecodedDidKey;
+      try {
+        key = decodeDidKey(id);
+      } catch {
+        return false;
+      }
+      if (key.curve === 'ed25519') return verifyEd25519Message(signature, message, key.publicKey);
+      return signature.length === 64 && verifyEcdsaMessage(signature, message, key.publicKey);
+    }
+    case 'eth':
+      return verifyEthMessage(signature, message, id);
+    case 'btc':
+      return verifyBtcMessage(signature, message, id);
+    case 'sol':
+      return verifySolMessage(signature, message, id);
+    default:
+      return false;
+  }
+}
@@ -1,4 +1,5 @@
-import { forWallet } from '@seedid/core';
+import { forWallet, forAppWallet, isSeedIdSession } from '@seedid/core';
+import type { MasterKeySource } from '@seedid/core';
 
 export type Chain = 'eth' | 'btc' | 'sol';
 
@@ -6,33 +7,37 @@ export type Chain = 'eth' | 'btc' | 'sol';
  * Derive per-chain root material from a 32-byte SeedID master key.
  * Delegates to @seedid/core canonical HKDF labels via forWallet().
  *
- * @param master 32-byte master key derived via @seedid/core
+ * @param master 32-byte master key derived via @seedid/core, or a SeedIdSession (the root is then
+ *   wiped when the session locks)
  * @param chain 'eth' | 'btc' | 'sol'
+ * @param opts.appId Optional app id; derives the app-scoped root (`seedid/v1/wallet:<chain>/app:<app-id>`)
  * @returns 32-byte chain root material
  */
-export async function deriveWalletRoot(master: Uint8Array, chain: Chain): Promise<Uint8Array> {
-  if (master.length !== 32) throw new Error('master key must be 32 bytes');
+export async function deriveWalletRoot(
+  master: MasterKeySource,
+  chain: Chain,
+  opts?: { appId?: string }
+): Promise<Uint8Array> {
+  if (!isSeedIdSession(master) && master.length !== 32) throw new Error('master key must be 32 bytes');
   if (chain !== 'eth' && chain !== 'btc' && chain !== 'sol') {
     throw new Error(`Unsupported chain: ${String(chain)}`);
   }
+  if (opts?.appId !== undefined) return forAppWallet(master, chain, opts.appId);
   return forWallet(master, chain);
 }
 
 /** Convenience wrapper for ETH root */
-export async function forEthRoot(master: Uint8Array): Promise<Uint8Array> {
-  if (master.length !== 32) throw new Error('master key must be 32 bytes');
+export async function forEthRoot(master: MasterKeySource): Promise<Uint8Array> {
   return deriveWalletRoot(master, 'eth');
 }
 
 /** Convenience wrapper for BTC root */
-export async function forBtcRoot(master: Uint8Array): Promise<Uint8Array> {
-  if (master.length !== 32) throw new Error('master key must be 32 bytes');
+export async function forBtcRoot(master: MasterKeySource): Promise<Uint8Array> {
   return deriveWalletRoot(master, 'btc');
 }
 
 /** Convenience wrapper for SOL root */
-export async function forSolRoot(master: Uint8Array): Promise<Uint8Array> {
-  if (master.length !== 32) throw new Error('master key must be 32 bytes');
+export async function forSolRoot(master: MasterKeySource): Promise<Uint8Array> {
   return deriveWalletRoot(master, 'sol');
 }
 
@@ -42,4 +47,71 @@ export { deriveBtcAddress, deriveBtcSigningKey } from './btc.js';
 export { deriveSolAddress, deriveSolSigningKey } from './sol.js';
 export { deriveSolAddressSlip10, deriveSolSigningKeySlip10 } from './sol_slip10.js';
 export type { SolDerivationPreset, SolDerivationOptions } from './sol_slip10.js';
+export {
+  ethSigner,
+  btcSigner,
+  solSigner,
+  solSignerSlip10,
+  verifyEthMessage,
+  verifyBtcMessage,
+  verifySolMessage,
+  hashEthMessage,
+  hashBtcMessage,
+} from './signers.js';
+export type { WalletSigner } from './signers.js';
 export { zeroize } from './utils.js';
+export type { RootSource } from './utils.js';
+export { rootToMnemonic, mnemonicToRoot, exportRootMnemonic, BIP39_EXPORT_PATHS } from './bip39_export.js';
+export type { MnemonicExport, ExportPathMapping, ExportedAccount, CompatibilityGap, DirectImport } from './bip39_export.js';
+export {
+  BIP85_PURPOSE,
+  deriveBip85Entropy,
+  deriveBip85Mnemonic,
+  deriveBip85Wif,
+  deriveBip85Xprv,
+  deriveBip85Hex,
+  deriveBip85PasswordBase64,
+} from './bip85.js';
+export type { Bip85Source, Bip85MnemonicWords } from './bip85.js';
+export {
+  MIGRATION_TYPE,
+  MIGRATION_VERSION,
+  MIGRATION_CLOCK_SKEW_SEC,
+  MIGRATION_IDENTIFIER_KINDS,
+  migrationIdentifiers,
+  migrationStatementBytes,
+  migrationId,
+  createMigrationDelegation,
+  verifyMigrationDelegation,
+  verifyMigrationChain,
+  resolveMigratedIdentifier,
+} from './migration.js';
+export type {
+  MigrationIdentifierKind,
+  MigrationIdentifiers,
+  MigrationLink,
+  MigrationStatement,
+  MigrationProof,
+  MigrationDelegation,
+  MigrationOptions,
+  MigrationVerifyOptions,
+} from './migration.js';
+export {
+  MANIFEST_TYPE,
+  MANIFEST_VERSION,
+  MANIFEST_CLOCK_SKEW_SEC,
+  buildIdentityManifest,
+  verifyIdentityManifest,
+  matchIdentityManifest,
+  identityManifestBytes,
+  identityManifestFingerprint,
+} from './manifest.js';
+export type {
+  ManifestEntry,
+  IdentityManifest,
+  ManifestProof,
+  SignedIdentityManifest,
+  ManifestOptions,
+  ManifestVerifyOptions,
+} from './manifest.js';
+export type { IdentifierKind } from './identifiers.js';
@@ -0,0 +1,185 @@
+/**
+ * Identity manifest
+ *
+ * One signed document listing the public identifiers derived from a master key: the Nostr npub,
+ * did:key (Ed25519 and secp256k1), ETH/BTC/SOL addresses at chosen indices, and the same set for
+ * any app ids. Every identifier signs the canonical manifest with its own scheme (see
+ * identifiers.ts), so verifyIdentityManifest() proves one holder controls all of them.
+ *
+ * Signatures are not all deterministic (BIP-340 uses fresh aux randomness), but the entries are:
+ * identityManifestFingerprint() and matchIdentityManifest() compare devices or passphrase
+ * re-entries without exposing any key.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { canonicalJson } from '@seedid/core';
+import type { DidKeyCurve, MasterKeySource } from '@seedid/core';
+import { identifierSigner, verifyIdentifierSignature } from './identifiers.js';
+import type { IdentifierKind, IdentifierSigner, IdentifierSpec } from './identifiers.js';
+import type { Chain } from './derivation.js';
+
+export const MANIFEST_TYPE = 'seedid-manifest' as const;
+export const MANIFEST_VERSION = 1 as const;
+/** How far in the future (seconds) a manifest's issuedAt may be before it is rejected. */
+export const MANIFEST_CLOCK_SKEW_SEC = 300;
+
+/** One identifier and how it was derived. `curve` is set for did:key, `index` for wallets. */
+export type ManifestEntry = {
+  kind: IdentifierKind;
+  id: string;
+  curve?: DidKeyCurve;
+  index?: number;
+  appId?: string;
+};
+
+export type IdentityManifest = {
+  type: typeof MANIFEST_TYPE;
+  version: typeof MANIFEST_VERSION;
+  /** Unix seconds. */
+  issuedAt: number;
+  entries: ManifestEntry[];
+};
+
+/** Signature (hex) over identityManifestBytes() by the entry with this id. */
+export type ManifestProof = { id: string; signature: string };
+
+export type SignedIdentityManifest = { manifest: IdentityManifest; proofs: ManifestProof[] };
+
+export type ManifestOptions = {
+  /** Include the Nostr key (default true). */
+  nostr?: boolean;
+  /** did:key curves to include (default both). */
+  didKey?: DidKeyCurve[];
+  /** Account indices per chain (default index 0 on each chain; `[]` omits a chain). */
+  wallets?: Partial<Record<Chain, number[]>>;
+  /** Also include the app-scoped identifiers of each app id, with the same selection. */
+  appIds?: string[];
+  /** Unix seconds (default: now). */
+  issuedAt?: number;
+};
+
+export type ManifestVerifyOptions = {
+  /** Unix seconds used for the clock-skew check (default: now). */
+  now?: number;
+};
+
+const CHAINS: readonly Chain[] = ['eth', 'btc', 'sol'];
+const KINDS: readonly IdentifierKind[] = ['nostr', 'did:key', ...CHAINS];
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function specs(opts?: ManifestOptions): IdentifierSpec[] {
+  const wallets = opts?.wallets ?? { eth: [0], btc: [0], sol: [0] };
+  const scoped = (appId?: string): IdentifierSpec[] => {
+    const app = appId !== undefined ? { appId } : {};
+    const out: IdentifierSpec[] = [];
+    if (opts?.nostr ?? true) out.push({ kind: 'nostr', ...app });
+    for (const curve of opts?.didKey ?? ['ed25519', 'secp256k1']) out.push({ kind: 'did:key', curve, ...app });
+    for (const chain of CHAINS) {
+      for (const index of wallets[chain] ?? []) {
+        if (!Number.isInteger(index) || index < 0 || index > 0x7fffffff) throw new Error(`Invalid ${chain} account index: ${index}`);
+        out.push({ kind: chain, index, ...app });
+      }
+    }
+    return out;
+  };
+  const out = [...scoped(), ...(opts?.appIds ?? []).flatMap((appId) => scoped(appId))];
+  if (out.length === 0) throw new Error('A manifest needs at least one identifier');
+  return out;
+}
+
+function entryOf(spec: IdentifierSpec, id: string): ManifestEntry {
+  return { ...spec, id };
+}
+
+function specOf(entry: ManifestEntry): IdentifierSpec {
+  const { id: _id, ...spec } = entry;
+  return spec;
+}
+
+/** The exact bytes every proof signs: canonical (sorted-key) JSON of the manifest. */
+export function identityManifestBytes(manifest: IdentityManifest): Uint8Array {
+  return new TextEncoder().encode(canonicalJson(manifest));
+}
+
+/**
+ * Hex SHA-256 of the entries alone (not issuedAt): the same master key and options give the same
+ * fingerprint on every device.
+ */
+export function identityManifestFingerprint(manifest: IdentityManifest): string {
+  return bytesToHex(sha256(new TextEncoder().encode(canonicalJson(manifest.entries))));
+}
+
+/** Collect the selected identifiers of `master` and have each of them sign the manifest. */
+export async function buildIdentityManifest(master: MasterKeySource, opts?: ManifestOptions): Promise<SignedIdentityManifest> {
+  const issuedAt = opts?.issuedAt ?? now();
+  if (!Number.isSafeInteger(issuedAt) || issuedAt < 0) throw new Error('issuedAt must be unix seconds');
+  const signers: IdentifierSigner[] = [];
+  try {
+    const entries: ManifestEntry[] = [];
+    for (const spec of specs(opts)) {
+      const signer = await identifierSigner(master, spec);
+      signers.push(signer);
+      entries.push(entryOf(spec, signer.id));
+    }
+    if (new Set(entries.map((e) => e.id)).size !== entries.length) throw new Error('Duplicate identifier in manifest');
+    const manifest: IdentityManifest = { type: MANIFEST_TYPE, version: MANIFEST_VERSION, issuedAt, entries };
+    const message = identityManifestBytes(manifest);
+    const proofs: ManifestProof[] = [];
+    for (const signer of signers) proofs.push({ id: signer.id, signature: bytesToHex(await signer.signMessage(message)) });
+    return { manifest, proofs };
+  } finally {
+    for (const signer of signers) signer.dispose();
+  }
+}
+
+function wellFormed(signed: SignedIdentityManifest): boolean {
+  const manifest = signed?.manifest;
+  if (!manifest || manifest.type !== MANIFEST_TYPE || manifest.version !== MANIFEST_VERSION) return false;
+  if (!Number.isSafeInteger(manifest.issuedAt) || manifest.issuedAt < 0) return false;
+  if (!Array.isArray(manifest.entries) || manifest.entries.length === 0 || !Array.isArray(signed.proofs)) return false;
+  const ids = manifest.entries.map((e) => e?.id);
+  if (new Set(ids).size !== ids.length) return false;
+  return manifest.entries.every((e) => e != null && KINDS.includes(e.kind) && typeof e.id === 'string');
+}
+
+/**
+ * Check every cross-signature: one valid proof per entry from that entry's identifier, no other
+ * proofs, and an issuedAt that is not in the future.
+ */
+export function verifyIdentityManifest(signed: SignedIdentityManifest, opts?: ManifestVerifyOptions): boolean {
+  if (!wellFormed(signed)) return false;
+  const { manifest, proofs } = signed;
+  if (manifest.issuedAt > (opts?.now ?? now()) + MANIFEST_CLOCK_SKEW_SEC) return false;
+  if (proofs.length !== manifest.entries.length) return false;
+  const message = identityManifestBytes(manifest);
+  return manifest.entries.every((entry) => {
+    const matching = proofs.filter((p) => p?.id === entry.id);
+    if (matching.length !== 1 || typeof matching[0].signature !== 'string' || !/^([0-9a-f]{2})+$/.test(matching[0].signature)) {
+      return false;
+    }
+    return verifyIdentifierSignature(entry.kind, entry.id, hexToBytes(matching[0].signature), message);
+  });
+}
+
+/**
+ * Re-derive every entry of `manifest` from `master` and return the entries that differ (an empty
+ * array means this master key produces exactly this manifest). Use it as a cross-device
+ * determinism check, or to confirm a passphrase before relying on a stored manifest.
+ */
+export async function matchIdentityManifest(master: MasterKeySource, manifest: IdentityManifest): Promise<ManifestEntry[]> {
+  const mismatched: ManifestEntry[] = [];
+  for (const entry of manifest.entries) {
+    let id: string | undefined;
+    try {
+      const signer = await identifierSigner(master, specOf(entry));
+      id = signer.id;
+      signer.dispose();
+    } catch {
+      id = undefined;
+    }
+    if (id !== entry.id) mismatched.push(entry);
+  }
+  return mismatched;
+}
@@ -0,0 +1,241 @@
+/**
+ * Identity migration
+ *
+ * A SeedID is a pure function of the passphrase and KDF parameters, so changing either yields a
+ * new set of keys. A migration delegation is the bridge: a timestamped statement that links each
+ * public identifier of the old identity (npub, did:key, ETH/BTC/SOL addresses) to its counterpart
+ * in the new one, signed by both sides of every link with that identifier's own scheme:
+ *
+ * - nostr: BIP-340 over SHA-256(statement), as core's nostrSigner
+ * - did:key: Ed25519 over the statement (the Ed25519 did:key root)
+ * - eth: EIP-191 personal_sign; btc: BIP-137; sol: Ed25519 over the raw statement
+ *
+ * The old signatures prove the old identity authorised the move; the new ones prove the new
+ * identity accepted it, so nobody can "migrate" a user to keys they do not hold. Repeated
+ * rotations form a chain: each statement names the migrationId() of the one before it, and a
+ * relying party follows an identifier through the chain with resolveMigratedIdentifier().
+ *
+ * Identifiers and signature schemes are those of identifiers.ts. This lives in @seedid/wallets
+ * (rather than core) because it covers the chain addresses.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { canonicalJson } from '@seedid/core';
+import type { MasterKeySource } from '@seedid/core';
+import { identifierSigner, verifyIdentifierSignature } from './identifiers.js';
+import type { IdentifierSigner } from './identifiers.js';
+
+export const MIGRATION_TYPE = 'seedid-migration' as const;
+export const MIGRATION_VERSION = 1 as const;
+/** How far in the future (seconds) a statement's issuedAt may be before it is rejected. */
+export const MIGRATION_CLOCK_SKEW_SEC = 300;
+
+export type MigrationIdentifierKind = 'nostr' | 'did:key' | 'eth' | 'btc' | 'sol';
+export const MIGRATION_IDENTIFIER_KINDS: readonly MigrationIdentifierKind[] = ['nostr', 'did:key', 'eth', 'btc', 'sol'];
+
+/** npub, did:key and the account addresses, by kind. */
+export type MigrationIdentifiers = Record<MigrationIdentifierKind, string>;
+
+export type MigrationLink = { kind: MigrationIdentifierKind; from: string; to: string };
+
+export type MigrationStatement = {
+  type: typeof MIGRATION_TYPE;
+  version: typeof MIGRATION_VERSION;
+  /** Unix seconds. */
+  issuedAt: number;
+  /** migrationId() of the previous delegation in the chain; absent for the first rotation. */
+  previous?: string;
+  links: MigrationLink[];
+};
+
+/** Signature (hex) over migrationStatementBytes() by the `from` (old) or `to` (new) identifier. */
+export type MigrationProof = { kind: MigrationIdentifierKind; role: 'old' | 'new'; signature: string };
+
+export type MigrationDelegation = { statement: MigrationStatement; proofs: MigrationProof[] };
+
+export type MigrationOptions = {
+  /** Identifiers to migrate (default: all five). */
+  kinds?: MigrationIdentifierKind[];
+  /** Account index for the ETH/BTC/SOL addresses (default 0). */
+  index?: number;
+  /** Unix seconds (default: now). */
+  issuedAt?: number;
+  /** The delegation this one follows, when rotating an already-migrated identity. */
+  previous?: MigrationDelegation;
+};
+
+export type MigrationVerifyOptions = {
+  /** Unix seconds used for the clock-skew check (default: now). */
+  now?: number;
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// did:key links use the Ed25519 did:key (the identifierSigner default)
+function signerFor(master: MasterKeySource, kind: MigrationIdentifierKind, index: number): Promise<IdentifierSigner> {
+  return identifierSigner(master, { kind, index });
+}
+
+/** The public identifiers a migration links for this master key. */
+export async function migrationIdentifiers(master: MasterKeySource, opts?: { index?: number }): Promise<MigrationIdentifiers> {
+  const out = {} as MigrationIdentifiers;
+  for (const kind of MIGRATION_IDENTIFIER_KINDS) {
+    const signer = await signerFor(master, kind, opts?.index ?? 0);
+    out[kind] = signer.id;
+    signer.dispose();
+  }
+  return out;
+}
+
+/** The exact bytes every proof signs: canonical (sorted-key) JSON of the statement. */
+export function migrationStatementBytes(statement: MigrationStatement): Uint8Array {
+  return new TextEncoder().encode(canonicalJson(statement));
+}
+
+/** Hex SHA-256 of the statement; the next delegation in a chain references it as `previous`. */
+export function migrationId(delegation: MigrationDelegation): string {
+  return bytesToHex(sha256(migrationStatementBytes(delegation.statement)));
+}
+
+/**
+ * Sign a delegation from the old identity to the new one. Both master keys (or sessions) are
+ * needed: the old one authorises each link and the new one accepts it.
+ */
+export async function createMigrationDelegation(
+  oldMaster: MasterKeySource,
+  newMaster: MasterKeySource,
+  opts?: MigrationOptions
+): Promise<MigrationDelegation> {
+  const kinds = opts?.kinds ?? MIGRATION_IDENTIFIER_KINDS;
+  if (kinds.length === 0) throw new Error('A migration needs at least one identifier kind');
+  for (const kind of kinds) {
+    if (!MIGRATION_IDENTIFIER_KINDS.includes(kind)) throw new Error(`Unsupported identifier kind: ${String(kind)}`);
+  }
+  if (new Set(kinds).size !== kinds.length) throw new Error('Duplicate identifier kind');
+  const index = opts?.index ?? 0;
+  const issuedAt = opts?.issuedAt ?? now();
+  if (!Number.isSafeInteger(issuedAt) || issuedAt < 0) throw new Error('issuedAt must be unix seconds');
+  if (opts?.previous && issuedAt <= opts.previous.statement.issuedAt) {
+    throw new Error('issuedAt must be later than the previous delegation');
+  }
+
+  const signers: { kind: MigrationIdentifierKind; old: IdentifierSigner; next: IdentifierSigner }[] = [];
+  try {
+    for (const kind of kinds) {
+      const old = await signerFor(oldMaster, kind, index);
+      const next = await signerFor(newMaster, kind, index).catch((err) => {
+        old.dispose();
+        throw err;
+      });
+      signers.push({ kind, old, next });
+      if (old.id === next.id) throw new Error(`Old and new ${kind} identifiers are the same`);
+    }
+    const statement: MigrationStatement = {
+      type: MIGRATION_TYPE,
+      version: MIGRATION_VERSION,
+      issuedAt,
+      ...(opts?.previous ? { previous: migrationId(opts.previous) } : {}),
+      links: signers.map(({ kind, old, next }) => ({ kind, from: old.id, to: next.id })),
+    };
+    const message = migrationStatementBytes(statement);
+    const proofs: MigrationProof[] = [];
+    for (const { kind, old, next } of signers) {
+      proofs.push({ kind, role: 'old', signature: bytesToHex(await old.signMessage(message)) });
+      proofs.push({ kind, role: 'new', signature: bytesToHex(await next.signMessage(message)) });
+    }
+    return { statement, proofs };
+  } finally {
+    for (const { old, next } of signers) {
+      old.dispose();
+      next.dispose();
+    }
+  }
+}
+
+function wellFormed(delegation: MigrationDelegation): boolean {
+  const statement = delegation?.statement;
+  if (!statement || statement.type !== MIGRATION_TYPE || statement.version !== MIGRATION_VERSION) return false;
+  if (!Number.isSafeInteger(statement.issuedAt) || statement.issuedAt < 0) return false;
+  if (statement.previous !== undefined && !/^[0-9a-f]{64}$/.test(statement.previous)) return false;
+  if (!Array.isArray(statement.links) || statement.links.length === 0 || !Array.isArray(delegation.proofs)) return false;
+  const kinds = statement.links.map((l) => l?.kind);
+  if (new Set(kinds).size !== kinds.length) return false;
+  return statement.links.every(
+    (l) =>
+      l != null &&
+      MIGRATION_IDENTIFIER_KINDS.includes(l.kind) &&
+      typeof l.from === 'string' &&
+      typeof l.to === 'string' &&
+      l.from !== l.to
+  );
+}
+
+/**
+ * Check one delegation: well-formed, not issued in the future, and carrying a valid old and new
+ * signature for every link (and nothing else).
+ */
+export function verifyMigrationDelegation(delegation: MigrationDelegation, opts?: MigrationVerifyOptions): boolean {
+  if (!wellFormed(delegation)) return false;
+  const { statement, proofs } = delegation;
+  if (statement.issuedAt > (opts?.now ?? now()) + MIGRATION_CLOCK_SKEW_SEC) return false;
+  if (proofs.length !== statement.links.length * 2) return false;
+  const message = migrationStatementBytes(statement);
+  return statement.links.every((link) =>
+    (['old', 'new'] as const).every((role) => {
+      const matching = proofs.filter((p) => p?.kind === link.kind && p.role === role);
+      if (matching.length !== 1 || typeof matching[0].signature !== 'string' || !/^([0-9a-f]{2})+$/.test(matching[0].signature)) {
+        return false;
+      }
+      const identifier = role === 'old' ? link.from : link.to;
+      return verifyIdentifierSignature(link.kind, identifier, hexToBytes(matching[0].signature), message);
+    })
+  );
+}
+
+/**
+ * Check a chain of delegations, oldest first: each one verifies, references the migrationId()
+ * of its predecessor, is issued strictly later, and migrates each identifier from where the
+ * previous rotation left it.
+ */
+export function verifyMigrationChain(chain: MigrationDelegation[], opts?: MigrationVerifyOptions): boolean {
+  if (!Array.isArray(chain) || chain.length === 0) return false;
+  const current = new Map<MigrationIdentifierKind, string>();
+  for (let i = 0; i < chain.length; i++) {
+    const delegation = chain[i];
+    if (!verifyMigrationDelegation(delegation, opts)) return false;
+    const { statement } = delegation;
+    if (i === 0) {
+      if (statement.previous !== undefined) return false;
+    } else {
+      const prior = chain[i - 1];
+      if (statement.previous !== migrationId(prior) || statement.issuedAt <= prior.statement.issuedAt) return false;
+    }
+    for (const link of statement.links) {
+      const expected = current.get(link.kind);
+      if (expected !== undefined && expected !== link.from) return false;
+      current.set(link.kind, link.to);
+    }
+  }
+  return true;
+}
+
+/**
+ * Follow an identifier (npub, did:key or address) through a verified chain and return where it
+ * lives now; identifiers the chain does not mention are returned unchanged.
+ *
+ * @throws If the chain does not verify.
+ */
+export function resolveMigratedIdentifier(
+  chain: MigrationDelegation[],
+  identifier: string,
+  opts?: MigrationVerifyOptions
+): string {
+  if (!verifyMigrationChain(chain, opts)) throw new Error('Invalid migration chain');
+  let current = identifier;
+  for (const { statement } of chain) {
+    const link = statement.links.find((l) => l.from === current);
+    if (link) current = link.to;
+  }
+  return current;
+}
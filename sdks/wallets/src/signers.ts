@@ -0,0 +1,202 @@
+/**
+ * Wallet signers
+ *
+ * Opaque @seedid/core Signers for the chain accounts, so applications can sign without holding
+ * the private key returned by derive*SigningKey(). Each signer also carries the account address,
+ * and each chain has a verify helper that checks a signature against an address.
+ *
+ * - ETH: ECDSA; signMessage is EIP-191 personal_sign, signatures are 65 bytes r || s || v (27/28),
+ *   including signDigest
+ * - BTC: ECDSA; signMessage is the BIP-137 "Bitcoin Signed Message" (65 bytes, header 39-42 for
+ *   P2WPKH); signDigest returns a 64-byte compact r || s
+ * - SOL: Ed25519; signMessage signs the raw message bytes (as Phantom/Solflare signMessage)
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import bs58 from 'bs58';
+import {
+  createEcdsaSigner,
+  createEd25519Signer,
+  recoverEcdsaPublicKey,
+  verifyEd25519Message,
+  isSeedIdSession,
+} from '@seedid/core';
+import type { Signer, SignerMessage } from '@seedid/core';
+import { deriveEthSigningKey, ethAddressFromPublicKey } from './eth.js';
+import { deriveBtcSigningKey, btcAddressFromPublicKey } from './btc.js';
+import { deriveSolSigningKey } from './sol.js';
+import { deriveSolSigningKeySlip10 } from './sol_slip10.js';
+import type { SolDerivationOptions } from './sol_slip10.js';
+import type { Chain } from './derivation.js';
+import type { RootSource } from './utils.js';
+
+export interface WalletSigner extends Signer {
+  readonly chain: Chain;
+  readonly address: string;
+}
+
+function messageBytes(message: SignerMessage): Uint8Array {
+  return typeof message === 'string' ? new TextEncoder().encode(message) : message;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+/** Bitcoin CompactSize length prefix. */
+function varint(n: number): Uint8Array {
+  if (n < 0xfd) return Uint8Array.of(n);
+  if (n <= 0xffff) return Uint8Array.of(0xfd, n & 0xff, n >> 8);
+  const out = new Uint8Array(5);
+  out[0] = 0xfe;
+  new DataView(out.buffer).setUint32(1, n, true);
+  return out;
+}
+
+/** keccak256("\x19Ethereum Signed Message:\n" + len(message) + message) */
+export function hashEthMessage(message: SignerMessage): Uint8Array {
+  const bytes = messageBytes(message);
+  return keccak_256(concat(new TextEncoder().encode(`\x19Ethereum Signed Message:\n${bytes.length}`), bytes));
+}
+
+/** sha256d(varstr("Bitcoin Signed Message:\n") || varstr(message)) */
+export function hashBtcMessage(message: SignerMessage): Uint8Array {
+  const bytes = messageBytes(message);
+  const magic = new TextEncoder().encode('Bitcoin Signed Message:\n');
+  return sha256(sha256(concat(varint(magic.length), magic, varint(bytes.length), bytes)));
+}
+
+// Derivation helpers may return the root itself as the private key (SOL index 0); the core
+// signer zeroizes what it is given, so never hand it the caller's root.
+function ownKey(root: RootSource, privateKey: Uint8Array): Uint8Array {
+  return privateKey === root ? privateKey.slice() : privateKey;
+}
+
+function sessionOf(root: RootSource) {
+  return isSeedIdSession(root) ? { session: root } : {};
+}
+
+function walletSigner(
+  inner: Signer,
+  chain: Chain,
+  address: string,
+  reformat?: { message: (sig: Uint8Array) => Uint8Array; digest: (sig: Uint8Array) => Uint8Array }
+): WalletSigner {
+  return {
+    chain,
+    address,
+    curve: inner.curve,
+    scheme: inner.scheme,
+    get disposed() {
+      return inner.disposed;
+    },
+    getPublicKey: () => inner.getPublicKey(),
+    signMessage: async (message) => {
+      const sig = await inner.signMessage(message);
+      return reformat ? reformat.message(sig) : sig;
+    },
+    signDigest: async (digest) => {
+      const sig = await inner.signDigest(digest);
+      return reformat ? reformat.digest(sig) : sig;
+    },
+    dispose: () => inner.dispose(),
+    [Symbol.dispose]: () => inner.dispose(),
+  };
+}
+
+// noble's recovered format is recovery byte || r || s
+function toEthSignature(sig: Uint8Array): Uint8Array {
+  return concat(sig.subarray(1), Uint8Array.of(27 + sig[0]));
+}
+
+/** Signer for the ETH account at m/44'/60'/0'/0/{index}. */
+export async function ethSigner(root: RootSource, index: number = 0): Promise<WalletSigner> {
+  const key = await deriveEthSigningKey(root, index);
+  const inner = createEcdsaSigner(ownKey(root, key.privateKey), {
+    hashMessage: hashEthMessage,
+    format: 'recovered',
+    ...sessionOf(root),
+  });
+  return walletSigner(inner, 'eth', key.address, { message: toEthSignature, digest: toEthSignature });
+}
+
+/** Verify a 65-byte personal_sign signature (r || s || v) against an ETH address. */
+export function verifyEthMessage(signature: Uint8Array, message: SignerMessage, address: string): boolean {
+  if (!(signature instanceof Uint8Array) || signature.length !== 65) return false;
+  const v = signature[64];
+  const recovery = v >= 27 ? v - 27 : v;
+  if (recovery !== 0 && recovery !== 1) return false;
+  try {
+    const publicKey = recoverEcdsaPublicKey(concat(Uint8Array.of(recovery), signature.subarray(0, 64)), hashEthMessage(message));
+    return ethAddressFromPublicKey(publicKey).toLowerCase() === address.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/** Signer for the BTC P2WPKH account at m/84'/0'/0'/0/{index}. */
+export async function btcSigner(root: RootSource, index: number = 0): Promise<WalletSigner> {
+  const key = await deriveBtcSigningKey(root, index);
+  const inner = createEcdsaSigner(ownKey(root, key.privateKey), {
+    hashMessage: hashBtcMessage,
+    format: 'recovered',
+    ...sessionOf(root),
+  });
+  return walletSigner(inner, 'btc', key.address, {
+    // BIP-137 header for a P2WPKH address: 39 + recovery id
+    message: (sig) => concat(Uint8Array.of(39 + sig[0]), sig.subarray(1)),
+    digest: (sig) => sig.slice(1),
+  });
+}
+
+/**
+ * Verify a BIP-137 message signature (65 bytes or its base64 form) against a P2WPKH address.
+ * Compressed-key headers (31-34 and 39-42) are accepted.
+ */
+export function verifyBtcMessage(signature: Uint8Array | string, message: SignerMessage, address: string): boolean {
+  let sig: Uint8Array;
+  try {
+    sig = typeof signature === 'string' ? Uint8Array.from(atob(signature), (c) => c.charCodeAt(0)) : signature;
+  } catch {
+    return false;
+  }
+  if (sig.length !== 65) return false;
+  const header = sig[0];
+  if (!((header >= 31 && header <= 34) || (header >= 39 && header <= 42))) return false;
+  try {
+    const publicKey = recoverEcdsaPublicKey(concat(Uint8Array.of((header - 27) & 3), sig.subarray(1)), hashBtcMessage(message));
+    return btcAddressFromPublicKey(publicKey) === address;
+  } catch {
+    return false;
+  }
+}
+
+/** Signer for the SOL account of deriveSolSigningKey(root, index). */
+export async function solSigner(root: RootSource, index: number = 0): Promise<WalletSigner> {
+  const key = await deriveSolSigningKey(root, index);
+  return walletSigner(createEd25519Signer(ownKey(root, key.privateKey), sessionOf(root)), 'sol', key.address);
+}
+
+/** Signer for the SOL account of deriveSolSigningKeySlip10(root, opts) (Phantom/Solflare paths). */
+export async function solSignerSlip10(root: RootSource, opts?: SolDerivationOptions): Promise<WalletSigner> {
+  const key = await deriveSolSigningKeySlip10(root, opts);
+  return walletSigner(createEd25519Signer(ownKey(root, key.privateKey), sessionOf(root)), 'sol', key.address);
+}
+
+/** Verify an Ed25519 signature over the raw message against a base58 SOL address. */
+export function verifySolMessage(signature: Uint8Array, message: SignerMessage, address: string): boolean {
+  let publicKey: Uint8Array;
+  try {
+    publicKey = bs58.decode(address);
+  } catch {
+    return false;
+  }
+  return publicKey.length === 32 && verifyEd25519Message(signature, message, publicKey);
+}
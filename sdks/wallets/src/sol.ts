@@ -9,6 +9,8 @@ import * as ed from '@noble/ed25519';
 import { sha512 } from '@noble/hashes/sha2.js';
 import bs58 from 'bs58';
 import { WalletAccount, SigningKey } from './derivation.js';
+import { withSessionRoot, withSessionSigningKey } from './utils.js';
+import type { RootSource } from './utils.js';
 
 /**
  * Derive Ed25519 seed for Solana from root and index.
@@ -45,9 +47,11 @@ function deriveSolSeed(root: Uint8Array, index: number): Uint8Array {
  * console.log(account.address); // DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK
  */
 export async function deriveSolAddress(
-  root: Uint8Array,
+  root: RootSource,
   index: number = 0
 ): Promise<WalletAccount> {
+  const fromSession = await withSessionRoot(root, 'sol', (r) => deriveSolAddress(r, index));
+  if (fromSession) return fromSession;
   if (!(root instanceof Uint8Array) || root.length !== 32) throw new Error('SOL root must be 32 bytes');
   if (!Number.isInteger(index) || index < 0) throw new Error('index must be a non-negative integer');
 
@@ -75,15 +79,18 @@ export async function deriveSolAddress(
  * - Keep private keys in memory only
  * - Use zeroize() to clear after signing
  * - Never log or transmit private keys
+ * Prefer solSigner() (./signers.ts), which signs without exposing the key.
  * 
  * @param root 32-byte SOL root from forWallet(master, 'sol')
  * @param index Account index (default 0)
  * @returns SigningKey with Ed25519 private key included
  */
 export async function deriveSolSigningKey(
-  root: Uint8Array,
+  root: RootSource,
   index: number = 0
 ): Promise<SigningKey> {
+  const fromSession = await withSessionSigningKey(root, 'sol', (r) => deriveSolSigningKey(r, index));
+  if (fromSession) return fromSession;
   if (!(root instanceof Uint8Array) || root.length !== 32) throw new Error('SOL root must be 32 bytes');
   if (!Number.isInteger(index) || index < 0) throw new Error('index must be a non-negative integer');
 
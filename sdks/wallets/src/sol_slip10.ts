@@ -1,6 +1,8 @@
 import * as ed from '@noble/ed25519'
 import bs58 from 'bs58'
 import { parseSlip10Path, deriveSlip10Ed25519 } from './slip10.js'
+import { withSessionRoot, withSessionSigningKey } from './utils.js'
+import type { RootSource } from './utils.js'
 
 export type SolDerivationPreset = 'phantom' | 'solflare' | 'custom'
 
@@ -33,9 +35,11 @@ function buildPath(opts?: SolDerivationOptions): string {
 }
 
 export async function deriveSolAddressSlip10(
-  root: Uint8Array,
+  root: RootSource,
   opts?: SolDerivationOptions
 ): Promise<{ address: string; publicKey: Uint8Array }> {
+  const fromSession = await withSessionRoot(root, 'sol', (r) => deriveSolAddressSlip10(r, opts))
+  if (fromSession) return fromSession
   if (!(root instanceof Uint8Array) || root.length !== 32) throw new Error('SOL root must be 32 bytes')
   const pathStr = buildPath(opts)
   const path = parseSlip10Path(pathStr)
@@ -45,10 +49,13 @@ export async function deriveSolAddressSlip10(
   return { address, publicKey }
 }
 
+// Prefer solSignerSlip10() (./signers.ts), which signs without exposing the key.
 export async function deriveSolSigningKeySlip10(
-  root: Uint8Array,
+  root: RootSource,
   opts?: SolDerivationOptions
 ): Promise<{ privateKey: Uint8Array; publicKey: Uint8Array; address: string }> {
+  const fromSession = await withSessionSigningKey(root, 'sol', (r) => deriveSolSigningKeySlip10(r, opts))
+  if (fromSession) return fromSession
   if (!(root instanceof Uint8Array) || root.length !== 32) throw new Error('SOL root must be 32 bytes')
   const pathStr = buildPath(opts)
   const path = parseSlip10Path(pathStr)
@@ -1,7 +1,56 @@
+import { isSeedIdSession, zeroize } from '@seedid/core';
+import type { SeedIdSession } from '@seedid/core';
+import type { Chain } from './derivation.js';
+
 /**
- * Zero out a Uint8Array in-place to reduce the chance of sensitive data lingering in memory.
- * Note: This is a best-effort utility; JS runtimes may copy/optimize buffers.
+ * Zero out Uint8Arrays in-place to reduce the chance of sensitive data lingering in memory.
+ * Re-exported from @seedid/core so buffers from decryptKeystore and the wallet helpers are
+ * wiped by the same function. Best-effort: JS runtimes may copy/optimize buffers.
  */
-export function zeroize(buf: Uint8Array): void {
-  for (let i = 0; i < buf.length; i++) buf[i] = 0;
+export { zeroize } from '@seedid/core';
+
+// Scoped keys from a session also leave its tracking set when released.
+export function release(buf: Uint8Array): void {
+  if (Symbol.dispose in buf) (buf as Uint8Array & Disposable)[Symbol.dispose]();
+  else zeroize(buf);
+}
+
+/** A chain root, or a SeedIdSession the helper derives the chain root from. */
+export type RootSource = Uint8Array | SeedIdSession;
+
+/**
+ * Resolve a RootSource for one call: raw roots pass through; a session derives the chain root,
+ * which is zeroized as soon as `fn` settles. Returns undefined for raw roots so callers fall through.
+ */
+export async function withSessionRoot<T>(
+  source: RootSource,
+  chain: Chain,
+  fn: (root: Uint8Array) => Promise<T>
+): Promise<T | undefined> {
+  if (!isSeedIdSession(source)) return undefined;
+  const root = source.wallet(chain);
+  try {
+    return await fn(root);
+  } finally {
+    root[Symbol.dispose]();
+  }
+}
+
+/**
+ * withSessionRoot() for signing keys: the private key is copied out before the root is wiped (it
+ * may alias the root) and adopted by the session, so lock() zeroizes it.
+ */
+export async function withSessionSigningKey<T extends { privateKey: Uint8Array }>(
+  source: RootSource,
+  chain: Chain,
+  fn: (root: Uint8Array) => Promise<T>
+): Promise<T | undefined> {
+  if (!isSeedIdSession(source)) return undefined;
+  const key = (await withSessionRoot(source, chain, async (root) => {
+    const derived = await fn(root);
+    const privateKey = derived.privateKey.slice();
+    zeroize(derived.privateKey);
+    return { ...derived, privateKey };
+  }))!;
+  return { ...key, privateKey: source.adopt(key.privateKey) };
 }